@@ -6,6 +6,7 @@ import { Platform } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { HistoryProvider } from "@/contexts/HistoryContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { RepairPricesProvider } from "@/contexts/RepairPricesContext";
 import { PhoneMockup } from "@/components/PhoneMockup";
 
 SplashScreen.preventAutoHideAsync();
@@ -21,10 +22,15 @@ function RootLayoutNav() {
       <Stack.Screen name="capture-after-initial" />
       <Stack.Screen name="section-list" />
       <Stack.Screen name="capture-section" />
+      <Stack.Screen name="capture-video" />
       <Stack.Screen name="capture-after-section" />
+      <Stack.Screen name="capture-identity" />
       <Stack.Screen name="results" />
       <Stack.Screen name="results-after" />
       <Stack.Screen name="counter-claim" />
+      <Stack.Screen name="repair-prices" />
+      <Stack.Screen name="dispute" />
+      <Stack.Screen name="verify" />
       <Stack.Screen 
         name="privacy-policy" 
         options={{ 
@@ -136,9 +142,11 @@ export default function RootLayout() {
       <GestureHandlerRootView style={{ flex: 1 }}>
         <AuthProvider>
           <HistoryProvider>
-            <PhoneMockup>
-              <RootLayoutNav />
-            </PhoneMockup>
+            <RepairPricesProvider>
+              <PhoneMockup>
+                <RootLayoutNav />
+              </PhoneMockup>
+            </RepairPricesProvider>
           </HistoryProvider>
         </AuthProvider>
       </GestureHandlerRootView>
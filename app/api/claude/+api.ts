@@ -16,7 +16,7 @@ export async function POST(req: Request) {
   }
 
   try {
-    const { promptText, imageBase64, imageMime } = await req.json();
+    const { promptText, imageBase64, imageMime, attachments } = await req.json();
 
     const apiKey = process.env.ANTHROPIC_API_KEY || process.env.EXPO_PUBLIC_CLAUDE_API_KEY;
     
@@ -24,17 +24,29 @@ export async function POST(req: Request) {
       return Response.json({ error: 'ANTHROPIC_API_KEY is not set' }, { status: 500 });
     }
 
-    // Determine MIME type for API
-    let mimeType = imageMime;
-    if (!mimeType || mimeType === 'image/jpg') {
-      mimeType = 'image/jpeg';
-    }
+    // Attachments (images + PDFs) plus the legacy single image
+    const files: { data: string; mimeType?: string }[] = [
+      ...(Array.isArray(attachments) ? attachments : []),
+      ...(imageBase64 ? [{ data: imageBase64, mimeType: imageMime }] : []),
+    ];
 
-    // Remove data URI prefix if present
-    let base64Data = imageBase64;
-    if (base64Data.includes(',')) {
-      base64Data = base64Data.split(',')[1];
-    }
+    const contentBlocks = files.map(file => {
+      // Remove data URI prefix if present
+      const base64Data = file.data.includes(',') ? file.data.split(',')[1] : file.data;
+      let mimeType = file.mimeType;
+      if (!mimeType || mimeType === 'image/jpg') {
+        mimeType = 'image/jpeg';
+      }
+
+      return {
+        type: mimeType === 'application/pdf' ? 'document' : 'image',
+        source: {
+          type: 'base64',
+          media_type: mimeType,
+          data: base64Data,
+        },
+      };
+    });
 
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
@@ -54,14 +66,7 @@ export async function POST(req: Request) {
                 type: 'text',
                 text: promptText,
               },
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: mimeType,
-                  data: base64Data,
-                },
-              },
+              ...contentBlocks,
             ],
           },
         ],
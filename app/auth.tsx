@@ -206,6 +206,13 @@ export default function AuthScreen() {
                 : "Don't have an account? Sign up"}
             </Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.switchButton}
+            onPress={() => router.push('/verify')}
+          >
+            <Text style={styles.switchButtonText}>Verify an inspection report</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.subscriptionSection}>
@@ -12,108 +12,32 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { Camera, ArrowLeft } from 'lucide-react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useMutation } from '@tanstack/react-query';
-import { analyzeWithClaude } from '@/services/claude';
-
-const INITIAL_PHOTO_PROMPT = `You are a vehicle inspection assistant. Analyze this photo to determine if it shows a rental vehicle and identify which sections need to be documented for RETURN inspection.
-
-IMPORTANT: You MUST return a valid JSON object in this exact format:
-{
-  "isVehicle": true or false,
-  "sections": ["section1", "section2", ...] or []
-}
-
-Rules:
-1. If the image does NOT show a vehicle, set "isVehicle" to false and "sections" to an empty array.
-2. If the image DOES show a vehicle, set "isVehicle" to true and provide a JSON array of section names in a natural walk-around sequence.
-3. Arrange sections in a logical order for photographing (e.g., Front → Driver Side → Back → Passenger Side → Front Wheel → Driver Rear Wheel → Passenger Front Wheel → Passenger Rear Wheel → Interior Front → Interior Back).
-4. Sections should be broad categories covering all major areas: Front, Back, Driver Side, Passenger Side, Wheels (or individual wheels), Interior Front, Interior Back, etc.
-5. Return ONLY the JSON object, no markdown, no code blocks, no additional text.
-
-Example for a vehicle:
-{"isVehicle": true, "sections": ["Front", "Driver Side", "Back", "Passenger Side", "Front Wheels", "Rear Wheels", "Interior Front", "Interior Back"]}
-
-Example for non-vehicle:
-{"isVehicle": false, "sections": []}`;
+import { useHistory } from '@/contexts/HistoryContext';
+import { AnalysisError } from '@/services/analysis';
+import { identifyVehicleType } from '@/services/walkAround';
+import { DEFAULT_VEHICLE_TYPE, VehicleType, returnPlan } from '@/lib/walkAround';
+import { recordCapture } from '@/services/evidence';
 
 export default function CaptureAfterInitialScreen() {
   const [permission, requestPermission] = useCameraPermissions();
   const cameraRef = useRef<CameraView>(null);
   const router = useRouter();
   const { historyId } = useLocalSearchParams<{ historyId: string }>();
+  const { getHistoryItem } = useHistory();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // The return walk-around repeats the pickup sections, so every return photo has a counterpart
+  const pickup = historyId ? getHistoryItem(historyId) : undefined;
+
   const analysisMutation = useMutation({
     mutationFn: async ({ photoBase64, photoUri, photoMime, photoDataUri }: { 
       photoBase64: string; 
       photoUri: string; 
       photoMime: string;
       photoDataUri: string;
-    }): Promise<{ sections: string[]; photoDataUri: string; isVehicle: boolean }> => {
-      const analysisText = await analyzeWithClaude({
-        promptText: INITIAL_PHOTO_PROMPT,
-        imageBase64: photoBase64,
-        imageMime: photoMime,
-      });
-
-      let sections: string[] = [];
-      let isVehicle = true;
-      
-      try {
-        let cleaned = analysisText.trim();
-        cleaned = cleaned.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        
-        let parsed: any;
-        try {
-          parsed = JSON.parse(cleaned);
-          if (typeof parsed === 'string') {
-            parsed = JSON.parse(parsed);
-          }
-          if (parsed && typeof parsed === 'object' && parsed.text && typeof parsed.text === 'string') {
-            parsed = JSON.parse(parsed.text);
-          }
-        } catch (e) {
-          const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            parsed = JSON.parse(jsonMatch[0]);
-            if (typeof parsed === 'string') {
-              parsed = JSON.parse(parsed);
-            }
-          } else {
-            throw new Error('No JSON found in response');
-          }
-        }
-        
-        if (parsed && typeof parsed === 'object') {
-          if (parsed.isVehicle === false) {
-            isVehicle = false;
-            sections = [];
-          } else if (parsed.isVehicle === true && Array.isArray(parsed.sections)) {
-            sections = parsed.sections;
-            isVehicle = true;
-          } else {
-            throw new Error('Invalid response format');
-          }
-        } else {
-          throw new Error('Response is not a valid object');
-        }
-        
-        if (isVehicle && (!Array.isArray(sections) || sections.length === 0)) {
-          throw new Error('Invalid sections array');
-        }
-      } catch (error) {
-        console.error('Failed to parse sections:', error, 'Raw response:', analysisText);
-        const lowerText = analysisText.toLowerCase();
-        if (lowerText.includes("don't see") || lowerText.includes("not a vehicle") || 
-            lowerText.includes("not a car") || lowerText.includes("no vehicle") ||
-            lowerText.includes('"isvehicle": false') || lowerText.includes('"isvehicle":false')) {
-          isVehicle = false;
-          sections = [];
-        } else {
-          sections = ['Front', 'Back', 'Driver Side', 'Passenger Side', 'Wheels', 'Interior Front', 'Interior Back'];
-        }
-      }
-
-      return { sections, photoDataUri, isVehicle };
+    }): Promise<{ vehicleType?: VehicleType; photoDataUri: string; isVehicle: boolean }> => {
+      const { vehicleType, isVehicle } = await identifyVehicleType(photoBase64, photoMime);
+      return { vehicleType, photoDataUri, isVehicle };
     },
     onSuccess: (result) => {
       setIsAnalyzing(false);
@@ -136,37 +60,46 @@ export default function CaptureAfterInitialScreen() {
         return;
       }
       
-      if (result.sections.length === 0) {
-        Alert.alert(
-          'No Sections Found',
-          'Could not identify vehicle sections. Please try taking another photo.',
-          [
-            {
-              text: 'Retake Photo',
-              onPress: () => {
-                setIsAnalyzing(false);
-              },
-            },
-          ],
-          { cancelable: false }
-        );
-        return;
-      }
-      
       router.push({
         pathname: '/section-list',
         params: {
           mainPhoto: result.photoDataUri,
-          sections: JSON.stringify(result.sections),
+          walkAroundPlan: JSON.stringify(returnPlan(pickup, result.vehicleType || DEFAULT_VEHICLE_TYPE)),
           isAfter: 'true',
           historyId: historyId || '',
         },
       });
     },
-    onError: (error) => {
+    onError: (error, variables) => {
       console.error('Analysis error:', error);
-      Alert.alert('Error', 'Failed to analyze the vehicle. Please try again.');
       setIsAnalyzing(false);
+
+      // The photo was received but the reply was unusable - let the user continue
+      // with the pickup sections rather than silently guessing
+      if (error instanceof AnalysisError && error.code === 'invalid_response') {
+        Alert.alert(
+          'Analysis Unclear',
+          'We could not recognize the vehicle in this photo. Retake the photo or continue with the pickup sections.',
+          [
+            { text: 'Retake Photo', style: 'cancel' },
+            {
+              text: 'Use Pickup Sections',
+              onPress: () => router.push({
+                pathname: '/section-list',
+                params: {
+                  mainPhoto: variables.photoDataUri,
+                  walkAroundPlan: JSON.stringify(returnPlan(pickup, DEFAULT_VEHICLE_TYPE)),
+                  isAfter: 'true',
+                  historyId: historyId || '',
+                },
+              }),
+            },
+          ]
+        );
+        return;
+      }
+
+      Alert.alert('Error', 'Failed to analyze the vehicle. Please try again.');
     },
   });
 
@@ -202,6 +135,7 @@ export default function CaptureAfterInitialScreen() {
           ? photo.base64.split(',')[1] || photo.base64
           : photo.base64;
         const dataUri = `data:${mimeType};base64,${cleanBase64}`;
+        recordCapture(dataUri); // Hash, time and location as captured
         
         analysisMutation.mutate({
           photoBase64: photo.base64,
@@ -13,6 +13,11 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { Camera, ArrowLeft, ArrowRight } from 'lucide-react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { AfterSectionPhoto } from '@/contexts/HistoryContext';
+import { recordCapture } from '@/services/evidence';
+import { sectionFraming } from '@/lib/framing';
+import { PhotoQuality, passesQualityCheck, qualityIssueSummary } from '@/lib/photoQuality';
+import { checkPhotoQuality } from '@/services/photoQuality';
+import { FramingOverlay } from '@/components/FramingOverlay';
 
 interface SectionPhoto {
   section: string;
@@ -38,6 +43,8 @@ export default function CaptureAfterSectionScreen() {
   const [capturedPhotos, setCapturedPhotos] = useState<SectionPhoto[]>([]);
   const [photoTaken, setPhotoTaken] = useState(false);
   const [currentPhotoUri, setCurrentPhotoUri] = useState<string | null>(null);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [currentQuality, setCurrentQuality] = useState<PhotoQuality | null>(null); // Quality check of the photo on preview
 
   useEffect(() => {
     if (sectionsParam) {
@@ -60,6 +67,7 @@ export default function CaptureAfterSectionScreen() {
   useEffect(() => {
     setPhotoTaken(false);
     setCurrentPhotoUri(null);
+    setCurrentQuality(null);
   }, [currentIndex]);
 
   const proceedToResults = () => {
@@ -70,7 +78,7 @@ export default function CaptureAfterSectionScreen() {
     }));
 
     router.push({
-      pathname: '/results-after',
+      pathname: '/capture-identity', // Plate, VIN and dashboard, then the results
       params: {
         mainPhoto: mainPhoto || '',
         afterSectionPhotos: JSON.stringify(afterSectionPhotos),
@@ -80,7 +88,23 @@ export default function CaptureAfterSectionScreen() {
   };
 
   const handleCapture = useCallback(async () => {
-    if (!cameraRef.current) return;
+    if (!cameraRef.current || isCheckingQuality) return;
+
+    const acceptPhoto = (photoBase64: string, dataUri: string, mimeType: string, quality: PhotoQuality | null) => {
+      recordCapture(dataUri); // Hash, time and location as captured
+      
+      const newPhoto: SectionPhoto = {
+        section: sections[currentIndex],
+        photoUri: dataUri,
+        photoBase64,
+        photoMime: mimeType,
+      };
+      setCapturedPhotos(prev => [...prev, newPhoto]);
+      
+      setPhotoTaken(true);
+      setCurrentPhotoUri(dataUri);
+      setCurrentQuality(quality);
+    };
     
     try {
       const photo = await cameraRef.current.takePictureAsync({
@@ -110,23 +134,34 @@ export default function CaptureAfterSectionScreen() {
           ? photo.base64.split(',')[1] || photo.base64
           : photo.base64;
         const dataUri = `data:${mimeType};base64,${cleanBase64}`;
-        
-        const newPhoto: SectionPhoto = {
-          section: sections[currentIndex],
-          photoUri: dataUri,
-          photoBase64: photo.base64,
-          photoMime: mimeType,
-        };
-        setCapturedPhotos(prev => [...prev, newPhoto]);
-        
-        setPhotoTaken(true);
-        setCurrentPhotoUri(dataUri);
+
+        // Same on-device check as at pickup - return photos are compared against those
+        setIsCheckingQuality(true);
+        const quality = mimeType === 'image/jpeg'
+          ? await checkPhotoQuality(photo.uri, sectionFraming(sections[currentIndex]).minCoverage)
+          : null;
+        setIsCheckingQuality(false);
+
+        const photoBase64 = photo.base64;
+        if (quality && !passesQualityCheck(quality)) {
+          Alert.alert(
+            `Photo Quality ${quality.score}/100`,
+            qualityIssueSummary(quality),
+            [
+              { text: 'Retake', style: 'cancel' },
+              { text: 'Use Anyway', onPress: () => acceptPhoto(photoBase64, dataUri, mimeType, quality) },
+            ]
+          );
+          return;
+        }
+        acceptPhoto(photoBase64, dataUri, mimeType, quality);
       }
     } catch (error) {
       console.error('Capture error:', error);
       Alert.alert('Error', 'Failed to capture photo. Please try again.');
+      setIsCheckingQuality(false);
     }
-  }, [currentIndex, sections]);
+  }, [currentIndex, sections, isCheckingQuality]);
 
   if (!permission) {
     return (
@@ -167,6 +202,7 @@ export default function CaptureAfterSectionScreen() {
   const handleRetakePhoto = () => {
     setPhotoTaken(false);
     setCurrentPhotoUri(null);
+    setCurrentQuality(null);
     setCapturedPhotos(prev => prev.filter(p => p.section !== currentSection));
   };
 
@@ -201,6 +237,7 @@ export default function CaptureAfterSectionScreen() {
           facing="back"
           mode="picture"
         >
+          {currentSection && <FramingOverlay section={currentSection} />}
           <View style={styles.overlay}>
             {/* Navigation Context */}
             <View style={styles.navigationContext}>
@@ -253,6 +290,11 @@ export default function CaptureAfterSectionScreen() {
             <View style={styles.previewInstructionContainer}>
               <Text style={styles.previewTitle}>Photo Captured</Text>
               <Text style={styles.previewSubtitle}>{currentSection}</Text>
+              {currentQuality && (
+                <Text style={[styles.previewQuality, !passesQualityCheck(currentQuality) && styles.previewQualityLow]}>
+                  Quality {currentQuality.score}/100
+                </Text>
+              )}
             </View>
           </View>
         </View>
@@ -260,7 +302,12 @@ export default function CaptureAfterSectionScreen() {
 
       <SafeAreaView edges={['bottom']} style={styles.bottomArea}>
         <View style={styles.captureContainer}>
-          {photoTaken ? (
+          {isCheckingQuality ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#4A90A4" />
+              <Text style={styles.loadingText}>Checking photo...</Text>
+            </View>
+          ) : photoTaken ? (
             <View style={styles.buttonRow}>
               <TouchableOpacity
                 style={styles.retakeButton}
@@ -462,6 +509,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500' as const,
   },
+  previewQuality: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 8,
+  },
+  previewQualityLow: {
+    color: '#FFD700',
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
   bottomArea: {
     position: 'absolute',
     bottom: 0,
@@ -0,0 +1,770 @@
+/**
+ * Vehicle Identity Capture Screen
+ *
+ * Guided photos of the license plate, the VIN and the dashboard, taken after
+ * the section walk-around at pickup and at return. The plate, VIN, odometer
+ * and fuel level are read from the photos and shown for the user to confirm
+ * or correct before continuing to the results. Every step can be skipped and
+ * every value typed in by hand (e.g. when offline).
+ */
+
+import React, { useState, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Image,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, ArrowLeft } from 'lucide-react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useMutation } from '@tanstack/react-query';
+import { AfterSectionPhoto, VehicleSectionPhoto, useHistory } from '@/contexts/HistoryContext';
+import { recordCapture } from '@/services/evidence';
+import { isOnline } from '@/services/analysisQueue';
+import { readIdentityPhoto } from '@/services/vehicleIdentity';
+import {
+  IDENTITY_STEPS,
+  IdentityPhotoKind,
+  ODOMETER_UNITS,
+  OdometerUnit,
+  VehicleIdentity,
+  VehicleReadings,
+  formatOdometer,
+  formatFuelLevel,
+  isValidVin,
+} from '@/lib/vehicleIdentity';
+
+interface IdentityPhoto {
+  kind: IdentityPhotoKind;
+  photoUri: string;
+  status: 'reading' | 'read' | 'unreadable' | 'failed' | 'offline';
+}
+
+const STATUS_TEXT: Record<IdentityPhoto['status'], string> = {
+  reading: 'Reading...',
+  read: 'Read from photo - please check',
+  unreadable: 'Could not be read - please type it in',
+  failed: 'Reading failed - please type it in',
+  offline: 'Offline - please type it in',
+};
+
+// Identity fields each step fills in
+const STEP_FIELDS: Record<IdentityPhotoKind, (keyof VehicleIdentity)[]> = {
+  licensePlate: ['licensePlate', 'make', 'model', 'color'],
+  vin: ['vin'],
+  dashboard: [],
+};
+
+export default function CaptureIdentityScreen() {
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const router = useRouter();
+  const {
+    mainPhoto,
+    sectionPhotos,
+    walkAroundPlan,
+    walkAroundVideo,
+    afterSectionPhotos,
+    afterWalkAroundVideo,
+    historyId,
+  } = useLocalSearchParams<{
+    mainPhoto: string;
+    sectionPhotos?: string; // Pickup walk-around
+    walkAroundPlan?: string; // Pickup vehicle type and sections
+    walkAroundVideo?: string; // Pickup video the section photos were taken from
+    afterSectionPhotos?: string; // Return walk-around
+    afterWalkAroundVideo?: string; // Return video the return photos were taken from
+    historyId?: string;
+  }>();
+  const isReturn = afterSectionPhotos !== undefined;
+
+  const { getHistoryItem } = useHistory();
+  const pickup = isReturn && historyId ? getHistoryItem(historyId) : undefined;
+
+  const [stepIndex, setStepIndex] = useState(0);
+  const [photos, setPhotos] = useState<IdentityPhoto[]>([]);
+  const [identity, setIdentity] = useState<VehicleIdentity>({});
+  const [odometerText, setOdometerText] = useState('');
+  const [odometerUnit, setOdometerUnit] = useState<OdometerUnit>(pickup?.pickupReadings?.odometerUnit || 'km');
+  const [fuelText, setFuelText] = useState('');
+
+  const isReviewing = stepIndex >= IDENTITY_STEPS.length;
+  const step = IDENTITY_STEPS[Math.min(stepIndex, IDENTITY_STEPS.length - 1)];
+  const currentPhoto = photos.find(photo => photo.kind === step.kind);
+
+  const setStatus = (photoUri: string, status: IdentityPhoto['status']) => {
+    setPhotos(prev => prev.map(photo => (photo.photoUri === photoUri ? { ...photo, status } : photo)));
+  };
+
+  const readingMutation = useMutation({
+    mutationFn: async ({ kind, photoBase64, photoMime }: {
+      kind: IdentityPhotoKind;
+      photoUri: string;
+      photoBase64: string;
+      photoMime: string;
+    }) => readIdentityPhoto(kind, photoBase64, photoMime),
+    onSuccess: (result, variables) => {
+      setStatus(variables.photoUri, result.isReadable ? 'read' : 'unreadable');
+      // Values typed in meanwhile win over the ones read from the photo
+      setIdentity(prev => {
+        const next = { ...prev };
+        STEP_FIELDS[variables.kind].forEach(field => {
+          if (!next[field] && result.identity[field]) next[field] = result.identity[field];
+        });
+        return next;
+      });
+      if (variables.kind === 'dashboard') {
+        const { odometer, odometerUnit: unit, fuelLevel } = result.readings;
+        if (odometer !== undefined) setOdometerText(prev => prev || String(Math.round(odometer)));
+        if (unit) setOdometerUnit(unit);
+        if (fuelLevel !== undefined) setFuelText(prev => prev || String(Math.round(fuelLevel * 100)));
+      }
+    },
+    onError: (error, variables) => {
+      console.error('Identity reading error:', error);
+      setStatus(variables.photoUri, 'failed');
+    },
+  });
+
+  const handleCapture = useCallback(async () => {
+    if (!cameraRef.current) return;
+
+    try {
+      const photo = await cameraRef.current.takePictureAsync({
+        base64: true,
+        quality: 0.8,
+      });
+
+      if (photo?.base64 && photo?.uri) {
+        const cleanBase64 = photo.base64.startsWith('data:')
+          ? photo.base64.split(',')[1] || photo.base64
+          : photo.base64;
+        const mimeType = cleanBase64.startsWith('iVBOR') ? 'image/png' : 'image/jpeg';
+        const dataUri = `data:${mimeType};base64,${cleanBase64}`;
+        recordCapture(dataUri); // Hash, time and location as captured
+
+        const online = await isOnline();
+        setPhotos(prev => [
+          ...prev.filter(p => p.kind !== step.kind),
+          { kind: step.kind, photoUri: dataUri, status: online ? 'reading' : 'offline' },
+        ]);
+        if (online) {
+          readingMutation.mutate({ kind: step.kind, photoUri: dataUri, photoBase64: cleanBase64, photoMime: mimeType });
+        }
+      }
+    } catch (error) {
+      console.error('Capture error:', error);
+      Alert.alert('Error', 'Failed to capture photo. Please try again.');
+    }
+  }, [step.kind, readingMutation]);
+
+  const handleRetake = () => {
+    setPhotos(prev => prev.filter(photo => photo.kind !== step.kind));
+    // Forget what the previous photo said
+    setIdentity(prev => {
+      const next = { ...prev };
+      STEP_FIELDS[step.kind].forEach(field => delete next[field]);
+      return next;
+    });
+    if (step.kind === 'dashboard') {
+      setOdometerText('');
+      setFuelText('');
+    }
+  };
+
+  const proceed = () => {
+    const trimmed: VehicleIdentity = {};
+    (Object.keys(identity) as (keyof VehicleIdentity)[]).forEach(field => {
+      const value = identity[field]?.trim();
+      if (value) trimmed[field] = field === 'licensePlate' || field === 'vin' ? value.toUpperCase() : value;
+    });
+
+    const odometer = parseFloat(odometerText.replace(/[^\d.]/g, ''));
+    const fuelPercent = parseFloat(fuelText.replace(/[^\d.]/g, ''));
+    const readings: VehicleReadings = {
+      odometer: Number.isFinite(odometer) ? odometer : undefined,
+      odometerUnit: Number.isFinite(odometer) ? odometerUnit : undefined,
+      fuelLevel: Number.isFinite(fuelPercent) ? Math.min(100, fuelPercent) / 100 : undefined,
+    };
+
+    const steps = IDENTITY_STEPS.filter(s => photos.some(photo => photo.kind === s.kind));
+    const photoFor = (kind: IdentityPhotoKind) => photos.find(photo => photo.kind === kind)!.photoUri;
+
+    if (isReturn) {
+      const walkAround = JSON.parse(afterSectionPhotos || '[]') as AfterSectionPhoto[];
+      const identityPhotos: AfterSectionPhoto[] = steps.map(s => ({
+        section: s.section,
+        photoUri: photoFor(s.kind),
+        identity: s.kind,
+      }));
+      router.push({
+        pathname: '/results-after',
+        params: {
+          mainPhoto: mainPhoto || '',
+          afterSectionPhotos: JSON.stringify([...walkAround, ...identityPhotos]),
+          afterWalkAroundVideo: afterWalkAroundVideo || '',
+          historyId: historyId || '',
+          vehicleIdentity: JSON.stringify(trimmed),
+          vehicleReadings: JSON.stringify(readings),
+        },
+      });
+    } else {
+      const walkAround = JSON.parse(sectionPhotos || '[]') as VehicleSectionPhoto[];
+      const identityPhotos: VehicleSectionPhoto[] = steps.map(s => ({
+        section: s.section,
+        photoUri: photoFor(s.kind),
+        damageNotes: '',
+        isUsable: true,
+        identity: s.kind,
+      }));
+      router.push({
+        pathname: '/results',
+        params: {
+          mainPhoto: mainPhoto || '',
+          sectionPhotos: JSON.stringify([...walkAround, ...identityPhotos]),
+          walkAroundPlan: walkAroundPlan || '',
+          walkAroundVideo: walkAroundVideo || '',
+          vehicleIdentity: JSON.stringify(trimmed),
+          vehicleReadings: JSON.stringify(readings),
+        },
+      });
+    }
+  };
+
+  const handleContinue = () => {
+    const vin = identity.vin?.trim();
+    if (vin && !isValidVin(vin)) {
+      Alert.alert(
+        'Check the VIN',
+        'A VIN has 17 letters and digits and never contains I, O or Q.',
+        [
+          { text: 'Edit', style: 'cancel' },
+          { text: 'Continue Anyway', onPress: proceed },
+        ]
+      );
+      return;
+    }
+    proceed();
+  };
+
+  const statusFor = (kind: IdentityPhotoKind) => {
+    const photo = photos.find(p => p.kind === kind);
+    return photo ? STATUS_TEXT[photo.status] : 'No photo - type it in or skip';
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => (stepIndex > 0 ? setStepIndex(stepIndex - 1) : router.back())}
+        style={styles.backButton}
+      >
+        <ArrowLeft size={24} color="#FFFFFF" />
+      </TouchableOpacity>
+      <View style={styles.headerCenter}>
+        <Text style={styles.title}>{isReviewing ? 'Vehicle Details' : step.section}</Text>
+        <Text style={styles.progress}>
+          {isReturn ? 'Return' : 'Pickup'} - {isReviewing ? 'check the values' : `${stepIndex + 1} of ${IDENTITY_STEPS.length}`}
+        </Text>
+      </View>
+      <View style={styles.headerSpacer} />
+    </View>
+  );
+
+  if (isReviewing) {
+    const pickupIdentity = pickup?.vehicleIdentity;
+    return (
+      <SafeAreaView style={styles.reviewContainer} edges={['top', 'bottom']}>
+        {header}
+        <ScrollView style={styles.reviewContent} contentContainerStyle={styles.reviewScrollContent}>
+          <Text style={styles.reviewDescription}>
+            These values tie the inspection to this car. Correct anything that was misread.
+          </Text>
+
+          <Text style={styles.fieldLabel}>License plate</Text>
+          <Text style={styles.fieldStatus}>{statusFor('licensePlate')}</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={identity.licensePlate || ''}
+            onChangeText={licensePlate => setIdentity(prev => ({ ...prev, licensePlate }))}
+            placeholder="e.g. AB-123-CD"
+            placeholderTextColor="#7AB8CC"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          {pickupIdentity?.licensePlate ? (
+            <Text style={styles.pickupValue}>At pickup: {pickupIdentity.licensePlate}</Text>
+          ) : null}
+
+          <Text style={styles.fieldLabel}>VIN</Text>
+          <Text style={styles.fieldStatus}>{statusFor('vin')}</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={identity.vin || ''}
+            onChangeText={vin => setIdentity(prev => ({ ...prev, vin }))}
+            placeholder="17 characters"
+            placeholderTextColor="#7AB8CC"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={20}
+          />
+          {pickupIdentity?.vin ? (
+            <Text style={styles.pickupValue}>At pickup: {pickupIdentity.vin}</Text>
+          ) : null}
+
+          {!isReturn && (
+            <>
+              <Text style={styles.fieldLabel}>Make, model and color</Text>
+              <View style={styles.fieldRow}>
+                <TextInput
+                  style={[styles.fieldInput, styles.fieldInputFlex]}
+                  value={identity.make || ''}
+                  onChangeText={make => setIdentity(prev => ({ ...prev, make }))}
+                  placeholder="Make"
+                  placeholderTextColor="#7AB8CC"
+                />
+                <TextInput
+                  style={[styles.fieldInput, styles.fieldInputFlex]}
+                  value={identity.model || ''}
+                  onChangeText={model => setIdentity(prev => ({ ...prev, model }))}
+                  placeholder="Model"
+                  placeholderTextColor="#7AB8CC"
+                />
+                <TextInput
+                  style={[styles.fieldInput, styles.fieldInputFlex]}
+                  value={identity.color || ''}
+                  onChangeText={color => setIdentity(prev => ({ ...prev, color }))}
+                  placeholder="Color"
+                  placeholderTextColor="#7AB8CC"
+                />
+              </View>
+            </>
+          )}
+
+          <Text style={styles.fieldLabel}>Odometer</Text>
+          <Text style={styles.fieldStatus}>{statusFor('dashboard')}</Text>
+          <View style={styles.fieldRow}>
+            <TextInput
+              style={[styles.fieldInput, styles.fieldInputFlex]}
+              value={odometerText}
+              onChangeText={setOdometerText}
+              placeholder="Total distance"
+              placeholderTextColor="#7AB8CC"
+              keyboardType="numeric"
+            />
+            {ODOMETER_UNITS.map(unit => (
+              <TouchableOpacity
+                key={unit}
+                style={[styles.unitButton, odometerUnit === unit && styles.unitButtonSelected]}
+                onPress={() => setOdometerUnit(unit)}
+              >
+                <Text style={styles.unitButtonText}>{unit}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {pickup?.pickupReadings?.odometer !== undefined ? (
+            <Text style={styles.pickupValue}>At pickup: {formatOdometer(pickup.pickupReadings)}</Text>
+          ) : null}
+
+          <Text style={styles.fieldLabel}>Fuel / charge level (%)</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={fuelText}
+            onChangeText={setFuelText}
+            placeholder="e.g. 75 for three quarters"
+            placeholderTextColor="#7AB8CC"
+            keyboardType="numeric"
+          />
+          {pickup?.pickupReadings?.fuelLevel !== undefined ? (
+            <Text style={styles.pickupValue}>At pickup: {formatFuelLevel(pickup.pickupReadings.fuelLevel)}</Text>
+          ) : null}
+
+          <TouchableOpacity style={styles.continueButton} onPress={handleContinue}>
+            <Text style={styles.continueButtonText}>Continue to Results</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  if (!permission) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4A90A4" />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.permissionContainer}>
+          <Text style={styles.permissionTitle}>Camera Access Required</Text>
+          <Text style={styles.permissionText}>
+            Rental Car Checker needs access to your camera to photograph the license plate, VIN and dashboard.
+          </Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText}>Grant Permission</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView edges={['top']} style={styles.safeArea}>
+        {header}
+      </SafeAreaView>
+
+      {!currentPhoto ? (
+        <CameraView ref={cameraRef} style={styles.camera} facing="back" mode="picture">
+          <View style={styles.overlay}>
+            <View style={styles.instructionContainer}>
+              <Text style={styles.sectionTitle}>{step.section}</Text>
+              <Text style={styles.instructionText}>{step.instruction}</Text>
+            </View>
+          </View>
+        </CameraView>
+      ) : (
+        <View style={styles.photoPreviewContainer}>
+          <Image source={{ uri: currentPhoto.photoUri }} style={styles.photoPreview} />
+          <View style={styles.photoPreviewOverlay}>
+            <View style={styles.previewInstructionContainer}>
+              <Text style={styles.previewTitle}>Photo Captured</Text>
+              <Text style={styles.previewSubtitle}>{STATUS_TEXT[currentPhoto.status]}</Text>
+            </View>
+          </View>
+        </View>
+      )}
+
+      <SafeAreaView edges={['bottom']} style={styles.bottomArea}>
+        <View style={styles.captureContainer}>
+          {currentPhoto ? (
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={styles.retakeButton} onPress={handleRetake}>
+                <Text style={styles.retakeButtonText}>Retake</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.nextButton} onPress={() => setStepIndex(stepIndex + 1)}>
+                <Text style={styles.nextButtonText}>
+                  {stepIndex < IDENTITY_STEPS.length - 1 ? 'Next' : 'Review'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.captureButtonContainer}>
+              <TouchableOpacity style={styles.captureButton} onPress={handleCapture}>
+                <Camera size={32} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.skipButton} onPress={() => setStepIndex(stepIndex + 1)}>
+                <Text style={styles.skipButtonText}>Skip</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  safeArea: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700' as const,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  progress: {
+    fontSize: 14,
+    color: '#7AB8CC',
+    marginTop: 4,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  instructionContainer: {
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    color: '#4A90A4',
+    fontSize: 28,
+    fontWeight: '700' as const,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  instructionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  photoPreviewContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+    position: 'relative',
+  },
+  photoPreview: {
+    flex: 1,
+    width: '100%',
+    resizeMode: 'contain',
+  },
+  photoPreviewOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewInstructionContainer: {
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 32,
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  previewTitle: {
+    color: '#4A90A4',
+    fontSize: 20,
+    fontWeight: '700' as const,
+    marginBottom: 8,
+  },
+  previewSubtitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500' as const,
+  },
+  bottomArea: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    zIndex: 10,
+  },
+  captureContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  captureButtonContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '100%',
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+  captureButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#4A90A4',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 4,
+    borderColor: '#FFFFFF',
+  },
+  skipButton: {
+    backgroundColor: '#2a5a6c',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+  },
+  skipButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  retakeButton: {
+    backgroundColor: '#2a5a6c',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#FF6B6B',
+    flex: 1,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  retakeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  nextButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    flex: 1,
+    marginLeft: 10,
+    alignItems: 'center',
+  },
+  nextButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  },
+  reviewContainer: {
+    flex: 1,
+    backgroundColor: '#1a4a5c',
+  },
+  reviewContent: {
+    flex: 1,
+  },
+  reviewScrollContent: {
+    padding: 20,
+  },
+  reviewDescription: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    marginBottom: 16,
+    lineHeight: 24,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#4A90A4',
+    marginTop: 16,
+  },
+  fieldStatus: {
+    fontSize: 12,
+    color: '#7AB8CC',
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 14,
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginTop: 6,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fieldInputFlex: {
+    flex: 1,
+  },
+  unitButton: {
+    backgroundColor: '#2a5a6c',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginTop: 6,
+  },
+  unitButtonSelected: {
+    backgroundColor: '#4A90A4',
+  },
+  unitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  pickupValue: {
+    fontSize: 13,
+    color: '#FFD700',
+    marginTop: 6,
+  },
+  continueButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 32,
+  },
+  continueButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  permissionTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: '#4A90A4',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  permissionButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 30,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700' as const,
+  },
+});
@@ -12,28 +12,11 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { Camera, ArrowLeft } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { useMutation } from '@tanstack/react-query';
-import { analyzeWithClaude } from '@/services/claude';
-
-const INITIAL_PHOTO_PROMPT = `You are a vehicle inspection assistant. Analyze this photo to determine if it shows a rental vehicle and identify which sections need to be documented.
-
-IMPORTANT: You MUST return a valid JSON object in this exact format:
-{
-  "isVehicle": true or false,
-  "sections": ["section1", "section2", ...] or []
-}
-
-Rules:
-1. If the image does NOT show a vehicle (e.g., shows a person, animal, landscape, or other non-vehicle object), set "isVehicle" to false and "sections" to an empty array.
-2. If the image DOES show a vehicle, set "isVehicle" to true and provide a JSON array of section names in a natural walk-around sequence.
-3. Arrange sections in a logical order for photographing (e.g., Front → Driver Side → Back → Passenger Side → Front Wheel → Driver Rear Wheel → Passenger Front Wheel → Passenger Rear Wheel → Interior Front → Interior Back).
-4. Sections should be broad categories covering all major areas: Front, Back, Driver Side, Passenger Side, Wheels (or individual wheels), Interior Front, Interior Back, etc.
-5. Return ONLY the JSON object, no markdown, no code blocks, no additional text.
-
-Example for a vehicle:
-{"isVehicle": true, "sections": ["Front", "Driver Side", "Back", "Passenger Side", "Front Wheels", "Rear Wheels", "Interior Front", "Interior Back"]}
-
-Example for non-vehicle:
-{"isVehicle": false, "sections": []}`;
+import { AnalysisError } from '@/services/analysis';
+import { identifyVehicleType } from '@/services/walkAround';
+import { DEFAULT_VEHICLE_TYPE, VehicleType, templatePlan } from '@/lib/walkAround';
+import { isOnline } from '@/services/analysisQueue';
+import { recordCapture } from '@/services/evidence';
 
 export default function CaptureInitialScreen() {
   const [permission, requestPermission] = useCameraPermissions();
@@ -41,93 +24,37 @@ export default function CaptureInitialScreen() {
   const router = useRouter();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // Without a connection the walk-around uses the standard template;
+  // section photos are analyzed later from the offline queue
+  const continueOffline = useCallback((photoDataUri: string) => {
+    Alert.alert(
+      'You Are Offline',
+      'Continue with the standard sections. Your photos are saved on this device and will be analyzed when you are back online.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Continue',
+          onPress: () => router.push({
+            pathname: '/section-list',
+            params: {
+              mainPhoto: photoDataUri,
+              walkAroundPlan: JSON.stringify(templatePlan(DEFAULT_VEHICLE_TYPE)),
+            },
+          }),
+        },
+      ]
+    );
+  }, [router]);
+
   const analysisMutation = useMutation({
     mutationFn: async ({ photoBase64, photoUri, photoMime, photoDataUri }: { 
       photoBase64: string; 
       photoUri: string; 
       photoMime: string;
       photoDataUri: string;
-    }): Promise<{ sections: string[]; photoDataUri: string; isVehicle: boolean }> => {
-      const analysisText = await analyzeWithClaude({
-        promptText: INITIAL_PHOTO_PROMPT,
-        imageBase64: photoBase64,
-        imageMime: photoMime,
-      });
-
-      // Parse the JSON response
-      // The response may be double-encoded: {"text":"{\"isVehicle\": false, \"sections\": []}"}
-      let sections: string[] = [];
-      let isVehicle = true;
-      
-      try {
-        // Remove markdown code blocks if present
-        let cleaned = analysisText.trim();
-        cleaned = cleaned.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        
-        // Try to parse - it might be a JSON string that needs to be parsed again
-        let parsed: any;
-        
-        // First, try to parse as JSON (in case it's double-encoded)
-        try {
-          parsed = JSON.parse(cleaned);
-          // If the result is a string, parse it again (double-encoded case)
-          if (typeof parsed === 'string') {
-            parsed = JSON.parse(parsed);
-          }
-          // If the result has a 'text' property, extract and parse that
-          if (parsed && typeof parsed === 'object' && parsed.text && typeof parsed.text === 'string') {
-            parsed = JSON.parse(parsed.text);
-          }
-        } catch (e) {
-          // If that fails, try to extract JSON object from the string
-          const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            parsed = JSON.parse(jsonMatch[0]);
-            // Check if it's still a string (double-encoded)
-            if (typeof parsed === 'string') {
-              parsed = JSON.parse(parsed);
-            }
-          } else {
-            throw new Error('No JSON found in response');
-          }
-        }
-        
-        // Now we should have the actual parsed object
-        if (parsed && typeof parsed === 'object') {
-          // Check if it's a vehicle
-          if (parsed.isVehicle === false) {
-            isVehicle = false;
-            sections = [];
-          } else if (parsed.isVehicle === true && Array.isArray(parsed.sections)) {
-            sections = parsed.sections;
-            isVehicle = true;
-          } else {
-            throw new Error('Invalid response format - missing isVehicle or sections');
-          }
-        } else {
-          throw new Error('Response is not a valid object');
-        }
-        
-        // Validate sections array
-        if (isVehicle && (!Array.isArray(sections) || sections.length === 0)) {
-          throw new Error('Invalid sections array');
-        }
-      } catch (error) {
-        console.error('Failed to parse sections:', error, 'Raw response:', analysisText);
-        // If parsing fails, check if response indicates "not a vehicle"
-        const lowerText = analysisText.toLowerCase();
-        if (lowerText.includes("don't see") || lowerText.includes("not a vehicle") || 
-            lowerText.includes("not a car") || lowerText.includes("no vehicle") ||
-            lowerText.includes('"isvehicle": false') || lowerText.includes('"isvehicle":false')) {
-          isVehicle = false;
-          sections = [];
-        } else {
-          // Fallback to default sections only if we can't determine it's not a vehicle
-          sections = ['Front', 'Back', 'Driver Side', 'Passenger Side', 'Wheels', 'Interior Front', 'Interior Back'];
-        }
-      }
-
-      return { sections, photoDataUri, isVehicle };
+    }): Promise<{ vehicleType?: VehicleType; photoDataUri: string; isVehicle: boolean }> => {
+      const { vehicleType, isVehicle } = await identifyVehicleType(photoBase64, photoMime);
+      return { vehicleType, photoDataUri, isVehicle };
     },
     onSuccess: (result) => {
       setIsAnalyzing(false);
@@ -151,35 +78,53 @@ export default function CaptureInitialScreen() {
         return;
       }
       
-      if (result.sections.length === 0) {
-        Alert.alert(
-          'No Sections Found',
-          'Could not identify vehicle sections. Please try taking another photo.',
-          [
-            {
-              text: 'Retake Photo',
-              onPress: () => {
-                setIsAnalyzing(false);
-              },
-            },
-          ],
-          { cancelable: false }
-        );
-        return;
-      }
-      
       router.push({
         pathname: '/section-list',
         params: {
           mainPhoto: result.photoDataUri,
-          sections: JSON.stringify(result.sections),
+          walkAroundPlan: JSON.stringify(templatePlan(result.vehicleType || DEFAULT_VEHICLE_TYPE)),
         },
       });
     },
-    onError: (error) => {
+    onError: (error, variables) => {
       console.error('Analysis error:', error);
-      Alert.alert('Error', 'Failed to analyze the vehicle. Please try again.');
       setIsAnalyzing(false);
+
+      if (error instanceof AnalysisError && error.code === 'request_failed') {
+        isOnline().then(online => {
+          if (online) {
+            Alert.alert('Error', 'Failed to analyze the vehicle. Please try again.');
+          } else {
+            continueOffline(variables.photoDataUri);
+          }
+        });
+        return;
+      }
+
+      // The photo was received but the reply was unusable - let the user choose
+      // the standard template rather than silently guessing
+      if (error instanceof AnalysisError && error.code === 'invalid_response') {
+        Alert.alert(
+          'Analysis Unclear',
+          'We could not identify the vehicle type from this photo. Retake the photo or continue with the standard sections.',
+          [
+            { text: 'Retake Photo', style: 'cancel' },
+            {
+              text: 'Use Standard Sections',
+              onPress: () => router.push({
+                pathname: '/section-list',
+                params: {
+                  mainPhoto: variables.photoDataUri,
+                  walkAroundPlan: JSON.stringify(templatePlan(DEFAULT_VEHICLE_TYPE)),
+                },
+              }),
+            },
+          ]
+        );
+        return;
+      }
+
+      Alert.alert('Error', 'Failed to analyze the vehicle. Please try again.');
     },
   });
 
@@ -217,6 +162,13 @@ export default function CaptureInitialScreen() {
           ? photo.base64.split(',')[1] || photo.base64
           : photo.base64;
         const dataUri = `data:${mimeType};base64,${cleanBase64}`;
+        recordCapture(dataUri); // Hash, time and location as captured
+
+        if (!(await isOnline())) {
+          setIsAnalyzing(false);
+          continueOffline(dataUri);
+          return;
+        }
         
         analysisMutation.mutate({
           photoBase64: photo.base64,
@@ -230,7 +182,7 @@ export default function CaptureInitialScreen() {
       Alert.alert('Error', 'Failed to capture photo. Please try again.');
       setIsAnalyzing(false);
     }
-  }, [analysisMutation]);
+  }, [analysisMutation, continueOffline]);
 
   if (!permission) {
     return (
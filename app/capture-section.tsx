@@ -13,31 +13,16 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { Camera, ArrowLeft, Check, ArrowRight } from 'lucide-react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useMutation } from '@tanstack/react-query';
-import { analyzeWithClaude } from '@/services/claude';
+import { AnalysisError, DamageAnalysisSchema, analyzeStructured } from '@/services/analysis';
+import { DAMAGE_ANALYSIS_PROMPT, QUEUED_ANALYSIS_NOTE } from '@/services/sectionAnalysis';
+import { enqueueSectionAnalysis, isOnline } from '@/services/analysisQueue';
+import { recordCapture } from '@/services/evidence';
 import { VehicleSectionPhoto } from '@/contexts/HistoryContext';
-
-const DAMAGE_ANALYSIS_PROMPT = (sectionName: string, isRetake: boolean, isExtra: boolean) => `You are a vehicle inspection assistant. Analyze this photo of a rental vehicle section.
-
-The user has taken a photo of the "${sectionName}" section of their rental vehicle.
-${isRetake ? '\nIMPORTANT: This is a RETAKE or ADDITIONAL photo requested after the initial inspection sequence. You MUST provide a brief 5-7 word explanation in the "retakeReason" field explaining why this additional photo is necessary.' : ''}
-${isExtra ? '\nIMPORTANT: This is an EXTRA photo requested to get a better/clearer shot of serious damage identified in a previous photo. Focus on capturing the specific damage clearly.' : ''}
-
-Your task:
-1. Identify which section of the car this photo shows
-2. Identify any visible flaws, damage, scratches, dents, or issues in this section
-3. If the photo is unusable or shows the wrong section, flag it
-${isRetake ? '4. REQUIRED: Provide a brief 5-7 word explanation of why this retake/additional photo is necessary. Examples: "Previous photo was too blurry", "Need closer view of scratch", "Wrong angle captured initially", "Lighting was insufficient", "Damage not clearly visible"' : ''}
-${!isRetake && !isExtra ? '4. CRITICAL: Assess if there is SERIOUS, NOTABLE, or POTENTIALLY COSTLY damage. Only flag as serious if the damage is:\n   - Significant dents, deep scratches, or major paint damage\n   - Structural damage or broken parts\n   - Damage that would likely cost $200+ to repair\n   - NOT minor scratches, small chips, or cosmetic wear\n   DO NOT be paranoid about minor cosmetic issues. Only flag clearly serious damage.' : ''}
-
-Return your response in JSON format:
-{
-  "section": "the section name you identified",
-  "isCorrectSection": true or false,
-  "isUsable": true or false,
-  "damageNotes": "detailed description of any damage, flaws, or issues found. If none, say 'No visible damage or issues found.'"${isRetake ? ',\n  "retakeReason": "REQUIRED: brief 5-7 word explanation of why this retake/additional photo is necessary"' : ''}${!isRetake && !isExtra ? ',\n  "hasSeriousDamage": true or false,\n  "seriousDamageDescription": "if hasSeriousDamage is true, provide a brief 5-7 word description of the serious damage and its location (e.g., "Large dent on driver door", "Deep scratch on rear bumper", "Cracked headlight on passenger side")' : ''}
-}
-
-IMPORTANT: Return ONLY the JSON object, no markdown, no code blocks, no additional text. If the image does not show a vehicle section, set "isUsable" to false.${isRetake ? ' If this is a retake, the "retakeReason" field is REQUIRED.' : ''}${!isRetake && !isExtra ? ' Only set "hasSeriousDamage" to true for DEFINITELY notable, potentially costly damage. Be conservative - minor scratches or cosmetic wear should NOT trigger this.' : ''}`;
+import { DamageRecord } from '@/lib/damage';
+import { sectionFraming } from '@/lib/framing';
+import { PhotoQuality, passesQualityCheck, qualityIssueSummary } from '@/lib/photoQuality';
+import { checkPhotoQuality } from '@/services/photoQuality';
+import { FramingOverlay } from '@/components/FramingOverlay';
 
 interface SectionPhoto {
   section: string;
@@ -45,6 +30,7 @@ interface SectionPhoto {
   photoBase64: string;
   photoMime: string;
   damageNotes?: string;
+  damages?: DamageRecord[];
   isUsable?: boolean;
   isCorrectSection?: boolean;
   retakeReason?: string;
@@ -54,15 +40,17 @@ interface SectionPhoto {
   originalPhotoUri?: string; // For extra photos, store the original that triggered it
   seriousDamageDescription?: string;
   hasRequestedExtra?: boolean; // Flag to prevent infinite loops
+  analysisJobId?: string; // Queued for analysis when back online
 }
 
 export default function CaptureSectionScreen() {
   const [permission, requestPermission] = useCameraPermissions();
   const cameraRef = useRef<CameraView>(null);
   const router = useRouter();
-  const { mainPhoto, sections: sectionsParam, currentIndex: currentIndexParam } = useLocalSearchParams<{
+  const { mainPhoto, sections: sectionsParam, walkAroundPlan, currentIndex: currentIndexParam } = useLocalSearchParams<{
     mainPhoto: string;
     sections: string;
+    walkAroundPlan?: string; // Passed on to be saved with the inspection
     currentIndex: string;
   }>();
 
@@ -74,6 +62,9 @@ export default function CaptureSectionScreen() {
   const [photoTaken, setPhotoTaken] = useState(false);
   const [currentPhotoUri, setCurrentPhotoUri] = useState<string | null>(null);
   const [extraPhotoOriginal, setExtraPhotoOriginal] = useState<string | null>(null); // Original photo for extra capture
+  const [isOffline, setIsOffline] = useState(false);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [currentQuality, setCurrentQuality] = useState<PhotoQuality | null>(null); // Quality check of the photo on preview
 
   useEffect(() => {
     if (sectionsParam) {
@@ -98,6 +89,7 @@ export default function CaptureSectionScreen() {
   useEffect(() => {
     setPhotoTaken(false);
     setCurrentPhotoUri(null);
+    setCurrentQuality(null);
     // Handle extra photo original lookup
     const currentIsExtra = sections[currentIndex]?.includes(' - Close-up');
     if (!currentIsExtra) {
@@ -115,6 +107,39 @@ export default function CaptureSectionScreen() {
     }
   }, [currentIndex, sections, capturedPhotos]);
 
+  // No connection: keep the photo, queue its analysis and let the walk-around continue
+  const queueAnalysis = async ({ photoUri, sectionName, isRetake, isExtra }: {
+    photoUri: string;
+    sectionName: string;
+    isRetake: boolean;
+    isExtra: boolean;
+  }) => {
+    setIsOffline(true);
+    try {
+      const analysisJobId = await enqueueSectionAnalysis({
+        section: sectionName,
+        photoDataUri: photoUri,
+        promptText: DAMAGE_ANALYSIS_PROMPT(sectionName, isRetake, isExtra),
+        isRetake,
+        isExtra,
+      });
+      setCapturedPhotos(prev => prev.map(p =>
+        p.section === sectionName && p.photoUri === photoUri
+          ? { ...p, analysisJobId, damageNotes: QUEUED_ANALYSIS_NOTE, isUsable: true, isCorrectSection: true }
+          : p
+      ));
+    } catch (error) {
+      console.error('Failed to queue analysis:', error);
+      setCapturedPhotos(prev => prev.map(p =>
+        p.section === sectionName && p.photoUri === photoUri
+          ? { ...p, damageNotes: 'Analysis failed. Please review manually.', isUsable: true, isCorrectSection: true }
+          : p
+      ));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const analysisMutation = useMutation({
     mutationFn: async ({ photoBase64, photoUri, photoMime, sectionName, isRetake, isExtra }: {
       photoBase64: string;
@@ -124,44 +149,11 @@ export default function CaptureSectionScreen() {
       isRetake: boolean;
       isExtra: boolean;
     }) => {
-      const analysisText = await analyzeWithClaude({
+      const analysisResult = await analyzeStructured({
         promptText: DAMAGE_ANALYSIS_PROMPT(sectionName, isRetake, isExtra),
         imageBase64: photoBase64,
         imageMime: photoMime,
-      });
-
-      let analysisResult: {
-        section: string;
-        isCorrectSection: boolean;
-        isUsable: boolean;
-        damageNotes: string;
-        retakeReason?: string;
-        hasSeriousDamage?: boolean;
-        seriousDamageDescription?: string;
-      } = {
-        section: sectionName,
-        isCorrectSection: true,
-        isUsable: true,
-        damageNotes: 'No visible damage or issues found.',
-      };
-
-      try {
-        // Remove markdown code blocks if present
-        let cleaned = analysisText.trim();
-        cleaned = cleaned.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        
-        // Try to extract JSON object from the response
-        const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          // Validate required fields
-          if (typeof parsed.isUsable === 'boolean' && typeof parsed.isCorrectSection === 'boolean' && typeof parsed.damageNotes === 'string') {
-            analysisResult = parsed;
-          }
-        }
-      } catch (error) {
-        console.error('Failed to parse analysis:', error);
-      }
+      }, DamageAnalysisSchema);
 
       return { ...analysisResult, photoUri, photoBase64, photoMime };
     },
@@ -172,6 +164,7 @@ export default function CaptureSectionScreen() {
           ? {
               ...p,
               damageNotes: result.damageNotes,
+              damages: result.damages,
               isUsable: result.isUsable,
               isCorrectSection: result.isCorrectSection,
               retakeReason: result.retakeReason,
@@ -202,16 +195,25 @@ export default function CaptureSectionScreen() {
         }
       }
       
+      setIsOffline(false);
       setIsAnalyzing(false);
     },
     onError: (error, variables) => {
       console.error('Analysis error:', error);
-      // Update photo with error message
+      // The request never got an answer (no signal) - analyze later instead of failing
+      if (error instanceof AnalysisError && error.code === 'request_failed') {
+        queueAnalysis(variables);
+        return;
+      }
+      // Record the failure explicitly - never as "no damage"
+      const damageNotes = error instanceof AnalysisError && error.code === 'invalid_response'
+        ? 'Analysis unclear (AI response could not be read). Please review manually.'
+        : 'Analysis failed. Please review manually.';
       setCapturedPhotos(prev => prev.map(p => 
         p.section === variables.sectionName && p.photoUri === variables.photoUri
           ? {
               ...p,
-              damageNotes: 'Analysis failed. Please review manually.',
+              damageNotes,
               isUsable: true,
               isCorrectSection: true,
             }
@@ -273,27 +275,70 @@ export default function CaptureSectionScreen() {
       section: p.section,
       photoUri: p.photoUri,
       damageNotes: p.damageNotes || 'No analysis available',
+      damages: p.damages,
       isUsable: p.isUsable ?? true,
       needsRetake: !p.isUsable || !p.isCorrectSection,
+      analysisJobId: p.analysisJobId,
     }));
 
-    // Combine all damage notes
-    const allDamageNotes = sectionPhotos
-      .map(sp => `${sp.section}: ${sp.damageNotes}`)
-      .join('\n\n');
-
     router.push({
-      pathname: '/results',
+      pathname: '/capture-identity', // Plate, VIN and dashboard, then the results
       params: {
         mainPhoto: mainPhoto || '',
         sectionPhotos: JSON.stringify(sectionPhotos),
-        allDamageNotes,
+        walkAroundPlan: walkAroundPlan || '',
       },
     });
   };
 
   const handleCapture = useCallback(async () => {
-    if (!cameraRef.current || isAnalyzing) return;
+    if (!cameraRef.current || isAnalyzing || isCheckingQuality) return;
+
+    // Record the photo and start its analysis
+    const acceptPhoto = async (photoBase64: string, dataUri: string, mimeType: string, quality: PhotoQuality | null) => {
+      recordCapture(dataUri); // Hash, time and location as captured
+
+      // Determine if this is a retake/additional photo (beyond original sequence)
+      const isRetake = currentIndex >= originalSections.length;
+      // Check if this is an extra photo (triggered by serious damage)
+      const isExtra = extraPhotoOriginal !== null && sections[currentIndex].includes(' - Close-up');
+      const originalSectionIndex = originalSections.indexOf(sections[currentIndex]);
+
+      // Store photo immediately (before analysis completes)
+      const newPhoto: SectionPhoto = {
+        section: sections[currentIndex],
+        photoUri: dataUri,
+        photoBase64,
+        photoMime: mimeType,
+        isRetake,
+        isExtra,
+        originalSectionIndex: originalSectionIndex >= 0 ? originalSectionIndex : undefined,
+        originalPhotoUri: isExtra ? extraPhotoOriginal : undefined,
+      };
+      setCapturedPhotos(prev => [...prev, newPhoto]);
+
+      // Hide camera and show photo preview
+      setPhotoTaken(true);
+      setCurrentPhotoUri(dataUri);
+      setCurrentQuality(quality);
+      setIsAnalyzing(true);
+
+      const analysisInput = {
+        photoBase64,
+        photoUri: dataUri, // Use dataUri for matching
+        photoMime: mimeType,
+        sectionName: sections[currentIndex],
+        isRetake,
+        isExtra,
+      };
+      if (!(await isOnline())) {
+        await queueAnalysis(analysisInput);
+        return;
+      }
+
+      // Start async analysis (non-blocking) - analysis will update the photo when complete
+      analysisMutation.mutate(analysisInput);
+    };
     
     try {
       const photo = await cameraRef.current.takePictureAsync({
@@ -325,47 +370,36 @@ export default function CaptureSectionScreen() {
           ? photo.base64.split(',')[1] || photo.base64
           : photo.base64;
         const dataUri = `data:${mimeType};base64,${cleanBase64}`;
-        
-        // Determine if this is a retake/additional photo (beyond original sequence)
-        const isRetake = currentIndex >= originalSections.length;
-        // Check if this is an extra photo (triggered by serious damage)
-        const isExtra = extraPhotoOriginal !== null && sections[currentIndex].includes(' - Close-up');
-        const originalSectionIndex = originalSections.indexOf(sections[currentIndex]);
-        
-        // Store photo immediately (before analysis completes)
-        const newPhoto: SectionPhoto = {
-          section: sections[currentIndex],
-          photoUri: dataUri,
-          photoBase64: photo.base64,
-          photoMime: mimeType,
-          isRetake,
-          isExtra,
-          originalSectionIndex: originalSectionIndex >= 0 ? originalSectionIndex : undefined,
-          originalPhotoUri: isExtra ? extraPhotoOriginal : undefined,
-        };
-        setCapturedPhotos(prev => [...prev, newPhoto]);
-        
-        // Hide camera and show photo preview
-        setPhotoTaken(true);
-        setCurrentPhotoUri(dataUri);
-        setIsAnalyzing(true);
-        
-        // Start async analysis (non-blocking) - analysis will update the photo when complete
-        analysisMutation.mutate({
-          photoBase64: photo.base64,
-          photoUri: dataUri, // Use dataUri for matching
-          photoMime: mimeType,
-          sectionName: sections[currentIndex],
-          isRetake,
-          isExtra,
-        });
+
+        // Blur, exposure and distance are checked on the device right after the shot (on a
+        // downscaled copy), so a bad shot is retaken before it is recorded or sent for analysis
+        setIsCheckingQuality(true);
+        const quality = mimeType === 'image/jpeg'
+          ? await checkPhotoQuality(photo.uri, sectionFraming(sections[currentIndex]).minCoverage)
+          : null;
+        setIsCheckingQuality(false);
+
+        const photoBase64 = photo.base64;
+        if (quality && !passesQualityCheck(quality)) {
+          Alert.alert(
+            `Photo Quality ${quality.score}/100`,
+            qualityIssueSummary(quality),
+            [
+              { text: 'Retake', style: 'cancel' },
+              { text: 'Use Anyway', onPress: () => acceptPhoto(photoBase64, dataUri, mimeType, quality) },
+            ]
+          );
+          return;
+        }
+        await acceptPhoto(photoBase64, dataUri, mimeType, quality);
       }
     } catch (error) {
       console.error('Capture error:', error);
       Alert.alert('Error', 'Failed to capture photo. Please try again.');
+      setIsCheckingQuality(false);
       setIsAnalyzing(false);
     }
-  }, [currentIndex, sections, analysisMutation, isAnalyzing]);
+  }, [currentIndex, sections, analysisMutation, isAnalyzing, isCheckingQuality]);
 
   if (!permission) {
     return (
@@ -422,6 +456,7 @@ export default function CaptureSectionScreen() {
   const handleRetakePhoto = () => {
     setPhotoTaken(false);
     setCurrentPhotoUri(null);
+    setCurrentQuality(null);
     // Remove the photo from capturedPhotos if it exists
     setCapturedPhotos(prev => prev.filter(p => p.section !== currentSection));
   };
@@ -469,6 +504,7 @@ export default function CaptureSectionScreen() {
             facing="back"
             mode="picture"
           >
+            {currentSection && <FramingOverlay section={currentSection} />}
             <View style={styles.overlay}>
               {/* Navigation Context: Previous -> Current -> Next */}
               <View style={styles.navigationContext}>
@@ -576,6 +612,11 @@ export default function CaptureSectionScreen() {
               {isRetake && retakeReason && (
                 <Text style={styles.previewRetakeReason}>{retakeReason}</Text>
               )}
+              {currentQuality && (
+                <Text style={[styles.previewQuality, !passesQualityCheck(currentQuality) && styles.previewQualityLow]}>
+                  Quality {currentQuality.score}/100
+                </Text>
+              )}
             </View>
           </View>
         </View>
@@ -583,27 +624,32 @@ export default function CaptureSectionScreen() {
 
       <SafeAreaView edges={['bottom']} style={styles.bottomArea}>
         <View style={styles.captureContainer}>
-          {isAnalyzing ? (
+          {isCheckingQuality || isAnalyzing ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#4A90A4" />
-              <Text style={styles.loadingText}>Analyzing...</Text>
+              <Text style={styles.loadingText}>{isCheckingQuality ? 'Checking photo...' : 'Analyzing...'}</Text>
             </View>
           ) : photoTaken ? (
-            <View style={styles.buttonRow}>
-              <TouchableOpacity
-                style={styles.retakeButton}
-                onPress={handleRetakePhoto}
-              >
-                <Text style={styles.retakeButtonText}>Retake</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={styles.nextButton}
-                onPress={handleNextSection}
-              >
-                <Text style={styles.nextButtonText}>
-                  {hasNextSection ? 'Next Section' : 'Finish'}
-                </Text>
-              </TouchableOpacity>
+            <View>
+              {isOffline && (
+                <Text style={styles.offlineText}>Offline - analysis will run when you are back online</Text>
+              )}
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={styles.retakeButton}
+                  onPress={handleRetakePhoto}
+                >
+                  <Text style={styles.retakeButtonText}>Retake</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.nextButton}
+                  onPress={handleNextSection}
+                >
+                  <Text style={styles.nextButtonText}>
+                    {hasNextSection ? 'Next Section' : 'Finish'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
             </View>
           ) : (
             <View style={styles.captureButtonContainer}>
@@ -855,6 +901,15 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     textAlign: 'center',
   },
+  previewQuality: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 8,
+  },
+  previewQualityLow: {
+    color: '#FFD700',
+  },
   bottomArea: {
     position: 'absolute',
     bottom: 0,
@@ -943,6 +998,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600' as const,
   },
+  offlineText: {
+    color: '#FFD700',
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   permissionContainer: {
     flex: 1,
     justifyContent: 'center',
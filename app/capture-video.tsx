@@ -0,0 +1,716 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Image,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { ArrowLeft, ArrowRight, Circle, Square, Sparkles } from 'lucide-react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useMutation } from '@tanstack/react-query';
+import { AnalysisError, DamageAnalysisSchema, analyzeStructured } from '@/services/analysis';
+import { enqueueSectionAnalysis, isOnline } from '@/services/analysisQueue';
+import { recordCapture } from '@/services/evidence';
+import { DAMAGE_ANALYSIS_PROMPT, QUEUED_ANALYSIS_NOTE } from '@/services/sectionAnalysis';
+import { ExtractedFrame, extractFrames, identifyFrameSections, keepWalkAroundVideo } from '@/services/videoWalkAround';
+import { AfterSectionPhoto, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { MIN_QUALITY_SCORE } from '@/lib/photoQuality';
+import {
+  FrameAssignment,
+  MAX_VIDEO_DURATION_SECONDS,
+  WalkAroundVideo,
+  WalkAroundVideoFrame,
+  assignFramesByModel,
+  assignFramesByPosition,
+  formatVideoTime,
+} from '@/lib/videoWalkAround';
+
+type Phase = 'record' | 'recording' | 'extracting' | 'review';
+
+interface Recording {
+  uri: string;
+  recordedAt: number;
+  durationMs: number;
+}
+
+// Damage analysis of one frame; offline (or when the request fails) it waits in the analysis queue
+async function analyzeFrame(section: string, frame: ExtractedFrame, online: boolean): Promise<VehicleSectionPhoto> {
+  const promptText = DAMAGE_ANALYSIS_PROMPT(section, false, false);
+  const queue = async (): Promise<VehicleSectionPhoto> => {
+    try {
+      const analysisJobId = await enqueueSectionAnalysis({
+        section,
+        photoDataUri: frame.dataUri,
+        promptText,
+        isRetake: false,
+        isExtra: false,
+      });
+      return { section, photoUri: frame.dataUri, damageNotes: QUEUED_ANALYSIS_NOTE, isUsable: true, analysisJobId };
+    } catch (error) {
+      console.error('Failed to queue analysis:', error);
+      return { section, photoUri: frame.dataUri, damageNotes: 'Analysis failed. Please review manually.', isUsable: true };
+    }
+  };
+  if (!online) return queue();
+
+  try {
+    const result = await analyzeStructured({
+      promptText,
+      imageBase64: frame.base64,
+      imageMime: frame.mimeType,
+    }, DamageAnalysisSchema);
+    return {
+      section,
+      photoUri: frame.dataUri,
+      damageNotes: result.damageNotes,
+      damages: result.damages,
+      isUsable: result.isUsable,
+      needsRetake: !result.isUsable || !result.isCorrectSection,
+    };
+  } catch (error) {
+    console.error('Analysis error:', error);
+    if (error instanceof AnalysisError && error.code === 'request_failed') return queue();
+    // Record the failure explicitly - never as "no damage"
+    const damageNotes = error instanceof AnalysisError && error.code === 'invalid_response'
+      ? 'Analysis unclear (AI response could not be read). Please review manually.'
+      : 'Analysis failed. Please review manually.';
+    return { section, photoUri: frame.dataUri, damageNotes, isUsable: true };
+  }
+}
+
+export default function CaptureVideoScreen() {
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const router = useRouter();
+  const { mainPhoto, sections: sectionsParam, walkAroundPlan, isAfter, historyId } = useLocalSearchParams<{
+    mainPhoto: string;
+    sections: string;
+    walkAroundPlan?: string; // Passed on to be saved with the inspection
+    isAfter?: string;
+    historyId?: string;
+  }>();
+  // At return the sections are the pickup plan's; the frames become the return photos,
+  // compared with the pickup photos on the results screen rather than analyzed here
+  const isAfterFlow = isAfter === 'true';
+
+  const [sections, setSections] = useState<string[]>([]);
+  const [phase, setPhase] = useState<Phase>('record');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [frames, setFrames] = useState<ExtractedFrame[]>([]);
+  const [assignment, setAssignment] = useState<FrameAssignment>('position');
+  const [assigned, setAssigned] = useState<WalkAroundVideoFrame[]>([]);
+  const [progressText, setProgressText] = useState('');
+
+  useEffect(() => {
+    if (!sectionsParam) return;
+    try {
+      setSections(JSON.parse(sectionsParam) as string[]);
+    } catch (error) {
+      console.error('Failed to parse sections:', error);
+      router.back();
+    }
+  }, [sectionsParam, router]);
+
+  // Recording timer
+  useEffect(() => {
+    if (phase !== 'recording' || !recording) return;
+    const timer = setInterval(() => setElapsedMs(Date.now() - recording.recordedAt), 500);
+    return () => clearInterval(timer);
+  }, [phase, recording]);
+
+  const processRecording = async (video: Recording) => {
+    setPhase('extracting');
+    setProgressText('Finding sharp frames...');
+    const extracted = await extractFrames(video.uri, video.durationMs, sections.length, (done, total) =>
+      setProgressText(`Finding sharp frames... ${done}/${total}`)
+    );
+    if (extracted.length === 0) {
+      Alert.alert('No Frames Found', 'No frames could be taken from the video. Please record again or take photos instead.');
+      setPhase('record');
+      return;
+    }
+    setFrames(extracted);
+    setAssignment('position');
+    setAssigned(assignFramesByPosition(sections, extracted, video.durationMs));
+    setPhase('review');
+  };
+
+  const handleStartRecording = async () => {
+    if (!cameraRef.current || phase !== 'record') return;
+
+    const recordedAt = Date.now();
+    setRecording({ uri: '', recordedAt, durationMs: 0 });
+    setElapsedMs(0);
+    setPhase('recording');
+    try {
+      // Resolves when the recording is stopped or reaches the maximum duration
+      const result = await cameraRef.current.recordAsync({ maxDuration: MAX_VIDEO_DURATION_SECONDS });
+      if (!result?.uri) throw new Error('No video recorded');
+      const video = { uri: result.uri, recordedAt, durationMs: Date.now() - recordedAt };
+      setRecording(video);
+      await processRecording(video);
+    } catch (error) {
+      console.error('Video capture error:', error);
+      Alert.alert('Error', 'Failed to record the video. Please try again.');
+      setRecording(null);
+      setPhase('record');
+    }
+  };
+
+  const handleStopRecording = () => {
+    cameraRef.current?.stopRecording();
+  };
+
+  const matchMutation = useMutation({
+    mutationFn: async () => {
+      setProgressText('Matching frames to sections...');
+      return identifyFrameSections(frames, sections, (done, total) =>
+        setProgressText(`Matching frames to sections... ${done}/${total}`)
+      );
+    },
+    onSuccess: (labelled) => {
+      if (!recording) return;
+      setFrames(labelled);
+      setAssignment('vision');
+      setAssigned(assignFramesByModel(sections, labelled, recording.durationMs));
+    },
+    onError: (error) => {
+      console.error('Frame matching error:', error);
+      Alert.alert('Matching Failed', 'The frames could not be matched by AI. They stay matched by position in the video.');
+    },
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      if (!recording) throw new Error('No video recorded');
+      const online = !isAfterFlow && await isOnline();
+      const sectionPhotos: VehicleSectionPhoto[] = [];
+      const afterSectionPhotos: AfterSectionPhoto[] = [];
+      for (const [index, { section, timeMs }] of assigned.entries()) {
+        const frame = frames.find(f => f.timeMs === timeMs);
+        if (!frame) continue;
+        recordCapture(frame.dataUri, recording.recordedAt + timeMs); // Time the frame was filmed
+        if (isAfterFlow) {
+          afterSectionPhotos.push({ section, photoUri: frame.dataUri });
+          continue;
+        }
+        setProgressText(`Analyzing ${section} (${index + 1}/${assigned.length})...`);
+        sectionPhotos.push(await analyzeFrame(section, frame, online));
+      }
+
+      setProgressText('Saving the video...');
+      const kept = await keepWalkAroundVideo(recording.uri, recording.recordedAt, recording.durationMs);
+      const walkAroundVideo: WalkAroundVideo = { ...kept, assignment, frames: assigned };
+      return { sectionPhotos, afterSectionPhotos, walkAroundVideo };
+    },
+    onSuccess: ({ sectionPhotos, afterSectionPhotos, walkAroundVideo }) => {
+      router.push({
+        pathname: '/capture-identity', // Plate, VIN and dashboard, then the results
+        params: isAfterFlow
+          ? {
+            mainPhoto: mainPhoto || '',
+            afterSectionPhotos: JSON.stringify(afterSectionPhotos),
+            afterWalkAroundVideo: JSON.stringify(walkAroundVideo),
+            historyId: historyId || '',
+          }
+          : {
+            mainPhoto: mainPhoto || '',
+            sectionPhotos: JSON.stringify(sectionPhotos),
+            walkAroundPlan: walkAroundPlan || '',
+            walkAroundVideo: JSON.stringify(walkAroundVideo),
+          },
+      });
+    },
+    onError: (error) => {
+      console.error('Video walk-around error:', error);
+      Alert.alert('Error', 'Failed to process the video. Please try again.');
+    },
+  });
+
+  const handleRecordAgain = () => {
+    setFrames([]);
+    setAssigned([]);
+    setRecording(null);
+    setPhase('record');
+  };
+
+  const handleContinue = () => {
+    const missing = sections.filter(section => !assigned.some(frame => frame.section === section));
+    if (missing.length === 0) {
+      analyzeMutation.mutate();
+      return;
+    }
+    Alert.alert(
+      'Sections Missing',
+      `No frame was found for: ${missing.join(', ')}. Record again to include them, or continue without them.`,
+      [
+        { text: 'Record Again', onPress: handleRecordAgain },
+        { text: 'Continue', onPress: () => analyzeMutation.mutate() },
+      ]
+    );
+  };
+
+  if (!permission) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4A90A4" />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.permissionContainer}>
+          <Text style={styles.permissionTitle}>Camera Access Required</Text>
+          <Text style={styles.permissionText}>
+            Rental Car Checker needs access to your camera to record the walk-around.
+          </Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText}>Grant Permission</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isBusy = phase === 'extracting' || matchMutation.isPending || analyzeMutation.isPending;
+
+  if (phase === 'review' || phase === 'extracting') {
+    return (
+      <SafeAreaView style={styles.reviewContainer} edges={['top', 'bottom']}>
+        <View style={styles.reviewHeader}>
+          <TouchableOpacity onPress={handleRecordAgain} style={styles.backButton} disabled={isBusy}>
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.title}>Video Frames</Text>
+            {recording && (
+              <Text style={styles.progress}>{formatVideoTime(recording.durationMs)} recorded</Text>
+            )}
+          </View>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {isBusy ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4A90A4" />
+            <Text style={styles.loadingText}>{progressText}</Text>
+          </View>
+        ) : (
+          <>
+            <ScrollView style={styles.reviewContent} contentContainerStyle={styles.reviewScrollContent}>
+              <Text style={styles.reviewDescription}>
+                {assignment === 'vision'
+                  ? 'The sharpest frame the AI recognized as each section. Sections it did not recognize use their place in the video.'
+                  : 'The sharpest frame from each part of the video, in walking order.'}
+              </Text>
+              {sections.map((section, index) => {
+                const frame = assigned.find(f => f.section === section);
+                const extracted = frame && frames.find(f => f.timeMs === frame.timeMs);
+                return (
+                  <View key={section} style={styles.frameItem}>
+                    <View style={styles.sectionNumber}>
+                      <Text style={styles.sectionNumberText}>{index + 1}</Text>
+                    </View>
+                    {extracted ? (
+                      <Image source={{ uri: extracted.dataUri }} style={styles.frameImage} />
+                    ) : (
+                      <View style={[styles.frameImage, styles.frameMissing]} />
+                    )}
+                    <View style={styles.frameInfo}>
+                      <Text style={styles.frameSection}>{section}</Text>
+                      {extracted ? (
+                        <Text style={[styles.frameDetail, extracted.score < MIN_QUALITY_SCORE && styles.frameDetailLow]}>
+                          {formatVideoTime(extracted.timeMs)} · Quality {extracted.score}/100
+                        </Text>
+                      ) : (
+                        <Text style={[styles.frameDetail, styles.frameDetailLow]}>No frame found</Text>
+                      )}
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+
+            <View style={styles.footer}>
+              {assignment === 'position' && (
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => matchMutation.mutate()}>
+                  <Sparkles size={18} color="#7AB8CC" />
+                  <Text style={styles.secondaryButtonText}>Match Sections with AI</Text>
+                </TouchableOpacity>
+              )}
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.retakeButton} onPress={handleRecordAgain}>
+                  <Text style={styles.retakeButtonText}>Record Again</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.nextButton} onPress={handleContinue}>
+                  <Text style={styles.nextButtonText}>{isAfterFlow ? 'Continue' : 'Analyze'}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const isRecording = phase === 'recording';
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView edges={['top']} style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton} disabled={isRecording}>
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={styles.title}>Video Walk-Around</Text>
+            <Text style={styles.progress}>
+              {isRecording
+                ? `Recording ${formatVideoTime(elapsedMs)} / ${formatVideoTime(MAX_VIDEO_DURATION_SECONDS * 1000)}`
+                : `${sections.length} sections`}
+            </Text>
+          </View>
+          <View style={styles.headerSpacer} />
+        </View>
+      </SafeAreaView>
+
+      <CameraView
+        ref={cameraRef}
+        style={styles.camera}
+        facing="back"
+        mode="video"
+        mute // Video evidence only - no microphone needed
+      >
+        <View style={styles.overlay}>
+          <View style={styles.instructionContainer}>
+            <Text style={styles.instructionTitle}>Walk around the car in this order</Text>
+            <View style={styles.orderList}>
+              {sections.map((section, index) => (
+                <View key={section} style={styles.orderItem}>
+                  <Text style={styles.orderText}>{section}</Text>
+                  {index < sections.length - 1 && <ArrowRight size={14} color="#7AB8CC" />}
+                </View>
+              ))}
+            </View>
+            <Text style={styles.instructionText}>
+              Walk slowly and pause for a moment at each section
+            </Text>
+          </View>
+        </View>
+      </CameraView>
+
+      <SafeAreaView edges={['bottom']} style={styles.bottomArea}>
+        <View style={styles.captureContainer}>
+          <TouchableOpacity
+            style={[styles.recordButton, isRecording && styles.recordButtonActive]}
+            onPress={isRecording ? handleStopRecording : handleStartRecording}
+          >
+            {isRecording ? (
+              <Square size={28} color="#FFFFFF" fill="#FFFFFF" />
+            ) : (
+              <Circle size={32} color="#FFFFFF" fill="#FFFFFF" />
+            )}
+          </TouchableOpacity>
+          <Text style={styles.recordHint}>{isRecording ? 'Tap to stop' : 'Tap to start recording'}</Text>
+        </View>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  safeArea: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700' as const,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  progress: {
+    fontSize: 14,
+    color: '#7AB8CC',
+    marginTop: 4,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  instructionContainer: {
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  instructionTitle: {
+    color: '#4A90A4',
+    fontSize: 18,
+    fontWeight: '700' as const,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  orderList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  orderItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  orderText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  instructionText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  bottomArea: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    zIndex: 10,
+  },
+  captureContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    gap: 8,
+  },
+  recordButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#4A90A4',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 4,
+    borderColor: '#FFFFFF',
+  },
+  recordButtonActive: {
+    backgroundColor: '#FF6B6B',
+  },
+  recordHint: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  reviewContainer: {
+    flex: 1,
+    backgroundColor: '#1a4a5c',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  reviewContent: {
+    flex: 1,
+  },
+  reviewScrollContent: {
+    padding: 20,
+  },
+  reviewDescription: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    marginBottom: 16,
+    lineHeight: 24,
+  },
+  frameItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 10,
+    gap: 12,
+  },
+  sectionNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#4A90A4',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionNumberText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '700' as const,
+  },
+  frameImage: {
+    width: 96,
+    height: 64,
+    borderRadius: 8,
+  },
+  frameMissing: {
+    backgroundColor: '#1a4a5c',
+  },
+  frameInfo: {
+    flex: 1,
+  },
+  frameSection: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  frameDetail: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  frameDetailLow: {
+    color: '#FFD700',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+    padding: 32,
+  },
+  loadingText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#2a5a6c',
+    gap: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+    gap: 8,
+  },
+  secondaryButtonText: {
+    color: '#7AB8CC',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '100%',
+    gap: 12,
+  },
+  retakeButton: {
+    backgroundColor: '#2a5a6c',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#FF6B6B',
+    flex: 1,
+    alignItems: 'center',
+  },
+  retakeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  nextButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    flex: 1,
+    alignItems: 'center',
+  },
+  nextButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  permissionTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: '#4A90A4',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  permissionButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 30,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700' as const,
+  },
+});
@@ -4,8 +4,13 @@
  * Allows users to dispute rental car damage claims by:
  * 1. Selecting a history item
  * 2. Uploading rental company documents
- * 3. Adding optional text
- * 4. Generating a PDF counter-claim letter using AI
+ * 3. Reviewing the claimed items read from them next to the pickup evidence
+ * 4. Adding optional text and choosing the letter (rental company response,
+ *    chargeback, insurer, consumer complaint) and jurisdiction
+ * 5. Generating the PDF letter from its template, with the narrative written by AI
+ *
+ * The claim documents and the letter are logged on the inspection's dispute
+ * (lib/dispute.ts) so the case can be followed up from the Dispute screen.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -16,37 +21,83 @@ import {
   TouchableOpacity,
   ScrollView,
   TextInput,
-  Image,
   Alert,
   ActivityIndicator,
   Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMutation } from '@tanstack/react-query';
 import { useRouter } from 'expo-router';
 import { ArrowLeft, Upload, FileText, Download, X, Check } from 'lucide-react-native';
 import { useHistory } from '@/contexts/HistoryContext';
 import { HistoryItem } from '@/contexts/HistoryContext';
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { analyzeWithClaude } from '@/services/claude';
-import { generateCounterClaimPDF, generateCounterClaimPDFFromText } from '@/services/pdfGenerator';
+import { generateCounterClaimPDFFromText } from '@/services/pdfGenerator';
+import { ClaimDocument, collectClaimEvidence, describeClaimEvidence } from '@/services/claimEvidence';
+import { readDamageClaim } from '@/services/damageClaim';
+import { PhotoImage } from '@/components/PhotoImage';
+import { damageSectionPhotos, identityLines } from '@/lib/vehicleIdentity';
+import { RentalAgreement, normalizeRentalAgreement, rentalAgreementLines } from '@/lib/rentalAgreement';
+import { RentalAgreementForm } from '@/components/RentalAgreementForm';
+import { ClaimReview } from '@/components/ClaimReview';
+import { DamageClaim, claimDetailLines, claimFeeLabel, formatClaimAmount } from '@/lib/damageClaim';
+import { ClaimRebuttal, rebutClaim, rebuttalLines, rebuttalSummary } from '@/lib/claimRebuttal';
+import { DisputeCase, addCorrespondence, createDispute, parseDeadline, setDisputeStatus } from '@/lib/dispute';
+import {
+  JURISDICTIONS,
+  JURISDICTION_LABELS,
+  Jurisdiction,
+  LETTER_NARRATIVE_BRIEFS,
+  LETTER_RECIPIENT_FIELDS,
+  LETTER_TYPES,
+  LETTER_TYPE_LABELS,
+  LetterRecipient,
+  LetterTemplateChoice,
+  LetterType,
+  jurisdictionClauses,
+  letterFileName,
+  suggestJurisdiction,
+} from '@/lib/letterTemplates';
+import { keepDisputeAttachment } from '@/services/disputes';
+import { scheduleDisputeReminders } from '@/services/notifications';
+import { useRepairPrices } from '@/contexts/RepairPricesContext';
+import { RepairCostEstimate, RepairPriceTable, estimateRepairCost, priceReferenceLines, repairEstimateLines, repairEstimateSummary } from '@/lib/repairCost';
 
-type Step = 'select-history' | 'upload-files' | 'add-text' | 'generating' | 'result';
+type Step = 'select-history' | 'upload-files' | 'review-claim' | 'add-text' | 'generating' | 'result';
 
 export default function CounterClaimScreen() {
   const router = useRouter();
-  const { history } = useHistory();
+  const { history, updateHistoryItem } = useHistory();
+  const { priceTable } = useRepairPrices();
   
   const [currentStep, setCurrentStep] = useState<Step>('select-history');
   const [selectedHistoryItem, setSelectedHistoryItem] = useState<HistoryItem | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<DocumentPicker.DocumentPickerAsset[]>([]);
   const [claimText, setClaimText] = useState('');
+  const [rentalAgreement, setRentalAgreement] = useState<RentalAgreement>({});
+  const [damageClaim, setDamageClaim] = useState<DamageClaim | null>(null);
   const [generatedPDFUri, setGeneratedPDFUri] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isLetterLogged, setIsLetterLogged] = useState(false);
+  const [letterType, setLetterType] = useState<LetterType>('rentalCompany');
+  const [chosenJurisdiction, setChosenJurisdiction] = useState<Jurisdiction | null>(null);
+  const [letterRecipient, setLetterRecipient] = useState<LetterRecipient>({});
+
+  // Until one is picked, the jurisdiction follows the claim's currency / the price table region
+  // (none when there is no template for them)
+  const jurisdiction = chosenJurisdiction ?? suggestJurisdiction(damageClaim?.currency, priceTable.region);
+  const recipientFields = LETTER_RECIPIENT_FIELDS[letterType];
+
+  // Verdict per claimed item, built from the inspection rather than by the AI
+  const claimRebuttal = selectedHistoryItem && damageClaim
+    ? rebutClaim(damageClaim, selectedHistoryItem, priceTable)
+    : null;
 
   const handleSelectHistory = (item: HistoryItem) => {
     setSelectedHistoryItem(item);
+    setRentalAgreement(item.rentalAgreement || {});
     setCurrentStep('upload-files');
   };
 
@@ -60,6 +111,7 @@ export default function CounterClaimScreen() {
 
       if (!result.canceled && result.assets) {
         setUploadedFiles(prev => [...prev, ...result.assets]);
+        setDamageClaim(null);
       }
     } catch (error) {
       console.error('Error picking documents:', error);
@@ -69,10 +121,45 @@ export default function CounterClaimScreen() {
 
   const handleRemoveFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+    setDamageClaim(null);
   };
 
+  const claimMutation = useMutation({
+    mutationFn: (documents: ClaimDocument[]) => readDamageClaim(documents),
+    onSuccess: (claim) => {
+      if (!claim) {
+        Alert.alert('Claim Not Recognized', 'No damage claim could be read from the documents. They will still be sent with your dispute.');
+        setCurrentStep('add-text');
+        return;
+      }
+      setDamageClaim(claim);
+      setCurrentStep('review-claim');
+    },
+    onError: (error: Error) => {
+      console.error('Error reading damage claim:', error);
+      Alert.alert(
+        'Reading Failed',
+        error.message || 'Could not read the claim documents.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Continue Anyway', onPress: () => setCurrentStep('add-text') },
+        ]
+      );
+    },
+  });
+
   const handleNextToText = () => {
-    setCurrentStep('add-text');
+    if (uploadedFiles.length === 0) {
+      setCurrentStep('add-text');
+    } else if (damageClaim) {
+      setCurrentStep('review-claim');
+    } else {
+      claimMutation.mutate(uploadedFiles.map(file => ({
+        uri: file.uri,
+        name: file.name || 'uploaded-file',
+        mimeType: file.mimeType,
+      })));
+    }
   };
 
   const handleGenerate = async () => {
@@ -80,81 +167,68 @@ export default function CounterClaimScreen() {
       Alert.alert('Error', 'Please select a history item');
       return;
     }
+    if (!jurisdiction) {
+      Alert.alert('Choose a Jurisdiction', 'Please choose the jurisdiction whose rules the letter should quote');
+      return;
+    }
 
     setIsGenerating(true);
     setCurrentStep('generating');
 
     try {
-      // Step 1: Generate PDF from history item
-      const historyPDFUri = await generateCounterClaimPDF(selectedHistoryItem);
-      
-      // Step 2: Prepare files for AI
-      const filesToSend: Array<{ uri: string; type: string; name: string }> = [
-        { uri: historyPDFUri, type: 'application/pdf', name: 'inspection-report.pdf' },
-      ];
-
-      // Add uploaded files
-      for (const file of uploadedFiles) {
-        filesToSend.push({
-          uri: file.uri,
-          type: file.mimeType || 'application/octet-stream',
-          name: file.name || 'uploaded-file',
-        });
+      // Keep agreement details entered here with the inspection
+      const agreement = normalizeRentalAgreement(rentalAgreement);
+      if (JSON.stringify(agreement) !== JSON.stringify(selectedHistoryItem.rentalAgreement)) {
+        await updateHistoryItem(selectedHistoryItem.id, { rentalAgreement: agreement });
       }
+      const historyItem: HistoryItem = { ...selectedHistoryItem, rentalAgreement: agreement };
+      const repairEstimate = estimateRepairCost(historyItem.sectionPhotos, historyItem.walkAroundPlan?.vehicleType, priceTable);
+      const rebuttal = damageClaim ? rebutClaim(damageClaim, historyItem, priceTable) : undefined;
+      const template: LetterTemplateChoice = { type: letterType, jurisdiction, recipient: letterRecipient };
 
-      // Step 3: Read file contents as base64
-      const fileContents = await Promise.all(
-        filesToSend.map(async (file) => {
-          const base64 = await FileSystem.readAsStringAsync(file.uri, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-          return {
-            name: file.name,
-            type: file.type,
-            base64,
-          };
-        })
+      // Step 1: Load the rental company documents and all inspection photos
+      const evidence = await collectClaimEvidence(
+        historyItem,
+        uploadedFiles.map(file => ({
+          uri: file.uri,
+          name: file.name || 'uploaded-file',
+          mimeType: file.mimeType,
+        }))
       );
+      if (evidence.skipped.length > 0) {
+        console.warn('Evidence not sent to AI:', evidence.skipped);
+      }
 
-      // Step 4: Create AI prompt
+      // Step 2: Create AI prompt
       const prompt = createCounterClaimPrompt(
-        selectedHistoryItem,
+        historyItem,
         claimText,
-        fileContents.map(f => f.name)
+        uploadedFiles.map(file => file.name || 'uploaded-file'),
+        describeClaimEvidence(evidence),
+        template,
+        rebuttal,
+        repairEstimate,
+        priceTable
       );
 
-      // Step 5: Send to Claude with inspection data
-      // Extract base64 from main photo (remove data URI prefix if present)
-      let mainPhotoBase64 = selectedHistoryItem.mainPhoto;
-      let mainPhotoMime = 'image/jpeg';
-      
-      if (mainPhotoBase64.startsWith('data:')) {
-        const match = mainPhotoBase64.match(/^data:([^;]+);base64,(.+)$/);
-        if (match) {
-          mainPhotoMime = match[1];
-          mainPhotoBase64 = match[2];
-        } else {
-          // Fallback: try to extract base64 part
-          const parts = mainPhotoBase64.split(',');
-          if (parts.length > 1) {
-            mainPhotoBase64 = parts[parts.length - 1];
-          }
-        }
-      }
-      
-      const analysisResult = await analyzeWithClaude({
+      // Step 3: Send to Claude with all evidence (it writes the narrative only)
+      const narrative = await analyzeWithClaude({
         promptText: prompt,
-        imageBase64: mainPhotoBase64,
-        imageMime: mainPhotoMime,
+        attachments: evidence.attachments,
       });
 
-      // Step 6: Generate PDF from AI response
+      // Step 4: Fill the letter template around the narrative
       const counterClaimPDFUri = await generateCounterClaimPDFFromText(
-        analysisResult,
-        selectedHistoryItem
+        narrative,
+        historyItem,
+        { repairEstimate, rebuttal, template }
       );
 
+      // Step 5: Record the dispute with the claim documents received
+      await recordDispute(historyItem).catch(error => console.error('Failed to record dispute:', error));
+
       setGeneratedPDFUri(counterClaimPDFUri);
+      setIsLetterLogged(false);
       setCurrentStep('result');
     } catch (error) {
       console.error('Error generating counter claim:', error);
@@ -165,6 +239,71 @@ export default function CounterClaimScreen() {
     }
   };
 
+  const saveDispute = async (historyItem: HistoryItem, dispute: DisputeCase) => {
+    await updateHistoryItem(historyItem.id, { dispute });
+    scheduleDisputeReminders(historyItem.id, dispute, dispute.claim?.company || historyItem.rentalAgreement?.company)
+      .catch(error => console.error('Failed to schedule dispute reminders:', error));
+  };
+
+  /**
+   * Open the inspection's dispute (or add the claim to it) and log claim documents not logged yet
+   */
+  const recordDispute = async (historyItem: HistoryItem) => {
+    let dispute = historyItem.dispute ?? createDispute(damageClaim ?? undefined);
+    if (damageClaim && !dispute.claim) {
+      dispute = {
+        ...dispute,
+        claim: damageClaim,
+        responseDeadline: dispute.responseDeadline ?? parseDeadline(damageClaim.responseDeadline),
+      };
+    }
+
+    const loggedNames = new Set(dispute.correspondence.flatMap(entry => entry.attachments.map(attachment => attachment.name)));
+    const newFiles = uploadedFiles.filter(file => !loggedNames.has(file.name || 'uploaded-file'));
+    if (newFiles.length > 0) {
+      const attachments = await Promise.all(newFiles.map(file => keepDisputeAttachment(historyItem.id, {
+        uri: file.uri,
+        name: file.name || 'uploaded-file',
+        mimeType: file.mimeType,
+      })));
+      dispute = addCorrespondence(dispute, {
+        date: Date.now(),
+        direction: 'received',
+        summary: damageClaim?.claimNumber ? `Damage claim ${damageClaim.claimNumber}` : 'Damage claim documents',
+        attachments,
+      });
+    }
+
+    if (dispute !== historyItem.dispute) {
+      await saveDispute(historyItem, dispute);
+    }
+  };
+
+  const handleMarkSent = async () => {
+    const historyItem = selectedHistoryItem && history.find(item => item.id === selectedHistoryItem.id);
+    if (!historyItem || !generatedPDFUri) return;
+
+    try {
+      const letter = await keepDisputeAttachment(historyItem.id, {
+        uri: generatedPDFUri,
+        name: letterFileName(letterType),
+        mimeType: 'application/pdf',
+      });
+      const dispute = addCorrespondence(historyItem.dispute ?? createDispute(damageClaim ?? undefined), {
+        date: Date.now(),
+        direction: 'sent',
+        summary: letterRecipient.name ? `${LETTER_TYPE_LABELS[letterType]} to ${letterRecipient.name}` : LETTER_TYPE_LABELS[letterType],
+        attachments: [letter],
+      });
+      // Asking the card issuer for a chargeback escalates the dispute
+      await saveDispute(historyItem, letterType === 'chargeback' ? setDisputeStatus(dispute, 'escalated', 'chargeback') : dispute);
+      setIsLetterLogged(true);
+    } catch (error) {
+      console.error('Error logging counter-claim letter:', error);
+      Alert.alert('Error', 'Failed to log the letter on the dispute');
+    }
+  };
+
   const handleDownload = async () => {
     if (!generatedPDFUri) return;
 
@@ -173,7 +312,7 @@ export default function CounterClaimScreen() {
         // For web, create download link
         const link = document.createElement('a');
         link.href = generatedPDFUri;
-        link.download = 'counter-claim-letter.pdf';
+        link.download = letterFileName(letterType);
         link.click();
       } else {
         // For mobile, use sharing
@@ -194,7 +333,13 @@ export default function CounterClaimScreen() {
     setSelectedHistoryItem(null);
     setUploadedFiles([]);
     setClaimText('');
+    setRentalAgreement({});
+    setDamageClaim(null);
     setGeneratedPDFUri(null);
+    setIsLetterLogged(false);
+    setLetterType('rentalCompany');
+    setChosenJurisdiction(null);
+    setLetterRecipient({});
     setCurrentStep('select-history');
   };
 
@@ -231,11 +376,11 @@ export default function CounterClaimScreen() {
                     style={styles.historyCard}
                     onPress={() => handleSelectHistory(item)}
                   >
-                    <Image source={{ uri: item.mainPhoto }} style={styles.historyThumbnail} />
+                    <PhotoImage uri={item.mainPhoto} style={styles.historyThumbnail} />
                     <View style={styles.historyInfo}>
                       <Text style={styles.historyDate}>{item.dateText}</Text>
                       <Text style={styles.historySections}>
-                        {item.sectionPhotos.length} sections documented
+                        {damageSectionPhotos(item.sectionPhotos).length} sections documented
                       </Text>
                     </View>
                     <Check size={20} color="#4A90A4" style={styles.checkIcon} />
@@ -257,10 +402,10 @@ export default function CounterClaimScreen() {
             {/* History Summary */}
             <View style={styles.historySummary}>
               <Text style={styles.summaryTitle}>Selected Inspection</Text>
-              <Image source={{ uri: selectedHistoryItem.mainPhoto }} style={styles.summaryThumbnail} />
+              <PhotoImage uri={selectedHistoryItem.mainPhoto} style={styles.summaryThumbnail} />
               <Text style={styles.summaryDate}>{selectedHistoryItem.dateText}</Text>
               <Text style={styles.summarySections}>
-                {selectedHistoryItem.sectionPhotos.length} sections documented
+                {damageSectionPhotos(selectedHistoryItem.sectionPhotos).length} sections documented
               </Text>
             </View>
 
@@ -298,6 +443,45 @@ export default function CounterClaimScreen() {
               <TouchableOpacity
                 style={styles.primaryButton}
                 onPress={handleNextToText}
+                disabled={claimMutation.isPending}
+              >
+                {claimMutation.isPending ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Next</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            {claimMutation.isPending && (
+              <Text style={styles.readingText}>Reading the claim documents...</Text>
+            )}
+          </View>
+        )}
+
+        {/* Step 3: Review Claim */}
+        {currentStep === 'review-claim' && selectedHistoryItem && claimRebuttal && (
+          <View style={styles.stepContainer}>
+            <Text style={styles.stepTitle}>Step 3: Review the Claim</Text>
+            <Text style={styles.stepDescription}>
+              Each item the rental company claims, checked against your photos of that part of the car
+            </Text>
+
+            <ClaimReview
+              rebuttal={claimRebuttal}
+              pickupDateText={selectedHistoryItem.dateText}
+              returnDateText={selectedHistoryItem.afterDateText}
+            />
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setCurrentStep('upload-files')}
+              >
+                <Text style={styles.secondaryButtonText}>Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => setCurrentStep('add-text')}
               >
                 <Text style={styles.primaryButtonText}>Next</Text>
               </TouchableOpacity>
@@ -305,10 +489,10 @@ export default function CounterClaimScreen() {
           </View>
         )}
 
-        {/* Step 3: Add Text */}
+        {/* Step 4: Add Text */}
         {currentStep === 'add-text' && selectedHistoryItem && (
           <View style={styles.stepContainer}>
-            <Text style={styles.stepTitle}>Step 3: Additional Information (Optional)</Text>
+            <Text style={styles.stepTitle}>Step 4: Additional Information (Optional)</Text>
             <Text style={styles.stepDescription}>
               Add any additional context or information about the dispute
             </Text>
@@ -324,10 +508,78 @@ export default function CounterClaimScreen() {
               textAlignVertical="top"
             />
 
+            <Text style={styles.subsectionTitle}>Rental Agreement</Text>
+            <Text style={styles.stepDescription}>
+              Used to address the letter to the right company and branch and to quote your agreement number
+            </Text>
+            <View style={styles.agreementForm}>
+              <RentalAgreementForm value={rentalAgreement} onChange={setRentalAgreement} />
+            </View>
+
+            <Text style={styles.subsectionTitle}>Letter</Text>
+            <Text style={styles.stepDescription}>
+              Who the letter is for and where the car was rented, for the legal references it quotes
+            </Text>
+            <View style={styles.letterForm}>
+              <View style={styles.chips}>
+                {LETTER_TYPES.map(type => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, letterType === type && styles.chipActive]}
+                    onPress={() => setLetterType(type)}
+                  >
+                    <Text style={[styles.chipText, letterType === type && styles.chipTextActive]}>
+                      {LETTER_TYPE_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.chips}>
+                {JURISDICTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, jurisdiction === option && styles.chipActive]}
+                    onPress={() => setChosenJurisdiction(option)}
+                  >
+                    <Text style={[styles.chipText, jurisdiction === option && styles.chipTextActive]}>
+                      {JURISDICTION_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {!jurisdiction && (
+                <Text style={styles.fieldLabel}>
+                  No template matches the claim currency or your price region yet - choose the closest jurisdiction
+                </Text>
+              )}
+              {recipientFields.name && (
+                <>
+                  <Text style={styles.fieldLabel}>{recipientFields.name}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={letterRecipient.name || ''}
+                    onChangeText={name => setLetterRecipient(prev => ({ ...prev, name }))}
+                    placeholderTextColor="#7AB8CC"
+                  />
+                </>
+              )}
+              {recipientFields.reference && (
+                <>
+                  <Text style={styles.fieldLabel}>{recipientFields.reference}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={letterRecipient.reference || ''}
+                    onChangeText={reference => setLetterRecipient(prev => ({ ...prev, reference }))}
+                    placeholderTextColor="#7AB8CC"
+                  />
+                </>
+              )}
+            </View>
+
             <View style={styles.buttonRow}>
               <TouchableOpacity
                 style={styles.secondaryButton}
-                onPress={() => setCurrentStep('upload-files')}
+                onPress={() => setCurrentStep(damageClaim ? 'review-claim' : 'upload-files')}
               >
                 <Text style={styles.secondaryButtonText}>Back</Text>
               </TouchableOpacity>
@@ -336,30 +588,33 @@ export default function CounterClaimScreen() {
                 onPress={handleGenerate}
                 disabled={isGenerating}
               >
-                <Text style={styles.primaryButtonText}>Generate Counter Claim</Text>
+                <Text style={styles.primaryButtonText}>Generate Letter</Text>
               </TouchableOpacity>
             </View>
           </View>
         )}
 
-        {/* Step 4: Generating */}
+        {/* Step 5: Generating */}
         {currentStep === 'generating' && (
           <View style={styles.stepContainer}>
             <ActivityIndicator size="large" color="#4A90A4" />
-            <Text style={styles.generatingText}>Generating counter claim letter...</Text>
+            <Text style={styles.generatingText}>Generating {LETTER_TYPE_LABELS[letterType].toLowerCase()}...</Text>
             <Text style={styles.generatingSubtext}>
               This may take a minute. Analyzing your inspection and rental company documents.
             </Text>
           </View>
         )}
 
-        {/* Step 5: Result */}
+        {/* Step 6: Result */}
         {currentStep === 'result' && generatedPDFUri && (
           <View style={styles.stepContainer}>
-            <Text style={styles.stepTitle}>Counter Claim Letter Generated</Text>
+            <Text style={styles.stepTitle}>Letter Generated</Text>
             <Text style={styles.stepDescription}>
               Review the letter below and download or share it
             </Text>
+            {claimRebuttal && claimRebuttal.items.length > 0 && (
+              <Text style={styles.rebuttalSummary}>{rebuttalSummary(claimRebuttal)}</Text>
+            )}
 
             {/* PDF Viewer */}
             <View style={styles.pdfContainer}>
@@ -384,7 +639,24 @@ export default function CounterClaimScreen() {
 
             <TouchableOpacity style={styles.downloadButton} onPress={handleDownload}>
               <Download size={24} color="#FFFFFF" />
-              <Text style={styles.downloadButtonText}>Download Counter Claim</Text>
+              <Text style={styles.downloadButtonText}>Download Letter</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.resultButton]}
+              onPress={handleMarkSent}
+              disabled={isLetterLogged}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {isLetterLogged ? 'Logged as Sent' : 'Mark Letter as Sent'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.resultButton]}
+              onPress={() => selectedHistoryItem && router.push({ pathname: '/dispute', params: { historyId: selectedHistoryItem.id } })}
+            >
+              <Text style={styles.secondaryButtonText}>View Dispute</Text>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.secondaryButton} onPress={handleStartOver}>
@@ -400,36 +672,69 @@ export default function CounterClaimScreen() {
 function createCounterClaimPrompt(
   historyItem: HistoryItem,
   additionalText: string,
-  uploadedFileNames: string[]
+  uploadedFileNames: string[],
+  attachmentList: string,
+  template: LetterTemplateChoice,
+  rebuttal: ClaimRebuttal | undefined,
+  repairEstimate: RepairCostEstimate,
+  priceTable: RepairPriceTable
 ): string {
   return `You are a legal assistant helping to dispute a rental car damage claim.
 
 The user has provided:
 1. A complete vehicle inspection report from ${historyItem.dateText}
-2. Rental company claim document(s): ${uploadedFileNames.join(', ')}
+2. Rental company claim document(s): ${uploadedFileNames.length > 0 ? uploadedFileNames.join(', ') : 'None uploaded'}
 3. Additional context: ${additionalText || 'None provided'}
 
+The following files are attached, in this order:
+${attachmentList || 'No attachments could be loaded'}
+
 Your task:
-1. Analyze the rental company's damage claim
-2. Compare it with the inspection evidence from ${historyItem.dateText}
+1. Read the rental company's claim document(s) and identify each damage item they claim
+2. Compare each item with the pickup photos from ${historyItem.dateText}${historyItem.isReturned ? ` and the return photos from ${historyItem.afterDateText || 'the return'}` : ''}
 3. Identify specific discrepancies or evidence that disputes the claim
-4. Reference the exact photos and sections from the inspection
-5. Create a professional, legally-sound counter-claim letter
+4. Reference the exact photos and sections by attachment number
+5. Write the narrative of a ${LETTER_TYPE_LABELS[template.type].toLowerCase()} to ${LETTER_NARRATIVE_BRIEFS[template.type]}
 
 The inspection included:
 - Main vehicle photo
-- ${historyItem.sectionPhotos.length} section photos with damage notes
+- ${damageSectionPhotos(historyItem.sectionPhotos).length} section photos with damage notes
+${identityLines(historyItem.vehicleIdentity, historyItem.pickupReadings).map(line => `- ${line}`).join('\n') || '- Vehicle identity (plate / VIN) not recorded'}
 - Detailed analysis: ${historyItem.allDamageNotes.substring(0, 500)}...
 
-Generate a comprehensive counter-claim letter that:
-- Is addressed to the rental car company
-- References the specific date of inspection (${historyItem.dateText})
-- Cites the relevant photos and evidence
-- Disputes the claim with specific evidence
-- Is professional and legally appropriate
-- Includes all relevant details from the inspection
+Rental agreement:
+${rentalAgreementLines(historyItem.rentalAgreement).map(line => `- ${line}`).join('\n') || '- Not recorded'}
+
+${rebuttal ? `The rental company's claim, as read from their documents:
+${claimDetailLines(rebuttal.claim).map(line => `- ${line}`).join('\n')}
+${rebuttal.claim.fees.map(fee => `- Fee - ${claimFeeLabel(fee)}: ${formatClaimAmount(fee.amount, rebuttal.claim)}`).join('\n')}
+
+Verdict per claimed item, checked against the inspection photos (${rebuttalSummary(rebuttal)}):
+${rebuttalLines(rebuttal).join('\n') || '- No damage items claimed'}
+
+These verdicts are final and are printed as an itemized response after your narrative. Do not list the items again or change their verdicts; build the argument on them, citing the photo IDs (P = pickup, R = return, numbered as the sections of the inspection report) and capture times given above.
+
+` : ''}Independent repair cost estimate (typical body shop prices, ${repairEstimate.currency}):
+- ${repairEstimateSummary(repairEstimate)}
+${repairEstimateLines(repairEstimate).map(line => `- ${line}`).join('\n') || '- No damage recorded at pickup'}
+
+Typical repair prices for this vehicle (one body panel):
+${priceReferenceLines(priceTable, historyItem.walkAroundPlan?.vehicleType).map(line => `- ${line}`).join('\n')}
+
+The letter is filled from a ${JURISDICTION_LABELS[template.jurisdiction]} template. The template already contains the date, addresses, subject line, salutation, an opening sentence, the legal basis below, the requests to the recipient, the evidence references, the closing and the signature.
+
+Legal basis printed by the template:
+${jurisdictionClauses(template.type, template.jurisdiction).map(line => `- ${line}`).join('\n')}
+
+Write ONLY the narrative paragraphs that go between the opening sentence and the itemized response. The narrative should:
+- Be written in the first person${historyItem.rentalAgreement?.renterName ? ` by ${historyItem.rentalAgreement.renterName}` : ''}, for ${LETTER_NARRATIVE_BRIEFS[template.type]}
+- Set out what happened with ${historyItem.rentalAgreement?.company || 'the rental car company'}${historyItem.rentalAgreement?.agreementNumber ? ` under rental agreement ${historyItem.rentalAgreement.agreementNumber}` : ''}
+- Refer to the inspection of ${historyItem.dateText} and cite the relevant photos and evidence
+- Dispute the claim with specific evidence
+- Point out claimed repair charges that are well above the typical prices above
+- Be professional and factual
 
-Format the response as a complete letter ready to be converted to PDF.`;
+Do not include a date, addresses, subject line, salutation, legal citations, closing or signature. Return plain text paragraphs separated by blank lines.`;
 }
 
 
@@ -587,6 +892,18 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     textAlignVertical: 'top',
   },
+  subsectionTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#4A90A4',
+    marginBottom: 8,
+  },
+  agreementForm: {
+    marginBottom: 24,
+  },
+  letterForm: {
+    marginBottom: 12,
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: 12,
@@ -612,6 +929,46 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#4A90A4',
   },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4A90A4',
+  },
+  chipActive: {
+    backgroundColor: '#4A90A4',
+  },
+  chipText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  fieldLabel: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 8,
+    padding: 12,
+    color: '#FFFFFF',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  resultButton: {
+    marginBottom: 12,
+  },
   secondaryButtonText: {
     color: '#4A90A4',
     fontSize: 18,
@@ -624,6 +981,19 @@ const styles = StyleSheet.create({
     marginTop: 16,
     textAlign: 'center',
   },
+  rebuttalSummary: {
+    color: '#FFD700',
+    fontSize: 15,
+    fontWeight: '600' as const,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  readingText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
   generatingSubtext: {
     color: '#7AB8CC',
     fontSize: 14,
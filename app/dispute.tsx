@@ -0,0 +1,627 @@
+/**
+ * Dispute Screen
+ *
+ * Tracks a dispute with the rental company over a damage claim
+ * (lib/dispute.ts): its status, the response deadline (with reminders),
+ * how it was resolved, and a log of the correspondence with the documents
+ * exchanged.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { ArrowDownLeft, ArrowLeft, ArrowUpRight, Calendar, FileText, Paperclip, X } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useHistory } from '@/contexts/HistoryContext';
+import {
+  CorrespondenceDirection,
+  DISPUTE_STATUSES,
+  DISPUTE_STATUS_COLORS,
+  DISPUTE_STATUS_LABELS,
+  DisputeAttachment,
+  DisputeCase,
+  DisputeStatus,
+  ESCALATION_ROUTES,
+  ESCALATION_ROUTE_LABELS,
+  addCorrespondence,
+  createDispute,
+  describeDeadline,
+  describeDisputeStatus,
+  formatDeadlineInput,
+  parseDeadline,
+  removeCorrespondence,
+  setDisputeStatus,
+} from '@/lib/dispute';
+import { claimDetailLines, formatClaimAmount } from '@/lib/damageClaim';
+import { keepDisputeAttachment, openDisputeAttachment } from '@/services/disputes';
+import { scheduleDisputeReminders } from '@/services/notifications';
+
+export default function DisputeScreen() {
+  const router = useRouter();
+  const { historyId } = useLocalSearchParams<{ historyId: string }>();
+  const { getHistoryItem, updateHistoryItem } = useHistory();
+  const historyItem = historyId ? getHistoryItem(historyId) : undefined;
+  const dispute = historyItem?.dispute;
+
+  const [deadlineText, setDeadlineText] = useState('');
+  const [amountPaidText, setAmountPaidText] = useState('');
+  const [amountWaivedText, setAmountWaivedText] = useState('');
+  const [entryDirection, setEntryDirection] = useState<CorrespondenceDirection>('received');
+  const [entrySummary, setEntrySummary] = useState('');
+  const [entryDateText, setEntryDateText] = useState('');
+  const [entryAttachments, setEntryAttachments] = useState<DisputeAttachment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDeadlineText(formatDeadlineInput(dispute?.responseDeadline));
+    setAmountPaidText(dispute?.amountPaid !== undefined ? String(dispute.amountPaid) : '');
+    setAmountWaivedText(dispute?.amountWaived !== undefined ? String(dispute.amountWaived) : '');
+  }, [dispute?.responseDeadline, dispute?.amountPaid, dispute?.amountWaived]);
+
+  if (!historyItem) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <ArrowLeft size={24} color="#4A90A4" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Dispute</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+        <Text style={styles.emptyText}>Inspection not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const company = dispute?.claim?.company || historyItem.rentalAgreement?.company;
+
+  const saveDispute = async (next: DisputeCase) => {
+    setIsSaving(true);
+    try {
+      await updateHistoryItem(historyItem.id, { dispute: next });
+      scheduleDisputeReminders(historyItem.id, next, company)
+        .catch(error => console.error('Failed to schedule dispute reminders:', error));
+    } catch (error) {
+      console.error('Error saving dispute:', error);
+      Alert.alert('Error', 'Failed to save the dispute');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelectStatus = (status: DisputeStatus) => {
+    if (!dispute || status === dispute.status) return;
+    saveDispute(setDisputeStatus(dispute, status));
+  };
+
+  const handleCommitDeadline = () => {
+    if (!dispute) return;
+    const responseDeadline = parseDeadline(deadlineText);
+    if (deadlineText.trim() && !responseDeadline) {
+      Alert.alert('Invalid Date', 'Enter the deadline as YYYY-MM-DD.');
+      return;
+    }
+    if (responseDeadline === dispute.responseDeadline) return;
+    saveDispute({ ...dispute, responseDeadline, updatedAt: Date.now() });
+  };
+
+  const handleCommitAmounts = () => {
+    if (!dispute) return;
+    const parseAmount = (text: string) => {
+      const value = parseFloat(text.replace(',', '.'));
+      return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+    const amountPaid = parseAmount(amountPaidText);
+    const amountWaived = parseAmount(amountWaivedText);
+    if (amountPaid === dispute.amountPaid && amountWaived === dispute.amountWaived) return;
+    saveDispute({ ...dispute, amountPaid, amountWaived, updatedAt: Date.now() });
+  };
+
+  const handleAttachFiles = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*', 'message/rfc822', 'text/plain'],
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const kept = await Promise.all(result.assets.map(asset => keepDisputeAttachment(historyId, {
+        uri: asset.uri,
+        name: asset.name || 'document',
+        mimeType: asset.mimeType,
+      })));
+      setEntryAttachments(prev => [...prev, ...kept]);
+    } catch (error) {
+      console.error('Error attaching documents:', error);
+      Alert.alert('Error', 'Failed to attach files');
+    }
+  };
+
+  const handleAddEntry = async () => {
+    if (!dispute) return;
+    if (!entrySummary.trim() && entryAttachments.length === 0) {
+      Alert.alert('Nothing to Add', 'Describe the correspondence or attach a document.');
+      return;
+    }
+    const date = entryDateText.trim() ? new Date(`${entryDateText.trim()}T12:00:00`).getTime() : Date.now();
+    if (isNaN(date)) {
+      Alert.alert('Invalid Date', 'Enter the date as YYYY-MM-DD.');
+      return;
+    }
+
+    await saveDispute(addCorrespondence(dispute, {
+      date,
+      direction: entryDirection,
+      summary: entrySummary.trim() || (entryDirection === 'sent' ? 'Sent to the rental company' : 'Received from the rental company'),
+      attachments: entryAttachments,
+    }));
+    setEntrySummary('');
+    setEntryDateText('');
+    setEntryAttachments([]);
+  };
+
+  const handleRemoveEntry = (entryId: string) => {
+    if (!dispute) return;
+    Alert.alert(
+      'Remove Entry',
+      'Remove this entry from the correspondence log?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => saveDispute(removeCorrespondence(dispute, entryId)) },
+      ]
+    );
+  };
+
+  const handleOpenAttachment = async (attachment: DisputeAttachment) => {
+    try {
+      await openDisputeAttachment(attachment);
+    } catch (error: any) {
+      console.error('Error opening document:', error);
+      Alert.alert('Error', error?.message || 'Failed to open the document');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#4A90A4" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Dispute</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.inspectionText}>Inspection from {historyItem.dateText}</Text>
+
+        {!dispute ? (
+          <View style={styles.card}>
+            <Text style={styles.cardText}>
+              No dispute recorded for this rental. Open one when the rental company sends a damage claim.
+            </Text>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => saveDispute(createDispute(undefined))}
+              disabled={isSaving}
+            >
+              <Text style={styles.primaryButtonText}>Open Dispute</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <View style={[styles.statusBadge, { borderColor: DISPUTE_STATUS_COLORS[dispute.status] }]}>
+                <Text style={[styles.statusBadgeText, { color: DISPUTE_STATUS_COLORS[dispute.status] }]}>
+                  {describeDisputeStatus(dispute)}
+                </Text>
+              </View>
+              {company && <Text style={styles.cardTitle}>{company}</Text>}
+              {dispute.claim && claimDetailLines(dispute.claim).map(line => (
+                <Text key={line} style={styles.cardText}>{line}</Text>
+              ))}
+              {dispute.responseDeadline && dispute.status === 'claimReceived' && (
+                <Text style={styles.deadlineText}>
+                  Response {describeDeadline(dispute.responseDeadline).toLowerCase()} ({new Date(dispute.responseDeadline).toLocaleDateString()})
+                </Text>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Status</Text>
+            <View style={styles.chips}>
+              {DISPUTE_STATUSES.map(status => (
+                <TouchableOpacity
+                  key={status}
+                  style={[styles.chip, dispute.status === status && styles.chipActive]}
+                  onPress={() => handleSelectStatus(status)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.chipText, dispute.status === status && styles.chipTextActive]}>
+                    {DISPUTE_STATUS_LABELS[status]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {dispute.status === 'escalated' && (
+              <View style={styles.chips}>
+                {ESCALATION_ROUTES.map(route => (
+                  <TouchableOpacity
+                    key={route}
+                    style={[styles.chip, dispute.escalation === route && styles.chipActive]}
+                    onPress={() => saveDispute(setDisputeStatus(dispute, 'escalated', route))}
+                    disabled={isSaving}
+                  >
+                    <Text style={[styles.chipText, dispute.escalation === route && styles.chipTextActive]}>
+                      {ESCALATION_ROUTE_LABELS[route]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {dispute.status === 'resolved' && (
+              <View style={styles.card}>
+                <Text style={styles.fieldLabel}>Amount paid ({dispute.claim?.currency || 'USD'})</Text>
+                <TextInput
+                  style={styles.input}
+                  value={amountPaidText}
+                  onChangeText={setAmountPaidText}
+                  onEndEditing={handleCommitAmounts}
+                  keyboardType="decimal-pad"
+                  placeholder="0"
+                  placeholderTextColor="#7AB8CC"
+                />
+                <Text style={styles.fieldLabel}>Amount waived</Text>
+                <TextInput
+                  style={styles.input}
+                  value={amountWaivedText}
+                  onChangeText={setAmountWaivedText}
+                  onEndEditing={handleCommitAmounts}
+                  keyboardType="decimal-pad"
+                  placeholder="0"
+                  placeholderTextColor="#7AB8CC"
+                />
+                {dispute.claim && (dispute.amountPaid !== undefined || dispute.amountWaived !== undefined) && (
+                  <Text style={styles.cardText}>
+                    Paid {formatClaimAmount(dispute.amountPaid ?? 0, dispute.claim)}, waived {formatClaimAmount(dispute.amountWaived ?? 0, dispute.claim)}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <Text style={styles.sectionTitle}>Response Deadline</Text>
+            <View style={styles.dateRow}>
+              <Calendar size={20} color="#4A90A4" />
+              <TextInput
+                style={styles.dateInput}
+                value={deadlineText}
+                onChangeText={setDeadlineText}
+                onEndEditing={handleCommitDeadline}
+                onSubmitEditing={handleCommitDeadline}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#7AB8CC"
+              />
+            </View>
+            <Text style={styles.hintText}>
+              You will be reminded before the deadline until your response is sent.
+            </Text>
+
+            <Text style={styles.sectionTitle}>Correspondence</Text>
+            {dispute.correspondence.length === 0 && (
+              <Text style={styles.hintText}>No correspondence logged yet.</Text>
+            )}
+            {dispute.correspondence.map(entry => (
+              <View key={entry.id} style={styles.entryCard}>
+                <View style={styles.entryHeader}>
+                  {entry.direction === 'sent'
+                    ? <ArrowUpRight size={18} color="#FFD700" />
+                    : <ArrowDownLeft size={18} color="#7AB8CC" />}
+                  <Text style={styles.entryDate}>
+                    {entry.direction === 'sent' ? 'Sent' : 'Received'} · {new Date(entry.date).toLocaleDateString()}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleRemoveEntry(entry.id)} style={styles.removeButton}>
+                    <X size={16} color="#FF6B6B" />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.entrySummary}>{entry.summary}</Text>
+                {entry.attachments.map((attachment, index) => (
+                  <TouchableOpacity
+                    key={`${attachment.uri}-${index}`}
+                    style={styles.attachmentRow}
+                    onPress={() => handleOpenAttachment(attachment)}
+                  >
+                    <FileText size={16} color="#4A90A4" />
+                    <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Log Correspondence</Text>
+              <View style={styles.chips}>
+                {(['received', 'sent'] as const).map(direction => (
+                  <TouchableOpacity
+                    key={direction}
+                    style={[styles.chip, entryDirection === direction && styles.chipActive]}
+                    onPress={() => setEntryDirection(direction)}
+                  >
+                    <Text style={[styles.chipText, entryDirection === direction && styles.chipTextActive]}>
+                      {direction === 'received' ? 'Received' : 'Sent'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={[styles.input, styles.summaryInput]}
+                value={entrySummary}
+                onChangeText={setEntrySummary}
+                placeholder="e.g. Reply from claims department, phone call..."
+                placeholderTextColor="#7AB8CC"
+                multiline
+                textAlignVertical="top"
+              />
+              <TextInput
+                style={styles.input}
+                value={entryDateText}
+                onChangeText={setEntryDateText}
+                placeholder="Date YYYY-MM-DD (default today)"
+                placeholderTextColor="#7AB8CC"
+              />
+              {entryAttachments.map((attachment, index) => (
+                <View key={`${attachment.uri}-${index}`} style={styles.attachmentRow}>
+                  <FileText size={16} color="#4A90A4" />
+                  <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+                  <TouchableOpacity onPress={() => setEntryAttachments(prev => prev.filter((_, i) => i !== index))}>
+                    <X size={16} color="#FF6B6B" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleAttachFiles}>
+                  <Paperclip size={16} color="#4A90A4" />
+                  <Text style={styles.secondaryButtonText}>Attach</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.primaryButtonSmall} onPress={handleAddEntry} disabled={isSaving}>
+                  <Text style={styles.primaryButtonText}>Add to Log</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a4a5c',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a5a6c',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#4A90A4',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  emptyText: {
+    color: '#7AB8CC',
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  inspectionText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 8,
+  },
+  cardText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 2,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+  },
+  statusBadgeText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  deadlineText: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4A90A4',
+  },
+  chipActive: {
+    backgroundColor: '#4A90A4',
+  },
+  chipText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  fieldLabel: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#1a4a5c',
+    borderRadius: 8,
+    padding: 10,
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  summaryInput: {
+    minHeight: 72,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+    paddingVertical: 12,
+  },
+  hintText: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  entryCard: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  entryDate: {
+    flex: 1,
+    color: '#7AB8CC',
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  entrySummary: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  attachmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  attachmentName: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 13,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 14,
+    borderRadius: 30,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonSmall: {
+    flex: 1,
+    backgroundColor: '#4A90A4',
+    paddingVertical: 12,
+    borderRadius: 30,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 30,
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+  },
+  secondaryButtonText: {
+    color: '#4A90A4',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+});
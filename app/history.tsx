@@ -1,24 +1,39 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Image,
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Trash2, ArrowLeft, X } from 'lucide-react-native';
 import { useHistory } from '@/contexts/HistoryContext';
+import { DamageRecordList } from '@/components/DamageRecordList';
+import { AnnotatedPhoto } from '@/components/AnnotatedPhoto';
+import { PhotoImage } from '@/components/PhotoImage';
+import { StampedPhotoImage } from '@/components/StampedPhotoImage';
+import { stampablePhotos } from '@/services/watermark';
+import { compareVehicleIdentity, damageSectionPhotos, identityComparisonLines, identityLines } from '@/lib/vehicleIdentity';
+import { rentalAgreementLines } from '@/lib/rentalAgreement';
+import { estimateRepairCost } from '@/lib/repairCost';
+import { useRepairPrices } from '@/contexts/RepairPricesContext';
+import { RepairCostSummary } from '@/components/RepairCostSummary';
+import { describeDeadline, describeDisputeStatus } from '@/lib/dispute';
 
 export default function HistoryScreen() {
   const router = useRouter();
   const { historyId } = useLocalSearchParams<{ historyId?: string }>();
   const { history, deleteFromHistory, getHistoryItem } = useHistory();
+  const { priceTable } = useRepairPrices();
 
   const item = historyId ? getHistoryItem(historyId) : null;
+  const [showOriginals, setShowOriginals] = useState(false);
+  const photos = useMemo(() => (item ? stampablePhotos(item) : []), [item]);
+  const mainPhoto = photos.find(photo => photo.kind === 'main');
+  const sectionPhotos = photos.filter(photo => photo.kind === 'section');
 
   const handleDelete = (id: string) => {
     Alert.alert(
@@ -35,6 +50,14 @@ export default function HistoryScreen() {
   };
 
   if (item) {
+    const vehicleLines = identityLines(item.vehicleIdentity, item.pickupReadings);
+    const identityComparison = item.isReturned ? compareVehicleIdentity(item) : null;
+    const comparisonLines = identityComparison
+      ? [...identityComparisonLines(identityComparison), ...identityComparison.warnings]
+      : [];
+    const agreementLines = rentalAgreementLines(item.rentalAgreement);
+    const repairEstimate = estimateRepairCost(item.sectionPhotos, item.walkAroundPlan?.vehicleType, priceTable);
+
     // Detail view for a specific history item
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -54,24 +77,113 @@ export default function HistoryScreen() {
 
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
           <View style={styles.mainPhotoContainer}>
-            <Image source={{ uri: item.mainPhoto }} style={styles.mainPhoto} />
+            {mainPhoto ? (
+              <StampedPhotoImage photo={mainPhoto} showOriginal={showOriginals} style={styles.mainPhoto} />
+            ) : (
+              <PhotoImage uri={item.mainPhoto} style={styles.mainPhoto} />
+            )}
             <Text style={styles.dateText}>{item.dateText}</Text>
+            <TouchableOpacity onPress={() => setShowOriginals(!showOriginals)} style={styles.originalsToggle}>
+              <Text style={styles.originalsToggleText}>
+                {showOriginals ? 'Show timestamped photos' : 'Show original photos'}
+              </Text>
+            </TouchableOpacity>
           </View>
 
           <Text style={styles.sectionTitle}>Section Photos</Text>
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.thumbnailsContainer}>
             {item.sectionPhotos.map((sectionPhoto, index) => (
               <View key={index} style={styles.thumbnailWrapper}>
-                <Image source={{ uri: sectionPhoto.photoUri }} style={styles.thumbnail} />
+                {sectionPhotos[index] ? (
+                  <StampedPhotoImage photo={sectionPhotos[index]} showOriginal={showOriginals} style={styles.thumbnail} />
+                ) : (
+                  <PhotoImage uri={sectionPhoto.photoUri} style={styles.thumbnail} />
+                )}
                 <Text style={styles.thumbnailLabel}>{sectionPhoto.section}</Text>
               </View>
             ))}
           </ScrollView>
 
-          <Text style={styles.damageTitle}>Damage Notes</Text>
-          <View style={styles.damageNotesContainer}>
-            <Text style={styles.damageNotesText}>{item.allDamageNotes || 'No damage documented'}</Text>
+          {vehicleLines.length > 0 || comparisonLines.length > 0 ? (
+            <>
+              <Text style={styles.damageTitle}>Vehicle</Text>
+              <View style={styles.damageSection}>
+                {vehicleLines.map(line => (
+                  <Text key={line} style={styles.damageNotesText}>{line}</Text>
+                ))}
+                {comparisonLines.map(line => (
+                  <Text key={line} style={styles.damageNotesText}>{line}</Text>
+                ))}
+              </View>
+            </>
+          ) : null}
+
+          {agreementLines.length > 0 ? (
+            <>
+              <Text style={styles.damageTitle}>Rental Agreement</Text>
+              <View style={styles.damageSection}>
+                {agreementLines.map(line => (
+                  <Text key={line} style={styles.damageNotesText}>{line}</Text>
+                ))}
+              </View>
+            </>
+          ) : null}
+
+          <Text style={styles.damageTitle}>Dispute</Text>
+          <View style={styles.damageSection}>
+            {item.dispute ? (
+              <>
+                <Text style={styles.damageNotesText}>Status: {describeDisputeStatus(item.dispute)}</Text>
+                {item.dispute.responseDeadline && item.dispute.status === 'claimReceived' && (
+                  <Text style={styles.damageNotesText}>
+                    Response deadline: {new Date(item.dispute.responseDeadline).toLocaleDateString()} ({describeDeadline(item.dispute.responseDeadline)})
+                  </Text>
+                )}
+                <Text style={styles.damageNotesText}>
+                  Correspondence: {item.dispute.correspondence.length} entr{item.dispute.correspondence.length === 1 ? 'y' : 'ies'}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.damageNotesText}>No damage claim disputed for this rental.</Text>
+            )}
+            <TouchableOpacity
+              style={styles.disputeButton}
+              onPress={() => router.push({ pathname: '/dispute', params: { historyId: item.id } })}
+            >
+              <Text style={styles.disputeButtonText}>{item.dispute ? 'Open Dispute' : 'Track a Dispute'}</Text>
+            </TouchableOpacity>
           </View>
+
+          <Text style={styles.damageTitle}>Damage Notes</Text>
+          {item.sectionPhotos.some(sp => sp.damages) ? (
+            damageSectionPhotos(item.sectionPhotos).map((sectionPhoto, index) => (
+              <View key={index} style={styles.damageSection}>
+                <Text style={styles.damageSectionTitle}>{sectionPhoto.section}</Text>
+                {sectionPhoto.damages?.some(damage => damage.boundingBox) && (
+                  <View style={styles.annotatedPhoto}>
+                    <AnnotatedPhoto uri={sectionPhoto.photoUri} records={sectionPhoto.damages} />
+                  </View>
+                )}
+                {sectionPhoto.damages ? (
+                  <DamageRecordList records={sectionPhoto.damages} />
+                ) : (
+                  <Text style={styles.damageNotesText}>{sectionPhoto.damageNotes}</Text>
+                )}
+              </View>
+            ))
+          ) : (
+            // Inspections saved before structured damage records
+            <View style={styles.damageNotesContainer}>
+              <Text style={styles.damageNotesText}>{item.allDamageNotes || 'No damage documented'}</Text>
+            </View>
+          )}
+
+          {repairEstimate.items.length > 0 && (
+            <>
+              <Text style={styles.damageTitle}>Repair Cost Estimate</Text>
+              <RepairCostSummary estimate={repairEstimate} onEditPrices={() => router.push('/repair-prices')} />
+            </>
+          )}
         </ScrollView>
       </SafeAreaView>
     );
@@ -147,6 +259,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600' as const,
   },
+  originalsToggle: {
+    marginTop: 8,
+    padding: 4,
+  },
+  originalsToggleText: {
+    color: '#8BB3C0',
+    fontSize: 14,
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: '600' as const,
@@ -183,11 +303,39 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     padding: 16,
   },
+  damageSection: {
+    backgroundColor: '#2E5A6B',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  damageSectionTitle: {
+    color: '#4A9FB8',
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 6,
+  },
+  annotatedPhoto: {
+    marginBottom: 8,
+  },
   damageNotesText: {
     color: '#fff',
     fontSize: 14,
     lineHeight: 20,
   },
+  disputeButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4A9FB8',
+    alignItems: 'center',
+  },
+  disputeButtonText: {
+    color: '#4A9FB8',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
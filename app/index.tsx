@@ -5,20 +5,21 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Image,
   FlatList,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useSegments } from 'expo-router';
-import { Car, History, FileWarning, RotateCcw } from 'lucide-react-native';
+import { Car, History, FileWarning, RotateCcw, ShieldCheck } from 'lucide-react-native';
 import { useHistory } from '@/contexts/HistoryContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { PhotoImage } from '@/components/PhotoImage';
+import { compareVehicleIdentity, damageSectionPhotos, formatVehicleLabel } from '@/lib/vehicleIdentity';
 
 export default function HomeScreen() {
   const router = useRouter();
   const segments = useSegments();
-  const { history, isLoading } = useHistory();
+  const { history, isLoading, storageError } = useHistory();
   const { canAccessApp, isLoading: authLoading } = useAuth();
 
   // Gate access - redirect to auth if not subscribed
@@ -95,23 +96,34 @@ export default function HomeScreen() {
       }
       
       const { date, time } = formatDate(item.dateText || '');
+      const vehicleLabel = formatVehicleLabel(item.vehicleIdentity);
+      const identityComparison = item.isReturned ? compareVehicleIdentity(item) : null;
       return (
         <TouchableOpacity
           style={styles.historyItem}
           onPress={() => handleHistoryItemPress(item.id)}
           activeOpacity={0.7}
         >
-          <Image 
-            source={{ uri: item.mainPhoto }} 
+          <PhotoImage
+            uri={item.mainPhoto}
             style={styles.historyThumbnail}
             onError={() => console.log('Failed to load image:', item.mainPhoto)}
           />
           <View style={styles.historyInfo}>
             <Text style={styles.historyDate}>{date}</Text>
             <Text style={styles.historyTime}>{time}</Text>
+            {vehicleLabel ? (
+              <Text style={styles.historyVehicle} numberOfLines={1}>{vehicleLabel}</Text>
+            ) : null}
             <Text style={styles.historySections}>
-              {item.sectionPhotos?.length || 0} sections documented
+              {damageSectionPhotos(item.sectionPhotos || []).length} sections documented
+              {identityComparison?.distanceDriven != null
+                ? ` - ${identityComparison.distanceDriven.toLocaleString('en-US')} ${identityComparison.distanceUnit} driven`
+                : ''}
             </Text>
+            {identityComparison && identityComparison.warnings.length > 0 ? (
+              <Text style={styles.historyWarning} numberOfLines={2}>{identityComparison.warnings[0]}</Text>
+            ) : null}
           </View>
         </TouchableOpacity>
       );
@@ -146,6 +158,15 @@ export default function HomeScreen() {
           <FileWarning size={24} color="#FFFFFF" />
           <Text style={styles.counterClaimButtonText}>Dispute Damage Claim</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.counterClaimButton}
+          onPress={() => router.push('/verify')}
+          activeOpacity={0.8}
+        >
+          <ShieldCheck size={24} color="#FFFFFF" />
+          <Text style={styles.counterClaimButtonText}>Verify Inspection Report</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Active Rentals Section */}
@@ -166,8 +187,8 @@ export default function HomeScreen() {
                 (item.expectedReturnDate ? new Date(item.expectedReturnDate).toLocaleDateString() : '');
               return (
                 <View key={item.id} style={styles.activeRentalCard}>
-                  <Image 
-                    source={{ uri: item.mainPhoto }} 
+                  <PhotoImage
+                    uri={item.mainPhoto}
                     style={styles.activeRentalThumbnail}
                     onError={() => console.log('Failed to load image:', item.mainPhoto)}
                   />
@@ -178,8 +199,11 @@ export default function HomeScreen() {
                         Return: {returnDate}
                       </Text>
                     )}
+                    {item.vehicleIdentity?.licensePlate ? (
+                      <Text style={styles.historyVehicle} numberOfLines={1}>{item.vehicleIdentity.licensePlate}</Text>
+                    ) : null}
                     <Text style={styles.activeRentalSections}>
-                      {item.sectionPhotos?.length || 0} sections
+                      {damageSectionPhotos(item.sectionPhotos || []).length} sections
                     </Text>
                   </View>
                   <TouchableOpacity
@@ -203,6 +227,9 @@ export default function HomeScreen() {
             {activeRentals.length > 0 ? 'Completed Inspections' : 'Inspection History'}
           </Text>
         </View>
+        {storageError && (
+          <Text style={styles.storageErrorText}>{storageError}</Text>
+        )}
         {isLoading ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>Loading...</Text>
@@ -291,6 +318,11 @@ const styles = StyleSheet.create({
     fontWeight: '600' as const,
     color: '#4A90A4',
   },
+  storageErrorText: {
+    color: '#FFD700',
+    fontSize: 13,
+    marginBottom: 12,
+  },
   historyList: {
     paddingBottom: 20,
   },
@@ -328,6 +360,17 @@ const styles = StyleSheet.create({
     color: '#9AC4D6',
     fontSize: 12,
   },
+  historyVehicle: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600' as const,
+    marginBottom: 2,
+  },
+  historyWarning: {
+    color: '#FF6B6B',
+    fontSize: 12,
+    marginTop: 2,
+  },
   emptyState: {
     paddingVertical: 40,
     alignItems: 'center',
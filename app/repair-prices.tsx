@@ -0,0 +1,359 @@
+/**
+ * Repair Prices Screen
+ *
+ * Edits the price table used for repair cost estimates (lib/repairCost.ts):
+ * base price ranges per damage type and severity, and the factors applied
+ * for the panel, vehicle class and region.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { useRepairPrices } from '@/contexts/RepairPricesContext';
+import {
+  REPAIR_PANELS,
+  REPAIR_PANEL_LABELS,
+  REPAIR_REGIONS,
+  REPAIR_REGION_LABELS,
+  RepairPriceTable,
+} from '@/lib/repairCost';
+import { DAMAGE_SEVERITIES, DAMAGE_SEVERITY_LABELS, DAMAGE_TYPES, DAMAGE_TYPE_LABELS } from '@/lib/damage';
+import { VEHICLE_TYPES, vehicleTypeLabel } from '@/lib/walkAround';
+
+export default function RepairPricesScreen() {
+  const router = useRouter();
+  const { priceTable, savePriceTable, resetPriceTable } = useRepairPrices();
+  const [draft, setDraft] = useState<RepairPriceTable>(priceTable);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(priceTable);
+  }, [priceTable]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await savePriceTable({ ...draft, currency: draft.currency.trim().toUpperCase() });
+      router.back();
+    } catch (error) {
+      console.error('Error saving repair prices:', error);
+      Alert.alert('Error', 'Failed to save repair prices');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Prices',
+      'Replace your prices with the default US body shop prices?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () => {
+            resetPriceTable().catch(error => {
+              console.error('Error resetting repair prices:', error);
+              Alert.alert('Error', 'Failed to reset repair prices');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#4A90A4" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Repair Prices</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.instruction}>
+          Typical prices to repair one body panel of a sedan. Estimates scale them by panel, vehicle type and region.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Region</Text>
+        <View style={styles.chips}>
+          {REPAIR_REGIONS.map(region => (
+            <TouchableOpacity
+              key={region}
+              style={[styles.chip, draft.region === region && styles.chipActive]}
+              onPress={() => setDraft({ ...draft, region })}
+            >
+              <Text style={[styles.chipText, draft.region === region && styles.chipTextActive]}>
+                {REPAIR_REGION_LABELS[region]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Currency (ISO code)</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.currency}
+            onChangeText={currency => setDraft({ ...draft, currency })}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={3}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Base Prices</Text>
+        {DAMAGE_TYPES.map(damageType => (
+          <View key={damageType} style={styles.card}>
+            <Text style={styles.cardTitle}>{DAMAGE_TYPE_LABELS[damageType]}</Text>
+            {DAMAGE_SEVERITIES.map(severity => {
+              const range = draft.basePrices[damageType][severity];
+              const setRange = (low: number, high: number) => setDraft({
+                ...draft,
+                basePrices: {
+                  ...draft.basePrices,
+                  [damageType]: { ...draft.basePrices[damageType], [severity]: { low, high } },
+                },
+              });
+              return (
+                <View key={severity} style={styles.row}>
+                  <Text style={styles.rowLabel}>{DAMAGE_SEVERITY_LABELS[severity]}</Text>
+                  <NumberInput value={range.low} onChange={low => setRange(low, range.high)} />
+                  <Text style={styles.rangeSeparator}>-</Text>
+                  <NumberInput value={range.high} onChange={high => setRange(range.low, high)} />
+                </View>
+              );
+            })}
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Panel Factors</Text>
+        <View style={styles.card}>
+          {REPAIR_PANELS.map(panel => (
+            <View key={panel} style={styles.row}>
+              <Text style={styles.rowLabel}>{REPAIR_PANEL_LABELS[panel]}</Text>
+              <NumberInput
+                value={draft.panelFactors[panel]}
+                onChange={factor => setDraft({ ...draft, panelFactors: { ...draft.panelFactors, [panel]: factor } })}
+              />
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Vehicle Factors</Text>
+        <View style={styles.card}>
+          {VEHICLE_TYPES.map(type => (
+            <View key={type} style={styles.row}>
+              <Text style={styles.rowLabel}>{vehicleTypeLabel(type)}</Text>
+              <NumberInput
+                value={draft.vehicleFactors[type]}
+                onChange={factor => setDraft({ ...draft, vehicleFactors: { ...draft.vehicleFactors, [type]: factor } })}
+              />
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Region Multipliers</Text>
+        <View style={styles.card}>
+          {REPAIR_REGIONS.map(region => (
+            <View key={region} style={styles.row}>
+              <Text style={styles.rowLabel}>{REPAIR_REGION_LABELS[region]}</Text>
+              <NumberInput
+                value={draft.regionMultipliers[region]}
+                onChange={factor => setDraft({ ...draft, regionMultipliers: { ...draft.regionMultipliers, [region]: factor } })}
+              />
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave} disabled={isSaving}>
+          <Text style={styles.primaryButtonText}>{isSaving ? 'Saving...' : 'Save Prices'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleReset} disabled={isSaving}>
+          <Text style={styles.secondaryButtonText}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+/**
+ * Decimal input that keeps partly typed text (e.g. "1.") until it parses
+ */
+function NumberInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(current => (parseFloat(current) === value ? current : String(value)));
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = parseFloat(next.replace(',', '.'));
+    if (Number.isFinite(parsed) && parsed >= 0) onChange(parsed);
+  };
+
+  return (
+    <TextInput
+      style={styles.numberInput}
+      value={text}
+      onChangeText={handleChange}
+      keyboardType="decimal-pad"
+      selectTextOnFocus
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a4a5c',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a5a6c',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#4A90A4',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  instruction: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    marginBottom: 16,
+    lineHeight: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4A90A4',
+  },
+  chipActive: {
+    backgroundColor: '#4A90A4',
+  },
+  chipText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  card: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  rowLabel: {
+    flex: 1,
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  rangeSeparator: {
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  input: {
+    width: 80,
+    backgroundColor: '#2a5a6c',
+    borderRadius: 8,
+    padding: 10,
+    color: '#FFFFFF',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  numberInput: {
+    width: 72,
+    backgroundColor: '#1a4a5c',
+    borderRadius: 8,
+    padding: 8,
+    color: '#FFFFFF',
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  primaryButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 16,
+    borderRadius: 30,
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600' as const,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    borderRadius: 30,
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#4A90A4',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+});
@@ -1,25 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Image,
   Alert,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { Save } from 'lucide-react-native';
+import { Save, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react-native';
+import { useMutation } from '@tanstack/react-query';
 import { useHistory } from '@/contexts/HistoryContext';
-import { AfterSectionPhoto } from '@/contexts/HistoryContext';
+import { AfterSectionPhoto, SectionComparison } from '@/contexts/HistoryContext';
+import { compareReturnInspection, getSectionsWithNewDamage } from '@/services/damageComparison';
+import { PhotoImage } from '@/components/PhotoImage';
+import { clearCaptureEvidence, sealReturnEvidence } from '@/services/evidence';
+import {
+  VehicleIdentity,
+  VehicleReadings,
+  compareVehicleIdentity,
+  damageSectionPhotos,
+  identityComparisonLines,
+  identityLines,
+} from '@/lib/vehicleIdentity';
+import { WalkAroundVideo } from '@/lib/videoWalkAround';
 
 export default function ResultsAfterScreen() {
   const router = useRouter();
-  const { mainPhoto, afterSectionPhotos: afterSectionPhotosParam, historyId } = useLocalSearchParams<{
+  const {
+    mainPhoto,
+    afterSectionPhotos: afterSectionPhotosParam,
+    vehicleIdentity: vehicleIdentityParam,
+    vehicleReadings: vehicleReadingsParam,
+    afterWalkAroundVideo: afterWalkAroundVideoParam,
+    historyId,
+  } = useLocalSearchParams<{
     mainPhoto: string;
     afterSectionPhotos: string;
+    afterWalkAroundVideo?: string;
+    vehicleIdentity?: string;
+    vehicleReadings?: string;
     historyId: string;
   }>();
 
@@ -27,6 +49,31 @@ export default function ResultsAfterScreen() {
   const [afterSectionPhotos, setAfterSectionPhotos] = useState<AfterSectionPhoto[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [mainPhotoUri, setMainPhotoUri] = useState<string>('');
+  const [comparisons, setComparisons] = useState<SectionComparison[]>([]);
+  const [returnIdentity, setReturnIdentity] = useState<VehicleIdentity | undefined>();
+  const [returnReadings, setReturnReadings] = useState<VehicleReadings | undefined>();
+  const [afterWalkAroundVideo, setAfterWalkAroundVideo] = useState<WalkAroundVideo | undefined>();
+  const hasStartedComparison = useRef(false);
+
+  const historyItem = historyId ? getHistoryItem(historyId) : undefined;
+
+  const comparisonMutation = useMutation({
+    mutationFn: async (photos: AfterSectionPhoto[]) => {
+      if (!historyItem) {
+        throw new Error('Pickup inspection not found');
+      }
+      setComparisons([]);
+      return compareReturnInspection(historyItem, photos, comparison => {
+        setComparisons(prev => [...prev, comparison]);
+      });
+    },
+    onSuccess: (result) => {
+      setComparisons(result);
+    },
+    onError: (error) => {
+      console.error('Comparison error:', error);
+    },
+  });
 
   useEffect(() => {
     if (afterSectionPhotosParam) {
@@ -34,13 +81,23 @@ export default function ResultsAfterScreen() {
         const parsed = JSON.parse(afterSectionPhotosParam) as AfterSectionPhoto[];
         setAfterSectionPhotos(parsed);
         setMainPhotoUri(mainPhoto || '');
+        setReturnIdentity(vehicleIdentityParam ? JSON.parse(vehicleIdentityParam) : undefined);
+        setReturnReadings(vehicleReadingsParam ? JSON.parse(vehicleReadingsParam) : undefined);
+        setAfterWalkAroundVideo(afterWalkAroundVideoParam ? JSON.parse(afterWalkAroundVideoParam) : undefined);
       } catch (error) {
         console.error('Failed to parse after section photos:', error);
         Alert.alert('Error', 'Failed to load results');
         router.back();
       }
     }
-  }, [afterSectionPhotosParam, mainPhoto, router]);
+  }, [afterSectionPhotosParam, vehicleIdentityParam, vehicleReadingsParam, afterWalkAroundVideoParam, mainPhoto, router]);
+
+  // Compare against the pickup photos once the return photos are loaded
+  useEffect(() => {
+    if (hasStartedComparison.current || afterSectionPhotos.length === 0 || !historyItem) return;
+    hasStartedComparison.current = true;
+    comparisonMutation.mutate(afterSectionPhotos);
+  }, [afterSectionPhotos, historyItem, comparisonMutation]);
 
   const handleSave = async () => {
     if (!mainPhotoUri || afterSectionPhotos.length === 0) {
@@ -67,13 +124,23 @@ export default function ResultsAfterScreen() {
         minute: '2-digit',
       });
 
+      // Evidence chain of the return photos, linked to the pickup chain
+      const evidence = historyItem
+        ? await sealReturnEvidence(historyItem, mainPhotoUri, afterSectionPhotos)
+        : { afterSectionPhotos };
+      clearCaptureEvidence();
+
       // Update the existing history item with after photos
       await updateHistoryItem(historyId, {
+        ...evidence,
         afterMainPhoto: mainPhotoUri,
-        afterSectionPhotos: afterSectionPhotos,
         afterCreatedAt: now,
         afterDateText: dateText,
         isReturned: true,
+        returnComparison: comparisons.length > 0 ? comparisons : undefined,
+        returnIdentity,
+        returnReadings,
+        afterWalkAroundVideo,
       });
 
       Alert.alert('Success', 'Return inspection saved', [
@@ -90,6 +157,22 @@ export default function ResultsAfterScreen() {
     }
   };
 
+  const beforePhotoFor = (section: string) =>
+    historyItem?.sectionPhotos.find(sp => sp.section === section)?.photoUri;
+  const afterPhotoFor = (section: string) =>
+    afterSectionPhotos.find(sp => sp.section === section)?.photoUri;
+
+  const sectionsWithNewDamage = getSectionsWithNewDamage(comparisons);
+  const isComparing = comparisonMutation.isPending;
+  const comparedSectionCount = damageSectionPhotos(afterSectionPhotos).length;
+
+  // Plate / VIN / readings at return against pickup
+  const returnDetails = identityLines(returnIdentity, returnReadings);
+  const identityComparison = historyItem
+    ? compareVehicleIdentity({ ...historyItem, returnIdentity, returnReadings })
+    : null;
+  const identityComparisonDetails = identityComparison ? identityComparisonLines(identityComparison) : [];
+
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
       <View style={styles.header}>
@@ -119,7 +202,7 @@ export default function ResultsAfterScreen() {
         {mainPhotoUri && (
           <View style={styles.mainPhotoSection}>
             <Text style={styles.sectionTitle}>Return Vehicle Photo</Text>
-            <Image source={{ uri: mainPhotoUri }} style={styles.mainPhoto} />
+            <PhotoImage uri={mainPhotoUri} style={styles.mainPhoto} />
           </View>
         )}
 
@@ -133,7 +216,7 @@ export default function ResultsAfterScreen() {
           >
             {afterSectionPhotos.map((sp, index) => (
               <View key={`${sp.section}-${index}`} style={styles.thumbnailWrapper}>
-                <Image source={{ uri: sp.photoUri }} style={styles.thumbnail} />
+                <PhotoImage uri={sp.photoUri} style={styles.thumbnail} />
                 <Text style={styles.thumbnailLabel} numberOfLines={1}>
                   {sp.section}
                 </Text>
@@ -142,10 +225,128 @@ export default function ResultsAfterScreen() {
           </ScrollView>
         </View>
 
-        <View style={styles.noteSection}>
-          <Text style={styles.noteText}>
-            Return inspection complete. No damage analysis performed for return photos.
-          </Text>
+        {/* Vehicle identity and readings */}
+        {(returnDetails.length > 0 || identityComparisonDetails.length > 0) && (
+          <View style={styles.comparisonSection}>
+            <Text style={styles.sectionTitle}>Vehicle</Text>
+            {identityComparison?.warnings.map(warning => (
+              <View key={warning} style={[styles.statusBanner, styles.riskBanner]}>
+                <AlertTriangle size={20} color="#FF6B6B" />
+                <Text style={[styles.statusText, styles.riskText]}>{warning}</Text>
+              </View>
+            ))}
+            <View style={styles.comparisonCard}>
+              {returnDetails.map(line => (
+                <Text key={line} style={styles.vehicleDetailText}>{line}</Text>
+              ))}
+              {identityComparisonDetails.map(line => (
+                <Text key={line} style={styles.comparisonSummary}>{line}</Text>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Before/After Comparison */}
+        <View style={styles.comparisonSection}>
+          <Text style={styles.sectionTitle}>Damage Comparison</Text>
+
+          {isComparing && (
+            <View style={styles.statusBanner}>
+              <ActivityIndicator size="small" color="#7AB8CC" />
+              <Text style={styles.statusText}>
+                Comparing with pickup photos... ({comparisons.length} of {comparedSectionCount})
+              </Text>
+            </View>
+          )}
+
+          {!isComparing && comparisonMutation.isError && (
+            <View style={styles.statusBanner}>
+              <Text style={styles.statusText}>
+                Comparison failed: {comparisonMutation.error?.message || 'Unknown error'}
+              </Text>
+            </View>
+          )}
+
+          {!isComparing && comparisonMutation.isSuccess && (
+            sectionsWithNewDamage.length > 0 ? (
+              <View style={[styles.statusBanner, styles.riskBanner]}>
+                <AlertTriangle size={20} color="#FF6B6B" />
+                <Text style={[styles.statusText, styles.riskText]}>
+                  Possible new damage in {sectionsWithNewDamage.length} section{sectionsWithNewDamage.length === 1 ? '' : 's'}. Point it out to staff before you leave.
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.statusBanner}>
+                <CheckCircle size={20} color="#7AB8CC" />
+                <Text style={styles.statusText}>No new damage detected compared to pickup.</Text>
+              </View>
+            )
+          )}
+
+          {comparisons.map((comparison, index) => (
+            <View key={`${comparison.section}-${index}`} style={styles.comparisonCard}>
+              <View style={styles.comparisonHeader}>
+                <Text style={styles.comparisonTitle}>{comparison.section}</Text>
+                {!comparison.error && (
+                  <Text style={styles.confidenceText}>
+                    {Math.round(comparison.confidence * 100)}% confidence
+                  </Text>
+                )}
+              </View>
+
+              <View style={styles.comparisonPhotos}>
+                <View style={styles.comparisonPhotoWrapper}>
+                  {beforePhotoFor(comparison.section) && (
+                    <PhotoImage uri={beforePhotoFor(comparison.section)} style={styles.comparisonPhoto} />
+                  )}
+                  <Text style={styles.comparisonPhotoLabel}>Pickup</Text>
+                </View>
+                <View style={styles.comparisonPhotoWrapper}>
+                  {afterPhotoFor(comparison.section) && (
+                    <PhotoImage uri={afterPhotoFor(comparison.section)} style={styles.comparisonPhoto} />
+                  )}
+                  <Text style={styles.comparisonPhotoLabel}>Return</Text>
+                </View>
+              </View>
+
+              {comparison.error ? (
+                <Text style={styles.comparisonError}>Not compared: {comparison.error}</Text>
+              ) : (
+                <>
+                  {comparison.newDamage.map((damage, damageIndex) => (
+                    <Text key={`new-${damageIndex}`} style={styles.newDamageText}>• New: {damage}</Text>
+                  ))}
+                  {comparison.unchangedDamage.map((damage, damageIndex) => (
+                    <Text key={`old-${damageIndex}`} style={styles.unchangedDamageText}>• Pre-existing: {damage}</Text>
+                  ))}
+                  {comparison.newDamage.length === 0 && comparison.unchangedDamage.length === 0 && (
+                    <Text style={styles.unchangedDamageText}>No damage visible in either photo.</Text>
+                  )}
+                  {comparison.summary ? (
+                    <Text style={styles.comparisonSummary}>{comparison.summary}</Text>
+                  ) : null}
+                </>
+              )}
+            </View>
+          ))}
+
+          {!isComparing && (comparisonMutation.isError || comparisons.some(comparison => comparison.error)) && historyItem && (
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => comparisonMutation.mutate(afterSectionPhotos)}
+            >
+              <RefreshCw size={18} color="#FFFFFF" />
+              <Text style={styles.retryButtonText}>Retry Comparison</Text>
+            </TouchableOpacity>
+          )}
+
+          {!historyItem && (
+            <View style={styles.noteSection}>
+              <Text style={styles.noteText}>
+                Pickup inspection not found on this device. No comparison performed.
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.bottomSpacer} />
@@ -245,6 +446,114 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  comparisonSection: {
+    marginBottom: 20,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  statusText: {
+    flex: 1,
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  riskBanner: {
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  riskText: {
+    color: '#FF6B6B',
+    fontWeight: '600' as const,
+  },
+  vehicleDetailText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    lineHeight: 24,
+  },
+  comparisonCard: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  comparisonHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  comparisonTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+  },
+  confidenceText: {
+    fontSize: 12,
+    color: '#7AB8CC',
+  },
+  comparisonPhotos: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  comparisonPhotoWrapper: {
+    flex: 1,
+  },
+  comparisonPhoto: {
+    width: '100%',
+    height: 100,
+    borderRadius: 8,
+    backgroundColor: '#1a4a5c',
+    resizeMode: 'cover',
+  },
+  comparisonPhotoLabel: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#7AB8CC',
+    textAlign: 'center',
+  },
+  newDamageText: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  unchangedDamageText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  comparisonSummary: {
+    marginTop: 8,
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  comparisonError: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4A90A4',
+    paddingVertical: 12,
+    borderRadius: 20,
+    gap: 8,
+    marginBottom: 12,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
   bottomSpacer: {
     height: 40,
   },
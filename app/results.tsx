@@ -5,42 +5,64 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Image,
   TextInput,
   Alert,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { X, Save, Plus, Calendar } from 'lucide-react-native';
+import { X, Save, Calendar } from 'lucide-react-native';
 import { useHistory } from '@/contexts/HistoryContext';
 import { VehicleSectionPhoto } from '@/contexts/HistoryContext';
-import { storeInspectionToSupabase } from '@/services/supabase';
+import { DamageRecord, buildDamageSummary } from '@/lib/damage';
+import { DamageRecordList } from '@/components/DamageRecordList';
+import { AnnotatedPhoto } from '@/components/AnnotatedPhoto';
+import { PhotoImage } from '@/components/PhotoImage';
+import { VehicleIdentity, VehicleReadings, damageSectionPhotos, identityLines } from '@/lib/vehicleIdentity';
+import { RentalAgreement, normalizeRentalAgreement, rentalAgreementLines } from '@/lib/rentalAgreement';
+import { RentalAgreementForm } from '@/components/RentalAgreementForm';
+import { WalkAroundPlan, vehicleTypeLabel } from '@/lib/walkAround';
+import { estimateRepairCost } from '@/lib/repairCost';
+import { useRepairPrices } from '@/contexts/RepairPricesContext';
+import { RepairCostSummary } from '@/components/RepairCostSummary';
+import { WalkAroundVideo, describeWalkAroundVideo } from '@/lib/videoWalkAround';
 import { scheduleReturnReminder } from '@/services/notifications';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
 
-interface DamageNote {
-  id: string;
-  text: string;
-}
-
 export default function ResultsScreen() {
   const router = useRouter();
-  const { mainPhoto, sectionPhotos: sectionPhotosParam, allDamageNotes, historyId } = useLocalSearchParams<{
+  const {
+    mainPhoto,
+    sectionPhotos: sectionPhotosParam,
+    walkAroundPlan: walkAroundPlanParam,
+    walkAroundVideo: walkAroundVideoParam,
+    vehicleIdentity: vehicleIdentityParam,
+    vehicleReadings: vehicleReadingsParam,
+    historyId,
+  } = useLocalSearchParams<{
     mainPhoto: string;
     sectionPhotos: string;
-    allDamageNotes: string;
+    walkAroundPlan?: string;
+    walkAroundVideo?: string;
+    vehicleIdentity?: string;
+    vehicleReadings?: string;
     historyId?: string;
   }>();
 
   const { addToHistory, getHistoryItem } = useHistory();
+  const { priceTable } = useRepairPrices();
   const [sectionPhotos, setSectionPhotos] = useState<VehicleSectionPhoto[]>([]);
-  const [damageNotes, setDamageNotes] = useState<DamageNote[]>([]);
+  const [additionalNotes, setAdditionalNotes] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [mainPhotoUri, setMainPhotoUri] = useState<string>('');
   const [expectedReturnDate, setExpectedReturnDate] = useState<Date | null>(null);
   const [dateInputText, setDateInputText] = useState('');
+  const [vehicleIdentity, setVehicleIdentity] = useState<VehicleIdentity | undefined>();
+  const [pickupReadings, setPickupReadings] = useState<VehicleReadings | undefined>();
+  const [rentalAgreement, setRentalAgreement] = useState<RentalAgreement>({});
+  const [walkAroundPlan, setWalkAroundPlan] = useState<WalkAroundPlan | undefined>();
+  const [walkAroundVideo, setWalkAroundVideo] = useState<WalkAroundVideo | undefined>();
 
   useEffect(() => {
     if (historyId) {
@@ -49,15 +71,11 @@ export default function ResultsScreen() {
       if (item) {
         setMainPhotoUri(item.mainPhoto);
         setSectionPhotos(item.sectionPhotos);
-        // Parse damage notes from the combined text
-        const notes = item.allDamageNotes
-          .split('\n\n')
-          .filter(note => note.trim())
-          .map((note, index) => ({
-            id: `note-${index}`,
-            text: note,
-          }));
-        setDamageNotes(notes.length > 0 ? notes : []);
+        setVehicleIdentity(item.vehicleIdentity);
+        setPickupReadings(item.pickupReadings);
+        setRentalAgreement(item.rentalAgreement || {});
+        setWalkAroundPlan(item.walkAroundPlan);
+        setWalkAroundVideo(item.walkAroundVideo);
       } else {
         // Item not found, go back
         router.back();
@@ -68,45 +86,21 @@ export default function ResultsScreen() {
         const parsed = JSON.parse(sectionPhotosParam) as VehicleSectionPhoto[];
         setSectionPhotos(parsed);
         setMainPhotoUri(mainPhoto || '');
-        
-        // Parse damage notes from allDamageNotes
-        if (allDamageNotes) {
-          const notes = allDamageNotes.split('\n\n').map((note, index) => ({
-            id: `note-${index}`,
-            text: note,
-          }));
-          setDamageNotes(notes);
-        } else {
-          // Generate from section photos
-          const notes = parsed.map((sp, index) => ({
-            id: `note-${index}`,
-            text: `${sp.section}: ${sp.damageNotes}`,
-          }));
-          setDamageNotes(notes);
-        }
+        setVehicleIdentity(vehicleIdentityParam ? JSON.parse(vehicleIdentityParam) : undefined);
+        setPickupReadings(vehicleReadingsParam ? JSON.parse(vehicleReadingsParam) : undefined);
+        setWalkAroundPlan(walkAroundPlanParam ? JSON.parse(walkAroundPlanParam) : undefined);
+        setWalkAroundVideo(walkAroundVideoParam ? JSON.parse(walkAroundVideoParam) : undefined);
       } catch (error) {
         console.error('Failed to parse section photos:', error);
         Alert.alert('Error', 'Failed to load results');
         router.back();
       }
     }
-  }, [historyId, sectionPhotosParam, allDamageNotes, mainPhoto, getHistoryItem, router]);
-
-  const handleAddNote = () => {
-    const newNote: DamageNote = {
-      id: `note-${Date.now()}`,
-      text: '',
-    };
-    setDamageNotes([...damageNotes, newNote]);
-  };
+  }, [historyId, sectionPhotosParam, walkAroundPlanParam, walkAroundVideoParam, vehicleIdentityParam, vehicleReadingsParam, mainPhoto, getHistoryItem, router]);
 
-  const handleRemoveNote = (id: string) => {
-    setDamageNotes(damageNotes.filter(note => note.id !== id));
-  };
-
-  const handleUpdateNote = (id: string, text: string) => {
-    setDamageNotes(damageNotes.map(note => 
-      note.id === id ? { ...note, text } : note
+  const handleUpdateDamages = (section: string, damages: DamageRecord[]) => {
+    setSectionPhotos(sectionPhotos.map(sp =>
+      sp.section === section ? { ...sp, damages } : sp
     ));
   };
 
@@ -123,18 +117,8 @@ export default function ResultsScreen() {
     setIsSaving(true);
 
     try {
-      // Combine all damage notes
-      const combinedNotes = damageNotes
-        .filter(note => note.text.trim())
-        .map(note => note.text)
-        .join('\n\n');
-
-      // Add timestamp to main photo if needed
-      let finalMainPhoto = mainPhotoUri;
-      if (mainPhotoUri.startsWith('data:')) {
-        // For data URIs, we'll use them as-is
-        finalMainPhoto = mainPhotoUri;
-      }
+      // Combined, human readable summary of the structured damage
+      const combinedNotes = buildDamageSummary(sectionPhotos, additionalNotes);
 
       // Format expected return date if provided
       let expectedReturnDateTimestamp: number | undefined;
@@ -149,29 +133,18 @@ export default function ResultsScreen() {
         });
       }
 
-      // Save to local history
+      // Save to local history - uploaded to Supabase by the history sync
       const historyId = await addToHistory({
-        mainPhoto: finalMainPhoto,
+        mainPhoto: mainPhotoUri,
         sectionPhotos: sectionPhotos,
         allDamageNotes: combinedNotes,
         expectedReturnDate: expectedReturnDateTimestamp,
         expectedReturnDateText,
-      });
-
-      // Save to Supabase (async, non-blocking)
-      storeInspectionToSupabase({
-        mainPhoto: finalMainPhoto,
-        sectionPhotos: sectionPhotos,
-        allDamageNotes: combinedNotes,
-        expectedReturnDate: expectedReturnDateTimestamp,
-        expectedReturnDateText,
-      }).then(result => {
-        if (result.success) {
-          console.log('Inspection saved to Supabase:', result.inspectionId);
-        } else {
-          console.error('Failed to save to Supabase:', result.error);
-          // Don't show error to user - local save succeeded
-        }
+        vehicleIdentity,
+        pickupReadings,
+        rentalAgreement: normalizeRentalAgreement(rentalAgreement),
+        walkAroundPlan,
+        walkAroundVideo,
       });
 
       // Schedule notification for return date if provided
@@ -202,11 +175,14 @@ export default function ResultsScreen() {
     }
   };
 
-  const addTimestampToPhoto = async (photoUri: string): Promise<string> => {
-    // For now, return the URI as-is
-    // In a production app, you'd overlay timestamp text on the image
-    return photoUri;
-  };
+  const vehicleType = vehicleTypeLabel(walkAroundPlan?.vehicleType);
+  const vehicleDetails = [
+    ...(vehicleType ? [`Type: ${vehicleType}`] : []),
+    ...identityLines(vehicleIdentity, pickupReadings),
+    ...(walkAroundVideo ? [describeWalkAroundVideo(walkAroundVideo)] : []),
+  ];
+  const agreementDetails = rentalAgreementLines(rentalAgreement);
+  const repairEstimate = estimateRepairCost(sectionPhotos, walkAroundPlan?.vehicleType, priceTable);
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -239,7 +215,7 @@ export default function ResultsScreen() {
         {mainPhotoUri && (
           <View style={styles.mainPhotoSection}>
             <Text style={styles.sectionTitle}>Main Vehicle Photo</Text>
-            <Image source={{ uri: mainPhotoUri }} style={styles.mainPhoto} />
+            <PhotoImage uri={mainPhotoUri} style={styles.mainPhoto} />
           </View>
         )}
 
@@ -253,7 +229,7 @@ export default function ResultsScreen() {
           >
             {sectionPhotos.map((sp, index) => (
               <View key={`${sp.section}-${index}`} style={styles.thumbnailWrapper}>
-                <Image source={{ uri: sp.photoUri }} style={styles.thumbnail} />
+                <PhotoImage uri={sp.photoUri} style={styles.thumbnail} />
                 {!historyId && (
                   <TouchableOpacity
                     style={styles.removePhotoButton}
@@ -270,6 +246,46 @@ export default function ResultsScreen() {
           </ScrollView>
         </View>
 
+        {/* Plate, VIN and readings from the identity photos */}
+        {vehicleDetails.length > 0 && (
+          <View style={styles.vehicleSection}>
+            <Text style={styles.sectionTitle}>Vehicle</Text>
+            <View style={styles.damageCard}>
+              {vehicleDetails.map(line => (
+                <Text key={line} style={styles.vehicleDetailText}>{line}</Text>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* What the recorded damage usually costs to repair */}
+        {repairEstimate.items.length > 0 && (
+          <View style={styles.vehicleSection}>
+            <Text style={styles.sectionTitle}>Repair Cost Estimate</Text>
+            <RepairCostSummary estimate={repairEstimate} onEditPrices={() => router.push('/repair-prices')} />
+          </View>
+        )}
+
+        {/* Rental company, agreement number, locations and renter */}
+        {!historyId ? (
+          <View style={styles.rentalSection}>
+            <Text style={styles.sectionTitle}>Rental Agreement (Optional)</Text>
+            <Text style={styles.rentalHint}>
+              Photograph the rental agreement to fill in the details, or type them in.
+            </Text>
+            <RentalAgreementForm value={rentalAgreement} onChange={setRentalAgreement} />
+          </View>
+        ) : agreementDetails.length > 0 ? (
+          <View style={styles.rentalSection}>
+            <Text style={styles.sectionTitle}>Rental Agreement</Text>
+            <View style={styles.damageCard}>
+              {agreementDetails.map(line => (
+                <Text key={line} style={styles.vehicleDetailText}>{line}</Text>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
         {/* Expected Return Date (Optional) */}
         {!historyId && (
           <View style={styles.returnDateSection}>
@@ -333,49 +349,45 @@ export default function ResultsScreen() {
           </View>
         )}
 
-        {/* Damage Notes */}
+        {/* Damage per section */}
         <View style={styles.notesSection}>
-          <View style={styles.notesHeader}>
-            <Text style={styles.sectionTitle}>Damage Notes</Text>
-            {!historyId && (
-              <TouchableOpacity
-                style={styles.addNoteButton}
-                onPress={handleAddNote}
-              >
-                <Plus size={20} color="#4A90A4" />
-              </TouchableOpacity>
-            )}
-          </View>
+          <Text style={styles.sectionTitle}>Damage</Text>
 
-          {damageNotes.length === 0 ? (
-            <View style={styles.emptyNotes}>
-              <Text style={styles.emptyNotesText}>No damage notes</Text>
+          {damageSectionPhotos(sectionPhotos).map((sp, index) => (
+            <View key={`${sp.section}-${index}`} style={styles.damageCard}>
+              <Text style={styles.damageCardTitle}>{sp.section}</Text>
+              {sp.photoUri ? (
+                <View style={styles.annotatedPhoto}>
+                  <AnnotatedPhoto
+                    uri={sp.photoUri}
+                    records={sp.damages || []}
+                    editable={!historyId}
+                    onChange={(damages) => handleUpdateDamages(sp.section, damages)}
+                  />
+                </View>
+              ) : null}
+              {sp.damageNotes ? (
+                <Text style={styles.damageCardNotes}>{sp.damageNotes}</Text>
+              ) : null}
+              {sp.damages || !historyId ? (
+                <DamageRecordList
+                  records={sp.damages || []}
+                  editable={!historyId}
+                  onChange={(damages) => handleUpdateDamages(sp.section, damages)}
+                />
+              ) : null}
             </View>
-          ) : (
-            damageNotes.map((note) => (
-              <View key={note.id} style={styles.noteItem}>
-                {historyId ? (
-                  <Text style={styles.noteText}>{note.text}</Text>
-                ) : (
-                  <>
-                    <TextInput
-                      style={styles.noteInput}
-                      value={note.text}
-                      onChangeText={(text) => handleUpdateNote(note.id, text)}
-                      placeholder="Enter damage note..."
-                      placeholderTextColor="#7AB8CC"
-                      multiline
-                    />
-                    <TouchableOpacity
-                      style={styles.removeNoteButton}
-                      onPress={() => handleRemoveNote(note.id)}
-                    >
-                      <X size={18} color="#FF6B6B" />
-                    </TouchableOpacity>
-                  </>
-                )}
-              </View>
-            ))
+          ))}
+
+          {!historyId && (
+            <TextInput
+              style={styles.noteInput}
+              value={additionalNotes}
+              onChangeText={setAdditionalNotes}
+              placeholder="Additional notes (optional)..."
+              placeholderTextColor="#7AB8CC"
+              multiline
+            />
           )}
         </View>
 
@@ -478,47 +490,52 @@ const styles = StyleSheet.create({
   notesSection: {
     marginBottom: 20,
   },
-  notesHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    marginBottom: 16,
+  damageCard: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
   },
-  addNoteButton: {
-    padding: 8,
+  damageCardTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+    marginBottom: 6,
   },
-  emptyNotes: {
-    paddingVertical: 20,
-    alignItems: 'center',
+  annotatedPhoto: {
+    marginBottom: 8,
   },
-  emptyNotesText: {
+  damageCardNotes: {
     color: '#7AB8CC',
     fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
   },
-  noteItem: {
-    flexDirection: 'row',
-    alignItems: 'flex-start',
+  noteInput: {
     backgroundColor: '#2a5a6c',
     borderRadius: 12,
     padding: 16,
-    marginBottom: 12,
-    gap: 12,
-  },
-  noteInput: {
-    flex: 1,
     color: '#FFFFFF',
     fontSize: 16,
     lineHeight: 24,
     minHeight: 60,
   },
-  noteText: {
-    flex: 1,
+  vehicleSection: {
+    marginBottom: 32,
+  },
+  vehicleDetailText: {
     color: '#FFFFFF',
-    fontSize: 16,
+    fontSize: 15,
     lineHeight: 24,
   },
-  removeNoteButton: {
-    padding: 4,
+  rentalSection: {
+    marginBottom: 32,
+  },
+  rentalHint: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginTop: -8,
+    marginBottom: 12,
   },
   bottomSpacer: {
     height: 40,
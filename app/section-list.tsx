@@ -5,56 +5,106 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
+  TextInput,
+  Alert,
   ActivityIndicator,
+  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Camera, Check } from 'lucide-react-native';
-
-interface Section {
-  name: string;
-  completed: boolean;
-  needsRetake?: boolean;
-}
+import { ArrowLeft, Camera, ChevronDown, ChevronUp, Plus, Video, X } from 'lucide-react-native';
+import {
+  SECTION_TEMPLATES,
+  VEHICLE_TYPES,
+  VehicleType,
+  WalkAroundPlan,
+  addSection,
+  moveSection,
+  templatePlan,
+  vehicleTypeLabel,
+} from '@/lib/walkAround';
 
 export default function SectionListScreen() {
   const router = useRouter();
-  const { mainPhoto, sections: sectionsParam, isAfter, historyId } = useLocalSearchParams<{
+  const { mainPhoto, walkAroundPlan: planParam, isAfter, historyId } = useLocalSearchParams<{
     mainPhoto: string;
-    sections: string;
+    walkAroundPlan: string;
     isAfter?: string;
     historyId?: string;
   }>();
-  
-  const [sections, setSections] = useState<Section[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // The return walk-around repeats the pickup plan as is
+  const isAfterFlow = isAfter === 'true';
+
+  const [plan, setPlan] = useState<WalkAroundPlan | null>(null);
+  const [newSection, setNewSection] = useState('');
 
   useEffect(() => {
-    if (sectionsParam) {
+    if (planParam) {
       try {
-        const parsed = JSON.parse(sectionsParam) as string[];
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          setSections(parsed.map(name => ({ name: String(name), completed: false })));
+        const parsed = JSON.parse(planParam) as WalkAroundPlan;
+        if (Array.isArray(parsed.sections) && parsed.sections.length > 0) {
+          setPlan({ vehicleType: parsed.vehicleType, sections: parsed.sections.map(String) });
         } else {
-          console.error('Invalid sections array');
+          console.error('Invalid walk-around plan');
           router.back();
         }
       } catch (error) {
-        console.error('Failed to parse sections:', error);
+        console.error('Failed to parse walk-around plan:', error);
         router.back();
       }
     }
-  }, [sectionsParam, router]);
+  }, [planParam, router]);
+
+  const handleSelectType = (vehicleType: VehicleType) => {
+    if (!plan || vehicleType === plan.vehicleType) return;
+
+    const isEdited = plan.sections.join('\n') !== SECTION_TEMPLATES[plan.vehicleType].sections.join('\n');
+    if (!isEdited) {
+      setPlan(templatePlan(vehicleType));
+      return;
+    }
+    Alert.alert(
+      'Replace Sections?',
+      `Switching to ${SECTION_TEMPLATES[vehicleType].label} replaces your edited section list with its template.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => setPlan(templatePlan(vehicleType)) },
+      ]
+    );
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!plan) return;
+    setPlan({ ...plan, sections: moveSection(plan.sections, index, offset) });
+  };
+
+  const handleRemove = (index: number) => {
+    if (!plan || plan.sections.length <= 1) return;
+    setPlan({ ...plan, sections: plan.sections.filter((_, i) => i !== index) });
+  };
+
+  const handleAdd = () => {
+    if (!plan) return;
+    const sections = addSection(plan.sections, newSection);
+    if (sections === plan.sections) {
+      if (newSection.trim()) {
+        Alert.alert('Section Exists', `"${newSection.trim()}" is already in the list.`);
+      }
+      return;
+    }
+    setPlan({ ...plan, sections });
+    setNewSection('');
+  };
 
   const handleStartCapture = () => {
-    if (sections.length === 0) return;
+    if (!plan || plan.sections.length === 0) return;
     
-    const isAfterFlow = isAfter === 'true';
     router.push({
       pathname: isAfterFlow ? '/capture-after-section' : '/capture-section',
       params: {
         mainPhoto: mainPhoto || '',
-        sections: JSON.stringify(sections.map(s => s.name)),
+        sections: JSON.stringify(plan.sections),
+        walkAroundPlan: JSON.stringify(plan),
         currentIndex: '0',
         historyId: historyId || '',
         isAfter: isAfter || 'false',
@@ -62,30 +112,60 @@ export default function SectionListScreen() {
     });
   };
 
-  const renderSection = ({ item, index }: { item: Section; index: number }) => {
-    if (!item || typeof item !== 'object' || !item.name) {
-      return null;
-    }
-    
-    return (
-      <View style={[styles.sectionItem, item.completed && styles.sectionItemCompleted]}>
-        <View style={styles.sectionNumber}>
-          <Text style={styles.sectionNumberText}>{index + 1}</Text>
-        </View>
-        <Text style={[styles.sectionName, item.completed && styles.sectionNameCompleted]}>
-          {String(item.name)}
-        </Text>
-        {item.completed && (
-          <Check size={20} color="#4A90A4" style={styles.checkIcon} />
-        )}
-        {item.needsRetake && (
-          <Text style={styles.retakeLabel}>Needs Retake</Text>
-        )}
-      </View>
-    );
+  // One continuous video instead of a photo per section (at return, matched to the pickup sections)
+  const handleStartVideo = () => {
+    if (!plan || plan.sections.length === 0) return;
+
+    router.push({
+      pathname: '/capture-video',
+      params: {
+        mainPhoto: mainPhoto || '',
+        sections: JSON.stringify(plan.sections),
+        walkAroundPlan: JSON.stringify(plan),
+        historyId: historyId || '',
+        isAfter: isAfter || 'false',
+      },
+    });
   };
 
-  if (sections.length === 0) {
+  const renderSection = (name: string, index: number, count: number) => (
+    <View key={name} style={styles.sectionItem}>
+      <View style={styles.sectionNumber}>
+        <Text style={styles.sectionNumberText}>{index + 1}</Text>
+      </View>
+      <Text style={styles.sectionName}>{name}</Text>
+      {!isAfterFlow && (
+        <View style={styles.sectionActions}>
+          <TouchableOpacity
+            onPress={() => handleMove(index, -1)}
+            disabled={index === 0}
+            style={styles.sectionAction}
+            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+          >
+            <ChevronUp size={20} color={index === 0 ? '#4A6A7C' : '#7AB8CC'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleMove(index, 1)}
+            disabled={index === count - 1}
+            style={styles.sectionAction}
+            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+          >
+            <ChevronDown size={20} color={index === count - 1 ? '#4A6A7C' : '#7AB8CC'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleRemove(index)}
+            disabled={count <= 1}
+            style={styles.sectionAction}
+            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+          >
+            <X size={20} color={count <= 1 ? '#4A6A7C' : '#FF6B6B'} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  if (!plan) {
     return (
       <SafeAreaView style={styles.container}>
         <ActivityIndicator size="large" color="#4A90A4" />
@@ -105,17 +185,58 @@ export default function SectionListScreen() {
 
       <View style={styles.content}>
         <Text style={styles.instruction}>
-          {isAfter === 'true' 
-            ? 'Please take photos of each section for return inspection. No damage analysis will be performed.'
-            : 'Please take photos of each section listed below. You\'ll be guided through each one.'}
+          {isAfterFlow
+            ? 'Please take photos of the same sections as at pickup for the return inspection. No damage analysis will be performed.'
+            : 'Check the vehicle type and adjust the sections if needed. You\'ll be guided through each one.'}
         </Text>
 
+        {isAfterFlow ? (
+          <Text style={styles.vehicleTypeNote}>Vehicle type: {vehicleTypeLabel(plan.vehicleType)}</Text>
+        ) : (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.typeChips}
+            contentContainerStyle={styles.typeChipsContent}
+          >
+            {VEHICLE_TYPES.map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.typeChip, plan.vehicleType === type && styles.typeChipActive]}
+                onPress={() => handleSelectType(type)}
+              >
+                <Text style={[styles.typeChipText, plan.vehicleType === type && styles.typeChipTextActive]}>
+                  {SECTION_TEMPLATES[type].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
         <ScrollView 
           style={styles.sectionsList}
           contentContainerStyle={styles.sectionsListContent}
           showsVerticalScrollIndicator={true}
+          keyboardShouldPersistTaps="handled"
         >
-          {sections.map((section, index) => renderSection({ item: section, index }))}
+          {plan.sections.map((section, index) => renderSection(section, index, plan.sections.length))}
+
+          {!isAfterFlow && (
+            <View style={styles.addRow}>
+              <TextInput
+                style={styles.addInput}
+                value={newSection}
+                onChangeText={setNewSection}
+                placeholder="Add a section, e.g. Roof Box"
+                placeholderTextColor="#7AB8CC"
+                onSubmitEditing={handleAdd}
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+                <Plus size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+          )}
         </ScrollView>
       </View>
 
@@ -127,6 +248,15 @@ export default function SectionListScreen() {
           <Camera size={20} color="#FFFFFF" />
           <Text style={styles.startButtonText}>Start Capturing</Text>
         </TouchableOpacity>
+        {Platform.OS !== 'web' && (
+          <TouchableOpacity
+            style={styles.videoButton}
+            onPress={handleStartVideo}
+          >
+            <Video size={20} color="#7AB8CC" />
+            <Text style={styles.videoButtonText}>Record Video Walk-Around</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -182,9 +312,6 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 12,
   },
-  sectionItemCompleted: {
-    backgroundColor: '#1a6a4c',
-  },
   sectionNumber: {
     width: 32,
     height: 32,
@@ -205,18 +332,65 @@ const styles = StyleSheet.create({
     fontWeight: '600' as const,
     color: '#FFFFFF',
   },
-  sectionNameCompleted: {
-    color: '#7AB8CC',
-    textDecorationLine: 'line-through',
+  sectionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
   },
-  checkIcon: {
-    marginLeft: 8,
+  sectionAction: {
+    padding: 4,
   },
-  retakeLabel: {
-    fontSize: 12,
-    color: '#FF6B6B',
-    marginLeft: 8,
+  vehicleTypeNote: {
+    fontSize: 16,
     fontWeight: '600' as const,
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  typeChips: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  typeChipsContent: {
+    gap: 8,
+  },
+  typeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4A90A4',
+  },
+  typeChipActive: {
+    backgroundColor: '#4A90A4',
+  },
+  typeChipText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  typeChipTextActive: {
+    color: '#FFFFFF',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addInput: {
+    flex: 1,
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  addButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#4A90A4',
+    justifyContent: 'center',
+    alignItems: 'center',
   },
   footer: {
     paddingHorizontal: 20,
@@ -238,5 +412,21 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700' as const,
   },
+  videoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+    gap: 8,
+  },
+  videoButtonText: {
+    color: '#7AB8CC',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
 });
 
@@ -0,0 +1,402 @@
+/**
+ * Verify Evidence Screen
+ *
+ * Public page (no sign-in) where anyone holding an inspection report can:
+ * 1. Enter the verification code printed on the report, and/or
+ * 2. Upload a photo or the report PDF
+ * and see whether it matches a registered, countersigned inspection.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useMutation } from '@tanstack/react-query';
+import { ArrowLeft, Upload, ShieldCheck, ShieldAlert } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { PublishedEvidenceRecord } from '@/lib/evidence';
+import {
+  FileVerification,
+  VerificationFile,
+  fetchEvidenceRecord,
+  verifyFile,
+} from '@/services/verification';
+
+interface VerificationOutcome {
+  records: PublishedEvidenceRecord[];
+  file?: FileVerification & { name: string };
+  unknownCode?: string;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+export default function VerifyScreen() {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [outcome, setOutcome] = useState<VerificationOutcome | null>(null);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (file: VerificationFile | null): Promise<VerificationOutcome> => {
+      if (file) {
+        const result = await verifyFile(file, code);
+        return { records: result.records, file: { ...result, name: file.name } };
+      }
+      const record = await fetchEvidenceRecord(code);
+      return record ? { records: [record] } : { records: [], unknownCode: code.trim() };
+    },
+    onSuccess: setOutcome,
+    onError: (error: Error) => {
+      console.error('Error verifying evidence:', error);
+      Alert.alert('Verification Failed', error.message || 'Could not check the evidence');
+    },
+  });
+
+  const handleCheckCode = () => {
+    if (!code.trim()) {
+      Alert.alert('Enter a Code', 'Enter the verification code printed on the inspection report');
+      return;
+    }
+    setOutcome(null);
+    verifyMutation.mutate(null);
+  };
+
+  const handleUpload = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setOutcome(null);
+      verifyMutation.mutate({ uri: asset.uri, name: asset.name || 'uploaded-file', mimeType: asset.mimeType });
+    } catch (error) {
+      console.error('Error picking file:', error);
+      Alert.alert('Error', 'Failed to select file');
+    }
+  };
+
+  const file = outcome?.file;
+  const matchedHashes = new Set(file?.matches.map(match => match.photo.sha256));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color="#4A90A4" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Verify Inspection</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.description}>
+          Check that an inspection report or photo is unchanged since it was captured.
+          Enter the verification code from the report, upload the photo or report PDF, or both.
+        </Text>
+
+        <TextInput
+          style={styles.codeInput}
+          placeholder="XXXX-XXXX-XXXX-XXXX"
+          placeholderTextColor="#7AB8CC"
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={handleCheckCode}
+            disabled={verifyMutation.isPending}
+          >
+            <Text style={styles.secondaryButtonText}>Check Code</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={handleUpload}
+            disabled={verifyMutation.isPending}
+          >
+            <Upload size={20} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>Photo or PDF</Text>
+          </TouchableOpacity>
+        </View>
+
+        {verifyMutation.isPending && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4A90A4" />
+            <Text style={styles.mutedText}>Checking evidence...</Text>
+          </View>
+        )}
+
+        {outcome && (
+          <View style={styles.results}>
+            {file && (
+              <View style={[styles.verdictCard, file.matches.length > 0 ? styles.verdictMatch : styles.verdictNoMatch]}>
+                {file.matches.length > 0
+                  ? <ShieldCheck size={28} color="#FFFFFF" />
+                  : <ShieldAlert size={28} color="#FFFFFF" />}
+                <View style={styles.verdictInfo}>
+                  <Text style={styles.verdictTitle}>
+                    {file.matches.length > 0
+                      ? file.fileType === 'pdf'
+                        ? `${matchedHashes.size} of ${file.photosChecked} photos match a registered inspection`
+                        : 'This photo matches a registered inspection'
+                      : file.fileType === 'pdf'
+                        ? 'No photo in this PDF matches a registered inspection'
+                        : 'This photo does not match a registered inspection'}
+                  </Text>
+                  <Text style={styles.verdictSubtext} numberOfLines={1}>{file.name}</Text>
+                </View>
+              </View>
+            )}
+
+            {(outcome.unknownCode || (file && file.unknownCodes.length > 0)) && (
+              <Text style={styles.warningText}>
+                Not registered: {[outcome.unknownCode, ...(file?.unknownCodes || [])].filter(Boolean).join(', ')}
+              </Text>
+            )}
+
+            {outcome.records.length === 0 && !file && !outcome.unknownCode && (
+              <Text style={styles.mutedText}>No registered inspection found</Text>
+            )}
+
+            {outcome.records.map(record => (
+              <View key={record.verificationCode} style={styles.recordCard}>
+                <View style={styles.recordHeader}>
+                  {record.valid
+                    ? <ShieldCheck size={22} color="#4A90A4" />
+                    : <ShieldAlert size={22} color="#FF6B6B" />}
+                  <Text style={styles.recordTitle}>
+                    {record.phase === 'pickup' ? 'Pickup' : 'Return'} inspection {record.verificationCode}
+                  </Text>
+                </View>
+                <Text style={record.valid ? styles.validText : styles.invalidText}>
+                  {record.valid
+                    ? 'Hash chain, device signature and server countersignature are valid'
+                    : record.errors.join('\n')}
+                </Text>
+                <Text style={styles.detailText}>Countersigned: {formatTimestamp(record.serverTimestamp)}</Text>
+                <Text style={styles.detailText}>Sealed on device: {formatTimestamp(record.createdAt)}</Text>
+                <Text style={styles.detailText}>{record.photos.length} photos</Text>
+                <Text style={styles.hashText}>Chain head: {record.headHash}</Text>
+
+                <View style={styles.photoList}>
+                  {record.photos.map(photo => {
+                    const matched = matchedHashes.has(photo.sha256);
+                    return (
+                      <View key={photo.index} style={[styles.photoRow, matched && styles.photoRowMatched]}>
+                        <Text style={styles.photoTitle}>
+                          {photo.section || (photo.kind === 'main' || photo.kind === 'afterMain' ? 'Main photo' : photo.kind)}
+                          {matched ? '  ✓ matches upload' : ''}
+                        </Text>
+                        <Text style={styles.detailText}>
+                          Captured {formatTimestamp(photo.capturedAt)} on {photo.platform}
+                          {photo.hasLocation ? ' with GPS' : ''}
+                        </Text>
+                        <Text style={styles.hashText}>SHA-256 {photo.sha256}</Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a4a5c',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a5a6c',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#4A90A4',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: '#7AB8CC',
+    marginBottom: 24,
+    lineHeight: 24,
+  },
+  codeInput: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    color: '#FFFFFF',
+    fontSize: 18,
+    letterSpacing: 2,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#4A90A4',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#2a5a6c',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    color: '#4A90A4',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 24,
+  },
+  results: {
+    gap: 16,
+  },
+  verdictCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  verdictMatch: {
+    backgroundColor: '#4A90A4',
+  },
+  verdictNoMatch: {
+    backgroundColor: '#FF6B6B',
+  },
+  verdictInfo: {
+    flex: 1,
+  },
+  verdictTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  },
+  verdictSubtext: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  warningText: {
+    color: '#FFD700',
+    fontSize: 14,
+  },
+  mutedText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  recordCard: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  recordTitle: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  validText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  invalidText: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  detailText: {
+    color: '#7AB8CC',
+    fontSize: 13,
+  },
+  hashText: {
+    color: '#7AB8CC',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  photoList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  photoRow: {
+    backgroundColor: '#1a4a5c',
+    borderRadius: 8,
+    padding: 10,
+    gap: 2,
+  },
+  photoRowMatched: {
+    borderWidth: 2,
+    borderColor: '#4A90A4',
+  },
+  photoTitle: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+});
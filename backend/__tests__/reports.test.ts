@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'bun:test';
+import { PDFDocument } from 'pdf-lib';
+import { renderInspectionReport, reportPayloadToHistoryItem } from '../reports';
+import {
+  EVIDENCE_MANIFEST_VERSION,
+  EvidenceManifest,
+  GENESIS_HASH,
+  PhotoEvidence,
+  buildEvidenceEntries,
+  countersignaturePayload,
+  evidenceManifestHash,
+  evidencePublicKey,
+  sha256Hex,
+  signEvidence,
+  verificationCodeFor,
+} from '../../lib/evidence';
+import { readReportEvidence } from '../../lib/pdf/reportEvidence';
+import type { HistoryItem } from '../../contexts/HistoryContext';
+
+const CONFIG = { url: 'https://project.supabase.co', anonKey: 'anon' };
+
+// 16x12 solid-colour JPEGs
+const BLUE_JPEG =
+  '/9j/2wBDABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERXRTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2P/2wBDARESEhgVGC8aGi9jQjhCY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2P/wAARCAAMABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAX/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABAX/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCWAEsP/9k=';
+const RED_JPEG =
+  '/9j/2wBDABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERXRTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2P/2wBDARESEhgVGC8aGi9jQjhCY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2P/wAARCAAMABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAX/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABAX/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCQAqAP/9k=';
+
+const CREATED = Date.UTC(2026, 0, 5, 9, 30);
+const RETURNED = Date.UTC(2026, 0, 9, 17, 0);
+
+function evidenceFor(base64: string, capturedAt: number): PhotoEvidence {
+  return {
+    sha256: sha256Hex(new Uint8Array(Buffer.from(base64, 'base64'))),
+    capturedAt,
+    device: { platform: 'ios', osVersion: '18.0', model: 'iPhone' },
+    location: { latitude: 37.61899, longitude: -122.37542, accuracy: 8 },
+  };
+}
+
+function countersignedManifest(evidence: PhotoEvidence[]): EvidenceManifest {
+  const deviceKey = '11'.repeat(32);
+  const serverKey = '22'.repeat(32);
+  const entries = buildEvidenceEntries(
+    evidence.map((photoEvidence, index) => ({
+      kind: index === 0 ? 'main' : 'section',
+      section: index === 0 ? undefined : 'Front',
+      evidence: photoEvidence,
+    }))
+  );
+  const unsigned: EvidenceManifest = {
+    version: EVIDENCE_MANIFEST_VERSION,
+    inspectionId: 'inspection-1',
+    phase: 'pickup',
+    createdAt: CREATED,
+    entries,
+    headHash: entries[entries.length - 1]?.hash ?? GENESIS_HASH,
+    devicePublicKey: evidencePublicKey(deviceKey),
+    deviceSignature: '',
+  };
+  const manifest = { ...unsigned, deviceSignature: signEvidence(evidenceManifestHash(unsigned), deviceKey) };
+  const signature = signEvidence(countersignaturePayload(evidenceManifestHash(manifest), manifest.deviceSignature, CREATED), serverKey);
+  return {
+    ...manifest,
+    countersignature: {
+      serverTimestamp: CREATED,
+      publicKey: evidencePublicKey(serverKey),
+      signature,
+      verificationCode: verificationCodeFor(signature),
+    },
+  };
+}
+
+function returnedInspection(): HistoryItem {
+  const mainEvidence = evidenceFor(BLUE_JPEG, CREATED);
+  const frontEvidence = evidenceFor(RED_JPEG, CREATED + 60_000);
+  return {
+    id: 'inspection-1',
+    mainPhoto: `data:image/jpeg;base64,${BLUE_JPEG}`,
+    mainPhotoEvidence: mainEvidence,
+    sectionPhotos: [
+      {
+        section: 'Front',
+        photoUri: `data:image/jpeg;base64,${RED_JPEG}`,
+        damageNotes: 'Scratch on the front bumper',
+        damages: [{ id: 'damage-1', type: 'scratch', severity: 'minor', location: 'front bumper, left', estimatedSizeCm: 5, source: 'ai' }],
+        isUsable: true,
+        evidence: frontEvidence,
+      },
+      {
+        section: 'Rear',
+        photoUri: 'https://elsewhere.example.com/rear.jpg', // Not the Supabase project - left out
+        damageNotes: 'No damage',
+        isUsable: true,
+      },
+    ],
+    allDamageNotes: 'Front: Scratch on the front bumper',
+    createdAt: CREATED,
+    dateText: 'Monday, January 5, 2026 at 9:30 AM',
+    expectedReturnDateText: 'Friday, January 9, 2026',
+    afterMainPhoto: `data:image/jpeg;base64,${BLUE_JPEG}`,
+    afterSectionPhotos: [{ section: 'Front', photoUri: `data:image/jpeg;base64,${RED_JPEG}` }],
+    afterCreatedAt: RETURNED,
+    afterDateText: 'Friday, January 9, 2026 at 5:00 PM',
+    isReturned: true,
+    returnComparison: [
+      {
+        section: 'Front',
+        newDamage: [],
+        unchangedDamage: ['Scratch on the front bumper'],
+        confidence: 0.9,
+        summary: 'No new damage',
+        comparedAt: RETURNED,
+      },
+    ],
+    evidenceManifest: countersignedManifest([mainEvidence, frontEvidence]),
+  };
+}
+
+describe('renderInspectionReport', () => {
+  test('renders the same bytes every time', async () => {
+    const first = await renderInspectionReport(returnedInspection(), CONFIG);
+    const second = await renderInspectionReport(returnedInspection(), CONFIG);
+    expect(sha256Hex(second)).toBe(sha256Hex(first));
+  });
+
+  test('matches the report snapshot', async () => {
+    const pdf = await renderInspectionReport(returnedInspection(), CONFIG);
+    const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+    expect({
+      sha256: sha256Hex(pdf),
+      pages: doc.getPageCount(),
+      title: doc.getTitle(),
+      creationDate: doc.getCreationDate()?.toISOString(),
+    }).toMatchSnapshot();
+  });
+
+  test('dates the report from the inspection, not the wall clock', async () => {
+    const doc = await PDFDocument.load(await renderInspectionReport(returnedInspection(), CONFIG), { updateMetadata: false });
+    expect(doc.getCreationDate()?.getTime()).toBe(RETURNED);
+  });
+
+  test('carries the verification code and the unchanged JPEG photos', async () => {
+    const item = returnedInspection();
+    const evidence = await readReportEvidence(await renderInspectionReport(item, CONFIG));
+    expect(evidence.verificationCodes).toEqual([item.evidenceManifest!.countersignature!.verificationCode]);
+    expect(evidence.imageHashes.sort()).toEqual([item.mainPhotoEvidence!.sha256, item.sectionPhotos[0].evidence!.sha256].sort());
+  });
+});
+
+describe('reportPayloadToHistoryItem', () => {
+  test('renders a payload the same as the stored inspection it came from', async () => {
+    const item = returnedInspection();
+    const fromPayload = await renderInspectionReport(reportPayloadToHistoryItem(item), CONFIG);
+    expect(sha256Hex(fromPayload)).toBe(sha256Hex(await renderInspectionReport(item, CONFIG)));
+  });
+});
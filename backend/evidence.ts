@@ -0,0 +1,245 @@
+/**
+ * Evidence manifest countersigning
+ *
+ * The app seals each walk-around's photo evidence into a device-signed
+ * manifest (lib/evidence.ts). The backend checks the hash chain and device
+ * signature, adds its own Ed25519 signature over the manifest hash and the
+ * server time, and stores the countersigned manifest under its verification
+ * code so anyone holding the report can check it later.
+ *
+ * Manifests are stored in the rental_car_evidence_manifests table via
+ * PostgREST with the service role key (see SUPABASE_DOCUMENTATION.md) and
+ * published, without GPS or device details, by the public verify endpoints.
+ */
+
+import {
+  EvidenceCountersignature,
+  EvidenceManifest,
+  GENESIS_HASH,
+  PublishedEvidenceRecord,
+  countersignaturePayload,
+  evidenceManifestHash,
+  evidencePublicKey,
+  signEvidence,
+  verificationCodeFor,
+  verifyEvidenceManifest,
+} from '../lib/evidence';
+import type { SupabaseConfig } from './supabaseAuth';
+
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+// Manifests returned for one photo hash
+const MAX_PHOTO_MATCHES = 10;
+
+type CountersignedManifest = EvidenceManifest & { countersignature: EvidenceCountersignature };
+
+interface StoredEvidenceManifest {
+  authUserId: string;
+  manifest: CountersignedManifest;
+}
+
+/**
+ * Basic shape check of a manifest received from a client
+ */
+export function isEvidenceManifest(value: any): value is EvidenceManifest {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.inspectionId === 'string' &&
+    (value.phase === 'pickup' || value.phase === 'return') &&
+    Array.isArray(value.entries) &&
+    value.entries.length > 0 &&
+    typeof value.headHash === 'string' &&
+    typeof value.devicePublicKey === 'string' &&
+    HEX_PATTERN.test(value.devicePublicKey) &&
+    typeof value.deviceSignature === 'string' &&
+    HEX_PATTERN.test(value.deviceSignature)
+  );
+}
+
+/**
+ * Countersign a manifest with the server key. Returns an error when the
+ * manifest's chain or device signature does not check out.
+ */
+export function countersignManifest(
+  manifest: EvidenceManifest,
+  signingKeyHex: string,
+  serverTimestamp = Date.now()
+): { countersignature: EvidenceCountersignature } | { error: string } {
+  const { countersignature: _existing, ...unsigned } = manifest;
+  const verification = verifyEvidenceManifest(unsigned);
+  if (!verification.chainValid || !verification.deviceSignatureValid) {
+    return { error: verification.errors.join('; ') };
+  }
+
+  const payload = countersignaturePayload(evidenceManifestHash(unsigned), unsigned.deviceSignature, serverTimestamp);
+  const signature = signEvidence(payload, signingKeyHex);
+  return {
+    countersignature: {
+      serverTimestamp,
+      publicKey: evidencePublicKey(signingKeyHex),
+      signature,
+      verificationCode: verificationCodeFor(signature),
+    },
+  };
+}
+
+/**
+ * Store a countersigned manifest under its verification code
+ */
+export async function storeEvidenceManifest(
+  config: SupabaseConfig,
+  authUserId: string,
+  manifest: CountersignedManifest
+): Promise<void> {
+  if (!config.serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+
+  const response = await fetch(`${config.url}/rest/v1/rental_car_evidence_manifests`, {
+    method: 'POST',
+    headers: {
+      'apikey': config.serviceRoleKey,
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=minimal',
+    },
+    body: JSON.stringify({
+      verification_code: manifest.countersignature.verificationCode,
+      auth_user_id: authUserId,
+      inspection_client_id: manifest.inspectionId,
+      phase: manifest.phase,
+      manifest_hash: evidenceManifestHash(manifest),
+      head_hash: manifest.headHash,
+      server_timestamp: new Date(manifest.countersignature.serverTimestamp).toISOString(),
+      manifest,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to store evidence manifest: ${response.status} ${errorText.substring(0, 200)}`);
+  }
+}
+
+// Service-role GET against rental_car_evidence_manifests
+async function queryEvidenceManifests(config: SupabaseConfig, query: string): Promise<StoredEvidenceManifest[]> {
+  if (!config.serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+
+  const response = await fetch(`${config.url}/rest/v1/rental_car_evidence_manifests?select=auth_user_id,manifest&${query}`, {
+    headers: {
+      'apikey': config.serviceRoleKey,
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to load evidence manifests: ${response.status} ${errorText.substring(0, 200)}`);
+  }
+
+  const rows: { auth_user_id: string; manifest: CountersignedManifest }[] = await response.json();
+  return rows.map(row => ({ authUserId: row.auth_user_id, manifest: row.manifest }));
+}
+
+/**
+ * Stored manifest with the given (normalized) verification code
+ */
+export async function fetchEvidenceManifest(
+  config: SupabaseConfig,
+  verificationCode: string
+): Promise<StoredEvidenceManifest | null> {
+  const rows = await queryEvidenceManifests(config, `verification_code=eq.${encodeURIComponent(verificationCode)}&limit=1`);
+  return rows[0] ?? null;
+}
+
+/**
+ * Stored manifests that record a photo with the given SHA-256
+ */
+export async function fetchEvidenceManifestsForPhoto(
+  config: SupabaseConfig,
+  photoSha256: string
+): Promise<StoredEvidenceManifest[]> {
+  const containment = JSON.stringify({ entries: [{ evidence: { sha256: photoSha256.toLowerCase() } }] });
+  return queryEvidenceManifests(
+    config,
+    `manifest=cs.${encodeURIComponent(containment)}&order=server_timestamp.asc&limit=${MAX_PHOTO_MATCHES}`
+  );
+}
+
+/**
+ * Check a stored manifest and publish its metadata and photo hashes.
+ * `serverPublicKey` is the current countersigning key, if configured.
+ */
+export async function publishEvidenceManifest(
+  config: SupabaseConfig,
+  stored: StoredEvidenceManifest,
+  serverPublicKey: string | undefined
+): Promise<PublishedEvidenceRecord> {
+  const { manifest } = stored;
+
+  // A return manifest continues the chain of the pickup manifest it names
+  let pickup: CountersignedManifest | undefined;
+  if (manifest.phase === 'return' && manifest.previousManifestHash) {
+    const rows = await queryEvidenceManifests(
+      config,
+      `auth_user_id=eq.${encodeURIComponent(stored.authUserId)}` +
+        `&inspection_client_id=eq.${encodeURIComponent(manifest.inspectionId)}` +
+        `&manifest_hash=eq.${manifest.previousManifestHash}&limit=1`
+    );
+    pickup = rows[0]?.manifest;
+  }
+
+  // Without a pickup manifest (no pickup evidence) the return chain starts from genesis
+  const verification = verifyEvidenceManifest(
+    manifest,
+    manifest.previousManifestHash ? pickup?.headHash : GENESIS_HASH
+  );
+  const errors = [...verification.errors];
+
+  const serverKeyMatches = serverPublicKey ? manifest.countersignature.publicKey === serverPublicKey : null;
+  if (serverKeyMatches === false) {
+    errors.push('Countersigned with a different server key');
+  }
+
+  let linkedToPickup: boolean | null = null;
+  if (manifest.phase === 'return' && manifest.previousManifestHash) {
+    linkedToPickup = !!pickup && manifest.entries[0]?.previousHash === pickup.headHash;
+    if (!linkedToPickup) {
+      errors.push('Pickup manifest not found or not continued by this chain');
+    }
+  }
+
+  const countersignatureValid = verification.countersignatureValid === true;
+  return {
+    verificationCode: manifest.countersignature.verificationCode,
+    inspectionId: manifest.inspectionId,
+    phase: manifest.phase,
+    createdAt: manifest.createdAt,
+    serverTimestamp: manifest.countersignature.serverTimestamp,
+    manifestHash: evidenceManifestHash(manifest),
+    headHash: manifest.headHash,
+    previousManifestHash: manifest.previousManifestHash,
+    devicePublicKey: manifest.devicePublicKey,
+    checks: {
+      chainValid: verification.chainValid,
+      deviceSignatureValid: verification.deviceSignatureValid,
+      countersignatureValid,
+      serverKeyMatches,
+      linkedToPickup,
+    },
+    valid: errors.length === 0,
+    errors,
+    photos: manifest.entries.map(entry => ({
+      index: entry.index,
+      kind: entry.kind,
+      section: entry.section,
+      sha256: entry.evidence.sha256,
+      capturedAt: entry.evidence.capturedAt,
+      hasLocation: !!entry.evidence.location,
+      platform: entry.evidence.device.platform,
+    })),
+  };
+}
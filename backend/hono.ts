@@ -6,6 +6,27 @@ import { join } from 'path';
 
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import {
+  getBearerToken,
+  getRentalCarAccess,
+  verifySupabaseJwt,
+  RentalCarAccess,
+  SupabaseConfig,
+} from "./supabaseAuth";
+import { fetchInspectionForUser, renderInspectionReport, reportPayloadToHistoryItem } from "./reports";
+import {
+  countersignManifest,
+  fetchEvidenceManifest,
+  fetchEvidenceManifestsForPhoto,
+  isEvidenceManifest,
+  publishEvidenceManifest,
+  storeEvidenceManifest,
+} from "./evidence";
+import { evidencePublicKey, normalizeVerificationCode } from "../lib/evidence";
+import { renderWatermark } from "./watermark";
+import { MAX_WATERMARK_LINES, MAX_WATERMARK_LINE_LENGTH } from "../lib/watermark";
+import { detectImageMime } from "../lib/pdf/layout";
+import type { HistoryItem } from "../contexts/HistoryContext";
 
 const app = new Hono();
 
@@ -13,9 +34,13 @@ const app = new Hono();
 let cachedClaudeKey: string | undefined;
 let cachedOpenAIKey: string | undefined;
 let cachedKieKey: string | undefined;
+let cachedSupabaseUrl: string | undefined;
+let cachedSupabaseAnonKey: string | undefined;
+let cachedSupabaseServiceKey: string | undefined;
+let cachedEvidenceSigningKey: string | undefined;
 
 function loadApiKeys() {
-  if (cachedClaudeKey && cachedOpenAIKey && cachedKieKey) return;
+  if (cachedClaudeKey && cachedOpenAIKey && cachedKieKey && cachedSupabaseServiceKey) return;
   
   const envPath = join(process.cwd(), '.env');
   try {
@@ -47,6 +72,19 @@ function loadApiKeys() {
             cachedKieKey = value;
             console.log(`   Cached Kie key: ${value.length} chars`);
           }
+          if (key === 'SUPABASE_URL' || key === 'EXPO_PUBLIC_SUPABASE_URL') {
+            cachedSupabaseUrl = value;
+          }
+          if (key === 'SUPABASE_ANON_KEY' || key === 'EXPO_PUBLIC_SUPABASE_ANON_KEY') {
+            cachedSupabaseAnonKey = value;
+          }
+          if (key === 'SUPABASE_SERVICE_ROLE_KEY') {
+            cachedSupabaseServiceKey = value;
+            console.log(`   Cached Supabase service key: ${value.length} chars`);
+          }
+          if (key === 'EVIDENCE_SIGNING_KEY') {
+            cachedEvidenceSigningKey = value;
+          }
         }
       }
     });
@@ -58,6 +96,21 @@ function loadApiKeys() {
 // Load keys on module init
 loadApiKeys();
 
+// Supabase project used to validate app JWTs (same project as lib/supabase.ts)
+function getSupabaseConfig(): SupabaseConfig {
+  return {
+    url: cachedSupabaseUrl || process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://vottxjcqffropoyeqtbo.supabase.co',
+    anonKey: cachedSupabaseAnonKey || process.env.SUPABASE_ANON_KEY || process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+    serviceRoleKey: cachedSupabaseServiceKey || process.env.SUPABASE_SERVICE_ROLE_KEY,
+  };
+}
+
+// Ed25519 private key (32 bytes, hex) used to countersign evidence manifests
+function getEvidenceSigningKey(): string | undefined {
+  const key = cachedEvidenceSigningKey || process.env.EVIDENCE_SIGNING_KEY;
+  return key && /^[0-9a-f]{64}$/i.test(key) ? key : undefined;
+}
+
 app.use("*", cors({
   origin: "*",
   allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
@@ -73,139 +126,495 @@ app.use(
   }),
 );
 
+/**
+ * Image or document attached to a Claude prompt.
+ * `data` is plain base64 or a data URI; images and PDFs are supported.
+ */
+interface ClaudeAttachment {
+  data: string;
+  mimeType?: string;
+  name?: string;
+}
+
+// Anthropic allows more, but request size (32MB) is the practical limit
+const MAX_CLAUDE_ATTACHMENTS = 40;
+
+/**
+ * Read the attachments from a proxy request body.
+ * Accepts the `attachments` array, or the legacy single `imageBase64` / `imageMime` fields.
+ */
+function getRequestAttachments(body: any): ClaudeAttachment[] | { error: string } {
+  const attachments: ClaudeAttachment[] = [];
+
+  if (body.attachments !== undefined) {
+    if (!Array.isArray(body.attachments)) {
+      return { error: 'attachments must be an array' };
+    }
+    for (const attachment of body.attachments) {
+      if (!attachment || typeof attachment.data !== 'string' || !attachment.data) {
+        return { error: 'Each attachment needs base64 data' };
+      }
+      attachments.push({ data: attachment.data, mimeType: attachment.mimeType, name: attachment.name });
+    }
+  }
+
+  if (typeof body.imageBase64 === 'string' && body.imageBase64) {
+    attachments.push({ data: body.imageBase64, mimeType: body.imageMime });
+  }
+
+  if (attachments.length > MAX_CLAUDE_ATTACHMENTS) {
+    return { error: `Too many attachments (max ${MAX_CLAUDE_ATTACHMENTS})` };
+  }
+
+  return attachments;
+}
+
+/**
+ * Forward a prompt with images and documents to the Claude messages API
+ *
+ * Shared by the open development proxy (/api/claude) and the authenticated
+ * app endpoint (/api/rental-car/claude). Attachments are sent in the given
+ * order after the prompt text.
+ */
+async function callClaude(
+  promptText: string,
+  attachments: ClaudeAttachment[]
+): Promise<{ text: string } | { error: string; status: number }> {
+  // Always prefer cached key (loaded directly from file, not truncated)
+  // cachedClaudeKey is the full 108 chars, process.env may be truncated by Bun
+  const apiKey = cachedClaudeKey || process.env.ANTHROPIC_API_KEY || process.env.EXPO_PUBLIC_CLAUDE_API_KEY;
+  
+  if (!apiKey) {
+    console.error('API key not found. Available env vars:', Object.keys(process.env).filter(k => k.includes('CLAUDE') || k.includes('ANTHROPIC')));
+    return { error: 'ANTHROPIC_API_KEY is not set', status: 500 };
+  }
+  
+  // Use cached key if available (it's the full 108 chars), otherwise use env var
+  const cleanApiKey = (cachedClaudeKey || apiKey).trim();
+  console.log(`Using Claude API key: ${cleanApiKey.substring(0, 20)}... (length: ${cleanApiKey.length}, from cache: ${!!cachedClaudeKey})`);
+
+  const attachmentBlocks: any[] = [];
+  for (const attachment of attachments) {
+    const block = buildClaudeAttachmentBlock(attachment);
+    if ('error' in block) {
+      return { error: block.error, status: 400 };
+    }
+    attachmentBlocks.push(block);
+  }
+  
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': cleanApiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: 'claude-sonnet-4-20250514', // Verified working - better quality than haiku
+      max_tokens: 4096,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: promptText,
+            },
+            ...attachmentBlocks,
+          ],
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    return { error: `Claude API error: ${response.status} ${errorText}`, status: response.status };
+  }
+
+  const data = await response.json();
+  
+  if (!data.content || !Array.isArray(data.content) || data.content.length === 0) {
+    return { error: 'Invalid response from Claude API', status: 500 };
+  }
+
+  // Extract text from the first text block
+  const textBlock = data.content.find((block: any) => block.type === 'text');
+  if (!textBlock) {
+    return { error: 'No text content in Claude API response', status: 500 };
+  }
+
+  return { text: textBlock.text };
+}
+
+/**
+ * Build a Claude content block for an attachment: PDFs become `document`
+ * blocks, everything else an `image` block. The real MIME type is detected
+ * from magic bytes (camera output and picked files are not always labelled correctly).
+ */
+function buildClaudeAttachmentBlock(attachment: ClaudeAttachment): any | { error: string } {
+  // Remove data URI prefix if present (handle both data:<mime>;base64, and plain base64)
+  let base64Data = attachment.data;
+  let detectedMimeType = attachment.mimeType;
+  
+  if (typeof base64Data === 'string' && base64Data.includes(',')) {
+    // Extract base64 part after the comma
+    const parts = base64Data.split(',');
+    // Check if there's a MIME type in the data URI prefix
+    const mimeMatch = parts[0].match(/^data:([^;,]+)/);
+    if (mimeMatch) {
+      detectedMimeType = mimeMatch[1];
+    }
+    base64Data = parts[parts.length - 1]; // Get the last part (the actual base64 data)
+  }
+  
+  if (!base64Data || typeof base64Data !== 'string') {
+    return { error: 'Invalid attachment data: must be a base64 string' };
+  }
+
+  // Detect MIME type from actual data (magic bytes)
+  // PNG: starts with 89 50 4E 47 (iVBORw0KGgo in base64)
+  // JPEG: starts with FF D8 FF (base64: /9j/4AAQ)
+  // PDF: starts with %PDF (base64: JVBERi0)
+  const buffer = Buffer.from(base64Data, 'base64');
+  let actualMimeType = detectedMimeType || 'image/jpeg';
+  
+  // Check PNG magic bytes (first 8 bytes: 89 50 4E 47 0D 0A 1A 0A)
+  if (buffer.length >= 8 && 
+      buffer[0] === 0x89 && 
+      buffer[1] === 0x50 && 
+      buffer[2] === 0x4E && 
+      buffer[3] === 0x47) {
+    actualMimeType = 'image/png';
+  }
+  // Check JPEG magic bytes (first 3 bytes: FF D8 FF)
+  else if (buffer.length >= 3 && 
+           buffer[0] === 0xFF && 
+           buffer[1] === 0xD8 && 
+           buffer[2] === 0xFF) {
+    actualMimeType = 'image/jpeg';
+  }
+  // Check WebP (RIFF...WEBP)
+  else if (buffer.length >= 12 &&
+           buffer[0] === 0x52 && buffer[1] === 0x49 &&
+           buffer[2] === 0x46 && buffer[3] === 0x46 &&
+           buffer[8] === 0x57 && buffer[9] === 0x45 &&
+           buffer[10] === 0x42 && buffer[11] === 0x50) {
+    actualMimeType = 'image/webp';
+  }
+  // Check PDF (%PDF)
+  else if (buffer.length >= 4 &&
+           buffer[0] === 0x25 && buffer[1] === 0x50 &&
+           buffer[2] === 0x44 && buffer[3] === 0x46) {
+    actualMimeType = 'application/pdf';
+  }
+  
+  // Normalize MIME type
+  if (actualMimeType === 'image/jpg') {
+    actualMimeType = 'image/jpeg';
+  }
+  
+  console.log(`Attachment MIME type: requested=${attachment.mimeType}, detected=${actualMimeType}, size=${buffer.length} bytes`);
+
+  if (actualMimeType === 'application/pdf') {
+    return {
+      type: 'document',
+      source: {
+        type: 'base64',
+        media_type: 'application/pdf',
+        data: base64Data,
+      },
+      ...(attachment.name ? { title: attachment.name } : {}),
+    };
+  }
+
+  if (!['image/jpeg', 'image/png', 'image/webp', 'image/gif'].includes(actualMimeType)) {
+    return { error: `Unsupported attachment type: ${actualMimeType}` };
+  }
+
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: actualMimeType,
+      data: base64Data,
+    },
+  };
+}
+
 // Claude API proxy endpoint
 app.post("/api/claude", async (c) => {
   try {
-    const { promptText, imageBase64, imageMime } = await c.req.json();
+    const body = await c.req.json();
+    const attachments = getRequestAttachments(body);
 
-    if (!promptText || !imageBase64) {
-      return c.json({ error: 'Missing required fields: promptText and imageBase64' }, 400);
+    if (!body.promptText) {
+      return c.json({ error: 'Missing required field: promptText' }, 400);
+    }
+    if ('error' in attachments) {
+      return c.json({ error: attachments.error }, 400);
     }
 
-    // Always prefer cached key (loaded directly from file, not truncated)
-    // cachedClaudeKey is the full 108 chars, process.env may be truncated by Bun
-    const apiKey = cachedClaudeKey || process.env.ANTHROPIC_API_KEY || process.env.EXPO_PUBLIC_CLAUDE_API_KEY;
-    
-    if (!apiKey) {
-      console.error('API key not found. Available env vars:', Object.keys(process.env).filter(k => k.includes('CLAUDE') || k.includes('ANTHROPIC')));
-      return c.json({ error: 'ANTHROPIC_API_KEY is not set' }, 500);
+    const result = await callClaude(body.promptText, attachments);
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status as any);
     }
-    
-    // Use cached key if available (it's the full 108 chars), otherwise use env var
-    const cleanApiKey = (cachedClaudeKey || apiKey).trim();
-    console.log(`Using Claude API key: ${cleanApiKey.substring(0, 20)}... (length: ${cleanApiKey.length}, from cache: ${!!cachedClaudeKey})`);
 
-    // Remove data URI prefix if present (handle both data:image/...;base64, and plain base64)
-    let base64Data = imageBase64;
-    let detectedMimeType = imageMime;
-    
-    if (typeof base64Data === 'string' && base64Data.includes(',')) {
-      // Extract base64 part after the comma
-      const parts = base64Data.split(',');
-      // Check if there's a MIME type in the data URI prefix
-      const prefix = parts[0];
-      if (prefix.includes('data:') && prefix.includes('image/')) {
-        const mimeMatch = prefix.match(/data:image\/([^;]+)/);
-        if (mimeMatch) {
-          detectedMimeType = `image/${mimeMatch[1]}`;
-        }
+    return c.json({ text: result.text });
+  } catch (error: any) {
+    console.error('Claude API proxy error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * Resolve the caller's rental car access from the Authorization header.
+ * Returns an error response body + status when the JWT is missing or invalid.
+ */
+async function resolveRentalCarAccess(
+  authorization: string | undefined
+): Promise<{ access: RentalCarAccess } | { error: string; status: number }> {
+  const token = getBearerToken(authorization);
+  if (!token) {
+    return { error: 'Missing Authorization header', status: 401 };
+  }
+
+  const config = getSupabaseConfig();
+  const authUser = await verifySupabaseJwt(config, token);
+  if (!authUser) {
+    return { error: 'Invalid or expired token', status: 401 };
+  }
+
+  const access = await getRentalCarAccess(config, authUser, token);
+  return { access };
+}
+
+// Validate JWT and report subscription / testing user status
+app.post("/api/rental-car/validate-auth", async (c) => {
+  try {
+    const result = await resolveRentalCarAccess(c.req.header('Authorization'));
+    if ('error' in result) {
+      return c.json({
+        valid: false,
+        has_subscription: false,
+        is_testing_user: false,
+        error: result.error,
+      }, result.status as any);
+    }
+
+    return c.json({
+      valid: true,
+      has_subscription: result.access.hasSubscription,
+      is_testing_user: result.access.isTestingUser,
+    });
+  } catch (error: any) {
+    console.error('Validate auth error:', error);
+    return c.json({ valid: false, has_subscription: false, is_testing_user: false, error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Authenticated Claude endpoint used by the app (services/claude.ts)
+app.post("/api/rental-car/claude", async (c) => {
+  try {
+    const authResult = await resolveRentalCarAccess(c.req.header('Authorization'));
+    if ('error' in authResult) {
+      return c.json({ error: authResult.error }, authResult.status as any);
+    }
+
+    // Testing users bypass the subscription requirement
+    const { access } = authResult;
+    if (!access.hasSubscription && !access.isTestingUser) {
+      return c.json({ error: 'Active subscription required' }, 403);
+    }
+
+    const body = await c.req.json();
+    const attachments = getRequestAttachments(body);
+
+    if (!body.promptText) {
+      return c.json({ error: 'Missing required field: promptText' }, 400);
+    }
+    if ('error' in attachments) {
+      return c.json({ error: attachments.error }, 400);
+    }
+
+    const result = await callClaude(body.promptText, attachments);
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status as any);
+    }
+
+    return c.json({ text: result.text });
+  } catch (error: any) {
+    console.error('Rental car Claude endpoint error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Server-side inspection report PDF
+// Body: { inspectionId } for a stored inspection, or { inspection } with the store-inspection payload
+app.post("/api/rental-car/report", async (c) => {
+  try {
+    const authResult = await resolveRentalCarAccess(c.req.header('Authorization'));
+    if ('error' in authResult) {
+      return c.json({ error: authResult.error }, authResult.status as any);
+    }
+
+    const { access } = authResult;
+    if (!access.hasSubscription && !access.isTestingUser) {
+      return c.json({ error: 'Active subscription required' }, 403);
+    }
+
+    const { inspectionId, inspection } = await c.req.json();
+    const config = getSupabaseConfig();
+
+    let item: HistoryItem | null = null;
+    if (typeof inspectionId === 'string' && inspectionId) {
+      const token = getBearerToken(c.req.header('Authorization'))!;
+      item = await fetchInspectionForUser(config, token, inspectionId);
+      if (!item) {
+        return c.json({ error: 'Inspection not found' }, 404);
       }
-      base64Data = parts[parts.length - 1]; // Get the last part (the actual base64 data)
+    } else if (inspection && typeof inspection.mainPhoto === 'string' && Array.isArray(inspection.sectionPhotos)) {
+      item = reportPayloadToHistoryItem(inspection);
+    } else {
+      return c.json({ error: 'Provide inspectionId or inspection (with mainPhoto and sectionPhotos)' }, 400);
     }
-    
-    if (!base64Data || typeof base64Data !== 'string') {
-      return c.json({ error: 'Invalid imageBase64: must be a string' }, 400);
+
+    console.log(`📄 Rendering inspection report ${item.id} (${item.sectionPhotos.length} sections)`);
+    const pdfBytes = await renderInspectionReport(item, config);
+
+    return c.body(pdfBytes as any, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="inspection-report-${item.id.replace(/[^\w-]/g, '')}.pdf"`,
+    });
+  } catch (error: any) {
+    console.error('Inspection report endpoint error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Countersign a device-signed evidence manifest (services/evidence.ts)
+// Body: { manifest } → { countersignature }
+app.post("/api/rental-car/evidence/countersign", async (c) => {
+  try {
+    const authResult = await resolveRentalCarAccess(c.req.header('Authorization'));
+    if ('error' in authResult) {
+      return c.json({ error: authResult.error }, authResult.status as any);
     }
 
-    // Detect MIME type from actual image data (magic bytes)
-    // PNG: starts with 89 50 4E 47 (iVBORw0KGgo in base64)
-    // JPEG: starts with FF D8 FF (base64: /9j/4AAQ)
-    const imageBuffer = Buffer.from(base64Data, 'base64');
-    let actualMimeType = detectedMimeType || 'image/jpeg';
-    
-    // Check PNG magic bytes (first 8 bytes: 89 50 4E 47 0D 0A 1A 0A)
-    if (imageBuffer.length >= 8 && 
-        imageBuffer[0] === 0x89 && 
-        imageBuffer[1] === 0x50 && 
-        imageBuffer[2] === 0x4E && 
-        imageBuffer[3] === 0x47) {
-      actualMimeType = 'image/png';
-    }
-    // Check JPEG magic bytes (first 3 bytes: FF D8 FF)
-    else if (imageBuffer.length >= 3 && 
-             imageBuffer[0] === 0xFF && 
-             imageBuffer[1] === 0xD8 && 
-             imageBuffer[2] === 0xFF) {
-      actualMimeType = 'image/jpeg';
-    }
-    // Check WebP (RIFF...WEBP)
-    else if (imageBuffer.length >= 12 &&
-             imageBuffer[0] === 0x52 && imageBuffer[1] === 0x49 &&
-             imageBuffer[2] === 0x46 && imageBuffer[3] === 0x46 &&
-             imageBuffer[8] === 0x57 && imageBuffer[9] === 0x45 &&
-             imageBuffer[10] === 0x42 && imageBuffer[11] === 0x50) {
-      actualMimeType = 'image/webp';
+    const { access } = authResult;
+    if (!access.hasSubscription && !access.isTestingUser) {
+      return c.json({ error: 'Active subscription required' }, 403);
     }
-    
-    // Normalize MIME type
-    if (actualMimeType === 'image/jpg') {
-      actualMimeType = 'image/jpeg';
+
+    const signingKey = getEvidenceSigningKey();
+    if (!signingKey) {
+      return c.json({ error: 'Evidence signing is not configured' }, 503);
     }
-    
-    console.log(`Image MIME type: requested=${imageMime}, detected=${actualMimeType}, size=${imageBuffer.length} bytes`);
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': cleanApiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514', // Verified working - better quality than haiku
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: promptText,
-              },
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: actualMimeType,
-                  data: base64Data,
-                },
-              },
-            ],
-          },
-        ],
-      }),
+
+    const { manifest } = await c.req.json();
+    if (!isEvidenceManifest(manifest)) {
+      return c.json({ error: 'Invalid evidence manifest' }, 400);
+    }
+
+    const result = countersignManifest(manifest, signingKey);
+    if ('error' in result) {
+      return c.json({ error: `Evidence manifest rejected: ${result.error}` }, 422);
+    }
+
+    await storeEvidenceManifest(getSupabaseConfig(), access.authUser.id, {
+      ...manifest,
+      countersignature: result.countersignature,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return c.json({ error: `Claude API error: ${response.status} ${errorText}` }, response.status as any);
+    console.log(`🔏 Countersigned ${manifest.phase} evidence for ${manifest.inspectionId} (${manifest.entries.length} photos)`);
+    return c.json({ countersignature: result.countersignature });
+  } catch (error: any) {
+    console.error('Evidence countersign endpoint error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Burn a timestamp / location watermark into a photo (services/watermark.ts)
+// Body: { photo: data URI or base64, lines: string[] } → { photo: stamped JPEG data URI }
+app.post("/api/rental-car/watermark", async (c) => {
+  try {
+    const authResult = await resolveRentalCarAccess(c.req.header('Authorization'));
+    if ('error' in authResult) {
+      return c.json({ error: authResult.error }, authResult.status as any);
     }
 
-    const data = await response.json();
-    
-    if (!data.content || !Array.isArray(data.content) || data.content.length === 0) {
-      return c.json({ error: 'Invalid response from Claude API' }, 500);
+    const { access } = authResult;
+    if (!access.hasSubscription && !access.isTestingUser) {
+      return c.json({ error: 'Active subscription required' }, 403);
     }
 
-    // Extract text from the first text block
-    const textBlock = data.content.find((block: any) => block.type === 'text');
-    if (!textBlock) {
-      return c.json({ error: 'No text content in Claude API response' }, 500);
+    const { photo, lines } = await c.req.json();
+    if (typeof photo !== 'string' || !photo) {
+      return c.json({ error: 'photo is required' }, 400);
+    }
+    if (
+      !Array.isArray(lines) ||
+      lines.length === 0 ||
+      lines.length > MAX_WATERMARK_LINES ||
+      !lines.every(line => typeof line === 'string' && line.length <= MAX_WATERMARK_LINE_LENGTH)
+    ) {
+      return c.json({ error: `lines must be 1-${MAX_WATERMARK_LINES} strings of up to ${MAX_WATERMARK_LINE_LENGTH} characters` }, 400);
     }
 
-    return c.json({ text: textBlock.text });
+    const image = new Uint8Array(Buffer.from(photo.substring(photo.indexOf(',') + 1), 'base64'));
+    if (!detectImageMime(image)) {
+      return c.json({ error: 'photo must be a JPEG or PNG image' }, 400);
+    }
+
+    const stamped = await renderWatermark(image, lines);
+    return c.json({ photo: `data:image/jpeg;base64,${stamped.toString('base64')}` });
   } catch (error: any) {
-    console.error('Claude API proxy error:', error);
+    console.error('Watermark endpoint error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Public lookup of a countersigned evidence manifest by the code printed on the report.
+// Returns the manifest metadata, check results and per-photo hashes (no GPS or device details).
+app.get("/api/rental-car/verify/:code", async (c) => {
+  try {
+    const code = normalizeVerificationCode(c.req.param('code'));
+    if (!/^[0-9A-Z]{4}(-[0-9A-Z]{4}){3}$/.test(code)) {
+      return c.json({ error: 'Invalid verification code' }, 400);
+    }
+
+    const config = getSupabaseConfig();
+    const stored = await fetchEvidenceManifest(config, code);
+    if (!stored) {
+      return c.json({ error: 'No inspection is registered under this code' }, 404);
+    }
+
+    const signingKey = getEvidenceSigningKey();
+    const record = await publishEvidenceManifest(config, stored, signingKey ? evidencePublicKey(signingKey) : undefined);
+    return c.json(record);
+  } catch (error: any) {
+    console.error('Evidence verify endpoint error:', error);
+    return c.json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+// Public lookup of the registered manifests that contain a photo, by its SHA-256
+// Returns { records } in the same format as /api/rental-car/verify/:code
+app.get("/api/rental-car/verify/photo/:sha256", async (c) => {
+  try {
+    const sha256 = c.req.param('sha256').toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(sha256)) {
+      return c.json({ error: 'Invalid SHA-256 hash' }, 400);
+    }
+
+    const config = getSupabaseConfig();
+    const signingKey = getEvidenceSigningKey();
+    const serverPublicKey = signingKey ? evidencePublicKey(signingKey) : undefined;
+    const stored = await fetchEvidenceManifestsForPhoto(config, sha256);
+    const records = await Promise.all(stored.map(manifest => publishEvidenceManifest(config, manifest, serverPublicKey)));
+    return c.json({ records });
+  } catch (error: any) {
+    console.error('Photo verify endpoint error:', error);
     return c.json({ error: error.message || 'Internal server error' }, 500);
   }
 });
@@ -0,0 +1,116 @@
+/**
+ * Server-side inspection report rendering
+ *
+ * Renders the same pdf-lib layout the app uses (lib/pdf) so mobile and web
+ * get identical evidence documents. Output is deterministic for a given
+ * inspection: the "generated" timestamp is derived from the inspection itself
+ * rather than the wall clock.
+ */
+
+import type { HistoryItem } from '../contexts/HistoryContext';
+import type { StoreInspectionRequest } from '../services/supabase';
+import { buildInspectionReportPDF } from '../lib/pdf/inspectionReport';
+import { ReportImage, detectImageMime } from '../lib/pdf/layout';
+import { formatDateText, inspectionRecordToHistoryItem } from '../lib/inspectionRecords';
+import type { SupabaseConfig } from './supabaseAuth';
+
+/**
+ * Inspection payload accepted by POST /api/rental-car/report.
+ * Same shape the app sends to rental-car-store-inspection, plus the local
+ * identifiers so the report matches the app's copy.
+ */
+export type ReportInspectionPayload = StoreInspectionRequest & {
+  id?: string;
+  createdAt?: number;
+  dateText?: string;
+};
+
+export function reportPayloadToHistoryItem(payload: ReportInspectionPayload): HistoryItem {
+  const createdAt = typeof payload.createdAt === 'number' ? payload.createdAt : 0;
+  return {
+    id: payload.id || 'unsaved',
+    mainPhoto: payload.mainPhoto,
+    sectionPhotos: payload.sectionPhotos || [],
+    allDamageNotes: payload.allDamageNotes || '',
+    createdAt,
+    dateText: payload.dateText || formatDateText(new Date(createdAt)),
+    expectedReturnDate: payload.expectedReturnDate,
+    expectedReturnDateText: payload.expectedReturnDateText,
+    afterMainPhoto: payload.afterMainPhoto,
+    afterSectionPhotos: payload.afterSectionPhotos,
+    afterCreatedAt: payload.afterCreatedAt,
+    afterDateText: payload.afterDateText,
+    isReturned: payload.isReturned || false,
+    returnComparison: payload.returnComparison,
+    mainPhotoEvidence: payload.mainPhotoEvidence,
+    afterMainPhotoEvidence: payload.afterMainPhotoEvidence,
+    evidenceManifest: payload.evidenceManifest,
+    afterEvidenceManifest: payload.afterEvidenceManifest,
+    vehicleIdentity: payload.vehicleIdentity,
+    pickupReadings: payload.pickupReadings,
+    returnIdentity: payload.returnIdentity,
+    returnReadings: payload.returnReadings,
+    rentalAgreement: payload.rentalAgreement,
+    walkAroundPlan: payload.walkAroundPlan,
+    walkAroundVideo: payload.walkAroundVideo,
+    afterWalkAroundVideo: payload.afterWalkAroundVideo,
+  };
+}
+
+/**
+ * Fetch a single stored inspection for the calling user via the
+ * rental-car-get-inspections edge function (RLS scoped by the user's JWT)
+ */
+export async function fetchInspectionForUser(
+  config: SupabaseConfig,
+  accessToken: string,
+  inspectionId: string
+): Promise<HistoryItem | null> {
+  const response = await fetch(`${config.url}/functions/v1/rental-car-get-inspections`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      ...(config.anonKey ? { 'apikey': config.anonKey } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch inspections: ${response.status}`);
+  }
+
+  const result = await response.json();
+  const record = (result.inspections || []).find((inspection: any) =>
+    inspection.id === inspectionId || inspection.client_id === inspectionId
+  );
+  return record ? inspectionRecordToHistoryItem(record) : null;
+}
+
+/**
+ * Render the inspection report PDF
+ *
+ * Remote photos are only fetched from the Supabase project (Storage URLs) -
+ * any other URL in the payload is treated as unavailable.
+ */
+export async function renderInspectionReport(item: HistoryItem, config: SupabaseConfig): Promise<Uint8Array> {
+  const generatedAt = Math.max(item.createdAt || 0, item.afterCreatedAt || 0);
+  const allowedHost = new URL(config.url).host;
+
+  const loadImage = async (uri: string): Promise<ReportImage | null> => {
+    let bytes: Uint8Array;
+
+    if (uri.startsWith('data:')) {
+      bytes = new Uint8Array(Buffer.from(uri.substring(uri.indexOf(',') + 1), 'base64'));
+    } else if (/^https?:\/\//.test(uri) && new URL(uri).host === allowedHost) {
+      const response = await fetch(uri);
+      if (!response.ok) return null;
+      bytes = new Uint8Array(await response.arrayBuffer());
+    } else {
+      return null;
+    }
+
+    const mimeType = detectImageMime(bytes);
+    return mimeType ? { bytes, mimeType } : null;
+  };
+
+  return buildInspectionReportPDF(item, loadImage, { generatedAt });
+}
@@ -0,0 +1,146 @@
+/**
+ * Supabase authentication helpers for the Hono backend
+ *
+ * Verifies the Supabase JWT sent by the app and looks up the user's
+ * rental car access (testing user flag + active subscription).
+ *
+ * The backend talks to Supabase over plain HTTP (GoTrue + PostgREST) so it
+ * does not need the supabase-js client:
+ * - GET  {SUPABASE_URL}/auth/v1/user                  → validates the JWT
+ * - GET  {SUPABASE_URL}/rest/v1/rental_car_users       → is_testing_user flag
+ * - GET  {SUPABASE_URL}/rest/v1/rental_car_subscriptions → active subscriptions
+ *
+ * When SUPABASE_SERVICE_ROLE_KEY is set it is used for the table lookups,
+ * otherwise the user's own JWT is forwarded and RLS scopes the rows.
+ */
+
+export interface SupabaseConfig {
+  url: string;
+  anonKey?: string;
+  serviceRoleKey?: string;
+}
+
+export interface SupabaseAuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface RentalCarAccess {
+  authUser: SupabaseAuthUser;
+  rentalCarUserId: string | null;
+  hasSubscription: boolean;
+  isTestingUser: boolean;
+}
+
+/**
+ * Extract the bearer token from an Authorization header
+ */
+export function getBearerToken(authorization: string | undefined): string | null {
+  if (!authorization) return null;
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Validate a Supabase access token and return the auth user it belongs to.
+ * Returns null if the token is invalid or expired.
+ */
+export async function verifySupabaseJwt(
+  config: SupabaseConfig,
+  accessToken: string
+): Promise<SupabaseAuthUser | null> {
+  const apiKey = config.anonKey || config.serviceRoleKey;
+  if (!apiKey) {
+    throw new Error('SUPABASE_ANON_KEY or SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+
+  const response = await fetch(`${config.url}/auth/v1/user`, {
+    method: 'GET',
+    headers: {
+      'apikey': apiKey,
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const user = await response.json();
+  if (!user?.id) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email };
+}
+
+/**
+ * Look up subscription and testing user status for an authenticated user
+ */
+export async function getRentalCarAccess(
+  config: SupabaseConfig,
+  authUser: SupabaseAuthUser,
+  accessToken: string
+): Promise<RentalCarAccess> {
+  const users = await queryTable(
+    config,
+    accessToken,
+    `rental_car_users?auth_user_id=eq.${encodeURIComponent(authUser.id)}&select=id,is_testing_user&limit=1`
+  );
+  const rentalCarUser = users[0];
+
+  // The database trigger creates this record on sign up - if it is missing
+  // the user is authenticated but has no access yet
+  if (!rentalCarUser) {
+    return {
+      authUser,
+      rentalCarUserId: null,
+      hasSubscription: false,
+      isTestingUser: false,
+    };
+  }
+
+  const subscriptions = await queryTable(
+    config,
+    accessToken,
+    `rental_car_subscriptions?user_id=eq.${encodeURIComponent(rentalCarUser.id)}&is_active=eq.true&select=id,expires_at`
+  );
+  const now = Date.now();
+  const hasSubscription = subscriptions.some(
+    (subscription: any) => !subscription.expires_at || new Date(subscription.expires_at).getTime() > now
+  );
+
+  return {
+    authUser,
+    rentalCarUserId: rentalCarUser.id,
+    hasSubscription,
+    isTestingUser: rentalCarUser.is_testing_user === true,
+  };
+}
+
+/**
+ * Run a PostgREST select against the rental car tables
+ */
+async function queryTable(config: SupabaseConfig, accessToken: string, path: string): Promise<any[]> {
+  const apiKey = config.serviceRoleKey || config.anonKey;
+  if (!apiKey) {
+    throw new Error('SUPABASE_ANON_KEY or SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+
+  const response = await fetch(`${config.url}/rest/v1/${path}`, {
+    method: 'GET',
+    headers: {
+      'apikey': apiKey,
+      'Authorization': `Bearer ${config.serviceRoleKey || accessToken}`,
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Supabase query failed: ${response.status} ${errorText.substring(0, 200)}`);
+  }
+
+  const rows = await response.json();
+  return Array.isArray(rows) ? rows : [];
+}
@@ -0,0 +1,26 @@
+/**
+ * Server-side photo watermarking
+ *
+ * Burns the watermark lines (lib/watermark.ts) into a photo with sharp, so
+ * stamped copies look the same whichever device captured them. The caller
+ * keeps the original; only the stamped JPEG is returned.
+ */
+
+import sharp from 'sharp';
+import { watermarkSvg } from '../lib/watermark';
+
+const STAMPED_JPEG_QUALITY = 90;
+
+/**
+ * Stamp a JPEG / PNG photo and return the stamped JPEG
+ */
+export async function renderWatermark(image: Uint8Array, lines: string[]): Promise<Buffer> {
+  // Apply the EXIF orientation first so the band ends up at the bottom of the photo as seen
+  const { data, info } = await sharp(image).rotate().toBuffer({ resolveWithObject: true });
+  const overlay = Buffer.from(watermarkSvg(info.width, info.height, lines));
+
+  return sharp(data)
+    .composite([{ input: overlay, top: 0, left: 0 }])
+    .jpeg({ quality: STAMPED_JPEG_QUALITY })
+    .toBuffer();
+}
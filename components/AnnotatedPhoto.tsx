@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image, LayoutChangeEvent, PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import {
+  DAMAGE_SEVERITY_COLORS,
+  DamageBoundingBox,
+  DamageRecord,
+  formatDamageRecord,
+  moveBoundingBox,
+} from '@/lib/damage';
+import { usePhotoUri } from '@/components/PhotoImage';
+
+interface AnnotatedPhotoProps {
+  uri: string;
+  records: DamageRecord[];
+  editable?: boolean;
+  onChange?: (records: DamageRecord[]) => void;
+}
+
+interface PhotoSize {
+  width: number;
+  height: number;
+}
+
+// Movement (in px) below which a touch on a marker counts as a tap
+const TAP_SLOP = 4;
+
+/**
+ * Section photo with the damage bounding boxes drawn on top.
+ * Tap a marker to see its note; when editable, drag markers to move them
+ * and delete them from the note.
+ */
+export function AnnotatedPhoto({ uri, records, editable = false, onChange }: AnnotatedPhotoProps) {
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+  const [size, setSize] = useState<PhotoSize | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const displayUri = usePhotoUri(uri);
+
+  // Draw the photo at its own aspect ratio so normalized boxes line up with it
+  useEffect(() => {
+    if (!displayUri) return;
+    Image.getSize(
+      displayUri,
+      (width, height) => {
+        if (width > 0 && height > 0) setAspectRatio(width / height);
+      },
+      error => console.log('Could not read photo size:', error)
+    );
+  }, [displayUri]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handleMove = (id: string, boundingBox: DamageBoundingBox) => {
+    onChange?.(records.map(record => (record.id === id ? { ...record, boundingBox } : record)));
+  };
+
+  const handleDelete = (id: string) => {
+    setSelectedId(null);
+    onChange?.(records.filter(record => record.id !== id));
+  };
+
+  const selectedIndex = records.findIndex(record => record.id === selectedId);
+  const selected = selectedIndex >= 0 ? records[selectedIndex] : undefined;
+
+  return (
+    <View>
+      <View style={[styles.photoContainer, { aspectRatio }]} onLayout={handleLayout}>
+        {displayUri ? <Image source={{ uri: displayUri }} style={styles.photo} resizeMode="stretch" /> : null}
+        {size &&
+          records.map((record, index) =>
+            record.boundingBox ? (
+              <DamageMarker
+                key={record.id}
+                record={record}
+                boundingBox={record.boundingBox}
+                number={index + 1}
+                size={size}
+                selected={record.id === selectedId}
+                editable={editable}
+                onPress={() => setSelectedId(record.id === selectedId ? null : record.id)}
+                onMove={box => handleMove(record.id, box)}
+              />
+            ) : null
+          )}
+      </View>
+
+      {selected ? (
+        <View style={styles.callout}>
+          <View style={[styles.calloutDot, { backgroundColor: DAMAGE_SEVERITY_COLORS[selected.severity] }]} />
+          <Text style={styles.calloutText}>
+            {selectedIndex + 1}. {formatDamageRecord(selected)}
+            {selected.source === 'user' ? ' (added by you)' : ''}
+          </Text>
+          {editable && (
+            <TouchableOpacity onPress={() => handleDelete(selected.id)} style={styles.calloutDelete}>
+              <Trash2 size={16} color="#FF6B6B" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : records.some(record => record.boundingBox) ? (
+        <Text style={styles.hintText}>
+          {editable ? 'Tap a marker to see its note, drag it to correct the position' : 'Tap a marker to see its note'}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+interface DamageMarkerProps {
+  record: DamageRecord;
+  boundingBox: DamageBoundingBox;
+  number: number;
+  size: PhotoSize;
+  selected: boolean;
+  editable: boolean;
+  onPress: () => void;
+  onMove: (box: DamageBoundingBox) => void;
+}
+
+function DamageMarker({ record, boundingBox, number, size, selected, editable, onPress, onMove }: DamageMarkerProps) {
+  const [offset, setOffset] = useState({ dx: 0, dy: 0 });
+
+  // The responder is created once; read the latest props through a ref
+  const latest = useRef({ boundingBox, size, editable, onPress, onMove });
+  latest.current = { boundingBox, size, editable, onPress, onMove };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      // Keep the enclosing ScrollView from taking over while dragging
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderMove: (_, gesture) => {
+        if (latest.current.editable) {
+          setOffset({ dx: gesture.dx, dy: gesture.dy });
+        }
+      },
+      onPanResponderRelease: (_, gesture) => {
+        setOffset({ dx: 0, dy: 0 });
+        const { boundingBox: box, size: photoSize, editable: canEdit } = latest.current;
+        if (!canEdit || (Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP)) {
+          latest.current.onPress();
+          return;
+        }
+        latest.current.onMove(moveBoundingBox(box, gesture.dx / photoSize.width, gesture.dy / photoSize.height));
+      },
+      onPanResponderTerminate: () => setOffset({ dx: 0, dy: 0 }),
+    })
+  ).current;
+
+  // Preview the drag clamped the same way the saved box will be
+  const box = moveBoundingBox(boundingBox, offset.dx / size.width, offset.dy / size.height);
+  const color = DAMAGE_SEVERITY_COLORS[record.severity];
+
+  return (
+    <View
+      {...panResponder.panHandlers}
+      style={[
+        styles.marker,
+        {
+          left: box.x * size.width,
+          top: box.y * size.height,
+          width: box.width * size.width,
+          height: box.height * size.height,
+          borderColor: color,
+          borderWidth: selected ? 3 : 2,
+        },
+      ]}
+    >
+      <View style={[styles.markerBadge, { backgroundColor: color }]}>
+        <Text style={styles.markerBadgeText}>{number}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  photoContainer: {
+    width: '100%',
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#1a4a5c',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  marker: {
+    position: 'absolute',
+    borderRadius: 4,
+    minWidth: 20,
+    minHeight: 20,
+  },
+  markerBadge: {
+    position: 'absolute',
+    top: -1,
+    left: -1,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  markerBadgeText: {
+    color: '#1a4a5c',
+    fontSize: 11,
+    fontWeight: '700' as const,
+  },
+  callout: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#1a4a5c',
+  },
+  calloutDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  calloutText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  calloutDelete: {
+    padding: 4,
+  },
+  hintText: {
+    color: '#7AB8CC',
+    fontSize: 12,
+    marginTop: 6,
+  },
+});
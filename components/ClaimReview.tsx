@@ -0,0 +1,233 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { PhotoImage } from '@/components/PhotoImage';
+import { DamageRecordList } from '@/components/DamageRecordList';
+import { claimDetailLines, claimFeeLabel, formatClaimAmount } from '@/lib/damageClaim';
+import {
+  CLAIM_VERDICT_COLORS,
+  CLAIM_VERDICT_LABELS,
+  ClaimRebuttal,
+  formatCitation,
+  rebuttalSummary,
+} from '@/lib/claimRebuttal';
+
+interface ClaimReviewProps {
+  rebuttal: ClaimRebuttal;
+  pickupDateText: string;
+  returnDateText?: string;
+}
+
+/**
+ * The rental company's claim (lib/damageClaim.ts), each claimed item with its
+ * verdict (lib/claimRebuttal.ts) next to the pickup and return photos of the
+ * section it is on
+ */
+export function ClaimReview({ rebuttal, pickupDateText, returnDateText }: ClaimReviewProps) {
+  const { claim } = rebuttal;
+  return (
+    <View>
+      <View style={styles.card}>
+        {claimDetailLines(claim).map(line => (
+          <Text key={line} style={styles.detailLine}>{line}</Text>
+        ))}
+        {rebuttal.items.length > 0 && <Text style={styles.summaryText}>{rebuttalSummary(rebuttal)}</Text>}
+      </View>
+
+      {rebuttal.items.length === 0 && (
+        <Text style={styles.emptyText}>No damage items were found on the claim.</Text>
+      )}
+
+      {rebuttal.items.map(({ item, pickupSection, pickupDamages, returnSection, returnComparison, verdict, reason, citations }, index) => (
+        <View key={item.id} style={styles.card}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle}>{index + 1}. {item.description}</Text>
+            <Text style={styles.itemAmount}>{formatClaimAmount(item.amount, claim)}</Text>
+          </View>
+          {item.location && <Text style={styles.itemLocation}>{item.location}</Text>}
+
+          <View style={[styles.verdictBadge, { borderColor: CLAIM_VERDICT_COLORS[verdict] }]}>
+            <Text style={[styles.verdictText, { color: CLAIM_VERDICT_COLORS[verdict] }]}>
+              {CLAIM_VERDICT_LABELS[verdict]}
+            </Text>
+          </View>
+          <Text style={styles.reasonText}>{reason}</Text>
+          {citations.map((cited, citationIndex) => (
+            <Text key={citationIndex} style={styles.citationText}>{formatCitation(cited)}</Text>
+          ))}
+
+          {pickupSection ? (
+            <>
+              <View style={styles.photoRow}>
+                <View style={styles.photoColumn}>
+                  <PhotoImage uri={pickupSection.photoUri} style={styles.photo} />
+                  <Text style={styles.photoLabel}>Pickup · {pickupSection.section}</Text>
+                  <Text style={styles.photoDate}>{pickupDateText}</Text>
+                </View>
+                {returnSection && (
+                  <View style={styles.photoColumn}>
+                    <PhotoImage uri={returnSection.photoUri} style={styles.photo} />
+                    <Text style={styles.photoLabel}>Return · {returnSection.section}</Text>
+                    {returnDateText && <Text style={styles.photoDate}>{returnDateText}</Text>}
+                  </View>
+                )}
+              </View>
+
+              {pickupDamages.length > 0 ? (
+                <>
+                  <Text style={styles.evidenceTitle}>Already recorded at pickup</Text>
+                  <DamageRecordList records={pickupDamages} />
+                </>
+              ) : (
+                <Text style={styles.evidenceText}>No damage recorded on this section at pickup.</Text>
+              )}
+
+              {returnComparison && !returnComparison.error && (
+                <Text style={styles.evidenceText}>
+                  {returnComparison.newDamage.length > 0
+                    ? `New at return: ${returnComparison.newDamage.join('; ')}`
+                    : 'No new damage found on this section at return.'}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.noMatchText}>No photographed section matches this item.</Text>
+          )}
+        </View>
+      ))}
+
+      {claim.fees.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.evidenceTitle}>Fees</Text>
+          {claim.fees.map((fee, index) => (
+            <View key={index} style={styles.feeRow}>
+              <Text style={styles.feeLabel}>{claimFeeLabel(fee)}</Text>
+              <Text style={styles.feeAmount}>{formatClaimAmount(fee.amount, claim)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  detailLine: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  summaryText: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 8,
+  },
+  verdictBadge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 2,
+    paddingHorizontal: 10,
+    marginTop: 8,
+  },
+  verdictText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  reasonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginTop: 6,
+  },
+  citationText: {
+    color: '#7AB8CC',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  itemTitle: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  itemAmount: {
+    color: '#FFD700',
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  itemLocation: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  photoColumn: {
+    flex: 1,
+  },
+  photo: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 8,
+  },
+  photoLabel: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600' as const,
+    marginTop: 4,
+  },
+  photoDate: {
+    color: '#7AB8CC',
+    fontSize: 12,
+  },
+  evidenceTitle: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  evidenceText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  noMatchText: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  feeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  feeLabel: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  feeAmount: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+});
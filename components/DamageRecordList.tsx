@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Plus, X } from 'lucide-react-native';
+import {
+  DAMAGE_SEVERITIES,
+  DAMAGE_SEVERITY_COLORS,
+  DAMAGE_SEVERITY_LABELS,
+  DAMAGE_TYPES,
+  DAMAGE_TYPE_LABELS,
+  DamageRecord,
+  DamageSeverity,
+  DamageType,
+  createDamageId,
+  formatDamageRecord,
+} from '@/lib/damage';
+
+interface DamageRecordListProps {
+  records: DamageRecord[];
+  editable?: boolean;
+  onChange?: (records: DamageRecord[]) => void;
+}
+
+/**
+ * Structured damage entries for one section, with an inline form to add
+ * entries by hand when editable
+ */
+export function DamageRecordList({ records, editable = false, onChange }: DamageRecordListProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<DamageType>('scratch');
+  const [severity, setSeverity] = useState<DamageSeverity>('minor');
+  const [location, setLocation] = useState('');
+  const [sizeText, setSizeText] = useState('');
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setType('scratch');
+    setSeverity('minor');
+    setLocation('');
+    setSizeText('');
+  };
+
+  const handleAdd = () => {
+    const size = parseFloat(sizeText.replace(',', '.'));
+    onChange?.([
+      ...records,
+      {
+        id: createDamageId(),
+        type,
+        severity,
+        location: location.trim(),
+        estimatedSizeCm: size > 0 ? size : undefined,
+        source: 'user',
+      },
+    ]);
+    resetForm();
+  };
+
+  const handleRemove = (id: string) => {
+    onChange?.(records.filter(record => record.id !== id));
+  };
+
+  return (
+    <View>
+      {records.length === 0 && !isAdding && (
+        <Text style={styles.emptyText}>No damage recorded</Text>
+      )}
+
+      {records.map((record, index) => (
+        <View key={record.id} style={styles.recordRow}>
+          <View style={[styles.severityDot, { backgroundColor: DAMAGE_SEVERITY_COLORS[record.severity] }]} />
+          <Text style={styles.recordText}>{index + 1}. {formatDamageRecord(record)}</Text>
+          {editable && (
+            <TouchableOpacity onPress={() => handleRemove(record.id)} style={styles.removeButton}>
+              <X size={16} color="#FF6B6B" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {editable && isAdding && (
+        <View style={styles.form}>
+          <View style={styles.optionRow}>
+            {DAMAGE_TYPES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.optionChip, type === option && styles.optionChipSelected]}
+                onPress={() => setType(option)}
+              >
+                <Text style={[styles.optionText, type === option && styles.optionTextSelected]}>
+                  {DAMAGE_TYPE_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.optionRow}>
+            {DAMAGE_SEVERITIES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.optionChip, severity === option && styles.optionChipSelected]}
+                onPress={() => setSeverity(option)}
+              >
+                <Text style={[styles.optionText, severity === option && styles.optionTextSelected]}>
+                  {DAMAGE_SEVERITY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={location}
+            onChangeText={setLocation}
+            placeholder="Location (e.g. lower left of bumper)"
+            placeholderTextColor="#7AB8CC"
+          />
+          <TextInput
+            style={styles.input}
+            value={sizeText}
+            onChangeText={setSizeText}
+            placeholder="Estimated size in cm (optional)"
+            placeholderTextColor="#7AB8CC"
+            keyboardType="decimal-pad"
+          />
+          <View style={styles.formButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {editable && !isAdding && (
+        <TouchableOpacity style={styles.addDamageButton} onPress={() => setIsAdding(true)}>
+          <Plus size={16} color="#4A90A4" />
+          <Text style={styles.addDamageText}>Add damage</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  severityDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  recordText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  form: {
+    marginTop: 8,
+    gap: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  optionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#4A90A4',
+  },
+  optionChipSelected: {
+    backgroundColor: '#4A90A4',
+  },
+  optionText: {
+    color: '#7AB8CC',
+    fontSize: 13,
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600' as const,
+  },
+  input: {
+    backgroundColor: '#1a4a5c',
+    borderRadius: 8,
+    padding: 10,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  cancelButtonText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  addButton: {
+    backgroundColor: '#4A90A4',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  addDamageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  addDamageText: {
+    color: '#4A90A4',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+});
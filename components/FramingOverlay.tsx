@@ -0,0 +1,147 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Rect } from 'react-native-svg';
+import { FramingArea, sectionFraming } from '@/lib/framing';
+
+interface FramingOverlayProps {
+  section: string;
+}
+
+const HIGHLIGHT = '#FFD700';
+const OUTLINE = 'rgba(255, 255, 255, 0.8)';
+
+// Parts of the top-down silhouette (viewBox 0 0 100 180, front at the top, driver on the left)
+const AREA_SHAPES: Record<Exclude<FramingArea, 'detail'>, { x: number; y: number; width: number; height: number }[]> = {
+  front: [{ x: 22, y: 8, width: 56, height: 30 }],
+  back: [{ x: 22, y: 144, width: 56, height: 28 }],
+  driverSide: [{ x: 16, y: 20, width: 12, height: 140 }],
+  passengerSide: [{ x: 72, y: 20, width: 12, height: 140 }],
+  wheels: [
+    { x: 10, y: 34, width: 10, height: 24 },
+    { x: 80, y: 34, width: 10, height: 24 },
+    { x: 10, y: 120, width: 10, height: 24 },
+    { x: 80, y: 120, width: 10, height: 24 },
+  ],
+  roof: [{ x: 28, y: 44, width: 44, height: 76 }],
+  interior: [{ x: 30, y: 56, width: 40, height: 60 }],
+  cargo: [{ x: 28, y: 128, width: 44, height: 30 }],
+  chargePort: [],
+};
+
+// Frame guides: how much of the view the part should fill
+const GUIDE_STYLES: Partial<Record<FramingArea, { width: `${number}%`; height?: `${number}%`; aspectRatio?: number }>> = {
+  front: { width: '90%', height: '50%' },
+  back: { width: '90%', height: '50%' },
+  driverSide: { width: '94%', height: '45%' },
+  passengerSide: { width: '94%', height: '45%' },
+  wheels: { width: '65%', aspectRatio: 1 },
+  roof: { width: '90%', height: '45%' },
+};
+
+/**
+ * Camera overlay for a walk-around section: a frame guide the car should
+ * fill and a car silhouette with the section's part highlighted.
+ */
+export function FramingOverlay({ section }: FramingOverlayProps) {
+  const framing = sectionFraming(section);
+  const guide = GUIDE_STYLES[framing.area];
+  const shapes = framing.area === 'detail' ? [] : AREA_SHAPES[framing.area];
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {guide && (
+        <View style={[styles.guide, guide]}>
+          <View style={[styles.corner, styles.cornerTopLeft]} />
+          <View style={[styles.corner, styles.cornerTopRight]} />
+          <View style={[styles.corner, styles.cornerBottomLeft]} />
+          <View style={[styles.corner, styles.cornerBottomRight]} />
+        </View>
+      )}
+
+      {framing.area !== 'detail' && (
+        <View style={styles.silhouetteCard}>
+          <Svg width={50} height={90} viewBox="0 0 100 180">
+            <Rect x={20} y={6} width={60} height={168} rx={22} fill="none" stroke={OUTLINE} strokeWidth={4} />
+            <Rect x={28} y={44} width={44} height={76} rx={8} fill="none" stroke={OUTLINE} strokeWidth={3} />
+            {shapes.map((shape, index) => (
+              <Rect key={index} {...shape} rx={4} fill={HIGHLIGHT} fillOpacity={0.75} />
+            ))}
+            {framing.area === 'chargePort' && <Circle cx={22} cy={132} r={9} fill={HIGHLIGHT} />}
+          </Svg>
+        </View>
+      )}
+
+      <View style={styles.hintContainer}>
+        <Text style={styles.hintText}>{framing.hint}</Text>
+      </View>
+    </View>
+  );
+}
+
+const CORNER_SIZE = 28;
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  guide: {
+    position: 'absolute',
+  },
+  corner: {
+    position: 'absolute',
+    width: CORNER_SIZE,
+    height: CORNER_SIZE,
+    borderColor: HIGHLIGHT,
+  },
+  cornerTopLeft: {
+    top: 0,
+    left: 0,
+    borderTopWidth: 4,
+    borderLeftWidth: 4,
+  },
+  cornerTopRight: {
+    top: 0,
+    right: 0,
+    borderTopWidth: 4,
+    borderRightWidth: 4,
+  },
+  cornerBottomLeft: {
+    bottom: 0,
+    left: 0,
+    borderBottomWidth: 4,
+    borderLeftWidth: 4,
+  },
+  cornerBottomRight: {
+    bottom: 0,
+    right: 0,
+    borderBottomWidth: 4,
+    borderRightWidth: 4,
+  },
+  silhouetteCard: {
+    position: 'absolute',
+    top: 150,
+    right: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    padding: 8,
+  },
+  hintContainer: {
+    position: 'absolute',
+    bottom: 170,
+    left: 20,
+    right: 20,
+    alignItems: 'center',
+  },
+  hintText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    textAlign: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { Image, ImageProps } from 'react-native';
+import { isPhotoBlobRef } from '@/lib/photoRefs';
+import { resolvePhotoUri } from '@/services/photoBlobs';
+
+/**
+ * Displayable URI for a stored photo. `photo-blob:` references (web) resolve
+ * asynchronously and are empty until loaded; other URIs pass through.
+ */
+export function usePhotoUri(uri: string | undefined): string {
+  const needsResolve = isPhotoBlobRef(uri);
+  const [resolved, setResolved] = useState('');
+
+  useEffect(() => {
+    if (!uri || !needsResolve) return;
+    let cancelled = false;
+    setResolved('');
+    resolvePhotoUri(uri)
+      .then(url => {
+        if (!cancelled) setResolved(url);
+      })
+      .catch(error => console.warn('Failed to load stored photo:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, needsResolve]);
+
+  return needsResolve ? resolved : uri || '';
+}
+
+interface PhotoImageProps extends Omit<ImageProps, 'source'> {
+  uri: string | undefined;
+}
+
+/**
+ * <Image> for photos saved on a HistoryItem (file:, data:, remote or photo-blob: URIs)
+ */
+export function PhotoImage({ uri, ...props }: PhotoImageProps) {
+  const displayUri = usePhotoUri(uri);
+  return <Image {...props} source={displayUri ? { uri: displayUri } : undefined} />;
+}
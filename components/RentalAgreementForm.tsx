@@ -0,0 +1,156 @@
+import React from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Camera, FileText } from 'lucide-react-native';
+import { useMutation } from '@tanstack/react-query';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { RENTAL_AGREEMENT_FIELDS, RentalAgreement, mergeRentalAgreement } from '@/lib/rentalAgreement';
+import { AgreementFile, readRentalAgreement } from '@/services/rentalAgreement';
+
+interface RentalAgreementFormProps {
+  value: RentalAgreement;
+  onChange: (agreement: RentalAgreement) => void;
+}
+
+/**
+ * Rental agreement fields, filled in by hand or read from a photo / PDF of
+ * the agreement. Values read from the agreement never replace typed ones.
+ */
+export function RentalAgreementForm({ value, onChange }: RentalAgreementFormProps) {
+  const scanMutation = useMutation({
+    mutationFn: (files: AgreementFile[]) => readRentalAgreement(files),
+    onSuccess: (extracted) => {
+      if (!extracted) {
+        Alert.alert('Not Recognized', 'No rental agreement details could be read. Please fill them in by hand.');
+        return;
+      }
+      onChange(mergeRentalAgreement(value, extracted));
+    },
+    onError: (error: Error) => {
+      console.error('Error reading rental agreement:', error);
+      Alert.alert('Reading Failed', error.message || 'Could not read the rental agreement. Please fill in the details by hand.');
+    },
+  });
+
+  const handlePhotograph = async () => {
+    try {
+      const permission = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Camera Access Required', 'Allow camera access to photograph the rental agreement.');
+        return;
+      }
+      const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.8 });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      scanMutation.mutate([{ uri: asset.uri, name: asset.fileName || 'rental-agreement.jpg', mimeType: asset.mimeType }]);
+    } catch (error) {
+      console.error('Error photographing agreement:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      scanMutation.mutate(result.assets.map(asset => ({
+        uri: asset.uri,
+        name: asset.name || 'rental-agreement',
+        mimeType: asset.mimeType,
+      })));
+    } catch (error) {
+      console.error('Error picking agreement:', error);
+      Alert.alert('Error', 'Failed to select file');
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.scanRow}>
+        <TouchableOpacity style={styles.scanButton} onPress={handlePhotograph} disabled={scanMutation.isPending}>
+          <Camera size={18} color="#FFFFFF" />
+          <Text style={styles.scanButtonText}>Photograph</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.scanButton} onPress={handleChooseFile} disabled={scanMutation.isPending}>
+          <FileText size={18} color="#FFFFFF" />
+          <Text style={styles.scanButtonText}>Choose File</Text>
+        </TouchableOpacity>
+      </View>
+
+      {scanMutation.isPending && (
+        <View style={styles.scanStatus}>
+          <ActivityIndicator size="small" color="#7AB8CC" />
+          <Text style={styles.scanStatusText}>Reading rental agreement...</Text>
+        </View>
+      )}
+
+      {RENTAL_AGREEMENT_FIELDS.map(({ field, label, placeholder }) => (
+        <View key={field} style={styles.field}>
+          <Text style={styles.fieldLabel}>{label}</Text>
+          <TextInput
+            style={styles.input}
+            value={value[field] || ''}
+            onChangeText={text => onChange({ ...value, [field]: text })}
+            placeholder={placeholder}
+            placeholderTextColor="#7AB8CC"
+            autoCorrect={false}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scanRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  scanButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4A90A4',
+    paddingVertical: 10,
+    borderRadius: 20,
+    gap: 6,
+  },
+  scanButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  scanStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  scanStatusText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  field: {
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 8,
+    padding: 10,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+});
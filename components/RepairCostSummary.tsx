@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Settings } from 'lucide-react-native';
+import { formatDamageRecord } from '@/lib/damage';
+import { REPAIR_PANEL_LABELS, REPAIR_REGION_LABELS, RepairCostEstimate, formatCostRange } from '@/lib/repairCost';
+import { vehicleTypeLabel } from '@/lib/walkAround';
+
+interface RepairCostSummaryProps {
+  estimate: RepairCostEstimate;
+  onEditPrices?: () => void;
+}
+
+/**
+ * Repair cost range per damage item and in total (see lib/repairCost.ts)
+ */
+export function RepairCostSummary({ estimate, onEditPrices }: RepairCostSummaryProps) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.totalLabel}>Estimated total</Text>
+      <Text style={styles.total}>{formatCostRange(estimate.total, estimate.currency)}</Text>
+      <Text style={styles.basis}>
+        {vehicleTypeLabel(estimate.vehicleType)} · {REPAIR_REGION_LABELS[estimate.region]}
+      </Text>
+
+      {estimate.items.map(item => (
+        <View key={item.record.id} style={styles.item}>
+          <View style={styles.itemText}>
+            <Text style={styles.itemTitle}>{item.section} · {REPAIR_PANEL_LABELS[item.panel]}</Text>
+            <Text style={styles.itemDetail}>{formatDamageRecord(item.record)}</Text>
+          </View>
+          <Text style={styles.itemCost}>{formatCostRange(item.cost, estimate.currency)}</Text>
+        </View>
+      ))}
+
+      {onEditPrices && (
+        <TouchableOpacity style={styles.editButton} onPress={onEditPrices}>
+          <Settings size={16} color="#7AB8CC" />
+          <Text style={styles.editButtonText}>Edit Price Table</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#2a5a6c',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  totalLabel: {
+    color: '#7AB8CC',
+    fontSize: 14,
+  },
+  total: {
+    color: '#FFFFFF',
+    fontSize: 24,
+    fontWeight: '700' as const,
+    marginTop: 4,
+  },
+  basis: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#1a4a5c',
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  itemDetail: {
+    color: '#7AB8CC',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  itemCost: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  editButtonText: {
+    color: '#7AB8CC',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+});
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { ImageProps } from 'react-native';
+import { PhotoImage } from '@/components/PhotoImage';
+import { StampablePhoto, findStampedPhoto, subscribeToStampedPhotos } from '@/services/watermark';
+
+interface StampedPhotoImageProps extends Omit<ImageProps, 'source'> {
+  photo: StampablePhoto;
+  showOriginal?: boolean;
+}
+
+/**
+ * Photo with its burnt-in timestamp / location watermark. Shows the original
+ * until the stamped copy exists, or when `showOriginal` is set.
+ */
+export function StampedPhotoImage({ photo, showOriginal, ...props }: StampedPhotoImageProps) {
+  const [stampedUri, setStampedUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const lookup = () => {
+      findStampedPhoto(photo)
+        .then(uri => {
+          if (!cancelled) setStampedUri(uri);
+        })
+        .catch(error => console.warn('Failed to load stamped photo:', error));
+    };
+
+    lookup();
+    // Stamped copies are created by the sync, possibly while this is shown
+    const unsubscribe = subscribeToStampedPhotos(lookup);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [photo]);
+
+  return <PhotoImage {...props} uri={showOriginal ? photo.photoUri : stampedUri ?? photo.photoUri} />;
+}
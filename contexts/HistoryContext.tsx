@@ -1,168 +1,327 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
 import { syncHistoryWithSupabase } from '@/services/supabase';
+import { deleteInspections, loadInspections, putInspections } from '@/services/historyDatabase';
+import { collectPhotoBlobGarbage, deleteInspectionPhotoBlobs, storeHistoryPhotos } from '@/services/photoBlobs';
+import { clearCaptureEvidence, countersignPendingEvidence, sealPickupEvidence } from '@/services/evidence';
+import { drainAnalysisQueue, removeAnalysisJobs, subscribeToReconnect } from '@/services/analysisQueue';
+import { collectStampedPhotoGarbage, deleteStampedPhotos, stampPendingPhotos } from '@/services/watermark';
+import { buildDamageSummary, extractAdditionalNotes } from '@/lib/damage';
+import type { DamageRecord } from '@/lib/damage';
+import type { EvidenceManifest, PhotoEvidence } from '@/lib/evidence';
+import type { IdentityPhotoKind, VehicleIdentity, VehicleReadings } from '@/lib/vehicleIdentity';
+import type { RentalAgreement } from '@/lib/rentalAgreement';
+import type { WalkAroundPlan } from '@/lib/walkAround';
+import type { WalkAroundVideo } from '@/lib/videoWalkAround';
+import type { DisputeCase } from '@/lib/dispute';
+import { SyncedField, applyLocalUpdate, reconcileSyncResult } from '@/lib/historySync';
 
 export interface VehicleSectionPhoto {
   section: string;
   photoUri: string;
-  damageNotes: string;
+  damageNotes: string; // AI narrative / summary text
+  damages?: DamageRecord[]; // Structured damage (absent on older inspections)
   isUsable: boolean;
   needsRetake?: boolean;
+  analysisJobId?: string; // Set while the analysis waits in the offline queue
+  evidence?: PhotoEvidence; // Hash, capture time, device and location (see lib/evidence.ts)
+  identity?: IdentityPhotoKind; // Plate / VIN / dashboard photo, not a damage section (see lib/vehicleIdentity.ts)
 }
 
 export interface AfterSectionPhoto {
   section: string;
   photoUri: string;
-  // No damage notes for after photos
+  evidence?: PhotoEvidence;
+  identity?: IdentityPhotoKind;
+  // No damage notes for after photos (see SectionComparison)
+}
+
+// AI before/after comparison of one section at return
+export interface SectionComparison {
+  section: string;
+  newDamage: string[]; // Damage visible at return but not at pickup
+  unchangedDamage: string[]; // Damage already documented at pickup
+  confidence: number; // 0-1, how confident the model is in the comparison
+  summary: string;
+  comparedAt: number;
+  error?: string; // Set when the section could not be compared (missing photo, AI failure)
 }
 
 export interface HistoryItem {
   id: string;
   mainPhoto: string; // Initial whole vehicle photo (before)
+  mainPhotoEvidence?: PhotoEvidence;
   sectionPhotos: VehicleSectionPhoto[]; // All section photos with damage notes (before)
   allDamageNotes: string; // Combined damage notes text (before only)
   createdAt: number;
   dateText: string; // Formatted date/time/day
   expectedReturnDate?: number; // Optional expected return date timestamp
   expectedReturnDateText?: string; // Formatted expected return date
+  vehicleIdentity?: VehicleIdentity; // Plate, VIN, make / model read at pickup
+  pickupReadings?: VehicleReadings; // Odometer and fuel at pickup
+  rentalAgreement?: RentalAgreement; // Rental company, agreement number, locations, renter
+  walkAroundPlan?: WalkAroundPlan; // Vehicle type and planned sections, repeated at return
+  walkAroundVideo?: WalkAroundVideo; // Pickup video the section photos were taken from (file stays on the device)
+  dispute?: DisputeCase; // Dispute with the rental company over a damage claim (see lib/dispute.ts)
   // After photos (return inspection)
   afterMainPhoto?: string; // Return vehicle photo
+  afterMainPhotoEvidence?: PhotoEvidence;
   afterSectionPhotos?: AfterSectionPhoto[]; // Return section photos (no damage notes)
+  afterWalkAroundVideo?: WalkAroundVideo; // Return video the return photos were taken from
   afterCreatedAt?: number; // When return photos were taken
   afterDateText?: string; // Formatted return date
   isReturned?: boolean; // Flag to indicate if return photos have been taken
+  returnComparison?: SectionComparison[]; // Before/after damage comparison per section
+  returnIdentity?: VehicleIdentity; // Plate / VIN read at return, compared with vehicleIdentity
+  returnReadings?: VehicleReadings; // Odometer and fuel at return
+  // Signed evidence chains of the pickup and return photos
+  evidenceManifest?: EvidenceManifest;
+  afterEvidenceManifest?: EvidenceManifest;
+  // Sync metadata (see lib/historySync.ts)
+  serverId?: string; // Supabase inspection ID once uploaded
+  version?: number; // Server version this copy is based on (0 / absent = never uploaded)
+  updatedAt?: number; // Last change, local or remote
+  syncedAt?: number; // updatedAt of the copy the server last confirmed
+  fieldUpdatedAt?: Partial<Record<SyncedField, number>>; // Last change per synced field
 }
 
-const HISTORY_STORAGE_KEY = 'rental_car_checker_history';
+// History saved by older versions, migrated into the local database on load
+const LEGACY_HISTORY_STORAGE_KEY = 'rental_car_checker_history';
+// Server IDs of uploaded inspections deleted on this device, not pulled again
+const DELETED_SERVER_IDS_STORAGE_KEY = 'rental_car_checker_deleted_server_ids';
+
+const SYNC_INTERVAL_MS = 30000;
+// Delay before uploading a local change, so quick successive edits go up together
+const SYNC_AFTER_CHANGE_MS = 2000;
+
+// Retry interval for queued analyses while the app stays online
+const ANALYSIS_QUEUE_INTERVAL_MS = 60000;
 
 export const [HistoryProvider, useHistory] = createContextHook(() => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   useEffect(() => {
     loadHistory();
   }, []);
 
-  // Sync with Supabase on mount and periodically
+  // Latest state for the sync loop, which runs outside React's render cycle
+  const historyRef = useRef<HistoryItem[]>([]);
+  historyRef.current = history;
+  const deletedServerIdsRef = useRef<string[]>([]);
+  const isSyncingRef = useRef(false);
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Items as last written to the local database, to save only what changed
+  const savedItemsRef = useRef<Map<string, HistoryItem>>(new Map());
+
+  const saveDeletedServerIds = useCallback((serverIds: string[]) => {
+    deletedServerIdsRef.current = serverIds;
+    AsyncStorage.setItem(DELETED_SERVER_IDS_STORAGE_KEY, JSON.stringify(serverIds))
+      .catch(error => console.error('Failed to save deleted history items:', error));
+  }, []);
+
+  /**
+   * Sync with Supabase. Local changes made while the sync runs are kept
+   * (see reconcileSyncResult); new inspections go up on the next run.
+   */
+  const runSync = useCallback(async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    try {
+      // Manifests sealed offline get their server countersignature (uploaded on the next run)
+      for (const item of historyRef.current) {
+        const updates = await countersignPendingEvidence(item);
+        if (updates) {
+          setHistory(prev => {
+            const updated = prev.map(current => (current.id === item.id ? applyLocalUpdate(current, updates) : current));
+            saveHistory(updated);
+            return updated;
+          });
+        }
+      }
+
+      const sent = historyRef.current;
+      const synced = await syncHistoryWithSupabase(sent, deletedServerIdsRef.current);
+
+      setHistory(prev => {
+        const reconciled = reconcileSyncResult(prev, sent, synced);
+        if (reconciled === prev) return prev;
+        saveHistory(reconciled);
+        return reconciled;
+      });
+
+      // Watermarked copies of new photos (kept on this device only)
+      await stampPendingPhotos(historyRef.current);
+    } catch (error) {
+      console.error('Error syncing history with Supabase:', error);
+      // Don't update history on sync error - keep local version
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, []);
+
+  // Upload local changes shortly after they happen
+  const requestSync = useCallback(() => {
+    if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+    syncTimeoutRef.current = setTimeout(() => {
+      syncTimeoutRef.current = null;
+      runSync();
+    }, SYNC_AFTER_CHANGE_MS);
+  }, [runSync]);
+
+  // Sync on load, periodically, and when connectivity returns
   useEffect(() => {
     if (isLoading) return; // Wait for initial load
 
-    const syncHistory = async () => {
+    runSync();
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+    const unsubscribe = subscribeToReconnect(runSync);
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+      if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+    };
+  }, [isLoading, runSync]);
+
+  // Run queued (offline) analyses when connectivity returns and apply the results
+  useEffect(() => {
+    if (isLoading) return;
+
+    const processAnalysisQueue = async () => {
       try {
-        const synced = await syncHistoryWithSupabase(history);
-        // Only update if there are actual differences
-        const currentIds = new Set(history.map(h => h.id));
-        const syncedIds = new Set(synced.map(h => h.id));
-        const hasChanges = 
-          synced.length !== history.length ||
-          [...syncedIds].some(id => !currentIds.has(id)) ||
-          [...currentIds].some(id => !syncedIds.has(id));
-        
-        if (hasChanges) {
-          setHistory(synced);
-          // Save synced history
-          try {
-            const itemsToStore = synced.map(item => ({
-              ...item,
-              mainPhoto: Platform.OS === 'web' && item.mainPhoto?.startsWith('data:')
-                ? 'data:image/jpeg;base64,[STORED]'
-                : item.mainPhoto,
-              sectionPhotos: item.sectionPhotos.map(sp => ({
-                ...sp,
-                photoUri: Platform.OS === 'web' && sp.photoUri?.startsWith('data:')
-                  ? 'data:image/jpeg;base64,[STORED]'
-                  : sp.photoUri,
-              })),
-            }));
-            await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(itemsToStore));
-          } catch (saveError) {
-            console.error('Error saving synced history:', saveError);
+        const completed = await drainAnalysisQueue();
+        const results = new Map(completed.map(job => [job.id, job.result!]));
+
+        const applied: string[] = [];
+        const updated = historyRef.current.map(item => {
+          if (!item.sectionPhotos.some(sp => sp.analysisJobId && results.has(sp.analysisJobId))) {
+            return item;
           }
-        }
+          const sectionPhotos = item.sectionPhotos.map(sp => {
+            const result = sp.analysisJobId ? results.get(sp.analysisJobId) : undefined;
+            if (!result) return sp;
+            applied.push(sp.analysisJobId!);
+            return {
+              ...sp,
+              damageNotes: result.damageNotes,
+              // Keep anything the user recorded by hand while the analysis was pending
+              damages: [...result.damages, ...(sp.damages || []).filter(damage => damage.source === 'user')],
+              isUsable: result.isUsable,
+              needsRetake: !result.isUsable || !result.isCorrectSection,
+              analysisJobId: undefined,
+            };
+          });
+          return applyLocalUpdate(item, {
+            sectionPhotos,
+            allDamageNotes: buildDamageSummary(sectionPhotos, extractAdditionalNotes(item.allDamageNotes)),
+          });
+        });
+
+        // Jobs still referenced after applying wait for their analysis; the rest may be pruned
+        const referencedIds = new Set(updated.flatMap(item =>
+          item.sectionPhotos.flatMap(sp => (sp.analysisJobId ? [sp.analysisJobId] : []))
+        ));
+        removeAnalysisJobs(applied, referencedIds).catch(error => console.error('Failed to clean analysis queue:', error));
+        if (applied.length === 0) return;
+        console.log(`✅ Applied ${applied.length} queued analyses`);
+        historyRef.current = updated;
+        setHistory(updated);
+        saveHistory(updated);
+        requestSync();
       } catch (error) {
-        console.error('Error syncing history with Supabase:', error);
-        // Don't update history on sync error - keep local version
+        console.error('Error processing analysis queue:', error);
       }
     };
 
-    // Initial sync after a short delay
-    const timeout = setTimeout(syncHistory, 2000);
-    
-    // Periodic sync every 30 seconds
-    const interval = setInterval(syncHistory, 30000);
+    processAnalysisQueue();
+    const unsubscribe = subscribeToReconnect(processAnalysisQueue);
+    const interval = setInterval(processAnalysisQueue, ANALYSIS_QUEUE_INTERVAL_MS);
 
     return () => {
-      clearTimeout(timeout);
+      unsubscribe();
       clearInterval(interval);
     };
-  }, [history, isLoading]);
+  }, [isLoading, requestSync]);
 
   const loadHistory = async () => {
     try {
-      const stored = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
-      let loadedHistory: HistoryItem[] = [];
-      
-      if (stored) {
-        loadedHistory = JSON.parse(stored);
-      }
-      
-      // Sync with Supabase after loading local history
-      try {
-        const synced = await syncHistoryWithSupabase(loadedHistory);
-        setHistory(synced);
-        // Save synced version
-        if (synced.length !== loadedHistory.length) {
-          saveHistory(synced);
-        }
-      } catch (syncError) {
-        // If sync fails, use local history
-        console.error('Sync failed on load, using local history:', syncError);
-        setHistory(loadedHistory);
-      }
+      await migrateLegacyHistory();
+      const loadedHistory = await loadInspections();
+      savedItemsRef.current = new Map(loadedHistory.map(item => [item.id, item]));
+      // Runs before loading completes, so no new inspection can be mid-save:
+      // every blob without an inspection is an orphan
+      await collectPhotoBlobGarbage(loadedHistory.map(item => item.id))
+        .then(removed => removed > 0 && console.log(`🧹 Removed ${removed} orphaned photos`))
+        .catch(error => console.error('Failed to clean up stored photos:', error));
+      await collectStampedPhotoGarbage(loadedHistory.map(item => item.id))
+        .then(removed => removed > 0 && console.log(`🧹 Removed stamped photos of ${removed} deleted inspections`))
+        .catch(error => console.error('Failed to clean up stamped photos:', error));
+
+      const storedDeletedServerIds = await AsyncStorage.getItem(DELETED_SERVER_IDS_STORAGE_KEY);
+      deletedServerIdsRef.current = storedDeletedServerIds ? JSON.parse(storedDeletedServerIds) : [];
+
+      // Show local history right away; the sync effect runs once loading is done
+      setHistory(loadedHistory);
     } catch (error) {
-      console.log('Failed to load history:', error);
+      console.error('Failed to load history:', error);
+      setStorageError('Saved inspections could not be loaded.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Move history saved by older versions (one JSON blob in AsyncStorage) into
+   * the local database. The blob is only removed once every item was written.
+   */
+  const migrateLegacyHistory = async () => {
+    const stored = await AsyncStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+    if (!stored) return;
+
+    const legacyHistory: HistoryItem[] = await Promise.all(
+      (JSON.parse(stored) as HistoryItem[]).map(item => storeHistoryPhotos(item.id, item))
+    );
+    await putInspections(legacyHistory);
+    await AsyncStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+    console.log(`📦 Moved ${legacyHistory.length} inspections to the local database`);
+  };
+
+  /**
+   * Persist the history. Only items that changed since the last save (new
+   * object references) are written; items no longer in the list are deleted.
+   * A failed write is reported and retried on the next save - nothing is dropped.
+   */
   const saveHistory = async (items: HistoryItem[]) => {
+    const previous = savedItemsRef.current;
+    const ids = new Set(items.map(item => item.id));
+    const changed = items.filter(item => previous.get(item.id) !== item);
+    const removedIds = [...previous.keys()].filter(id => !ids.has(id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    savedItemsRef.current = new Map(items.map(item => [item.id, item]));
     try {
-      // On web, AsyncStorage uses localStorage which has ~5-10MB quota
-      // Store only metadata (no large base64 images) to prevent quota issues
-      const itemsToStore = items.map(item => ({
-        ...item,
-        // On web, don't store full data URIs in AsyncStorage (they're too large)
-        // Store placeholders instead
-        mainPhoto: Platform.OS === 'web' && item.mainPhoto?.startsWith('data:')
-          ? 'data:image/jpeg;base64,[STORED]'
-          : item.mainPhoto,
-        sectionPhotos: item.sectionPhotos.map(sp => ({
-          ...sp,
-          photoUri: Platform.OS === 'web' && sp.photoUri?.startsWith('data:')
-            ? 'data:image/jpeg;base64,[STORED]'
-            : sp.photoUri,
-        })),
-      }));
-      
-      await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(itemsToStore));
-    } catch (error: any) {
-      if (error?.name === 'QuotaExceededError' || error?.message?.includes('quota')) {
-        console.warn('Storage quota exceeded, clearing old history...');
-        // Clear history and try again with just the latest item
-        try {
-          const latestItem = items[0];
-          await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify([latestItem]));
-          setHistory([latestItem]);
-        } catch (retryError) {
-          console.error('Failed to save even after clearing:', retryError);
-        }
-      } else {
-        console.log('Failed to save history:', error);
-      }
+      await putInspections(changed);
+      await deleteInspections(removedIds);
+      setStorageError(null);
+      deleteInspectionPhotoBlobs(removedIds)
+        .catch(error => console.error('Failed to delete photos of removed inspections:', error));
+      deleteStampedPhotos(removedIds)
+        .catch(error => console.error('Failed to delete stamped photos of removed inspections:', error));
+    } catch (error) {
+      console.error('Failed to save history:', error);
+      setStorageError('Some changes could not be saved on this device. They will be saved again on the next change.');
+      // Forget what was written so the next save retries these items
+      const saved = savedItemsRef.current;
+      changed.forEach(item => saved.delete(item.id));
+      removedIds.forEach(id => {
+        const item = previous.get(id);
+        if (item && !saved.has(id)) saved.set(id, item);
+      });
     }
   };
 
@@ -177,6 +336,12 @@ export const [HistoryProvider, useHistory] = createContextHook(() => {
       hour: '2-digit',
       minute: '2-digit',
     });
+
+    // Hash chain of the photos as captured - before they are written anywhere
+    const id = now.toString();
+    const evidence = await sealPickupEvidence(id, item);
+    clearCaptureEvidence();
+    item = { ...item, ...evidence };
     
     // Save main photo to filesystem if needed (on native)
     let mainPhotoUri = item.mainPhoto;
@@ -228,57 +393,73 @@ export const [HistoryProvider, useHistory] = createContextHook(() => {
       })
     );
     
-    const newItem: HistoryItem = {
+    // On web, keep photos as blobs in IndexedDB and store references to them
+    const newItem: HistoryItem = await storeHistoryPhotos(id, {
       ...item,
       mainPhoto: mainPhotoUri,
       sectionPhotos,
-      id: now.toString(),
+      id,
       createdAt: now,
+      updatedAt: now,
+      version: 0, // Not uploaded yet
       dateText,
       expectedReturnDate: item.expectedReturnDate,
       expectedReturnDateText: item.expectedReturnDateText,
       isReturned: false, // New inspections are not returned yet
-    };
+    });
     
-    // Limit history to last 20 items to prevent quota issues
     setHistory(prev => {
-      const updated = [newItem, ...prev].slice(0, 20);
+      const updated = [newItem, ...prev];
       saveHistory(updated);
       return updated;
     });
+    requestSync();
     return newItem.id;
-  }, []);
+  }, [requestSync]);
+
+  // Deletions stay on this device: the server copies are only kept out of the history
+  const rememberDeleted = useCallback((items: HistoryItem[]) => {
+    const serverIds = items.map(item => item.serverId).filter((serverId): serverId is string => !!serverId);
+    if (serverIds.length > 0) {
+      saveDeletedServerIds([...deletedServerIdsRef.current, ...serverIds]);
+    }
+  }, [saveDeletedServerIds]);
 
   const deleteFromHistory = useCallback((id: string) => {
+    rememberDeleted(historyRef.current.filter(item => item.id === id));
     setHistory(prev => {
       const updated = prev.filter(item => item.id !== id);
       saveHistory(updated);
       return updated;
     });
-  }, []);
+  }, [rememberDeleted]);
 
   const clearHistory = useCallback(() => {
+    rememberDeleted(historyRef.current);
     setHistory([]);
     saveHistory([]);
-  }, []);
+  }, [rememberDeleted]);
 
   const getHistoryItem = useCallback((id: string) => {
     return history.find(item => item.id === id);
   }, [history]);
 
   const updateHistoryItem = useCallback(async (id: string, updates: Partial<HistoryItem>) => {
+    const storedUpdates = await storeHistoryPhotos(id, updates);
     setHistory(prev => {
       const updated = prev.map(item => 
-        item.id === id ? { ...item, ...updates } : item
+        item.id === id ? applyLocalUpdate(item, storedUpdates) : item
       );
       saveHistory(updated);
       return updated;
     });
-  }, []);
+    requestSync();
+  }, [requestSync]);
 
   return {
     history,
     isLoading,
+    storageError,
     addToHistory,
     deleteFromHistory,
     clearHistory,
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { DEFAULT_PRICE_TABLE, RepairPriceTable, normalizePriceTable } from '@/lib/repairCost';
+
+const PRICE_TABLE_STORAGE_KEY = 'rental_car_checker_repair_prices';
+
+/**
+ * The user's repair price table (lib/repairCost.ts), kept on the device
+ */
+export const [RepairPricesProvider, useRepairPrices] = createContextHook(() => {
+  const [priceTable, setPriceTable] = useState<RepairPriceTable>(DEFAULT_PRICE_TABLE);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    AsyncStorage.getItem(PRICE_TABLE_STORAGE_KEY)
+      .then(stored => {
+        if (stored) setPriceTable(normalizePriceTable(JSON.parse(stored)));
+      })
+      .catch(error => console.error('Failed to load repair prices:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const savePriceTable = useCallback(async (table: RepairPriceTable) => {
+    const normalized = normalizePriceTable(table);
+    setPriceTable(normalized);
+    await AsyncStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(normalized));
+  }, []);
+
+  const resetPriceTable = useCallback(async () => {
+    setPriceTable(DEFAULT_PRICE_TABLE);
+    await AsyncStorage.removeItem(PRICE_TABLE_STORAGE_KEY);
+  }, []);
+
+  return {
+    priceTable,
+    isLoading,
+    savePriceTable,
+    resetPriceTable,
+  };
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+import type { HistoryItem, SectionComparison } from '@/contexts/HistoryContext';
+import { rebutClaim } from '@/lib/claimRebuttal';
+import type { ClaimedDamageItem, DamageClaim } from '@/lib/damageClaim';
+import { DEFAULT_PRICE_TABLE } from '@/lib/repairCost';
+
+const PICKUP = Date.UTC(2026, 9, 1, 10, 0);
+const RETURN = Date.UTC(2026, 9, 5, 17, 0);
+
+function comparison(section: string, newDamage: string[]): SectionComparison {
+  return { section, newDamage, unchangedDamage: [], confidence: 0.9, summary: '', comparedAt: RETURN };
+}
+
+// License plate photo first: not a damage section, so Front is P1, Rear P2, Driver Side P3
+function inspection(
+  overrides: Partial<HistoryItem> = {}
+): Pick<HistoryItem, 'createdAt' | 'afterCreatedAt' | 'sectionPhotos' | 'afterSectionPhotos' | 'returnComparison' | 'walkAroundPlan'> {
+  return {
+    createdAt: PICKUP,
+    afterCreatedAt: RETURN,
+    sectionPhotos: [
+      { section: 'License Plate', photoUri: 'plate.jpg', damageNotes: '', isUsable: true, identity: 'licensePlate' },
+      {
+        section: 'Front',
+        photoUri: 'front.jpg',
+        damageNotes: 'Scratch on the bumper',
+        isUsable: true,
+        damages: [{ id: 'damage-1', type: 'scratch', severity: 'minor', location: 'front bumper, left', source: 'ai' }],
+        evidence: { sha256: 'a'.repeat(64), capturedAt: PICKUP + 60_000, device: { platform: 'ios' } },
+      },
+      { section: 'Rear', photoUri: 'rear.jpg', damageNotes: 'No damage', isUsable: true, damages: [] },
+      {
+        section: 'Driver Side',
+        photoUri: 'side.jpg',
+        damageNotes: 'Dent on the door',
+        isUsable: true,
+        damages: [{ id: 'damage-2', type: 'dent', severity: 'minor', location: 'lower door', source: 'ai' }],
+      },
+    ],
+    afterSectionPhotos: [
+      { section: 'License Plate', photoUri: 'after-plate.jpg', identity: 'licensePlate' },
+      { section: 'Front', photoUri: 'after-front.jpg' },
+      { section: 'Rear', photoUri: 'after-rear.jpg' },
+      { section: 'Driver Side', photoUri: 'after-side.jpg' },
+    ],
+    returnComparison: [
+      comparison('Front', []),
+      comparison('Rear', []),
+      comparison('Driver Side', ['New dent on the front door']),
+    ],
+    ...overrides,
+  };
+}
+
+const FRONT_SCRATCH: ClaimedDamageItem = { id: 'item-1', description: 'Scratch on front bumper', amount: 300 };
+const DOOR_DENT: ClaimedDamageItem = { id: 'item-2', description: 'Dent in driver side door', damageType: 'dent', amount: 500 };
+// Severe scratch on a sedan bumper: $425 - $1,020
+const REAR_BUMPER = (amount: number): ClaimedDamageItem => ({
+  id: 'item-3',
+  description: 'Replace bumper cover',
+  location: 'rear bumper',
+  damageType: 'scratch',
+  amount,
+});
+
+function claim(items: ClaimedDamageItem[], currency = 'USD'): DamageClaim {
+  return { currency, items, fees: [], documentNames: ['claim.pdf'] };
+}
+
+describe('rebutClaim', () => {
+  test('calls damage recorded at pickup pre-existing when the return shows nothing new', () => {
+    const [rebuttal] = rebutClaim(claim([FRONT_SCRATCH]), inspection(), DEFAULT_PRICE_TABLE).items;
+
+    expect(rebuttal.verdict).toBe('preExisting');
+    expect(rebuttal.reason).toContain('photo P1');
+    expect(rebuttal.citations).toEqual([
+      {
+        photoId: 'P1',
+        phase: 'pickup',
+        section: 'Front',
+        capturedAt: PICKUP + 60_000,
+        sha256: 'a'.repeat(64),
+        damageNumber: 1,
+        note: 'Recorded at pickup: Minor scratch - front bumper, left',
+      },
+    ]);
+  });
+
+  test('keeps a pre-existing verdict when the return comparison failed', () => {
+    const failed = { ...comparison('Front', ['?']), error: 'AI failure' };
+    const [rebuttal] = rebutClaim(
+      claim([FRONT_SCRATCH]),
+      inspection({ returnComparison: [failed] }),
+      DEFAULT_PRICE_TABLE
+    ).items;
+    expect(rebuttal.verdict).toBe('preExisting');
+  });
+
+  test('does not call matching damage pre-existing when the return found new damage there', () => {
+    const [rebuttal] = rebutClaim(claim([DOOR_DENT]), inspection(), DEFAULT_PRICE_TABLE).items;
+
+    expect(rebuttal.verdict).toBe('notDocumented');
+    expect(rebuttal.reason).toBe('Similar damage was recorded at pickup on photo P3, but the return comparison found new damage on this section (photo R3).');
+    expect(rebuttal.citations.map(cited => [cited.photoId, cited.capturedAt, cited.note])).toEqual([
+      ['P3', PICKUP, 'Recorded at pickup: Minor dent - lower door'],
+      ['R3', RETURN, 'New at return: New dent on the front door'],
+    ]);
+  });
+
+  test('contests an amount above the typical cost of severe damage', () => {
+    const [rebuttal] = rebutClaim(claim([REAR_BUMPER(5000)]), inspection(), DEFAULT_PRICE_TABLE).items;
+
+    expect(rebuttal.verdict).toBe('contestedAmount');
+    expect(rebuttal.typicalCost).toEqual({ low: 425, high: 1020 });
+    expect(rebuttal.citations.map(cited => cited.photoId)).toEqual(['P2', 'R2']);
+  });
+
+  test('does not contest an amount within the typical cost', () => {
+    const [rebuttal] = rebutClaim(claim([REAR_BUMPER(900)]), inspection(), DEFAULT_PRICE_TABLE).items;
+    expect(rebuttal.verdict).toBe('notDocumented');
+    expect(rebuttal.reason).toBe('Not recorded at pickup, and the return photo R2 shows no new damage on this section.');
+  });
+
+  test('only contests amounts in the price table\'s currency', () => {
+    const result = rebutClaim(claim([REAR_BUMPER(5000)], 'EUR'), inspection(), DEFAULT_PRICE_TABLE);
+    expect(result.items[0].verdict).toBe('notDocumented');
+    expect(result.disputedAmount).toBe(0);
+  });
+
+  test('disputes pre-existing items in full and contested items above the typical cost', () => {
+    const result = rebutClaim(claim([FRONT_SCRATCH, DOOR_DENT, REAR_BUMPER(5000)]), inspection(), DEFAULT_PRICE_TABLE);
+
+    expect(result.items.map(item => item.verdict)).toEqual(['preExisting', 'notDocumented', 'contestedAmount']);
+    expect(result.disputedAmount).toBe(300 + (5000 - 1020));
+  });
+
+  test('leaves an item no photo covers undocumented', () => {
+    const [rebuttal] = rebutClaim(
+      claim([{ id: 'item-4', description: 'Torn seat upholstery', amount: 200 }]),
+      inspection(),
+      DEFAULT_PRICE_TABLE
+    ).items;
+    expect(rebuttal.verdict).toBe('notDocumented');
+    expect(rebuttal.citations).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import type { DamageClaim } from '@/lib/damageClaim';
+import {
+  DEADLINE_REMINDER_DAYS,
+  addCorrespondence,
+  createDispute,
+  deadlineReminderTimes,
+  describeDeadline,
+  describeDisputeStatus,
+  isDisputeOpen,
+  parseDeadline,
+  setDisputeStatus,
+} from '@/lib/dispute';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Local times, like the deadlines the app parses
+const OPENED = new Date(2026, 10, 2, 9, 0).getTime();
+const DEADLINE = new Date(2026, 10, 20, 23, 59).getTime();
+
+const CLAIM: DamageClaim = { responseDeadline: '2026-11-20', items: [], fees: [], documentNames: [] };
+
+describe('parseDeadline', () => {
+  test('reads a date as the end of that local day', () => {
+    expect(parseDeadline('2026-11-20')).toBe(DEADLINE);
+    expect(parseDeadline('November 20, 2026')).toBe(DEADLINE);
+  });
+
+  test('returns undefined for a missing or unreadable date', () => {
+    expect(parseDeadline(undefined)).toBeUndefined();
+    expect(parseDeadline('  ')).toBeUndefined();
+    expect(parseDeadline('within 14 days')).toBeUndefined();
+  });
+});
+
+describe('deadlineReminderTimes', () => {
+  test('reminds the configured days before the end-of-day deadline', () => {
+    const dispute = createDispute(CLAIM, OPENED);
+
+    expect(dispute.responseDeadline).toBe(DEADLINE);
+    expect(deadlineReminderTimes(dispute, OPENED)).toEqual(DEADLINE_REMINDER_DAYS.map(days => DEADLINE - days * DAY));
+  });
+
+  test('skips reminder times that have passed', () => {
+    const dispute = createDispute(CLAIM, OPENED);
+    expect(deadlineReminderTimes(dispute, DEADLINE - 2 * DAY)).toEqual([DEADLINE - DAY]);
+    expect(deadlineReminderTimes(dispute, DEADLINE - DAY)).toEqual([]);
+  });
+
+  test('stops once the response is sent or the dispute is resolved', () => {
+    const dispute = createDispute(CLAIM, OPENED);
+    const answered = addCorrespondence(dispute, { date: OPENED + DAY, direction: 'sent', summary: 'Counter-claim letter', attachments: [] });
+
+    expect(deadlineReminderTimes(answered, OPENED)).toEqual([]);
+    expect(deadlineReminderTimes(setDisputeStatus(dispute, 'resolved', undefined, OPENED), OPENED)).toEqual([]);
+  });
+
+  test('has nothing to remind of without a deadline', () => {
+    expect(deadlineReminderTimes(createDispute(undefined, OPENED), OPENED)).toEqual([]);
+  });
+});
+
+describe('status', () => {
+  test('moves a new claim to response sent with the first letter sent, not one received', () => {
+    const dispute = createDispute(CLAIM, OPENED);
+    const received = addCorrespondence(dispute, { date: OPENED + 2 * DAY, direction: 'received', summary: 'Reminder', attachments: [] }, OPENED + 2 * DAY);
+    const sent = addCorrespondence(received, { date: OPENED + DAY, direction: 'sent', summary: 'Counter-claim letter', attachments: [] }, OPENED + 3 * DAY);
+
+    expect(received.status).toBe('claimReceived');
+    expect(sent.status).toBe('responseSent');
+    expect(sent.correspondence.map(entry => entry.summary)).toEqual(['Counter-claim letter', 'Reminder']);
+    expect(sent.updatedAt).toBe(OPENED + 3 * DAY);
+  });
+
+  test('keeps the escalation route after the dispute is resolved', () => {
+    const escalated = setDisputeStatus(createDispute(CLAIM, OPENED), 'escalated', 'smallClaims', OPENED);
+    const resolved = setDisputeStatus(escalated, 'resolved', undefined, OPENED + DAY);
+
+    expect(describeDisputeStatus(escalated)).toBe('Escalated (Small claims court)');
+    expect(resolved.escalation).toBe('smallClaims');
+    expect(describeDisputeStatus(resolved)).toBe('Resolved');
+    expect(isDisputeOpen(escalated)).toBe(true);
+    expect(isDisputeOpen(resolved)).toBe(false);
+  });
+
+  test('escalates by chargeback when no route is given', () => {
+    expect(setDisputeStatus(createDispute(CLAIM, OPENED), 'escalated').escalation).toBe('chargeback');
+  });
+});
+
+describe('describeDeadline', () => {
+  test('counts calendar days to the deadline', () => {
+    expect(describeDeadline(DEADLINE, new Date(2026, 10, 17, 8, 0).getTime())).toBe('Due in 3 days');
+    expect(describeDeadline(DEADLINE, new Date(2026, 10, 19, 23, 0).getTime())).toBe('Due in 1 day');
+    expect(describeDeadline(DEADLINE, new Date(2026, 10, 20, 8, 0).getTime())).toBe('Due today');
+    expect(describeDeadline(DEADLINE, new Date(2026, 10, 22, 8, 0).getTime())).toBe('Overdue by 2 days');
+    expect(describeDeadline(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  EVIDENCE_MANIFEST_VERSION,
+  EvidenceManifest,
+  EvidencePhase,
+  EvidencePhoto,
+  GENESIS_HASH,
+  buildEvidenceEntries,
+  canonicalJson,
+  countersignaturePayload,
+  evidenceManifestHash,
+  evidencePublicKey,
+  findEvidenceEntry,
+  normalizeVerificationCode,
+  sha256Hex,
+  signEvidence,
+  verificationCodeFor,
+  verifyEvidenceManifest,
+  verifyEvidenceSignature,
+} from '@/lib/evidence';
+
+const DEVICE_KEY = '11'.repeat(32);
+const SERVER_KEY = '22'.repeat(32);
+
+function photo(kind: EvidencePhoto['kind'], section: string | undefined, content: string, capturedAt: number): EvidencePhoto {
+  return {
+    kind,
+    section,
+    evidence: { sha256: sha256Hex(content), capturedAt, device: { platform: 'ios', osVersion: '18.0' } },
+  };
+}
+
+const PICKUP_PHOTOS = [
+  photo('main', undefined, 'pickup main', 1_000),
+  photo('section', 'Front', 'pickup front', 1_100),
+  photo('section', 'Rear', 'pickup rear', 1_200),
+];
+
+const RETURN_PHOTOS = [
+  photo('afterMain', undefined, 'return main', 9_000),
+  photo('afterSection', 'Front', 'return front', 9_100),
+];
+
+// Same steps as sealManifest in services/evidence.ts, with a fixed key and time
+function seal(phase: EvidencePhase, photos: EvidencePhoto[], previous?: EvidenceManifest): EvidenceManifest {
+  const entries = buildEvidenceEntries(photos, previous?.headHash ?? GENESIS_HASH);
+  const unsigned: EvidenceManifest = {
+    version: EVIDENCE_MANIFEST_VERSION,
+    inspectionId: 'inspection-1',
+    phase,
+    createdAt: phase === 'pickup' ? 1_500 : 9_500,
+    previousManifestHash: previous ? evidenceManifestHash(previous) : undefined,
+    entries,
+    headHash: entries[entries.length - 1].hash,
+    devicePublicKey: evidencePublicKey(DEVICE_KEY),
+    deviceSignature: '',
+  };
+  return { ...unsigned, deviceSignature: signEvidence(evidenceManifestHash(unsigned), DEVICE_KEY) };
+}
+
+// Same steps as countersignManifest in backend/evidence.ts
+function countersign(manifest: EvidenceManifest, serverTimestamp = 2_000): EvidenceManifest {
+  const payload = countersignaturePayload(evidenceManifestHash(manifest), manifest.deviceSignature, serverTimestamp);
+  const signature = signEvidence(payload, SERVER_KEY);
+  return {
+    ...manifest,
+    countersignature: {
+      serverTimestamp,
+      publicKey: evidencePublicKey(SERVER_KEY),
+      signature,
+      verificationCode: verificationCodeFor(signature),
+    },
+  };
+}
+
+describe('canonicalJson', () => {
+  test('does not depend on key order and leaves out undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, undefined], c: undefined } })).toBe('{"a":{"d":[1,null]},"b":1}');
+    expect(canonicalJson({ a: 1, b: 2 })).toBe(canonicalJson({ b: 2, a: 1 }));
+  });
+});
+
+describe('hash chain', () => {
+  test('chains each entry to the one before, starting from the genesis hash', () => {
+    const entries = buildEvidenceEntries(PICKUP_PHOTOS);
+    expect(entries[0].previousHash).toBe(GENESIS_HASH);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+  });
+
+  test('verifies an untouched pickup manifest', () => {
+    const result = verifyEvidenceManifest(seal('pickup', PICKUP_PHOTOS));
+    expect(result).toEqual({ chainValid: true, deviceSignatureValid: true, countersignatureValid: null, errors: [] });
+  });
+
+  test('detects a modified entry', () => {
+    const manifest = seal('pickup', PICKUP_PHOTOS);
+    const entries = manifest.entries.map((entry, index) =>
+      index === 1 ? { ...entry, evidence: { ...entry.evidence, capturedAt: 5_000 } } : entry
+    );
+
+    const result = verifyEvidenceManifest({ ...manifest, entries });
+
+    expect(result.chainValid).toBe(false);
+    expect(result.errors).toContain('Entry 1 (Front) was modified');
+    expect(result.deviceSignatureValid).toBe(false);
+  });
+
+  test('detects a removed entry', () => {
+    const manifest = seal('pickup', PICKUP_PHOTOS);
+    const result = verifyEvidenceManifest({ ...manifest, entries: [manifest.entries[0], manifest.entries[2]] });
+    expect(result.chainValid).toBe(false);
+    expect(result.errors).toContain('Entry 1 is out of order');
+    expect(result.errors).toContain('Entry 1 does not follow the previous entry');
+  });
+
+  test('continues the return chain from the pickup head hash', () => {
+    const pickup = seal('pickup', PICKUP_PHOTOS);
+    const returned = seal('return', RETURN_PHOTOS, pickup);
+
+    expect(returned.entries[0].previousHash).toBe(pickup.headHash);
+    expect(returned.previousManifestHash).toBe(evidenceManifestHash(pickup));
+    expect(verifyEvidenceManifest(returned, pickup.headHash).errors).toEqual([]);
+  });
+
+  test('rejects a return chain that does not continue the given pickup manifest', () => {
+    const pickup = seal('pickup', PICKUP_PHOTOS);
+    const otherPickup = seal('pickup', [photo('main', undefined, 'another car', 1_000)]);
+    const returned = seal('return', RETURN_PHOTOS, pickup);
+
+    const result = verifyEvidenceManifest(returned, otherPickup.headHash);
+
+    expect(result.chainValid).toBe(false);
+    expect(result.errors).toContain('Entry 0 does not follow the previous entry');
+  });
+
+  test('finds the entry of a photo by its hash in any case', () => {
+    const manifest = seal('pickup', PICKUP_PHOTOS);
+    expect(findEvidenceEntry(manifest, sha256Hex('pickup rear').toUpperCase())?.section).toBe('Rear');
+    expect(findEvidenceEntry(manifest, sha256Hex('not in the report'))).toBeUndefined();
+  });
+});
+
+describe('signatures', () => {
+  test('round-trips a signature and rejects other messages and keys', () => {
+    const signature = signEvidence('manifest hash', DEVICE_KEY);
+    expect(verifyEvidenceSignature('manifest hash', signature, evidencePublicKey(DEVICE_KEY))).toBe(true);
+    expect(verifyEvidenceSignature('other hash', signature, evidencePublicKey(DEVICE_KEY))).toBe(false);
+    expect(verifyEvidenceSignature('manifest hash', signature, evidencePublicKey(SERVER_KEY))).toBe(false);
+    expect(verifyEvidenceSignature('manifest hash', 'not hex', evidencePublicKey(DEVICE_KEY))).toBe(false);
+  });
+
+  test('invalidates the device signature when manifest content changes', () => {
+    const manifest = seal('pickup', PICKUP_PHOTOS);
+    const result = verifyEvidenceManifest({ ...manifest, inspectionId: 'inspection-2' });
+    expect(result.chainValid).toBe(true);
+    expect(result.deviceSignatureValid).toBe(false);
+  });
+
+  test('verifies a countersigned manifest', () => {
+    const result = verifyEvidenceManifest(countersign(seal('pickup', PICKUP_PHOTOS)));
+    expect(result.countersignatureValid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  test('rejects a countersignature with a changed timestamp or verification code', () => {
+    const manifest = countersign(seal('pickup', PICKUP_PHOTOS));
+    const countersignature = manifest.countersignature!;
+
+    const retimed = { ...manifest, countersignature: { ...countersignature, serverTimestamp: 3_000 } };
+    const recoded = { ...manifest, countersignature: { ...countersignature, verificationCode: 'AAAA-AAAA-AAAA-AAAA' } };
+
+    expect(verifyEvidenceManifest(retimed).countersignatureValid).toBe(false);
+    expect(verifyEvidenceManifest(recoded).countersignatureValid).toBe(false);
+    expect(verifyEvidenceManifest(recoded).errors).toContain('Server countersignature is invalid');
+  });
+});
+
+describe('verification codes', () => {
+  test('derives a stable 16-character Crockford code from the signature', () => {
+    const signature = signEvidence('payload', SERVER_KEY);
+    const code = verificationCodeFor(signature);
+    expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}(-[0-9A-HJKMNP-TV-Z]{4}){3}$/);
+    expect(verificationCodeFor(signature)).toBe(code);
+    expect(verificationCodeFor(signEvidence('other payload', SERVER_KEY))).not.toBe(code);
+  });
+
+  test('normalizes a typed-in code back to the printed one', () => {
+    const code = verificationCodeFor(signEvidence('payload', SERVER_KEY));
+    const typed = code.toLowerCase().replace(/-/g, ' ').replace(/0/g, 'o').replace(/1/g, 'l');
+    expect(normalizeVerificationCode(typed)).toBe(code);
+  });
+
+  test('leaves codes of the wrong length ungrouped', () => {
+    expect(normalizeVerificationCode('7k2m-9qxd')).toBe('7K2M9QXD');
+  });
+});
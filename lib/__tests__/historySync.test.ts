@@ -0,0 +1,214 @@
+import { describe, expect, test } from 'bun:test';
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import {
+  applyLocalUpdate,
+  changedFieldsSince,
+  isSameInspection,
+  mergeHistoryItems,
+  reconcileSyncResult,
+} from '@/lib/historySync';
+
+const CREATED = 1_000;
+
+function item(overrides: Partial<HistoryItem> = {}): HistoryItem {
+  return {
+    id: 'local-1',
+    mainPhoto: 'main.jpg',
+    sectionPhotos: [],
+    allDamageNotes: '',
+    createdAt: CREATED,
+    dateText: 'Mon, Jan 1',
+    serverId: 'server-1',
+    version: 1,
+    updatedAt: CREATED,
+    syncedAt: CREATED,
+    ...overrides,
+  };
+}
+
+function sectionPhoto(section: string, photoUri: string) {
+  return { section, photoUri, damageNotes: '', isUsable: true };
+}
+
+describe('applyLocalUpdate', () => {
+  test('stamps only the synced fields that changed', () => {
+    const updated = applyLocalUpdate(item(), { allDamageNotes: 'Scratch', dateText: 'Tue' }, 2_000);
+    expect(updated.fieldUpdatedAt).toEqual({ allDamageNotes: 2_000 });
+    expect(updated.updatedAt).toBe(2_000);
+    expect(changedFieldsSince(updated, CREATED)).toEqual(['allDamageNotes']);
+  });
+
+  test('treats every field as changed on an item that was never synced', () => {
+    expect(changedFieldsSince(item(), undefined)).toContain('sectionPhotos');
+  });
+});
+
+describe('mergeHistoryItems', () => {
+  test('takes the newest change of each field', () => {
+    const local = item({
+      allDamageNotes: 'Local notes',
+      expectedReturnDateText: 'Local date',
+      fieldUpdatedAt: { allDamageNotes: 3_000, expectedReturnDateText: 2_000 },
+      updatedAt: 3_000,
+    });
+    const remote = item({
+      allDamageNotes: 'Remote notes',
+      expectedReturnDateText: 'Remote date',
+      fieldUpdatedAt: { allDamageNotes: 2_500, expectedReturnDateText: 4_000 },
+      updatedAt: 4_000,
+      version: 2,
+    });
+
+    const merged = mergeHistoryItems(local, remote);
+
+    expect(merged.allDamageNotes).toBe('Local notes');
+    expect(merged.expectedReturnDateText).toBe('Remote date');
+    expect(merged.fieldUpdatedAt).toMatchObject({ allDamageNotes: 3_000, expectedReturnDateText: 4_000 });
+    expect(merged.updatedAt).toBe(4_000);
+    expect(merged.version).toBe(2);
+  });
+
+  test('keeps the local ID and takes the server ID and version', () => {
+    const merged = mergeHistoryItems(item({ id: 'device-id', serverId: undefined, version: 0 }), item({ id: 'server-row', version: 5 }));
+    expect(merged.id).toBe('device-id');
+    expect(merged.serverId).toBe('server-1');
+    expect(merged.version).toBe(5);
+  });
+
+  test('takes the section photos of the newer side, shared sections included', () => {
+    const local = item({
+      sectionPhotos: [sectionPhoto('Front', 'front-retake.jpg'), sectionPhoto('Left Side', 'left.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 3_000 },
+    });
+    const remote = item({
+      sectionPhotos: [sectionPhoto('Front', 'front.jpg'), sectionPhoto('Rear', 'rear.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 2_000 },
+    });
+
+    const merged = mergeHistoryItems(local, remote);
+
+    expect(merged.sectionPhotos.map(photo => [photo.section, photo.photoUri])).toEqual([
+      ['Front', 'front-retake.jpg'],
+      ['Left Side', 'left.jpg'],
+    ]);
+  });
+
+  test('does not bring back a section removed by the newer change', () => {
+    const local = item({
+      sectionPhotos: [sectionPhoto('Front', 'front.jpg'), sectionPhoto('Rear', 'rear.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 2_000 },
+    });
+    const remote = item({
+      sectionPhotos: [sectionPhoto('Front', 'front.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 3_000 },
+    });
+
+    expect(mergeHistoryItems(local, remote).sectionPhotos.map(photo => photo.section)).toEqual(['Front']);
+  });
+
+  test('keeps the other side\'s photo of a shared section the newer side only has a placeholder for', () => {
+    const local = item({
+      sectionPhotos: [sectionPhoto('Front', '[STORED]'), sectionPhoto('Rear', 'rear.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 3_000 },
+    });
+    const remote = item({
+      sectionPhotos: [sectionPhoto('Front', 'front.jpg')],
+      fieldUpdatedAt: { sectionPhotos: 2_000 },
+    });
+
+    expect(mergeHistoryItems(local, remote).sectionPhotos.map(photo => [photo.section, photo.photoUri])).toEqual([
+      ['Front', 'front.jpg'],
+      ['Rear', 'rear.jpg'],
+    ]);
+  });
+
+  test('takes the return photos of the newer side and keeps the item returned when either side is', () => {
+    const local = item({
+      afterSectionPhotos: [{ section: 'Front', photoUri: 'after-front.jpg' }],
+      isReturned: true,
+      fieldUpdatedAt: { afterSectionPhotos: 2_000, isReturned: 2_000 },
+    });
+    const remote = item({
+      afterMainPhoto: 'after-main.jpg',
+      afterSectionPhotos: [{ section: 'Rear', photoUri: 'after-rear.jpg' }],
+      isReturned: false,
+      fieldUpdatedAt: { afterSectionPhotos: 3_000, isReturned: 3_000 },
+    });
+
+    const merged = mergeHistoryItems(local, remote);
+
+    expect(merged.afterSectionPhotos?.map(photo => photo.section)).toEqual(['Rear']);
+    expect(merged.afterMainPhoto).toBe('after-main.jpg');
+    expect(merged.isReturned).toBe(true);
+  });
+});
+
+describe('isSameInspection', () => {
+  test('matches an uploaded item by server ID even when the local ID differs', () => {
+    expect(isSameInspection(item({ id: 'device-id' }), item({ id: 'other-device-id' }))).toBe(true);
+  });
+
+  test('matches an item that was never uploaded by local ID only', () => {
+    const local = item({ id: 'device-id', serverId: undefined });
+    expect(isSameInspection(local, item({ id: 'device-id', serverId: 'server-9' }))).toBe(true);
+    expect(isSameInspection(local, item({ id: 'other-id' }))).toBe(false);
+  });
+});
+
+describe('reconcileSyncResult', () => {
+  test('returns the current history itself when the sync changed nothing', () => {
+    const sent = [item()];
+    const current = [...sent];
+    expect(reconcileSyncResult(current, sent, sent)).toBe(current);
+  });
+
+  test('takes the synced copy of items not touched during the sync', () => {
+    const sent = [item()];
+    const synced = [item({ allDamageNotes: 'From another device', version: 2 })];
+    expect(reconcileSyncResult(sent, sent, synced)).toEqual(synced);
+  });
+
+  test('merges edits made while the sync was running', () => {
+    const sent = item();
+    const edited = applyLocalUpdate(sent, { allDamageNotes: 'Edited during sync' }, 5_000);
+    const synced = item({ expectedReturnDateText: 'Fri', fieldUpdatedAt: { expectedReturnDateText: 4_000 }, version: 2 });
+
+    const [result] = reconcileSyncResult([edited], [sent], [synced]);
+
+    expect(result.allDamageNotes).toBe('Edited during sync');
+    expect(result.expectedReturnDateText).toBe('Fri');
+    expect(result.version).toBe(2);
+  });
+
+  test('drops items deleted on another device', () => {
+    const sent = [item(), item({ id: 'local-2', serverId: 'server-2', createdAt: 500 })];
+    expect(reconcileSyncResult(sent, sent, [sent[0]]).map(entry => entry.id)).toEqual(['local-1']);
+  });
+
+  test('uploads again an item deleted remotely but edited here', () => {
+    const sent = item();
+    const edited = applyLocalUpdate(sent, { allDamageNotes: 'Still needed' }, 5_000);
+
+    const [result] = reconcileSyncResult([edited], [sent], []);
+
+    expect(result.allDamageNotes).toBe('Still needed');
+    expect(result.serverId).toBeUndefined();
+    expect(result.version).toBe(0);
+  });
+
+  test('keeps items added during the sync and adds new server items, newest first', () => {
+    const sent = item();
+    const added = item({ id: 'local-new', serverId: undefined, createdAt: 3_000 });
+    const fromServer = item({ id: 'remote-new', serverId: 'server-3', createdAt: 2_000 });
+
+    const result = reconcileSyncResult([added, sent], [sent], [sent, fromServer]);
+
+    expect(result.map(entry => entry.id)).toEqual(['local-new', 'remote-new', 'local-1']);
+  });
+
+  test('does not bring back an item deleted locally during the sync', () => {
+    const sent = item();
+    const synced = item({ version: 2 });
+    expect(reconcileSyncResult([], [sent], [synced])).toEqual([]);
+  });
+});
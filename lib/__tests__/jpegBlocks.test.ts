@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { readLuminanceBlocks } from '@/lib/jpegBlocks';
+
+const WIDTH = 70; // Not a multiple of 8 or 16, so the last MCU is padded
+const HEIGHT = 50;
+
+// Dark left half, bright right half, split on a block boundary
+function splitImage(): sharp.Sharp {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const offset = (y * WIDTH + x) * 3;
+      pixels.fill(x < 32 ? 40 : 210, offset, offset + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 3 } });
+}
+
+async function bytes(image: sharp.Sharp): Promise<Uint8Array> {
+  return new Uint8Array(await image.toBuffer());
+}
+
+describe('readLuminanceBlocks', () => {
+  test('reads the mean brightness of every block of a flat image', async () => {
+    const jpeg = await bytes(sharp({ create: { width: 64, height: 48, channels: 3, background: '#c8c8c8' } }).jpeg({ quality: 90 }));
+
+    const blocks = readLuminanceBlocks(jpeg)!;
+
+    expect([blocks.columns, blocks.rows]).toEqual([8, 6]);
+    blocks.brightness.forEach(value => expect(value).toBeCloseTo(200, 0));
+    expect(Math.max(...blocks.texture)).toBe(0);
+  });
+
+  test.each(['4:2:0', '4:4:4'])('places the luminance blocks of an interleaved %s scan', async chromaSubsampling => {
+    const blocks = readLuminanceBlocks(await bytes(splitImage().jpeg({ quality: 90, chromaSubsampling })))!;
+
+    expect([blocks.width, blocks.height, blocks.columns, blocks.rows]).toEqual([WIDTH, HEIGHT, 9, 7]);
+    for (let row = 0; row < blocks.rows; row++) {
+      for (let column = 0; column < blocks.columns; column++) {
+        expect(blocks.brightness[row * blocks.columns + column]).toBeCloseTo(column < 4 ? 40 : 210, 0);
+      }
+    }
+  });
+
+  test('reads a single-component (grayscale) scan', async () => {
+    const blocks = readLuminanceBlocks(await bytes(splitImage().grayscale().jpeg({ quality: 90 })))!;
+    expect(blocks.brightness[3]).toBeCloseTo(40, 0);
+    expect(blocks.brightness[4]).toBeCloseTo(210, 0);
+  });
+
+  test('returns null for a progressive JPEG', async () => {
+    expect(readLuminanceBlocks(await bytes(splitImage().jpeg({ progressive: true })))).toBeNull();
+  });
+
+  test('returns null instead of throwing for truncated data', async () => {
+    const jpeg = await bytes(splitImage().jpeg({ quality: 90 }));
+    for (const length of [2, 100, 300, Math.floor(jpeg.length / 2), jpeg.length - 20]) {
+      expect(readLuminanceBlocks(jpeg.slice(0, length))).toBeNull();
+    }
+  });
+
+  test('reads data that only lacks the end marker', async () => {
+    const jpeg = await bytes(splitImage().jpeg({ quality: 90 }));
+    expect(readLuminanceBlocks(jpeg.slice(0, jpeg.length - 2))?.brightness[4]).toBeCloseTo(210, 0);
+  });
+
+  test('returns null for data that is not a JPEG', async () => {
+    expect(readLuminanceBlocks(await bytes(splitImage().png()))).toBeNull();
+    expect(readLuminanceBlocks(new Uint8Array())).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import type { DamageClaim } from '@/lib/damageClaim';
+import {
+  JURISDICTIONS,
+  LETTER_TYPES,
+  fillLetterTemplate,
+  jurisdictionClauses,
+  suggestJurisdiction,
+  trimNarrative,
+} from '@/lib/letterTemplates';
+
+const GENERATED_AT = Date.UTC(2026, 10, 3, 12, 0);
+
+const INSPECTION = {
+  dateText: 'October 1, 2026',
+  rentalAgreement: { company: 'Hertz', branch: 'Los Angeles Airport', agreementNumber: 'RA-1234', renterName: 'Alex Doe' },
+};
+
+const CLAIM: DamageClaim = {
+  claimNumber: 'CL-99',
+  currency: 'USD',
+  items: [{ id: 'item-1', description: 'Scratch on front bumper', amount: 300 }],
+  fees: [],
+  documentNames: [],
+};
+
+describe('jurisdictionClauses', () => {
+  test.each(['usCalifornia', 'usNewYork'] as const)('puts the federal clauses before the %s ones', jurisdiction => {
+    for (const type of LETTER_TYPES) {
+      const federal = jurisdictionClauses(type, 'us');
+      const clauses = jurisdictionClauses(type, jurisdiction);
+
+      expect(clauses.slice(0, federal.length)).toEqual(federal);
+    }
+    expect(jurisdictionClauses('rentalCompany', jurisdiction).length).toBeGreaterThan(jurisdictionClauses('rentalCompany', 'us').length);
+  });
+
+  test('does not mix in other jurisdictions\' clauses', () => {
+    const uk = jurisdictionClauses('chargeback', 'uk');
+    expect(uk.some(clause => clause.includes('Consumer Credit Act'))).toBe(true);
+    expect(jurisdictionClauses('chargeback', 'eu').some(clause => uk.includes(clause))).toBe(false);
+  });
+});
+
+describe('fillLetterTemplate', () => {
+  const cases = LETTER_TYPES.flatMap(type => JURISDICTIONS.map(jurisdiction => [type, jurisdiction] as const));
+
+  test.each(cases)('fills a %s letter for %s', (type, jurisdiction) => {
+    const letter = fillLetterTemplate({ type, jurisdiction }, INSPECTION, CLAIM, GENERATED_AT);
+
+    expect(letter.recipientLines.length).toBeGreaterThan(0);
+    letter.recipientLines.forEach(line => expect(line.trim()).not.toBe(''));
+    expect(letter.closing).toMatch(/^(Sincerely|Yours faithfully),$/);
+    expect(letter.clauses.length).toBeGreaterThan(0);
+    expect(letter.signature).toBe('Alex Doe');
+  });
+
+  test('uses the date format and closing of the jurisdiction', () => {
+    const us = fillLetterTemplate({ type: 'rentalCompany', jurisdiction: 'us' }, INSPECTION, CLAIM, GENERATED_AT);
+    const uk = fillLetterTemplate({ type: 'rentalCompany', jurisdiction: 'uk' }, INSPECTION, CLAIM, GENERATED_AT);
+
+    expect(us.dateLine).toBe('Date: 11/3/2026');
+    expect(us.closing).toBe('Sincerely,');
+    expect(uk.dateLine).toBe('Date: 03/11/2026');
+    expect(uk.closing).toBe('Yours faithfully,');
+  });
+
+  test('addresses the rental company from the agreement', () => {
+    const letter = fillLetterTemplate({ type: 'rentalCompany', jurisdiction: 'us' }, INSPECTION, CLAIM, GENERATED_AT);
+
+    expect(letter.recipientLines).toEqual(['Hertz', 'Los Angeles Airport branch']);
+    expect(letter.subject).toBe('Re: Damage Claim Dispute - Claim CL-99, Rental agreement RA-1234');
+  });
+
+  test('addresses a consumer complaint to the jurisdiction\'s authority unless one is named', () => {
+    const fallback = fillLetterTemplate({ type: 'consumerComplaint', jurisdiction: 'uk' }, INSPECTION, CLAIM, GENERATED_AT);
+    const named = fillLetterTemplate(
+      { type: 'consumerComplaint', jurisdiction: 'uk', recipient: { name: ' Trading Standards ' } },
+      INSPECTION,
+      CLAIM,
+      GENERATED_AT
+    );
+
+    expect(fallback.recipientLines).toEqual(['Citizens Advice consumer service', 'For referral to Trading Standards']);
+    expect(named.recipientLines).toEqual(['Trading Standards']);
+  });
+
+  test('puts the recipient reference in the subject', () => {
+    const letter = fillLetterTemplate(
+      { type: 'chargeback', jurisdiction: 'us', recipient: { name: 'Chase', reference: '4321' } },
+      INSPECTION,
+      CLAIM,
+      GENERATED_AT
+    );
+
+    expect(letter.recipientLines).toEqual(['Chase', 'Disputes Department']);
+    expect(letter.subject).toBe('Re: Disputed Charge - Hertz, Card ending 4321');
+  });
+
+  test('fills placeholders without an agreement or claim', () => {
+    const letter = fillLetterTemplate({ type: 'rentalCompany', jurisdiction: 'eu' }, { dateText: 'October 1, 2026' }, undefined, GENERATED_AT);
+
+    expect(letter.recipientLines).toEqual(['Rental Car Company']);
+    expect(letter.subject).toBe('Re: Damage Claim Dispute');
+    expect(letter.signature).toBe('[Your Name]');
+  });
+});
+
+describe('suggestJurisdiction', () => {
+  test('goes by the claim currency before the price region', () => {
+    expect(suggestJurisdiction('GBP', 'us')).toBe('uk');
+    expect(suggestJurisdiction('EUR', 'uk')).toBe('eu');
+    expect(suggestJurisdiction('USD', 'europe')).toBe('us');
+  });
+
+  test('falls back to the price region without a currency', () => {
+    expect(suggestJurisdiction(undefined, 'uk')).toBe('uk');
+    expect(suggestJurisdiction(undefined, 'europe')).toBe('eu');
+    expect(suggestJurisdiction(undefined, 'usWest')).toBe('us');
+  });
+
+  test('suggests nothing when no template matches, so the user has to choose', () => {
+    expect(suggestJurisdiction('CAD', 'us')).toBeUndefined();
+    expect(suggestJurisdiction('AUD', 'australia')).toBeUndefined();
+    expect(suggestJurisdiction(undefined, 'canada')).toBeUndefined();
+    expect(suggestJurisdiction(undefined, 'australia')).toBeUndefined();
+  });
+});
+
+describe('trimNarrative', () => {
+  test('drops a salutation and closing the AI added', () => {
+    expect(trimNarrative('Dear Sir or Madam,\nThe scratch was there at pickup.\n\nSincerely,\nAlex Doe')).toBe('The scratch was there at pickup.');
+    expect(trimNarrative('The scratch was there at pickup.')).toBe('The scratch was there at pickup.');
+  });
+});
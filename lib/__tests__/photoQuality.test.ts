@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { assessPhotoQuality, passesQualityCheck, qualityIssueSummary, QUALITY_ISSUE_MESSAGES } from '@/lib/photoQuality';
+
+const WIDTH = 256;
+const HEIGHT = 192;
+const MIN_COVERAGE = 0.5;
+
+/**
+ * Grayscale test scene: hard-edged rectangles in two tones over a background
+ * halfway between them, the same every run
+ */
+function scene(dark: number, light: number): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT, Math.round((dark + light) / 2));
+  let seed = 7;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  for (let i = 0; i < 120; i++) {
+    const left = Math.floor(random() * WIDTH);
+    const top = Math.floor(random() * HEIGHT);
+    const right = Math.min(WIDTH, left + 3 + Math.floor(random() * 30));
+    const bottom = Math.min(HEIGHT, top + 3 + Math.floor(random() * 30));
+    const value = random() < 0.5 ? dark : light;
+    for (let y = top; y < bottom; y++) {
+      pixels.fill(value, y * WIDTH + left, y * WIDTH + right);
+    }
+  }
+  return pixels;
+}
+
+async function jpeg(pixels: Buffer, options: { blur?: number; progressive?: boolean } = {}): Promise<Uint8Array> {
+  let image = sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 1 } });
+  if (options.blur) image = image.blur(options.blur);
+  return new Uint8Array(await image.jpeg({ quality: 90, progressive: options.progressive }).toBuffer());
+}
+
+describe('assessPhotoQuality', () => {
+  test('passes a sharp, well exposed photo that fills the frame', async () => {
+    const quality = assessPhotoQuality(await jpeg(scene(30, 220)), MIN_COVERAGE)!;
+
+    expect(quality.issues).toEqual([]);
+    expect(quality.sharpness).toBeGreaterThan(0.9);
+    expect(quality.coverage).toBeGreaterThan(MIN_COVERAGE);
+    expect(passesQualityCheck(quality)).toBe(true);
+  });
+
+  test('flags the same photo as blurry once it is out of focus', async () => {
+    const quality = assessPhotoQuality(await jpeg(scene(30, 220), { blur: 2 }), MIN_COVERAGE)!;
+
+    expect(quality.issues).toEqual(['blurry']);
+    expect(quality.sharpness).toBeLessThan(0.35);
+    expect(passesQualityCheck(quality)).toBe(false);
+    expect(qualityIssueSummary(quality)).toBe(QUALITY_ISSUE_MESSAGES.blurry);
+  });
+
+  test('flags an underexposed photo as too dark', async () => {
+    const quality = assessPhotoQuality(await jpeg(scene(0, 40)), MIN_COVERAGE)!;
+    expect(quality.issues).toEqual(['tooDark']);
+    expect(quality.brightness).toBeLessThan(45);
+    expect(passesQualityCheck(quality)).toBe(false);
+  });
+
+  test('flags an overexposed photo as too bright', async () => {
+    const quality = assessPhotoQuality(await jpeg(scene(215, 255)), MIN_COVERAGE)!;
+    expect(quality.issues).toEqual(['tooBright']);
+    expect(quality.brightness).toBeGreaterThan(215);
+    expect(passesQualityCheck(quality)).toBe(false);
+  });
+
+  test('flags a photo whose detail covers less of the frame than the section needs', async () => {
+    const quality = assessPhotoQuality(await jpeg(scene(30, 220)), 0.95)!;
+    expect(quality.issues).toEqual(['tooFar']);
+  });
+
+  test('lets progressive and truncated JPEGs through unchecked', async () => {
+    const progressive = await jpeg(scene(30, 220), { progressive: true });
+    const baseline = await jpeg(scene(30, 220));
+    const truncated = baseline.slice(0, Math.floor(baseline.length / 2));
+
+    expect(assessPhotoQuality(progressive, MIN_COVERAGE)).toBeNull();
+    expect(assessPhotoQuality(truncated, MIN_COVERAGE)).toBeNull();
+    expect(passesQualityCheck(null)).toBe(true);
+  });
+});
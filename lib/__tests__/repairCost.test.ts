@@ -0,0 +1,127 @@
+import { describe, expect, test } from 'bun:test';
+import type { DamageRecord } from '@/lib/damage';
+import {
+  DEFAULT_PRICE_TABLE,
+  RepairPriceTable,
+  estimateDamageCost,
+  estimateRepairCost,
+  normalizePriceTable,
+  panelForDamage,
+} from '@/lib/repairCost';
+
+function damage(overrides: Partial<DamageRecord> = {}): DamageRecord {
+  return {
+    id: 'damage-1',
+    type: 'scratch',
+    severity: 'minor', // $100 - $250 on a sedan body panel
+    location: 'middle of the door',
+    source: 'ai',
+    ...overrides,
+  };
+}
+
+describe('panelForDamage', () => {
+  test('goes by the damage location before the section name', () => {
+    expect(panelForDamage('Windshield', 'lower corner of the bumper')).toBe('bumper');
+    expect(panelForDamage('Front Bumper', 'left headlight')).toBe('lights');
+  });
+
+  test('falls back to the section name, then to a body panel', () => {
+    expect(panelForDamage('Rear Bumper', 'left side')).toBe('bumper');
+    expect(panelForDamage('Front Left Wheel', 'near the valve')).toBe('wheel');
+    expect(panelForDamage('Driver Side', 'lower door')).toBe('bodyPanel');
+  });
+
+  test('matches whole words only', () => {
+    expect(panelForDamage('Driver Side', 'scratch across the rimless mirror')).toBe('bodyPanel');
+  });
+});
+
+describe('estimateDamageCost', () => {
+  test.each([
+    [undefined, 100, 250],
+    [5, 100, 250],
+    [5.5, 130, 325],
+    [15, 130, 325],
+    [16, 160, 400],
+    [30, 160, 400],
+    [31, 200, 500],
+  ])('scales a %p cm scratch to %p - %p', (estimatedSizeCm, low, high) => {
+    const { cost } = estimateDamageCost(damage({ estimatedSizeCm }), 'Driver Side', 'sedan', DEFAULT_PRICE_TABLE);
+    expect(cost).toEqual({ low, high });
+  });
+
+  test('applies the panel, vehicle and region factors and rounds to 5', () => {
+    const table: RepairPriceTable = { ...DEFAULT_PRICE_TABLE, region: 'usWest' };
+
+    // 100 x 0.85 x 1.15 x 1.12 = 109.48, 250 x 0.85 x 1.15 x 1.12 = 273.7
+    const result = estimateDamageCost(damage({ location: 'rear bumper' }), 'Rear', 'suv', table);
+
+    expect(result).toEqual({ panel: 'bumper', cost: { low: 110, high: 275 } });
+  });
+});
+
+describe('estimateRepairCost', () => {
+  test('totals the ranges of the damage on every section', () => {
+    const estimate = estimateRepairCost(
+      [
+        { section: 'Driver Side', photoUri: 'side.jpg', damageNotes: '', isUsable: true, damages: [damage()] },
+        { section: 'Rear', photoUri: 'rear.jpg', damageNotes: '', isUsable: true },
+        { section: 'Front', photoUri: 'front.jpg', damageNotes: '', isUsable: true, damages: [damage({ id: 'damage-2', type: 'dent', location: 'bumper' })] },
+      ],
+      undefined,
+      DEFAULT_PRICE_TABLE
+    );
+
+    // Dent on the bumper: 75 x 0.85 = 63.75, 200 x 0.85 = 170
+    expect(estimate.items.map(item => [item.section, item.cost])).toEqual([
+      ['Driver Side', { low: 100, high: 250 }],
+      ['Front', { low: 65, high: 170 }],
+    ]);
+    expect(estimate.total).toEqual({ low: 165, high: 420 });
+    expect(estimate.vehicleType).toBe('sedan');
+  });
+});
+
+describe('normalizePriceTable', () => {
+  test('returns the default table for nothing stored', () => {
+    expect(normalizePriceTable(undefined)).toEqual(DEFAULT_PRICE_TABLE);
+    expect(normalizePriceTable('not a table')).toEqual(DEFAULT_PRICE_TABLE);
+  });
+
+  test('fills in missing or invalid prices from the defaults', () => {
+    const table = normalizePriceTable({
+      basePrices: {
+        scratch: { minor: { low: 80 }, moderate: { low: -5, high: 'lots' } },
+        dent: 'not prices',
+      },
+    });
+
+    expect(table.basePrices.scratch.minor).toEqual({ low: 80, high: 250 });
+    expect(table.basePrices.scratch.moderate).toEqual(DEFAULT_PRICE_TABLE.basePrices.scratch.moderate);
+    expect(table.basePrices.dent).toEqual(DEFAULT_PRICE_TABLE.basePrices.dent);
+  });
+
+  test('puts swapped low and high values back in order', () => {
+    const table = normalizePriceTable({ basePrices: { chip: { severe: { low: 900, high: 300 } } } });
+    expect(table.basePrices.chip.severe).toEqual({ low: 300, high: 900 });
+  });
+
+  test('orders a stored low above the default high', () => {
+    const table = normalizePriceTable({ basePrices: { scuff: { minor: { low: 400 } } } });
+    expect(table.basePrices.scuff.minor).toEqual({ low: 150, high: 400 });
+  });
+
+  test('keeps valid settings and replaces an unknown currency, region or factor', () => {
+    expect(normalizePriceTable({ currency: 'GBP', region: 'uk', panelFactors: { glass: 1.4 } })).toMatchObject({
+      currency: 'GBP',
+      region: 'uk',
+      panelFactors: { ...DEFAULT_PRICE_TABLE.panelFactors, glass: 1.4 },
+    });
+    expect(normalizePriceTable({ currency: 'pounds', region: 'mars', panelFactors: { glass: -1 } })).toMatchObject({
+      currency: 'USD',
+      region: 'us',
+      panelFactors: DEFAULT_PRICE_TABLE.panelFactors,
+    });
+  });
+});
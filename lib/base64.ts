@@ -0,0 +1,33 @@
+/**
+ * Base64 <-> bytes helpers
+ *
+ * Uses the global atob/btoa available in Hermes and browsers.
+ */
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunk to stay under the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Split a data URI into its MIME type and base64 payload
+ */
+export function parseDataUri(uri: string): { mimeType: string; base64: string } | null {
+  const match = uri.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s);
+  if (!match) return null;
+  return { mimeType: match[1], base64: match[2] };
+}
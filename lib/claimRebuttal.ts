@@ -0,0 +1,264 @@
+/**
+ * Claim rebuttal
+ *
+ * Checks each item of a rental company's damage claim (lib/damageClaim.ts)
+ * against the inspection and gives it a verdict:
+ * - preExisting: the damage was already recorded on the pickup photo of that part of the car
+ *   (same type, or the same spot when the claim names no type) and the return
+ *   comparison found nothing new there
+ * - contestedAmount: not recorded at pickup, but the claimed amount is above what even
+ *   severe damage of that kind typically costs to repair (lib/repairCost.ts)
+ * - notDocumented: not recorded at pickup; the photos neither show nor rule it out
+ *
+ * Every verdict cites the photos it rests on by photo ID, capture time and
+ * SHA-256 (lib/evidence.ts). Photo IDs follow the section numbering of the
+ * inspection report: P3 is the pickup photo of section 3, R3 the return
+ * photo of the same section.
+ */
+
+import type { HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { DAMAGE_TYPES, DamageRecord, DamageType, formatDamageRecord } from '@/lib/damage';
+import { ClaimItemEvidence, DamageClaim, claimedDamageType, formatClaimAmount, isClaimedDamage, matchClaimEvidence } from '@/lib/damageClaim';
+import type { EvidencePhase, PhotoEvidence } from '@/lib/evidence';
+import { CostRange, REPAIR_PANEL_LABELS, RepairPriceTable, estimateDamageCost, formatCostRange } from '@/lib/repairCost';
+import { damageSectionPhotos } from '@/lib/vehicleIdentity';
+import { DEFAULT_VEHICLE_TYPE, VehicleType } from '@/lib/walkAround';
+
+export const CLAIM_VERDICTS = ['preExisting', 'contestedAmount', 'notDocumented'] as const;
+export type ClaimVerdict = typeof CLAIM_VERDICTS[number];
+
+export const CLAIM_VERDICT_LABELS: Record<ClaimVerdict, string> = {
+  preExisting: 'Pre-existing',
+  contestedAmount: 'Contested amount',
+  notDocumented: 'Not documented at pickup',
+};
+
+// Badge colors per verdict (app screens)
+export const CLAIM_VERDICT_COLORS: Record<ClaimVerdict, string> = {
+  preExisting: '#7AB8CC',
+  contestedAmount: '#FFD700',
+  notDocumented: '#FF6B6B',
+};
+
+export interface PhotoCitation {
+  photoId: string; // e.g. "P3" / "R3"
+  phase: EvidencePhase;
+  section: string;
+  capturedAt?: number; // From the photo's evidence record, else the walk-around time
+  sha256?: string;
+  damageNumber?: number; // Numbered marker on the photo in the inspection report
+  note: string; // What the photo shows
+}
+
+export interface ClaimItemRebuttal extends ClaimItemEvidence {
+  verdict: ClaimVerdict;
+  reason: string;
+  citations: PhotoCitation[];
+  typicalCost?: CostRange; // Severe damage of the claimed kind (contestedAmount)
+}
+
+export interface ClaimRebuttal {
+  claim: DamageClaim;
+  items: ClaimItemRebuttal[];
+  disputedAmount: number; // Pre-existing items in full, contested items above the typical cost
+}
+
+export function pickupPhotoId(sectionNumber: number): string {
+  return `P${sectionNumber}`;
+}
+
+export function returnPhotoId(sectionNumber: number): string {
+  return `R${sectionNumber}`;
+}
+
+function citation(
+  photoId: string,
+  phase: EvidencePhase,
+  section: string,
+  evidence: PhotoEvidence | undefined,
+  walkAroundTime: number | undefined,
+  note: string,
+  damageNumber?: number
+): PhotoCitation {
+  // Photos taken before evidence records existed fall back to the time of the walk-around
+  const capturedAt = evidence?.capturedAt ?? walkAroundTime;
+  return { photoId, phase, section, capturedAt, sha256: evidence?.sha256, damageNumber, note };
+}
+
+// Pickup damage that is the claimed damage (lib/damageClaim.ts isClaimedDamage)
+function matchingDamages(evidence: ClaimItemEvidence): DamageRecord[] {
+  const { item, pickupDamages } = evidence;
+  return pickupDamages.filter(record => isClaimedDamage(item, record));
+}
+
+/**
+ * What repairing severe damage of the claimed kind typically costs on that
+ * panel. Without a damage type, the most expensive type is assumed.
+ */
+function severeRepairCost(
+  evidence: ClaimItemEvidence,
+  vehicleType: VehicleType,
+  table: RepairPriceTable
+): { cost: CostRange; panelLabel: string } {
+  const { item } = evidence;
+  const section = evidence.pickupSection?.section || '';
+  const claimedType = claimedDamageType(item);
+  const types: readonly DamageType[] = claimedType ? [claimedType] : DAMAGE_TYPES;
+  const estimates = types.map(type => estimateDamageCost(
+    { id: item.id, type, severity: 'severe', location: `${item.location || ''} ${item.description}`, source: 'user' },
+    section,
+    vehicleType,
+    table
+  ));
+  const highest = estimates.reduce((max, estimate) => (estimate.cost.high > max.cost.high ? estimate : max));
+  return { cost: highest.cost, panelLabel: REPAIR_PANEL_LABELS[highest.panel].toLowerCase() };
+}
+
+/**
+ * Verdict and photo citations for every claimed item
+ */
+export function rebutClaim(
+  claim: DamageClaim,
+  historyItem: Pick<HistoryItem, 'createdAt' | 'afterCreatedAt' | 'sectionPhotos' | 'afterSectionPhotos' | 'returnComparison' | 'walkAroundPlan'>,
+  table: RepairPriceTable
+): ClaimRebuttal {
+  const vehicleType = historyItem.walkAroundPlan?.vehicleType ?? DEFAULT_VEHICLE_TYPE;
+  const numbered = damageSectionPhotos(historyItem.sectionPhotos);
+  const sectionNumber = (section: VehicleSectionPhoto) => numbered.indexOf(section) + 1;
+
+  // Amounts can only be compared when the claim is in the price table's currency
+  const comparesAmounts = !claim.currency || claim.currency === table.currency;
+
+  const contestAmount = (evidence: ClaimItemEvidence, citations: PhotoCitation[]): ClaimItemRebuttal | undefined => {
+    const { item } = evidence;
+    if (!comparesAmounts || item.amount === undefined) return undefined;
+    const { cost, panelLabel } = severeRepairCost(evidence, vehicleType, table);
+    if (item.amount <= cost.high) return undefined;
+    return {
+      ...evidence,
+      verdict: 'contestedAmount',
+      reason: `The claimed ${formatClaimAmount(item.amount, claim)} is above the typical ${formatCostRange(cost, table.currency)} to repair even severe ${claimedDamageType(item) || 'damage'} on a ${panelLabel} of this vehicle class.`,
+      citations,
+      typicalCost: cost,
+    };
+  };
+
+  const items = matchClaimEvidence(claim, historyItem).map((evidence): ClaimItemRebuttal => {
+    const { item, pickupSection, pickupDamages, returnSection, returnComparison } = evidence;
+    if (!pickupSection) {
+      return contestAmount(evidence, []) ?? {
+        ...evidence,
+        verdict: 'notDocumented',
+        reason: 'No inspection photo covers this part of the vehicle.',
+        citations: [],
+      };
+    }
+
+    const number = sectionNumber(pickupSection);
+    const citations: PhotoCitation[] = [];
+
+    const preExisting = matchingDamages(evidence);
+    const newDamageAtReturn = !!returnComparison && !returnComparison.error && returnComparison.newDamage.length > 0;
+    preExisting.forEach(record => citations.push(citation(
+      pickupPhotoId(number),
+      'pickup',
+      pickupSection.section,
+      pickupSection.evidence,
+      historyItem.createdAt,
+      `Recorded at pickup: ${formatDamageRecord(record)}`,
+      pickupDamages.indexOf(record) + 1
+    )));
+    // New damage on the section at return may be what is claimed, so it is not called pre-existing
+    if (preExisting.length > 0 && !newDamageAtReturn) {
+      return {
+        ...evidence,
+        verdict: 'preExisting',
+        reason: `The damage was already present at pickup and is documented on photo ${pickupPhotoId(number)}.`,
+        citations,
+      };
+    }
+
+    if (preExisting.length === 0) {
+      const type = claimedDamageType(item);
+      citations.push(citation(
+        pickupPhotoId(number),
+        'pickup',
+        pickupSection.section,
+        pickupSection.evidence,
+        historyItem.createdAt,
+        pickupDamages.length > 0
+          ? `Damage recorded at pickup, none of it ${type ? `a ${type}` : 'matching'}: ${pickupDamages.map(formatDamageRecord).join('; ')}`
+          : 'No damage recorded at pickup'
+      ));
+    }
+    const noNewDamageAtReturn = returnComparison && !returnComparison.error && returnComparison.newDamage.length === 0;
+    if (returnSection) {
+      citations.push(citation(
+        returnPhotoId(number),
+        'return',
+        returnSection.section,
+        returnSection.evidence,
+        historyItem.afterCreatedAt,
+        !returnComparison || returnComparison.error
+          ? 'Photo at return'
+          : noNewDamageAtReturn
+            ? 'No new damage found at return'
+            : `New at return: ${returnComparison.newDamage.join('; ')}`
+      ));
+    }
+
+    return contestAmount(evidence, citations) ?? {
+      ...evidence,
+      verdict: 'notDocumented',
+      reason: newDamageAtReturn
+        ? `${preExisting.length > 0 ? `Similar damage was recorded at pickup on photo ${pickupPhotoId(number)}, but` : 'Not recorded at pickup, and'} the return comparison found new damage on this section${returnSection ? ` (photo ${returnPhotoId(number)})` : ''}.`
+        : noNewDamageAtReturn
+          ? `Not recorded at pickup, and the return photo ${returnPhotoId(number)} shows no new damage on this section.`
+          : 'Not recorded at pickup.',
+      citations,
+    };
+  });
+
+  const disputedAmount = items.reduce((sum, rebuttal) => {
+    const amount = rebuttal.item.amount ?? 0;
+    if (rebuttal.verdict === 'preExisting') return sum + amount;
+    if (rebuttal.verdict === 'contestedAmount' && rebuttal.typicalCost) return sum + amount - rebuttal.typicalCost.high;
+    return sum;
+  }, 0);
+
+  return { claim, items, disputedAmount };
+}
+
+/**
+ * "Photo P3 (Rear, pickup, captured 2026-10-01T10:32:00.000Z, SHA-256 3f2a...): damage #1 - Recorded at pickup: ..."
+ */
+export function formatCitation(citation: PhotoCitation): string {
+  const details = [citation.section, citation.phase];
+  if (citation.capturedAt) details.push(`captured ${new Date(citation.capturedAt).toISOString()}`);
+  if (citation.sha256) details.push(`SHA-256 ${citation.sha256.substring(0, 16)}...`);
+  const marker = citation.damageNumber ? `damage #${citation.damageNumber} - ` : '';
+  return `Photo ${citation.photoId} (${details.join(', ')}): ${marker}${citation.note}`;
+}
+
+/**
+ * "3 claimed items: 1 pre-existing, 1 contested amount, 1 not documented at pickup. Disputed: €1,540"
+ */
+export function rebuttalSummary(rebuttal: ClaimRebuttal): string {
+  const count = rebuttal.items.length;
+  const counts = CLAIM_VERDICTS
+    .map(verdict => ({ verdict, count: rebuttal.items.filter(item => item.verdict === verdict).length }))
+    .filter(entry => entry.count > 0)
+    .map(entry => `${entry.count} ${CLAIM_VERDICT_LABELS[entry.verdict].toLowerCase()}`);
+  const breakdown = counts.length > 0 ? `: ${counts.join(', ')}` : '';
+  return `${count} claimed item${count === 1 ? '' : 's'}${breakdown}. Disputed: ${formatClaimAmount(rebuttal.disputedAmount, rebuttal.claim)}`;
+}
+
+/**
+ * Verdict, reason and citations per claimed item, for prompts and letters
+ */
+export function rebuttalLines(rebuttal: ClaimRebuttal): string[] {
+  return rebuttal.items.flatMap((entry, index) => [
+    `Item ${index + 1}: ${entry.item.description} (${formatClaimAmount(entry.item.amount, rebuttal.claim)}) - ${CLAIM_VERDICT_LABELS[entry.verdict].toUpperCase()}. ${entry.reason}`,
+    ...entry.citations.map(cited => `  ${formatCitation(cited)}`),
+  ]);
+}
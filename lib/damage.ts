@@ -0,0 +1,161 @@
+/**
+ * Structured damage model
+ *
+ * Each section photo carries a list of DamageRecords (type, severity,
+ * location, estimated size and an optional bounding box on the photo).
+ * The free-text damageNotes / allDamageNotes are kept as human readable
+ * summaries derived from these records.
+ */
+
+import * as z from 'zod';
+import type { VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { damageSectionPhotos } from '@/lib/vehicleIdentity';
+
+export const DAMAGE_TYPES = ['scratch', 'dent', 'chip', 'crack', 'scuff'] as const;
+export type DamageType = typeof DAMAGE_TYPES[number];
+
+export const DAMAGE_SEVERITIES = ['minor', 'moderate', 'severe'] as const;
+export type DamageSeverity = typeof DAMAGE_SEVERITIES[number];
+
+/**
+ * Region of the photo containing the damage.
+ * Normalized to 0-1 of the photo's width/height, origin top-left.
+ */
+export interface DamageBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DamageRecord {
+  id: string;
+  type: DamageType;
+  severity: DamageSeverity;
+  location: string; // Where on the section, e.g. "lower left corner of bumper"
+  estimatedSizeCm?: number; // Longest dimension
+  boundingBox?: DamageBoundingBox;
+  source: 'ai' | 'user';
+}
+
+export const DamageBoundingBoxSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  })
+  .transform(box => ({
+    ...box,
+    // Keep the box inside the photo
+    width: Math.min(box.width, 1 - box.x),
+    height: Math.min(box.height, 1 - box.y),
+  }));
+
+export const DamageRecordSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(DAMAGE_TYPES),
+  severity: z.enum(DAMAGE_SEVERITIES),
+  location: z.string(),
+  estimatedSizeCm: z.number().positive().optional(),
+  boundingBox: DamageBoundingBoxSchema.optional(),
+  source: z.enum(['ai', 'user']),
+});
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  scratch: 'Scratch',
+  dent: 'Dent',
+  chip: 'Chip',
+  crack: 'Crack',
+  scuff: 'Scuff',
+};
+
+export const DAMAGE_SEVERITY_LABELS: Record<DamageSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+// Marker / indicator colors per severity (app screens)
+export const DAMAGE_SEVERITY_COLORS: Record<DamageSeverity, string> = {
+  minor: '#7AB8CC',
+  moderate: '#FFD700',
+  severe: '#FF6B6B',
+};
+
+export function createDamageId(): string {
+  return `dmg-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Move a bounding box by a normalized offset, keeping it inside the photo
+ */
+export function moveBoundingBox(box: DamageBoundingBox, dx: number, dy: number): DamageBoundingBox {
+  return {
+    ...box,
+    x: Math.min(Math.max(box.x + dx, 0), 1 - box.width),
+    y: Math.min(Math.max(box.y + dy, 0), 1 - box.height),
+  };
+}
+
+/**
+ * Validate damage records coming from storage or the server.
+ * Invalid entries are dropped rather than failing the whole inspection.
+ */
+export function normalizeDamageRecords(value: unknown): DamageRecord[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    const result = DamageRecordSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * One line description, e.g. "Moderate scratch - lower left of bumper (~5 cm)"
+ */
+export function formatDamageRecord(record: DamageRecord): string {
+  const size = record.estimatedSizeCm ? ` (~${Math.round(record.estimatedSizeCm * 10) / 10} cm)` : '';
+  const location = record.location ? ` - ${record.location}` : '';
+  return `${DAMAGE_SEVERITY_LABELS[record.severity]} ${record.type}${location}${size}`;
+}
+
+/**
+ * Damage text for a section: the structured records when present,
+ * otherwise the section's free-text notes (older inspections)
+ */
+export function formatSectionDamage(sectionPhoto: VehicleSectionPhoto): string {
+  const records = sectionPhoto.damages || [];
+  if (records.length === 0) {
+    return sectionPhoto.damageNotes || 'No visible damage recorded.';
+  }
+  return records.map(formatDamageRecord).join('; ');
+}
+
+const ADDITIONAL_NOTES_PREFIX = 'Additional notes: ';
+
+/**
+ * Combined damage summary stored as allDamageNotes
+ */
+export function buildDamageSummary(sectionPhotos: VehicleSectionPhoto[], extraNotes?: string): string {
+  const lines = damageSectionPhotos(sectionPhotos).map(sp => `${sp.section}: ${formatSectionDamage(sp)}`);
+  if (extraNotes?.trim()) {
+    lines.push(`${ADDITIONAL_NOTES_PREFIX}${extraNotes.trim()}`);
+  }
+  return lines.length > 0 ? lines.join('\n\n') : 'No damage documented';
+}
+
+/**
+ * The user's additional notes from a summary built by buildDamageSummary,
+ * so the summary can be rebuilt when section damage changes
+ */
+export function extractAdditionalNotes(allDamageNotes: string): string | undefined {
+  const index = allDamageNotes.lastIndexOf(ADDITIONAL_NOTES_PREFIX);
+  return index >= 0 ? allDamageNotes.substring(index + ADDITIONAL_NOTES_PREFIX.length) : undefined;
+}
+
+/**
+ * All damage records of an inspection with their section
+ */
+export function listDamageRecords(sectionPhotos: VehicleSectionPhoto[]): { section: string; record: DamageRecord }[] {
+  return sectionPhotos.flatMap(sp => (sp.damages || []).map(record => ({ section: sp.section, record })));
+}
@@ -0,0 +1,226 @@
+/**
+ * Rental company damage claims
+ *
+ * Structured form of the claim documents the rental company sends after a
+ * rental (damage invoice, repair estimate, demand letter): the claim number
+ * and dates, each claimed damage item with its location and amount, and the
+ * fees added on top (loss of use, admin, diminished value...).
+ *
+ * Claimed items are matched to the inspection sections they refer to, so the
+ * dispute flow can show each claimed item next to the pickup evidence.
+ */
+
+import type { AfterSectionPhoto, SectionComparison, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { DAMAGE_TYPES, DamageRecord, DamageType } from '@/lib/damage';
+import { formatCost } from '@/lib/repairCost';
+import { damageSectionPhotos } from '@/lib/vehicleIdentity';
+
+export const CLAIM_FEE_TYPES = ['lossOfUse', 'admin', 'diminishedValue', 'towing', 'storage', 'appraisal', 'other'] as const;
+export type ClaimFeeType = typeof CLAIM_FEE_TYPES[number];
+
+export const CLAIM_FEE_LABELS: Record<ClaimFeeType, string> = {
+  lossOfUse: 'Loss of use',
+  admin: 'Administrative fee',
+  diminishedValue: 'Diminished value',
+  towing: 'Towing',
+  storage: 'Storage',
+  appraisal: 'Appraisal fee',
+  other: 'Other fee',
+};
+
+export interface ClaimedDamageItem {
+  id: string;
+  description: string; // As worded on the claim, e.g. "Replace rear bumper cover"
+  location?: string; // Part of the vehicle, e.g. "rear bumper"
+  damageType?: DamageType;
+  amount?: number;
+}
+
+export interface ClaimFee {
+  type: ClaimFeeType;
+  description?: string; // As worded on the claim when it differs from the label
+  amount?: number;
+}
+
+export interface DamageClaim {
+  claimNumber?: string;
+  company?: string;
+  claimDate?: string; // Date of the claim letter / invoice, as printed
+  incidentDate?: string; // Date the damage supposedly happened, as printed
+  responseDeadline?: string; // Pay-by / respond-by date, as printed
+  currency?: string; // ISO 4217 code
+  items: ClaimedDamageItem[];
+  fees: ClaimFee[];
+  totalAmount?: number; // Total stated on the claim
+  documentNames: string[]; // Files the claim was read from
+}
+
+/**
+ * The inspection evidence for one claimed item
+ */
+export interface ClaimItemEvidence {
+  item: ClaimedDamageItem;
+  pickupSection?: VehicleSectionPhoto; // Section the claimed location is on
+  pickupDamages: DamageRecord[]; // Damage already recorded on that section at pickup
+  returnSection?: AfterSectionPhoto;
+  returnComparison?: SectionComparison;
+}
+
+export function createClaimItemId(): string {
+  return `claim-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Total stated on the claim, otherwise the sum of the items and fees
+ */
+export function claimTotal(claim: DamageClaim): number {
+  if (claim.totalAmount !== undefined) return claim.totalAmount;
+  return [...claim.items, ...claim.fees].reduce((sum, entry) => sum + (entry.amount ?? 0), 0);
+}
+
+export function formatClaimAmount(amount: number | undefined, claim: DamageClaim): string {
+  return amount === undefined ? 'amount not stated' : formatCost(amount, claim.currency || 'USD');
+}
+
+export function claimFeeLabel(fee: ClaimFee): string {
+  return fee.description || CLAIM_FEE_LABELS[fee.type];
+}
+
+// Words that say nothing about where on the vehicle the damage is
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'replace', 'replacement', 'repair', 'repaint', 'paint', 'refinish',
+  'damage', 'damaged', 'labor', 'labour', 'parts', 'part', 'vehicle', 'car', 'panel', 'side',
+]);
+
+// Claims and section names word sides differently
+const WORD_ALIASES: Record<string, string> = {
+  driver: 'left',
+  drivers: 'left',
+  lh: 'left',
+  passenger: 'right',
+  passengers: 'right',
+  rh: 'right',
+  rear: 'back',
+  tailgate: 'back',
+  trunk: 'back',
+  boot: 'back',
+  bonnet: 'hood',
+  windscreen: 'windshield',
+  tyre: 'tire',
+  tyres: 'tire',
+  tires: 'tire',
+  wheels: 'wheel',
+  doors: 'door',
+  bumpers: 'bumper',
+};
+
+function locationWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .map(word => WORD_ALIASES[word] ?? word)
+      .filter(word => word.length >= 2 && !STOP_WORDS.has(word))
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  a.forEach(word => {
+    if (b.has(word)) count++;
+  });
+  return count;
+}
+
+/**
+ * Damage type of a claimed item: the one extracted, else one its description
+ * names ("Dented rear bumper"). Undefined when neither says.
+ */
+export function claimedDamageType(item: ClaimedDamageItem): DamageType | undefined {
+  if (item.damageType) return item.damageType;
+  const words = `${item.location || ''} ${item.description}`.toLowerCase().split(/[^a-z]+/);
+  return DAMAGE_TYPES.find(type => words.some(word => word.startsWith(type)));
+}
+
+/**
+ * Whether damage recorded at pickup is the damage claimed: the same type when
+ * the claim names one, otherwise a location word in common
+ */
+export function isClaimedDamage(item: ClaimedDamageItem, record: DamageRecord): boolean {
+  const type = claimedDamageType(item);
+  if (type) return record.type === type;
+  return overlap(locationWords(`${item.location || ''} ${item.description}`), locationWords(record.location)) > 0;
+}
+
+/**
+ * Pickup section a claimed item most likely refers to: the one sharing the
+ * most location words with the item (section name counts double over the
+ * locations of its recorded damage). Undefined when nothing matches.
+ */
+export function matchClaimSection(
+  item: ClaimedDamageItem,
+  sectionPhotos: VehicleSectionPhoto[]
+): VehicleSectionPhoto | undefined {
+  const itemWords = locationWords(`${item.location || ''} ${item.description}`);
+  let best: { section: VehicleSectionPhoto; score: number } | undefined;
+
+  damageSectionPhotos(sectionPhotos).forEach(section => {
+    const damageWords = locationWords((section.damages || []).map(record => record.location).join(' '));
+    const score = overlap(itemWords, locationWords(section.section)) * 2 + overlap(itemWords, damageWords);
+    if (score > 0 && (!best || score > best.score)) best = { section, score };
+  });
+
+  return best?.section;
+}
+
+/**
+ * Each claimed item with the matching pickup section, its recorded damage
+ * and the same section at return
+ */
+export function matchClaimEvidence(
+  claim: DamageClaim,
+  inspection: {
+    sectionPhotos: VehicleSectionPhoto[];
+    afterSectionPhotos?: AfterSectionPhoto[];
+    returnComparison?: SectionComparison[];
+  }
+): ClaimItemEvidence[] {
+  return claim.items.map(item => {
+    const pickupSection = matchClaimSection(item, inspection.sectionPhotos);
+    const sectionName = pickupSection?.section;
+    return {
+      item,
+      pickupSection,
+      pickupDamages: pickupSection?.damages || [],
+      returnSection: sectionName ? inspection.afterSectionPhotos?.find(photo => photo.section === sectionName) : undefined,
+      returnComparison: sectionName ? inspection.returnComparison?.find(comparison => comparison.section === sectionName) : undefined,
+    };
+  });
+}
+
+/**
+ * Claim header fields, e.g. "Claim number: 12345", for prompts and reports
+ */
+export function claimDetailLines(claim: DamageClaim): string[] {
+  const lines: string[] = [];
+  if (claim.company) lines.push(`Claimant: ${claim.company}`);
+  if (claim.claimNumber) lines.push(`Claim number: ${claim.claimNumber}`);
+  if (claim.claimDate) lines.push(`Claim date: ${claim.claimDate}`);
+  if (claim.incidentDate) lines.push(`Alleged incident date: ${claim.incidentDate}`);
+  if (claim.responseDeadline) lines.push(`Respond / pay by: ${claim.responseDeadline}`);
+  lines.push(`Total claimed: ${formatClaimAmount(claimTotal(claim), claim)}`);
+  return lines;
+}
+
+/**
+ * One line per claimed item and fee, e.g. "Item 1: Replace rear bumper cover (rear bumper): $1,240"
+ */
+export function claimItemLines(claim: DamageClaim): string[] {
+  return [
+    ...claim.items.map((item, index) => {
+      const location = item.location ? ` (${item.location})` : '';
+      return `Item ${index + 1}: ${item.description}${location}: ${formatClaimAmount(item.amount, claim)}`;
+    }),
+    ...claim.fees.map(fee => `Fee - ${claimFeeLabel(fee)}: ${formatClaimAmount(fee.amount, claim)}`),
+  ];
+}
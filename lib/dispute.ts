@@ -0,0 +1,195 @@
+/**
+ * Dispute cases
+ *
+ * A dispute with the rental company over a damage claim, kept on the
+ * inspection it concerns: where it stands, the response deadline, how it
+ * ended (amount paid / waived) and a log of every letter, email and call
+ * with the documents exchanged.
+ *
+ * Status flow: claimReceived -> responseSent -> awaitingReply -> (escalated) -> resolved.
+ * Escalation is a credit card chargeback or a small claims filing.
+ */
+
+import type { DamageClaim } from '@/lib/damageClaim';
+
+export const DISPUTE_STATUSES = ['claimReceived', 'responseSent', 'awaitingReply', 'escalated', 'resolved'] as const;
+export type DisputeStatus = typeof DISPUTE_STATUSES[number];
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  claimReceived: 'Claim received',
+  responseSent: 'Response sent',
+  awaitingReply: 'Awaiting reply',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+};
+
+// Badge colors per status (app screens)
+export const DISPUTE_STATUS_COLORS: Record<DisputeStatus, string> = {
+  claimReceived: '#FF6B6B',
+  responseSent: '#7AB8CC',
+  awaitingReply: '#7AB8CC',
+  escalated: '#FFD700',
+  resolved: '#4A90A4',
+};
+
+export const ESCALATION_ROUTES = ['chargeback', 'smallClaims'] as const;
+export type EscalationRoute = typeof ESCALATION_ROUTES[number];
+
+export const ESCALATION_ROUTE_LABELS: Record<EscalationRoute, string> = {
+  chargeback: 'Credit card chargeback',
+  smallClaims: 'Small claims court',
+};
+
+export type CorrespondenceDirection = 'received' | 'sent';
+
+export interface DisputeAttachment {
+  uri: string; // Copy kept in the app's documents (stays on the device)
+  name: string;
+  mimeType?: string;
+}
+
+export interface CorrespondenceEntry {
+  id: string;
+  date: number;
+  direction: CorrespondenceDirection;
+  summary: string; // e.g. "Damage invoice by email", "Counter-claim letter"
+  attachments: DisputeAttachment[];
+}
+
+export interface DisputeCase {
+  id: string;
+  status: DisputeStatus;
+  openedAt: number;
+  updatedAt: number;
+  claim?: DamageClaim; // Claim read from the rental company's documents (lib/damageClaim.ts)
+  responseDeadline?: number; // Timestamp of the end of the day the response is due
+  escalation?: EscalationRoute; // Set while / after the dispute is escalated
+  amountPaid?: number; // Once resolved, in the claim's currency
+  amountWaived?: number;
+  correspondence: CorrespondenceEntry[]; // Oldest first
+}
+
+// Days before the response deadline to remind the renter
+export const DEADLINE_REMINDER_DAYS = [3, 1] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Local end of the day of a "YYYY-MM-DD" or otherwise parseable date, undefined when unreadable
+ */
+export function parseDeadline(text: string | undefined): number | undefined {
+  if (!text?.trim()) return undefined;
+  const isoDate = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = isoDate
+    ? new Date(parseInt(isoDate[1]), parseInt(isoDate[2]) - 1, parseInt(isoDate[3]))
+    : new Date(text);
+  if (isNaN(date.getTime())) return undefined;
+  date.setHours(23, 59, 0, 0);
+  return date.getTime();
+}
+
+export function formatDeadlineInput(deadline: number | undefined): string {
+  if (!deadline) return '';
+  const date = new Date(deadline);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * New dispute for a claim; the claim's respond-by date becomes the deadline when readable
+ */
+export function createDispute(claim: DamageClaim | undefined, now = Date.now()): DisputeCase {
+  return {
+    id: createId('dispute'),
+    status: 'claimReceived',
+    openedAt: now,
+    updatedAt: now,
+    claim,
+    responseDeadline: parseDeadline(claim?.responseDeadline),
+    correspondence: [],
+  };
+}
+
+export function isDisputeOpen(dispute: DisputeCase | undefined): boolean {
+  return !!dispute && dispute.status !== 'resolved';
+}
+
+/**
+ * Move the dispute to a new status. Leaving `escalated` keeps the route for the record.
+ */
+export function setDisputeStatus(
+  dispute: DisputeCase,
+  status: DisputeStatus,
+  escalation?: EscalationRoute,
+  now = Date.now()
+): DisputeCase {
+  return {
+    ...dispute,
+    status,
+    escalation: status === 'escalated' ? escalation ?? dispute.escalation ?? 'chargeback' : dispute.escalation,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Log a letter / email / call. Sending the first response moves a new claim to `responseSent`.
+ */
+export function addCorrespondence(
+  dispute: DisputeCase,
+  entry: Omit<CorrespondenceEntry, 'id'>,
+  now = Date.now()
+): DisputeCase {
+  const correspondence = [...dispute.correspondence, { ...entry, id: createId('mail') }]
+    .sort((a, b) => a.date - b.date);
+  const status = entry.direction === 'sent' && dispute.status === 'claimReceived' ? 'responseSent' : dispute.status;
+  return { ...dispute, correspondence, status, updatedAt: now };
+}
+
+export function removeCorrespondence(dispute: DisputeCase, entryId: string, now = Date.now()): DisputeCase {
+  return {
+    ...dispute,
+    correspondence: dispute.correspondence.filter(entry => entry.id !== entryId),
+    updatedAt: now,
+  };
+}
+
+/**
+ * When to remind the renter of the response deadline: DEADLINE_REMINDER_DAYS before it,
+ * only while the response is still outstanding and only times in the future
+ */
+export function deadlineReminderTimes(dispute: DisputeCase, now = Date.now()): number[] {
+  const deadline = dispute.responseDeadline;
+  if (!deadline || dispute.status !== 'claimReceived') return [];
+  return DEADLINE_REMINDER_DAYS
+    .map(days => deadline - days * DAY_MS)
+    .filter(time => time > now);
+}
+
+/**
+ * "Due in 3 days", "Due today", "Overdue by 2 days" - '' without a deadline
+ */
+export function describeDeadline(deadline: number | undefined, now = Date.now()): string {
+  if (!deadline) return '';
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const startOfDeadline = new Date(deadline);
+  startOfDeadline.setHours(0, 0, 0, 0);
+  const days = Math.round((startOfDeadline.getTime() - startOfToday.getTime()) / DAY_MS);
+  if (days === 0) return deadline < now ? 'Overdue' : 'Due today';
+  if (days > 0) return `Due in ${days} day${days === 1 ? '' : 's'}`;
+  return `Overdue by ${-days} day${days === -1 ? '' : 's'}`;
+}
+
+/**
+ * "Escalated (Credit card chargeback)", "Resolved" ...
+ */
+export function describeDisputeStatus(dispute: DisputeCase): string {
+  const label = DISPUTE_STATUS_LABELS[dispute.status];
+  return dispute.status === 'escalated' && dispute.escalation
+    ? `${label} (${ESCALATION_ROUTE_LABELS[dispute.escalation]})`
+    : label;
+}
@@ -0,0 +1,300 @@
+/**
+ * Photo evidence chain
+ *
+ * Every photo gets a PhotoEvidence record when it is captured: SHA-256 of the
+ * image bytes, capture time, device and (when permitted) a GPS fix. When an
+ * inspection is saved, the records are chained into an EvidenceManifest:
+ * each entry hashes its own content together with the previous entry's hash,
+ * so changing, removing or reordering any photo breaks every later hash.
+ *
+ * The device signs the manifest hash with its own Ed25519 key; the backend
+ * then countersigns it with a server timestamp and issues the verification
+ * code printed on the PDF report. The return manifest starts from the pickup
+ * manifest's head hash, so both walk-arounds form one chain.
+ *
+ * Pure module (no React Native imports): backend/evidence.ts verifies and countersigns
+ * manifests with the same hashing.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { StoredPhotoKind } from '@/lib/historyRecords';
+
+export const EVIDENCE_MANIFEST_VERSION = 1;
+
+// previousHash of the first entry of a chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface EvidenceDevice {
+  platform: string; // ios | android | web
+  osVersion?: string;
+  model?: string;
+  appVersion?: string;
+}
+
+export interface EvidenceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Meters
+}
+
+export interface PhotoEvidence {
+  sha256: string; // Hex SHA-256 of the image bytes as captured
+  capturedAt: number;
+  utcOffsetMinutes?: number; // UTC offset of the capturing device, e.g. 120 for UTC+02:00
+  device: EvidenceDevice;
+  location?: EvidenceLocation;
+}
+
+export type EvidencePhase = 'pickup' | 'return';
+
+export interface EvidenceEntry {
+  index: number;
+  kind: StoredPhotoKind;
+  section?: string; // Section name for section photos
+  evidence: PhotoEvidence;
+  previousHash: string;
+  hash: string; // SHA-256 of the entry (without `hash`), see hashEvidenceEntry
+}
+
+export interface EvidenceCountersignature {
+  serverTimestamp: number;
+  publicKey: string; // Hex Ed25519 public key of the server
+  signature: string; // Hex signature over countersignaturePayload()
+  verificationCode: string;
+}
+
+export interface EvidenceManifest {
+  version: number;
+  inspectionId: string;
+  phase: EvidencePhase;
+  createdAt: number;
+  previousManifestHash?: string; // Return manifest: hash of the pickup manifest
+  entries: EvidenceEntry[];
+  headHash: string; // Hash of the last entry
+  devicePublicKey: string; // Hex Ed25519 public key of the capturing device
+  deviceSignature: string; // Hex signature over evidenceManifestHash()
+  countersignature?: EvidenceCountersignature;
+}
+
+export interface EvidencePhoto {
+  kind: StoredPhotoKind;
+  section?: string;
+  evidence: PhotoEvidence;
+}
+
+/**
+ * JSON with object keys sorted, so the same content always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export function sha256Hex(data: Uint8Array | string): string {
+  return bytesToHex(sha256(typeof data === 'string' ? utf8ToBytes(data) : data));
+}
+
+export function hashEvidenceEntry(entry: Omit<EvidenceEntry, 'hash'>): string {
+  const { index, kind, section, evidence, previousHash } = entry;
+  return sha256Hex(canonicalJson({ index, kind, section, evidence, previousHash }));
+}
+
+/**
+ * Chain photo evidence records, starting after `previousHash`
+ */
+export function buildEvidenceEntries(photos: EvidencePhoto[], previousHash = GENESIS_HASH): EvidenceEntry[] {
+  const entries: EvidenceEntry[] = [];
+  photos.forEach((photo, index) => {
+    const unhashed = {
+      index,
+      kind: photo.kind,
+      section: photo.section,
+      evidence: photo.evidence,
+      previousHash: entries.length > 0 ? entries[entries.length - 1].hash : previousHash,
+    };
+    entries.push({ ...unhashed, hash: hashEvidenceEntry(unhashed) });
+  });
+  return entries;
+}
+
+/**
+ * Hash of the manifest content (everything except the signatures)
+ */
+export function evidenceManifestHash(manifest: EvidenceManifest): string {
+  const { deviceSignature: _deviceSignature, countersignature: _countersignature, ...content } = manifest;
+  return sha256Hex(canonicalJson(content));
+}
+
+/**
+ * What the server signs: the manifest hash, the device signature and the server time
+ */
+export function countersignaturePayload(manifestHash: string, deviceSignature: string, serverTimestamp: number): string {
+  return canonicalJson({ manifestHash, deviceSignature, serverTimestamp });
+}
+
+export function signEvidence(message: string, privateKeyHex: string): string {
+  return bytesToHex(ed25519.sign(utf8ToBytes(message), hexToBytes(privateKeyHex)));
+}
+
+export function verifyEvidenceSignature(message: string, signatureHex: string, publicKeyHex: string): boolean {
+  try {
+    return ed25519.verify(hexToBytes(signatureHex), utf8ToBytes(message), hexToBytes(publicKeyHex));
+  } catch {
+    return false;
+  }
+}
+
+export function evidencePublicKey(privateKeyHex: string): string {
+  return bytesToHex(ed25519.getPublicKey(hexToBytes(privateKeyHex)));
+}
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Short code derived from the server signature, e.g. "7K2M-9QXD-4HRT-B1WE".
+ * Printed on the report and used to look the manifest up.
+ */
+export function verificationCodeFor(signatureHex: string): string {
+  const digest = sha256(hexToBytes(signatureHex));
+  let bits = 0;
+  let value = 0;
+  let code = '';
+  for (let i = 0; code.length < 16; i++) {
+    value = ((value << 8) | digest[i]) & 0xffff;
+    bits += 8;
+    while (bits >= 5 && code.length < 16) {
+      code += CROCKFORD_BASE32[(value >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return code.match(/.{4}/g)!.join('-');
+}
+
+/**
+ * Normalize a typed-in code (case, separators, easily confused letters)
+ */
+export function normalizeVerificationCode(code: string): string {
+  const clean = code.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  return clean.length === 16 ? clean.match(/.{4}/g)!.join('-') : clean;
+}
+
+export interface EvidenceVerification {
+  chainValid: boolean;
+  deviceSignatureValid: boolean;
+  countersignatureValid: boolean | null; // null when not countersigned
+  errors: string[];
+}
+
+/**
+ * Check the hash chain and both signatures of a manifest.
+ * `previousHeadHash` is the pickup manifest's head hash when checking a return manifest.
+ */
+export function verifyEvidenceManifest(manifest: EvidenceManifest, previousHeadHash?: string): EvidenceVerification {
+  const errors: string[] = [];
+
+  // A pickup chain starts from the genesis hash, a return chain from the pickup head
+  let expectedPrevious = manifest.phase === 'pickup'
+    ? GENESIS_HASH
+    : previousHeadHash ?? manifest.entries[0]?.previousHash ?? GENESIS_HASH;
+  manifest.entries.forEach((entry, index) => {
+    if (entry.index !== index) {
+      errors.push(`Entry ${index} is out of order`);
+    }
+    if (entry.previousHash !== expectedPrevious) {
+      errors.push(`Entry ${index} does not follow the previous entry`);
+    }
+    if (hashEvidenceEntry(entry) !== entry.hash) {
+      errors.push(`Entry ${index} (${entry.section || entry.kind}) was modified`);
+    }
+    expectedPrevious = entry.hash;
+  });
+  if (manifest.headHash !== expectedPrevious) {
+    errors.push('Head hash does not match the last entry');
+  }
+  const chainValid = errors.length === 0;
+
+  const manifestHash = evidenceManifestHash(manifest);
+  const deviceSignatureValid = verifyEvidenceSignature(manifestHash, manifest.deviceSignature, manifest.devicePublicKey);
+  if (!deviceSignatureValid) {
+    errors.push('Device signature is invalid');
+  }
+
+  let countersignatureValid: boolean | null = null;
+  const countersignature = manifest.countersignature;
+  if (countersignature) {
+    countersignatureValid =
+      verifyEvidenceSignature(
+        countersignaturePayload(manifestHash, manifest.deviceSignature, countersignature.serverTimestamp),
+        countersignature.signature,
+        countersignature.publicKey
+      ) && verificationCodeFor(countersignature.signature) === countersignature.verificationCode;
+    if (!countersignatureValid) {
+      errors.push('Server countersignature is invalid');
+    }
+  }
+
+  return { chainValid, deviceSignatureValid, countersignatureValid, errors };
+}
+
+/**
+ * Photo of a registered manifest as published by the verification endpoint.
+ * GPS coordinates and device model are left out; the report holder has them.
+ */
+export interface PublishedEvidencePhoto {
+  index: number;
+  kind: StoredPhotoKind;
+  section?: string;
+  sha256: string;
+  capturedAt: number;
+  hasLocation: boolean;
+  platform: string;
+}
+
+/**
+ * What GET /api/rental-car/verify/:code returns for a registered manifest
+ */
+export interface PublishedEvidenceRecord {
+  verificationCode: string;
+  inspectionId: string;
+  phase: EvidencePhase;
+  createdAt: number;
+  serverTimestamp: number;
+  manifestHash: string;
+  headHash: string;
+  previousManifestHash?: string;
+  devicePublicKey: string;
+  checks: {
+    chainValid: boolean;
+    deviceSignatureValid: boolean;
+    countersignatureValid: boolean;
+    serverKeyMatches: boolean | null; // null when the server key is not configured
+    linkedToPickup: boolean | null; // Return manifests only
+  };
+  valid: boolean;
+  errors: string[];
+  photos: PublishedEvidencePhoto[];
+}
+
+/**
+ * Entry recording a photo with the given SHA-256, if any
+ */
+export function findEvidenceEntry(manifest: EvidenceManifest, photoSha256: string): EvidenceEntry | undefined {
+  const hash = photoSha256.toLowerCase();
+  return manifest.entries.find(entry => entry.evidence.sha256 === hash);
+}
+
+export function formatEvidenceLocation(location: EvidenceLocation): string {
+  const accuracy = location.accuracy !== undefined ? ` (±${Math.round(location.accuracy)} m)` : '';
+  return `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}${accuracy}`;
+}
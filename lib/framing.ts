@@ -0,0 +1,62 @@
+/**
+ * Section framing
+ *
+ * Which part of the car a walk-around section shows, for the camera
+ * overlay (a car silhouette with that part highlighted) and for how much
+ * of the frame the car should fill in the capture quality check
+ * (lib/photoQuality.ts). Sections are matched by keywords, so custom
+ * sections added by the user get a guide too when their name says where
+ * they are.
+ */
+
+export type FramingArea =
+  | 'front'
+  | 'back'
+  | 'driverSide'
+  | 'passengerSide'
+  | 'wheels'
+  | 'roof'
+  | 'interior'
+  | 'cargo'
+  | 'chargePort'
+  | 'detail'; // Close-ups and anything the name does not place
+
+export interface SectionFraming {
+  area: FramingArea;
+  hint: string;
+  minCoverage: number; // Share of the frame the car should take up, 0 = not checked
+}
+
+const FRAMING: Record<FramingArea, Omit<SectionFraming, 'area'>> = {
+  front: { hint: 'Stand back until the whole front, bumper to hood, fills the guide', minCoverage: 0.45 },
+  back: { hint: 'Stand back until the whole rear, bumper to roof line, fills the guide', minCoverage: 0.45 },
+  driverSide: { hint: 'Capture the full side from front to rear bumper', minCoverage: 0.45 },
+  passengerSide: { hint: 'Capture the full side from front to rear bumper', minCoverage: 0.45 },
+  wheels: { hint: 'Fill the guide with the wheel, tire and rim edge', minCoverage: 0.3 },
+  roof: { hint: 'Include the whole windshield and as much of the roof as you can see', minCoverage: 0.35 },
+  interior: { hint: 'Show the seats, dashboard and floor in one shot', minCoverage: 0 },
+  cargo: { hint: 'Open it fully and show the floor and sides', minCoverage: 0 },
+  chargePort: { hint: 'Open the flap and photograph the port and its cover up close', minCoverage: 0 },
+  detail: { hint: 'Get close and keep the area sharp and well lit', minCoverage: 0 },
+};
+
+// First match wins, so more specific words come first ("Rear Wheels" is a wheel, "Cab Interior" an interior)
+const KEYWORDS: { area: FramingArea; words: string[] }[] = [
+  { area: 'detail', words: ['close-up'] },
+  { area: 'interior', words: ['interior', 'seat', 'dashboard', 'controls'] },
+  { area: 'chargePort', words: ['charge port'] },
+  { area: 'cargo', words: ['trunk', 'cargo', 'truck bed', 'cable'] },
+  { area: 'wheels', words: ['wheel', 'tire', 'tyre', 'rim'] },
+  { area: 'roof', words: ['roof', 'windshield', 'windscreen', 'tank'] },
+  { area: 'front', words: ['front', 'hood', 'bonnet'] },
+  { area: 'back', words: ['back', 'rear', 'tailgate', 'exhaust'] },
+  { area: 'driverSide', words: ['driver', 'left'] },
+  { area: 'passengerSide', words: ['passenger', 'right', 'sliding door'] },
+];
+
+export function sectionFraming(section: string): SectionFraming {
+  const name = section.toLowerCase();
+  const match = KEYWORDS.find(({ words }) => words.some(word => name.includes(word)));
+  const area = match?.area ?? 'detail';
+  return { area, ...FRAMING[area] };
+}
@@ -0,0 +1,83 @@
+/**
+ * Local history records
+ *
+ * Shape of an inspection in the local database: one inspection record plus
+ * one record per photo, so a single large inspection never has to be
+ * rewritten as part of one big blob and photos can be stored (and later
+ * cleaned up) on their own.
+ *
+ * Pure module shared by the SQLite (native) and IndexedDB (web) stores.
+ */
+
+import type { AfterSectionPhoto, HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+
+export type StoredPhotoKind = 'main' | 'section' | 'afterMain' | 'afterSection';
+
+/**
+ * Inspection without its photos
+ */
+export type StoredInspection = Omit<HistoryItem, 'mainPhoto' | 'sectionPhotos' | 'afterMainPhoto' | 'afterSectionPhotos'>;
+
+export interface StoredPhoto {
+  key: string; // `${inspectionId}/${kind}/${position}`
+  inspectionId: string;
+  kind: StoredPhotoKind;
+  position: number;
+  uri: string;
+  // Section photo fields other than the URI (section name, damage, ...)
+  details?: Omit<VehicleSectionPhoto, 'photoUri'> | Omit<AfterSectionPhoto, 'photoUri'>;
+}
+
+function photoRecord(
+  inspectionId: string,
+  kind: StoredPhotoKind,
+  position: number,
+  uri: string,
+  details?: StoredPhoto['details']
+): StoredPhoto {
+  return { key: `${inspectionId}/${kind}/${position}`, inspectionId, kind, position, uri, details };
+}
+
+/**
+ * Split a HistoryItem into its inspection record and photo records
+ */
+export function splitHistoryItem(item: HistoryItem): { inspection: StoredInspection; photos: StoredPhoto[] } {
+  const { mainPhoto, sectionPhotos, afterMainPhoto, afterSectionPhotos, ...inspection } = item;
+
+  const photos: StoredPhoto[] = [photoRecord(item.id, 'main', 0, mainPhoto)];
+  sectionPhotos.forEach(({ photoUri, ...details }, index) => {
+    photos.push(photoRecord(item.id, 'section', index, photoUri, details));
+  });
+  if (afterMainPhoto) {
+    photos.push(photoRecord(item.id, 'afterMain', 0, afterMainPhoto));
+  }
+  (afterSectionPhotos || []).forEach(({ photoUri, ...details }, index) => {
+    photos.push(photoRecord(item.id, 'afterSection', index, photoUri, details));
+  });
+
+  return { inspection, photos };
+}
+
+/**
+ * Rebuild a HistoryItem from its records
+ */
+export function joinHistoryItem(inspection: StoredInspection, photos: StoredPhoto[]): HistoryItem {
+  const ofKind = (kind: StoredPhotoKind) =>
+    photos.filter(photo => photo.kind === kind).sort((a, b) => a.position - b.position);
+
+  const afterSectionPhotos = ofKind('afterSection').map(photo => ({
+    ...(photo.details as Omit<AfterSectionPhoto, 'photoUri'>),
+    photoUri: photo.uri,
+  }));
+
+  return {
+    ...inspection,
+    mainPhoto: ofKind('main')[0]?.uri || '',
+    sectionPhotos: ofKind('section').map(photo => ({
+      ...(photo.details as Omit<VehicleSectionPhoto, 'photoUri'>),
+      photoUri: photo.uri,
+    })),
+    afterMainPhoto: ofKind('afterMain')[0]?.uri,
+    afterSectionPhotos: afterSectionPhotos.length > 0 || inspection.isReturned ? afterSectionPhotos : undefined,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * History sync model
+ *
+ * Conflict resolution when syncing local history with Supabase.
+ * Every HistoryItem carries:
+ * - updatedAt / fieldUpdatedAt: when the item / each synced field last changed
+ * - version: the server row version the local copy is based on (0 = never uploaded)
+ * - syncedAt: the updatedAt of the copy the server last confirmed
+ *
+ * When both sides changed since the last sync, fields are resolved one by one
+ * (newest change wins). For section photos and return photos the newer list
+ * wins as a whole, so a section removed on one side is not brought back.
+ */
+
+import type { AfterSectionPhoto, HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { isPhotoPlaceholder } from '@/lib/photoRefs';
+
+// Fields that are uploaded and resolved individually on conflict
+export const SYNCED_FIELDS = [
+  'mainPhoto',
+  'sectionPhotos',
+  'allDamageNotes',
+  'expectedReturnDate',
+  'expectedReturnDateText',
+  'afterMainPhoto',
+  'afterSectionPhotos',
+  'afterCreatedAt',
+  'afterDateText',
+  'isReturned',
+  'returnComparison',
+  'mainPhotoEvidence',
+  'afterMainPhotoEvidence',
+  'evidenceManifest',
+  'afterEvidenceManifest',
+  'vehicleIdentity',
+  'pickupReadings',
+  'returnIdentity',
+  'returnReadings',
+  'rentalAgreement',
+  'walkAroundPlan',
+  'walkAroundVideo',
+  'afterWalkAroundVideo',
+  'dispute',
+] as const;
+
+export type SyncedField = typeof SYNCED_FIELDS[number];
+
+/**
+ * Whether the item has local changes the server has not confirmed
+ */
+export function hasLocalChanges(item: HistoryItem): boolean {
+  return item.syncedAt === undefined || (item.updatedAt ?? item.createdAt) > item.syncedAt;
+}
+
+/**
+ * Apply a local edit, stamping the changed synced fields
+ */
+export function applyLocalUpdate(item: HistoryItem, updates: Partial<HistoryItem>, now = Date.now()): HistoryItem {
+  const fieldUpdatedAt = { ...item.fieldUpdatedAt };
+  (Object.keys(updates) as (keyof HistoryItem)[]).forEach(key => {
+    if ((SYNCED_FIELDS as readonly string[]).includes(key)) {
+      fieldUpdatedAt[key as SyncedField] = now;
+    }
+  });
+  return { ...item, ...updates, fieldUpdatedAt, updatedAt: now };
+}
+
+// Fields without a stamp have not changed since the item was created
+function fieldTime(item: HistoryItem, field: SyncedField): number {
+  return item.fieldUpdatedAt?.[field] ?? item.createdAt;
+}
+
+/**
+ * Synced fields changed after `since` (all fields when the item was never synced)
+ */
+export function changedFieldsSince(item: HistoryItem, since: number | undefined): SyncedField[] {
+  if (since === undefined) return [...SYNCED_FIELDS];
+  return SYNCED_FIELDS.filter(field => fieldTime(item, field) > since);
+}
+
+/**
+ * Merge of two per-section photo lists: `preferred` (the newer change) as it
+ * stands, so sections removed there stay removed. A section both sides still
+ * have keeps the other side's photo only where `preferred` holds a placeholder.
+ */
+function mergeBySection<T extends VehicleSectionPhoto | AfterSectionPhoto>(preferred: T[] = [], other: T[] = []): T[] {
+  return preferred.map(photo => {
+    const otherPhoto = other.find(candidate => candidate.section === photo.section);
+    return otherPhoto && isPhotoPlaceholder(photo.photoUri) && !isPhotoPlaceholder(otherPhoto.photoUri)
+      ? { ...photo, photoUri: otherPhoto.photoUri }
+      : photo;
+  });
+}
+
+function copyField<K extends SyncedField>(target: HistoryItem, source: HistoryItem, key: K) {
+  target[key] = source[key];
+}
+
+/**
+ * Field-by-field merge of a local and a server copy that both changed since the last sync
+ */
+export function mergeHistoryItems(local: HistoryItem, remote: HistoryItem): HistoryItem {
+  const merged: HistoryItem = { ...local };
+  const fieldUpdatedAt: Partial<Record<SyncedField, number>> = {};
+
+  SYNCED_FIELDS.forEach(field => {
+    const localTime = fieldTime(local, field);
+    const remoteTime = fieldTime(remote, field);
+    const localWins = localTime >= remoteTime;
+    const winner = localWins ? local : remote;
+    const loser = localWins ? remote : local;
+    fieldUpdatedAt[field] = Math.max(localTime, remoteTime);
+
+    switch (field) {
+      case 'sectionPhotos':
+        merged.sectionPhotos = mergeBySection(winner.sectionPhotos, loser.sectionPhotos);
+        break;
+      case 'afterSectionPhotos':
+        merged.afterSectionPhotos = mergeBySection(winner.afterSectionPhotos, loser.afterSectionPhotos);
+        break;
+      case 'afterMainPhoto':
+        merged.afterMainPhoto = winner.afterMainPhoto || loser.afterMainPhoto;
+        break;
+      case 'isReturned':
+        // Return photos on either side mean the car was returned
+        merged.isReturned = !!(local.isReturned || remote.isReturned);
+        break;
+      default:
+        copyField(merged, winner, field);
+    }
+  });
+
+  merged.fieldUpdatedAt = fieldUpdatedAt;
+  merged.updatedAt = Math.max(local.updatedAt ?? local.createdAt, remote.updatedAt ?? remote.createdAt);
+  merged.serverId = remote.serverId;
+  merged.version = remote.version;
+  return merged;
+}
+
+/**
+ * Take the server copy, keeping the local ID and sync metadata
+ */
+export function adoptRemoteItem(local: HistoryItem | undefined, remote: HistoryItem): HistoryItem {
+  const updatedAt = remote.updatedAt ?? remote.createdAt;
+  return {
+    ...remote,
+    id: local?.id ?? remote.id,
+    updatedAt,
+    syncedAt: updatedAt,
+  };
+}
+
+/**
+ * Whether a server record is the copy of a local item
+ */
+export function isSameInspection(local: HistoryItem, remote: HistoryItem): boolean {
+  return (!!local.serverId && local.serverId === remote.serverId) || local.id === remote.id;
+}
+
+/**
+ * Fold a sync result into the current history, which may have changed while
+ * the sync was running. Items edited during the sync keep their edits (merged
+ * with the synced copy); items added or deleted during the sync are respected.
+ * Returns `current` itself when the sync changed nothing.
+ */
+export function reconcileSyncResult(current: HistoryItem[], sent: HistoryItem[], synced: HistoryItem[]): HistoryItem[] {
+  const sentById = new Map(sent.map(item => [item.id, item]));
+  const syncedById = new Map(synced.map(item => [item.id, item]));
+
+  const unchanged =
+    synced.length === sent.length && synced.every(item => sentById.get(item.id) === item);
+  if (unchanged) return current;
+
+  const result: HistoryItem[] = [];
+  current.forEach(item => {
+    const sentItem = sentById.get(item.id);
+    const syncedItem = syncedById.get(item.id);
+    if (!sentItem) {
+      result.push(item); // Added during the sync
+    } else if (item === sentItem) {
+      if (syncedItem) result.push(syncedItem); // Otherwise deleted on another device
+    } else if (syncedItem) {
+      result.push(mergeHistoryItems(item, syncedItem)); // Edited during the sync
+    } else {
+      result.push({ ...item, serverId: undefined, version: 0 }); // Deleted remotely but edited here - upload again
+    }
+  });
+
+  const ids = new Set(current.map(item => item.id));
+  synced.forEach(item => {
+    if (!sentById.has(item.id) && !ids.has(item.id)) {
+      result.push(item); // New from the server
+    }
+  });
+
+  return result.sort((a, b) => b.createdAt - a.createdAt);
+}
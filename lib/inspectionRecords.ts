@@ -0,0 +1,87 @@
+/**
+ * Inspection record mapping
+ *
+ * Converts inspections returned by the rental-car-get-inspections edge function
+ * (snake_case rows with Storage URLs) into the app's HistoryItem format.
+ * The local ID is the client_id the creating device uploaded; the row ID is kept as serverId.
+ *
+ * Pure module (no React Native imports): backend/reports.ts maps rows with it too.
+ */
+
+import type { HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { normalizeDamageRecords } from '@/lib/damage';
+
+export function inspectionRecordToHistoryItem(inspection: any): HistoryItem {
+  // Convert section photos from edge function format to app format
+  const sectionPhotos: VehicleSectionPhoto[] = (inspection.section_photos || []).map((photo: any) => ({
+    section: photo.section,
+    photoUri: photo.photo_url || photo.photo_uri, // URL from Storage
+    damageNotes: photo.damage_notes || photo.damageNotes || '',
+    damages: normalizeDamageRecords(photo.damages),
+    isUsable: photo.is_usable !== false,
+    needsRetake: photo.needs_retake || false,
+    evidence: photo.evidence || undefined,
+    identity: photo.identity || undefined,
+  }));
+
+  const updatedAt = inspection.updated_at ? new Date(inspection.updated_at).getTime() : undefined;
+
+  return {
+    id: inspection.client_id || inspection.id, // Local ID of the device that created it
+    serverId: inspection.id,
+    mainPhoto: inspection.main_photo_url || inspection.main_photo, // URL from Storage
+    mainPhotoEvidence: inspection.main_photo_evidence || undefined,
+    sectionPhotos,
+    allDamageNotes: inspection.all_damage_notes || '',
+    createdAt: new Date(inspection.created_at).getTime(),
+    dateText: formatDateText(new Date(inspection.created_at)),
+    expectedReturnDate: inspection.expected_return_date ? new Date(inspection.expected_return_date).getTime() : undefined,
+    expectedReturnDateText: inspection.expected_return_date_text,
+    afterMainPhoto: inspection.after_main_photo_url || inspection.after_main_photo,
+    afterMainPhotoEvidence: inspection.after_main_photo_evidence || undefined,
+    afterSectionPhotos: (inspection.after_section_photos || []).map((photo: any) => ({
+      section: photo.section,
+      photoUri: photo.photo_url || photo.photo_uri,
+      evidence: photo.evidence || undefined,
+      identity: photo.identity || undefined,
+    })),
+    afterCreatedAt: inspection.after_created_at ? new Date(inspection.after_created_at).getTime() : undefined,
+    afterDateText: inspection.after_date_text,
+    isReturned: inspection.is_returned || false,
+    returnComparison: inspection.return_comparison || undefined,
+    evidenceManifest: inspection.evidence_manifest || undefined,
+    afterEvidenceManifest: inspection.after_evidence_manifest || undefined,
+    vehicleIdentity: inspection.vehicle_identity || undefined,
+    pickupReadings: inspection.pickup_readings || undefined,
+    returnIdentity: inspection.return_identity || undefined,
+    returnReadings: inspection.return_readings || undefined,
+    rentalAgreement: inspection.rental_agreement || undefined,
+    walkAroundPlan: inspection.walk_around_plan || undefined,
+    walkAroundVideo: inspection.walk_around_video || undefined,
+    afterWalkAroundVideo: inspection.after_walk_around_video || undefined,
+    dispute: inspection.dispute || undefined,
+    updatedAt,
+    fieldUpdatedAt: inspection.field_updated_at || undefined,
+    version: inspection.version ?? 1,
+  };
+}
+
+/**
+ * Format date for display
+ */
+export function formatDateText(date: Date): string {
+  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const months = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  const dayName = days[date.getDay()];
+  const month = months[date.getMonth()];
+  const day = date.getDate();
+  const year = date.getFullYear();
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+
+  return `${dayName}, ${month} ${day}, ${year}, ${hours}:${minutes}`;
+}
@@ -0,0 +1,376 @@
+/**
+ * JPEG luminance blocks
+ *
+ * Reads the 8x8 luminance blocks of a baseline JPEG straight from its
+ * entropy-coded data, without the inverse DCT or color conversion: the DC
+ * coefficient gives each block's mean brightness and the AC coefficients
+ * its amount of fine detail. That is all the capture quality check needs
+ * (lib/photoQuality.ts) and a fraction of the work of a full decode, so it
+ * runs on the device right after the shutter.
+ *
+ * Progressive and arithmetic-coded JPEGs are not supported (null) - camera
+ * photos are baseline.
+ */
+
+export interface LuminanceBlocks {
+  width: number; // Image size in pixels
+  height: number;
+  columns: number; // Blocks per row / column covering the image
+  rows: number;
+  brightness: Float32Array; // Mean of each block, 0-255, row by row
+  detail: Float32Array; // Sum of the absolute high-frequency AC coefficients of each block
+  texture: Float32Array; // Sum of the absolute AC coefficients of each block
+}
+
+// Zigzag positions from here on count as high frequency (outside the top-left 4x4 corner, roughly)
+const HIGH_FREQUENCY_START = 10;
+
+interface HuffmanTable {
+  maxCode: Int32Array; // Per code length 1-16, -1 when there is no code of that length
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+}
+
+class JpegFormatError extends Error {}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valueOffset[length] = k - code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff; // Sentinel: no code is longer than 16 bits
+  return { maxCode, valueOffset, values };
+}
+
+/**
+ * Bit reader over the entropy-coded segment (skips 0xFF00 stuffing, stops at markers)
+ */
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+  marker = -1; // Marker hit while reading, -1 while inside the data
+  private paddedBits = 0; // Zero bits added past the end of the data (no marker reached)
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  private fill(): void {
+    while (this.bitCount <= 24) {
+      let byte = 0;
+      if (this.marker === -1 && this.position < this.data.length) {
+        byte = this.data[this.position];
+        if (byte === 0xff) {
+          const next = this.data[this.position + 1];
+          if (next === 0x00) {
+            this.position += 2;
+          } else {
+            // A marker ends the data; pad with zero bits
+            this.marker = next;
+            byte = 0;
+          }
+        } else {
+          this.position++;
+        }
+      } else if (this.marker === -1) {
+        this.paddedBits += 8;
+      }
+      this.bitBuffer |= byte << (24 - this.bitCount);
+      this.bitCount += 8;
+    }
+  }
+
+  /**
+   * Whether bits past the end of the data were read, i.e. the data is cut short
+   */
+  get truncated(): boolean {
+    return this.paddedBits > this.bitCount;
+  }
+
+  bit(): number {
+    if (this.bitCount === 0) this.fill();
+    const value = (this.bitBuffer >>> 31) & 1;
+    this.bitBuffer <<= 1;
+    this.bitCount--;
+    return value;
+  }
+
+  bits(count: number): number {
+    if (count === 0) return 0;
+    if (this.bitCount < count) this.fill();
+    const value = this.bitBuffer >>> (32 - count);
+    this.bitBuffer <<= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.bit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.bit();
+      length++;
+      if (length > 16) throw new JpegFormatError('Invalid Huffman code');
+    }
+    return table.values[code + table.valueOffset[length]];
+  }
+
+  /**
+   * Skip to just after the next RSTn marker and reset the bit buffer
+   */
+  restart(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.marker === -1) {
+      // Marker not reached yet: scan for it
+      while (this.position + 1 < this.data.length) {
+        if (this.data[this.position] === 0xff && this.data[this.position + 1] >= 0xd0 && this.data[this.position + 1] <= 0xd7) {
+          break;
+        }
+        this.position++;
+      }
+      this.position += 2;
+    } else if (this.marker >= 0xd0 && this.marker <= 0xd7) {
+      this.position += 2;
+      this.marker = -1;
+    }
+  }
+}
+
+// Value of a coefficient from its size category and raw bits (JPEG "EXTEND")
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+/**
+ * Per-block brightness and detail of the luminance channel, or null when the
+ * data is not a baseline JPEG this reader understands
+ */
+export function readLuminanceBlocks(data: Uint8Array): LuminanceBlocks | null {
+  try {
+    return parseJpeg(data);
+  } catch (error) {
+    if (error instanceof JpegFormatError || error instanceof RangeError) return null;
+    throw error;
+  }
+}
+
+function parseJpeg(data: Uint8Array): LuminanceBlocks | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  const quantTables: (Uint16Array | undefined)[] = [];
+  const dcTables: (HuffmanTable | undefined)[] = [];
+  const acTables: (HuffmanTable | undefined)[] = [];
+  let components: FrameComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) throw new JpegFormatError('Marker expected');
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    const length = readUint16(data, offset + 2);
+    const segment = offset + 4;
+    const segmentEnd = offset + 2 + length;
+
+    switch (marker) {
+      case 0xdb: { // DQT
+        let p = segment;
+        while (p < segmentEnd) {
+          const precision = data[p] >> 4;
+          const id = data[p] & 15;
+          p++;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision ? readUint16(data, p + k * 2) : data[p + k];
+          }
+          p += precision ? 128 : 64;
+          quantTables[id] = table;
+        }
+        break;
+      }
+      case 0xc4: { // DHT
+        let p = segment;
+        while (p < segmentEnd) {
+          const tableClass = data[p] >> 4;
+          const id = data[p] & 15;
+          const counts = data.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, data.subarray(p + 17, p + 17 + total));
+          if (tableClass === 0) dcTables[id] = table;
+          else acTables[id] = table;
+          p += 17 + total;
+        }
+        break;
+      }
+      case 0xdd: // DRI
+        restartInterval = readUint16(data, segment);
+        break;
+      case 0xc0:
+      case 0xc1: { // Baseline / extended sequential, Huffman coded
+        height = readUint16(data, segment + 1);
+        width = readUint16(data, segment + 3);
+        const count = data[segment + 5];
+        components = [];
+        for (let i = 0; i < count; i++) {
+          const p = segment + 6 + i * 3;
+          components.push({ id: data[p], h: data[p + 1] >> 4, v: data[p + 1] & 15, quantTable: data[p + 2] });
+        }
+        break;
+      }
+      case 0xc2:
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        return null; // Progressive, lossless, hierarchical or arithmetic coded
+      case 0xda: // SOS - the luminance is in the first scan of a baseline image
+        if (components.length === 0 || width === 0 || height === 0) return null;
+        return decodeScan(data, segment, segmentEnd, components, width, height, restartInterval, quantTables, dcTables, acTables);
+      case 0xd9: // EOI
+        return null;
+    }
+    offset = segmentEnd;
+  }
+  return null;
+}
+
+function decodeScan(
+  data: Uint8Array,
+  segment: number,
+  segmentEnd: number,
+  components: FrameComponent[],
+  width: number,
+  height: number,
+  restartInterval: number,
+  quantTables: (Uint16Array | undefined)[],
+  dcTables: (HuffmanTable | undefined)[],
+  acTables: (HuffmanTable | undefined)[]
+): LuminanceBlocks | null {
+  const scanCount = data[segment];
+  const scan: { component: FrameComponent; dc: HuffmanTable; ac: HuffmanTable }[] = [];
+  for (let i = 0; i < scanCount; i++) {
+    const id = data[segment + 1 + i * 2];
+    const tables = data[segment + 2 + i * 2];
+    const component = components.find(c => c.id === id);
+    const dc = dcTables[tables >> 4];
+    const ac = acTables[tables & 15];
+    if (!component || !dc || !ac) throw new JpegFormatError('Missing table');
+    scan.push({ component, dc, ac });
+  }
+  const luminance = components[0];
+  if (scan[0]?.component !== luminance) return null; // Luminance not in the first scan
+  const quant = quantTables[luminance.quantTable];
+  if (!quant) throw new JpegFormatError('Missing quantization table');
+
+  const hMax = Math.max(...components.map(c => c.h));
+  const vMax = Math.max(...components.map(c => c.v));
+  const columns = Math.ceil(width / 8);
+  const rows = Math.ceil(height / 8);
+  const brightness = new Float32Array(columns * rows);
+  const detail = new Float32Array(columns * rows);
+  const texture = new Float32Array(columns * rows);
+
+  // Interleaved scans code MCUs of h x v blocks per component; a single-component scan codes plain blocks
+  const interleaved = scan.length > 1;
+  const mcuColumns = interleaved ? Math.ceil(width / (8 * hMax)) : Math.ceil(Math.ceil((width * luminance.h) / hMax) / 8);
+  const mcuRows = interleaved ? Math.ceil(height / (8 * vMax)) : Math.ceil(Math.ceil((height * luminance.v) / vMax) / 8);
+
+  const reader = new BitReader(data, segmentEnd);
+  const predictions = new Int32Array(scan.length);
+  const mcuCount = mcuColumns * mcuRows;
+
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      predictions.fill(0);
+    }
+    const mcuX = mcu % mcuColumns;
+    const mcuY = Math.floor(mcu / mcuColumns);
+
+    for (let s = 0; s < scan.length; s++) {
+      const { component, dc, ac } = scan[s];
+      const blocksH = interleaved ? component.h : 1;
+      const blocksV = interleaved ? component.v : 1;
+      for (let by = 0; by < blocksV; by++) {
+        for (let bx = 0; bx < blocksH; bx++) {
+          // DC difference
+          const dcSize = reader.decode(dc);
+          predictions[s] += dcSize === 0 ? 0 : extend(reader.bits(dcSize), dcSize);
+
+          // AC coefficients, run-length coded
+          let highFrequency = 0;
+          let allFrequencies = 0;
+          let k = 1;
+          while (k < 64) {
+            const symbol = reader.decode(ac);
+            const run = symbol >> 4;
+            const size = symbol & 15;
+            if (size === 0) {
+              if (run === 15) {
+                k += 16;
+                continue;
+              }
+              break; // End of block
+            }
+            k += run;
+            if (k > 63) break;
+            if (s === 0) {
+              const value = Math.abs(extend(reader.bits(size), size) * quant[k]);
+              allFrequencies += value;
+              if (k >= HIGH_FREQUENCY_START) highFrequency += value;
+            } else {
+              reader.bits(size);
+            }
+            k++;
+          }
+
+          if (s !== 0) continue;
+          const column = interleaved ? mcuX * component.h + bx : mcuX;
+          const row = interleaved ? mcuY * component.v + by : mcuY;
+          if (column >= columns || row >= rows) continue; // Padding beyond the image
+          const index = row * columns + column;
+          // DC = 8 x (block mean - 128)
+          brightness[index] = Math.min(255, Math.max(0, (predictions[0] * quant[0]) / 8 + 128));
+          detail[index] = highFrequency;
+          texture[index] = allFrequencies;
+        }
+      }
+    }
+  }
+
+  // Missing blocks would read as zero bits: flat, mid-gray blocks that make up a score
+  if (reader.truncated) throw new JpegFormatError('Truncated data');
+
+  return { width, height, columns, rows, brightness, detail, texture };
+}
@@ -0,0 +1,342 @@
+/**
+ * Dispute letter templates
+ *
+ * The letters the app writes about a damage claim - the response to the
+ * rental company, a chargeback request to the card issuer, a notification to
+ * the renter's insurer and a complaint to a consumer protection body - with
+ * the clauses of the jurisdiction the car was rented in (US / US state, UK,
+ * EU) and its letter conventions (date format, closing).
+ *
+ * Everything but the narrative is filled from the inspection and the claim;
+ * the AI only writes the narrative paragraphs (LETTER_NARRATIVE_BRIEFS).
+ * Clauses state general rules for the renter to rely on, not legal advice.
+ */
+
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import { DamageClaim, claimTotal, formatClaimAmount } from '@/lib/damageClaim';
+import { agreementReference, letterRecipientLines } from '@/lib/rentalAgreement';
+import type { RepairRegion } from '@/lib/repairCost';
+
+export const LETTER_TYPES = ['rentalCompany', 'chargeback', 'insurer', 'consumerComplaint'] as const;
+export type LetterType = typeof LETTER_TYPES[number];
+
+export const LETTER_TYPE_LABELS: Record<LetterType, string> = {
+  rentalCompany: 'Counter-claim letter',
+  chargeback: 'Chargeback request',
+  insurer: 'Insurer notification',
+  consumerComplaint: 'Consumer complaint',
+};
+
+const LETTER_TITLES: Record<LetterType, string> = {
+  rentalCompany: 'COUNTER CLAIM LETTER',
+  chargeback: 'CHARGEBACK REQUEST',
+  insurer: 'NOTIFICATION OF CLAIM',
+  consumerComplaint: 'CONSUMER COMPLAINT',
+};
+
+// File name stem of the generated PDF
+export const LETTER_FILE_NAMES: Record<LetterType, string> = {
+  rentalCompany: 'counter-claim',
+  chargeback: 'chargeback-request',
+  insurer: 'insurer-notification',
+  consumerComplaint: 'consumer-complaint',
+};
+
+/**
+ * Who the narrative is written for (AI prompt)
+ */
+export const LETTER_NARRATIVE_BRIEFS: Record<LetterType, string> = {
+  rentalCompany: 'the rental company, disputing their damage claim item by item',
+  chargeback: 'the card issuer\'s disputes team, explaining why the damage charge should be reversed',
+  insurer: 'the renter\'s insurer, explaining the claim and why it is disputed',
+  consumerComplaint: 'a consumer protection body, describing how the rental company handled the damage claim',
+};
+
+/**
+ * Recipient name and reference asked for per letter type (the rental company comes from the agreement)
+ */
+export const LETTER_RECIPIENT_FIELDS: Record<LetterType, { name?: string; reference?: string }> = {
+  rentalCompany: {},
+  chargeback: { name: 'Card issuer', reference: 'Card number (last 4 digits)' },
+  insurer: { name: 'Insurer', reference: 'Policy number' },
+  consumerComplaint: { name: 'Authority (optional)' },
+};
+
+export const JURISDICTIONS = ['us', 'usCalifornia', 'usNewYork', 'uk', 'eu'] as const;
+export type Jurisdiction = typeof JURISDICTIONS[number];
+
+export const JURISDICTION_LABELS: Record<Jurisdiction, string> = {
+  us: 'United States',
+  usCalifornia: 'California',
+  usNewYork: 'New York',
+  uk: 'United Kingdom',
+  eu: 'European Union',
+};
+
+interface JurisdictionRules {
+  locale: string; // Date format of the letter
+  closing: string;
+  parent?: Jurisdiction; // State rules add to the federal ones
+  clauses: Partial<Record<LetterType, string[]>>;
+  authority?: string[]; // Default consumer complaint recipient
+}
+
+const JURISDICTION_RULES: Record<Jurisdiction, JurisdictionRules> = {
+  us: {
+    locale: 'en-US',
+    closing: 'Sincerely,',
+    clauses: {
+      rentalCompany: [
+        'As the party making the claim, you must show that the damage occurred during my rental and that the amounts charged are the actual and reasonable cost of repair.',
+      ],
+      chargeback: [
+        'Under the Fair Credit Billing Act (15 U.S.C. § 1666), I ask that this charge be investigated as a billing error. I understand I am not required to pay the disputed amount while the investigation is pending.',
+      ],
+      insurer: [
+        'I am giving notice of this claim under the notice provisions of my policy. I have not admitted liability for the damage claimed.',
+      ],
+      consumerComplaint: [
+        'I believe the charge may be an unfair or deceptive practice under the consumer protection laws of the state in which the vehicle was rented.',
+      ],
+    },
+    authority: ['Office of the Attorney General', 'Consumer Protection Division'],
+  },
+  usCalifornia: {
+    locale: 'en-US',
+    closing: 'Sincerely,',
+    parent: 'us',
+    clauses: {
+      rentalCompany: [
+        'California Civil Code section 1939.03 limits a renter\'s liability for damage to a rental vehicle to the actual and reasonable costs of repair, and restricts the loss-of-use and administrative charges that may be added to them.',
+      ],
+      consumerComplaint: [
+        'California Civil Code section 1939.03 limits the damage charges a rental company may recover from a renter.',
+      ],
+    },
+    authority: ['Office of the Attorney General', 'Public Inquiry Unit', 'California Department of Justice'],
+  },
+  usNewYork: {
+    locale: 'en-US',
+    closing: 'Sincerely,',
+    parent: 'us',
+    clauses: {
+      rentalCompany: [
+        'New York General Business Law section 396-z limits the amount a rental company may recover from a renter for damage to a rental vehicle, including charges for loss of use.',
+      ],
+      consumerComplaint: [
+        'New York General Business Law section 396-z limits the damage charges a rental company may recover from a renter.',
+      ],
+    },
+    authority: ['Office of the New York State Attorney General', 'Bureau of Consumer Frauds and Protection'],
+  },
+  uk: {
+    locale: 'en-GB',
+    closing: 'Yours faithfully,',
+    clauses: {
+      rentalCompany: [
+        'Under Part 2 of the Consumer Rights Act 2015, a contract term that is unfair to the consumer is not binding on me, including a term requiring me to pay damage charges that are disproportionate to the loss you actually suffered.',
+        'It is for you to show that the damage occurred during my hire and that the amount claimed reflects the reasonable cost of repair.',
+      ],
+      chargeback: [
+        'Where the hire was paid by credit card and cost between £100 and £30,000, section 75 of the Consumer Credit Act 1974 makes you jointly liable for the supplier\'s breach of contract. Otherwise I ask that you raise a chargeback under the card scheme rules.',
+      ],
+      insurer: [
+        'I am notifying you of this claim in accordance with the conditions of my policy. I have not admitted liability for the damage claimed.',
+      ],
+      consumerComplaint: [
+        'I believe the charge may be an unfair contract term under Part 2 of the Consumer Rights Act 2015 and an unfair commercial practice.',
+        'If the rental company is a member of the BVRLA, the dispute may also be referred to its conciliation service.',
+      ],
+    },
+    authority: ['Citizens Advice consumer service', 'For referral to Trading Standards'],
+  },
+  eu: {
+    locale: 'en-IE',
+    closing: 'Yours faithfully,',
+    clauses: {
+      rentalCompany: [
+        'Under Council Directive 93/13/EEC on unfair terms in consumer contracts, as implemented in national law, a term requiring a consumer to pay a disproportionately high sum in compensation is not binding on me.',
+        'It is for you to show that the damage occurred during my rental and that the amount claimed reflects the reasonable cost of repair.',
+      ],
+      chargeback: [
+        'The charge was taken for damage I did not cause and did not agree to pay. I ask that you raise a chargeback with the merchant\'s bank under the card scheme rules.',
+      ],
+      insurer: [
+        'I am notifying you of this claim in accordance with the conditions of my policy. I have not admitted liability for the damage claimed.',
+      ],
+      consumerComplaint: [
+        'I believe the charge may be an unfair contract term under Directive 93/13/EEC and an unfair commercial practice under Directive 2005/29/EC, as implemented in national law.',
+        'Where the rental company is based in another EU country, the European Consumer Centres Network (ECC-Net) can assist with this cross-border complaint.',
+      ],
+    },
+    authority: ['National consumer protection authority', 'or the European Consumer Centre of your country'],
+  },
+};
+
+// Days the recipient is asked to respond within
+const RESPONSE_DAYS = 14;
+
+export interface LetterRecipient {
+  name?: string; // Card issuer, insurer or authority
+  reference?: string; // Card last 4 digits, policy number ...
+}
+
+export interface LetterTemplateChoice {
+  type: LetterType;
+  jurisdiction: Jurisdiction;
+  recipient?: LetterRecipient;
+}
+
+export const DEFAULT_LETTER_TEMPLATE: LetterTemplateChoice = { type: 'rentalCompany', jurisdiction: 'us' };
+
+/**
+ * The letter around the narrative, in reading order
+ */
+export interface FilledLetter {
+  title: string;
+  dateLine: string;
+  recipientLines: string[];
+  subject: string;
+  salutation: string;
+  opening: string;
+  clauses: string[]; // Printed under LEGAL BASIS
+  requests: string[];
+  closing: string;
+  signature: string;
+}
+
+/**
+ * Jurisdiction matching the claim's currency, otherwise the repair price region.
+ * Undefined when there is no template for it (e.g. CAD / AUD claims, the
+ * Canada and Australia regions) - the user has to pick one.
+ */
+export function suggestJurisdiction(currency: string | undefined, region: RepairRegion): Jurisdiction | undefined {
+  if (currency === 'GBP') return 'uk';
+  if (currency === 'EUR') return 'eu';
+  if (currency === 'USD') return 'us';
+  if (currency) return undefined;
+  if (region === 'uk') return 'uk';
+  if (region === 'europe') return 'eu';
+  if (region.startsWith('us')) return 'us';
+  return undefined;
+}
+
+/**
+ * Clauses of a jurisdiction for a letter type, federal ones first
+ */
+export function jurisdictionClauses(type: LetterType, jurisdiction: Jurisdiction): string[] {
+  const rules = JURISDICTION_RULES[jurisdiction];
+  const inherited = rules.parent ? jurisdictionClauses(type, rules.parent) : [];
+  return [...inherited, ...(rules.clauses[type] ?? [])];
+}
+
+function recipientLines(
+  choice: LetterTemplateChoice,
+  agreement: HistoryItem['rentalAgreement']
+): string[] {
+  const name = choice.recipient?.name?.trim();
+  switch (choice.type) {
+    case 'rentalCompany':
+      return letterRecipientLines(agreement);
+    case 'chargeback':
+      return [name || 'Card Issuer', 'Disputes Department'];
+    case 'insurer':
+      return [name || 'Insurance Company', 'Claims Department'];
+    case 'consumerComplaint':
+      return name ? [name] : JURISDICTION_RULES[choice.jurisdiction].authority ?? [];
+  }
+}
+
+function subjectLine(choice: LetterTemplateChoice, agreement: HistoryItem['rentalAgreement'], claim?: DamageClaim): string {
+  const company = agreement?.company || claim?.company || 'the rental company';
+  const reference = choice.recipient?.reference?.trim();
+  const parts = {
+    rentalCompany: ['Damage Claim Dispute', claim?.claimNumber && `Claim ${claim.claimNumber}`, agreementReference(agreement)],
+    chargeback: ['Disputed Charge', company, reference && `Card ending ${reference}`],
+    insurer: ['Notification of Damage Claim', company, reference && `Policy ${reference}`],
+    consumerComplaint: ['Complaint', company, agreementReference(agreement)],
+  }[choice.type];
+  const [title, ...details] = parts.filter(Boolean);
+  return details.length > 0 ? `Re: ${title} - ${details.join(', ')}` : `Re: ${title}`;
+}
+
+function openingParagraph(choice: LetterTemplateChoice, historyItem: Pick<HistoryItem, 'dateText' | 'rentalAgreement'>, claim?: DamageClaim): string {
+  const company = historyItem.rentalAgreement?.company || claim?.company || 'the rental company';
+  const amount = claim ? ` of ${formatClaimAmount(claimTotal(claim), claim)}` : '';
+  const inspection = `I documented the vehicle's condition in a photographic inspection on ${historyItem.dateText}.`;
+  switch (choice.type) {
+    case 'rentalCompany':
+      return `This letter is in response to your damage claim regarding the vehicle inspection conducted on ${historyItem.dateText}.`;
+    case 'chargeback':
+      return `I am writing to dispute a charge${amount} made by ${company} for alleged damage to a rental vehicle. ${inspection}`;
+    case 'insurer':
+      return `I am writing to notify you that ${company} has made a damage claim${amount} against me for a rental vehicle. ${inspection}`;
+    case 'consumerComplaint':
+      return `I wish to file a complaint against ${company} about a damage charge${amount} for a rental vehicle. ${inspection}`;
+  }
+}
+
+function requestLines(type: LetterType): string[] {
+  switch (type) {
+    case 'rentalCompany':
+      return [
+        `Withdraw the disputed items and confirm this in writing within ${RESPONSE_DAYS} days.`,
+        'If you maintain any part of the claim, send the itemized repair invoice, your own check-out and check-in photographs and the vehicle\'s damage record before my rental.',
+      ];
+    case 'chargeback':
+      return [
+        'Reverse the disputed charge and credit it to my account.',
+        'Confirm receipt of this dispute and let me know if you need further documents.',
+      ];
+    case 'insurer':
+      return [
+        'Record this notification on my policy.',
+        'Do not make any payment on my behalf without consulting me first.',
+        'Let me know whether my policy covers the claim or the cost of disputing it.',
+      ];
+    case 'consumerComplaint':
+      return [
+        'Review the rental company\'s handling of this claim.',
+        `Let me know within ${RESPONSE_DAYS} days whether you need further information.`,
+      ];
+  }
+}
+
+/**
+ * Fill a template from the inspection and the claim
+ */
+export function fillLetterTemplate(
+  choice: LetterTemplateChoice,
+  historyItem: Pick<HistoryItem, 'dateText' | 'rentalAgreement'>,
+  claim: DamageClaim | undefined,
+  generatedAt = Date.now()
+): FilledLetter {
+  const rules = JURISDICTION_RULES[choice.jurisdiction];
+  const agreement = historyItem.rentalAgreement;
+  return {
+    title: LETTER_TITLES[choice.type],
+    dateLine: `Date: ${new Date(generatedAt).toLocaleDateString(rules.locale)}`,
+    recipientLines: recipientLines(choice, agreement),
+    subject: subjectLine(choice, agreement, claim),
+    salutation: 'Dear Sir or Madam,',
+    opening: openingParagraph(choice, historyItem, claim),
+    clauses: jurisdictionClauses(choice.type, choice.jurisdiction),
+    requests: requestLines(choice.type),
+    closing: rules.closing,
+    signature: agreement?.renterName || '[Your Name]',
+  };
+}
+
+/**
+ * Drop a salutation or closing the AI added around the narrative anyway
+ */
+export function trimNarrative(text: string): string {
+  const lines = text.trim().split('\n');
+  if (/^(dear|to whom)\b/i.test(lines[0]?.trim() ?? '')) lines.shift();
+  const closingIndex = lines.findIndex(line => /^(sincerely|yours (faithfully|sincerely|truly)|kind regards|regards),?$/i.test(line.trim()));
+  return (closingIndex >= 0 ? lines.slice(0, closingIndex) : lines).join('\n').trim();
+}
+
+export function letterFileName(type: LetterType, date = Date.now()): string {
+  return `${LETTER_FILE_NAMES[type]}-${new Date(date).toISOString().substring(0, 10)}.pdf`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Counter-Claim Letter PDF
+ *
+ * Renders a dispute letter - the template chosen (lib/letterTemplates.ts)
+ * filled around the AI-written narrative - followed by the full inspection
+ * report so the evidence travels with the letter.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import { COLORS, PdfWriter, ReportImageLoader, embedFonts } from './layout';
+import { appendInspectionReport } from './inspectionReport';
+import { damageSectionPhotos, identityLines } from '@/lib/vehicleIdentity';
+import { DEFAULT_LETTER_TEMPLATE, LETTER_TYPE_LABELS, LetterTemplateChoice, fillLetterTemplate, trimNarrative } from '@/lib/letterTemplates';
+import { CLAIM_VERDICT_LABELS, ClaimRebuttal, formatCitation, rebuttalSummary } from '@/lib/claimRebuttal';
+import { claimFeeLabel, formatClaimAmount } from '@/lib/damageClaim';
+import { RepairCostEstimate, repairEstimateLines, repairEstimateSummary } from '@/lib/repairCost';
+
+export interface CounterClaimLetterOptions {
+  /** Timestamp used for the letter date (defaults to now) */
+  generatedAt?: number;
+  /** Repair cost estimate of the pickup damage (lib/repairCost.ts) */
+  repairEstimate?: RepairCostEstimate;
+  /** Verdict per claimed item of the rental company's claim (lib/claimRebuttal.ts) */
+  rebuttal?: ClaimRebuttal;
+  /** Letter type and jurisdiction (defaults to a US response to the rental company) */
+  template?: LetterTemplateChoice;
+}
+
+export async function buildCounterClaimLetterPDF(
+  narrative: string,
+  historyItem: HistoryItem,
+  loadImage: ReportImageLoader,
+  options: CounterClaimLetterOptions = {}
+): Promise<Uint8Array> {
+  const generatedAt = options.generatedAt ?? Date.now();
+  const doc = await PDFDocument.create();
+  const fonts = await embedFonts(doc);
+  const writer = new PdfWriter(doc, fonts);
+
+  const rebuttal = options.rebuttal;
+  const agreement = historyItem.rentalAgreement;
+  const template = options.template ?? DEFAULT_LETTER_TEMPLATE;
+  const letter = fillLetterTemplate(template, historyItem, rebuttal?.claim, generatedAt);
+  const documentTitle = `${LETTER_TYPE_LABELS[template.type]} - Inspection ${historyItem.id}`;
+
+  writer.text(letter.title, { size: 20, bold: true, color: COLORS.primary });
+  writer.spacer(8);
+  writer.text(letter.dateLine);
+  writer.spacer(8);
+  letter.recipientLines.forEach((line, index) => writer.text(index === 0 ? `To: ${line}` : `    ${line}`));
+  writer.text(letter.subject, { bold: true });
+  writer.spacer(12);
+  writer.text(letter.salutation);
+  writer.spacer(8);
+  writer.text(letter.opening);
+  writer.spacer(8);
+  writer.text(trimNarrative(narrative), { lineGap: 1 });
+  writer.spacer(12);
+
+  if (rebuttal && rebuttal.items.length > 0) {
+    writer.text('ITEMIZED RESPONSE TO THE CLAIM', { bold: true, color: COLORS.primary });
+    writer.rule();
+    writer.text(rebuttalSummary(rebuttal));
+    writer.spacer(6);
+    rebuttal.items.forEach((entry, index) => {
+      writer.text(`${index + 1}. ${entry.item.description} - ${formatClaimAmount(entry.item.amount, rebuttal.claim)}`, { bold: true });
+      writer.text(`${CLAIM_VERDICT_LABELS[entry.verdict]}: ${entry.reason}`);
+      entry.citations.forEach(cited => writer.text(formatCitation(cited), { size: 9, color: COLORS.muted }));
+      writer.spacer(6);
+    });
+    rebuttal.claim.fees.forEach(fee => {
+      writer.text(`${claimFeeLabel(fee)} - ${formatClaimAmount(fee.amount, rebuttal.claim)}: disputed to the extent it follows from the items above.`, { size: 10 });
+    });
+    writer.text('Photo IDs refer to the numbered sections of the attached inspection report (P = pickup, R = return).', { size: 9, color: COLORS.muted });
+    writer.spacer(12);
+  }
+
+  if (letter.clauses.length > 0) {
+    writer.text('LEGAL BASIS', { bold: true, color: COLORS.primary });
+    writer.rule();
+    letter.clauses.forEach(clause => {
+      writer.text(clause);
+      writer.spacer(4);
+    });
+    writer.spacer(8);
+  }
+
+  writer.text('I ask that you:');
+  letter.requests.forEach((request, index) => writer.text(`${index + 1}. ${request}`));
+  writer.spacer(12);
+
+  writer.text('EVIDENCE REFERENCES', { bold: true, color: COLORS.primary });
+  writer.rule();
+  writer.text(`Inspection Date: ${historyItem.dateText}`);
+  writer.text(`Inspection ID: ${historyItem.id}`);
+  if (agreement?.pickupLocation) writer.text(`Pickup location: ${agreement.pickupLocation}`);
+  if (agreement?.returnLocation) writer.text(`Return location: ${agreement.returnLocation}`);
+  identityLines(historyItem.vehicleIdentity, historyItem.pickupReadings).forEach(line => writer.text(line));
+  const sectionPhotos = damageSectionPhotos(historyItem.sectionPhotos);
+  writer.text(`Sections Documented: ${sectionPhotos.length}`);
+  writer.spacer(6);
+  sectionPhotos.forEach((section, index) => {
+    writer.text(`${index + 1}. ${section.section} - ${section.damageNotes}`, { size: 10 });
+  });
+  const repairEstimate = options.repairEstimate;
+  if (repairEstimate && repairEstimate.items.length > 0) {
+    writer.spacer(12);
+    writer.text('REPAIR COST ESTIMATE', { bold: true, color: COLORS.primary });
+    writer.rule();
+    writer.text(repairEstimateSummary(repairEstimate));
+    writer.spacer(6);
+    repairEstimateLines(repairEstimate).forEach(line => writer.text(line, { size: 10 }));
+    writer.spacer(6);
+    writer.text('Independent estimate based on typical body shop prices for this vehicle class and region.', { size: 10 });
+  }
+  writer.spacer(8);
+  writer.text('The attached inspection report and photos document the vehicle\'s condition at the time of rental.');
+  writer.spacer(16);
+  writer.text(letter.closing);
+  writer.spacer(24);
+  writer.text(letter.signature);
+
+  writer.finish(documentTitle);
+
+  // Evidence pages follow the letter
+  await appendInspectionReport(doc, historyItem, loadImage, { generatedAt });
+
+  doc.setTitle(documentTitle);
+  return doc.save();
+}
@@ -0,0 +1,415 @@
+/**
+ * Inspection Report PDF
+ *
+ * Lays out a HistoryItem as a multi-page evidence report:
+ * - Cover page with the main vehicle photo and inspection summary
+ * - Vehicle identity page: plate, VIN and dashboard photos with the values
+ *   read from them, compared between pickup and return
+ * - One page per section photo with damage markers, notes and timestamps
+ * - For returned rentals, each pickup photo is shown side by side with the
+ *   matching return photo and the AI damage comparison
+ * - Photo evidence (hash, capture time, location) and the verification code
+ *   of the countersigned evidence manifest (lib/evidence.ts)
+ */
+
+import { PDFDocument, PDFImage, rgb } from 'pdf-lib';
+import type { HistoryItem, AfterSectionPhoto, SectionComparison } from '@/contexts/HistoryContext';
+import {
+  COLORS,
+  CONTENT_WIDTH,
+  DrawnRect,
+  MARGIN,
+  PdfWriter,
+  ReportImageLoader,
+  createImageEmbedder,
+  embedFonts,
+} from './layout';
+import { DamageRecord, formatDamageRecord } from '@/lib/damage';
+import { EvidenceManifest, PhotoEvidence, formatEvidenceLocation } from '@/lib/evidence';
+import {
+  IDENTITY_STEPS,
+  compareVehicleIdentity,
+  damageSectionPhotos,
+  findIdentityPhoto,
+  hasVehicleIdentity,
+  hasVehicleReadings,
+  identityComparisonLines,
+  identityLines,
+} from '@/lib/vehicleIdentity';
+import { rentalAgreementLines } from '@/lib/rentalAgreement';
+import { WalkAroundVideo, describeWalkAroundVideo } from '@/lib/videoWalkAround';
+import { vehicleTypeLabel } from '@/lib/walkAround';
+import { verificationKeywords } from './reportEvidence';
+
+export interface InspectionReportOptions {
+  /** Timestamp printed as the generation time (defaults to now) */
+  generatedAt?: number;
+}
+
+/**
+ * Build the inspection report and return the PDF bytes
+ */
+export async function buildInspectionReportPDF(
+  historyItem: HistoryItem,
+  loadImage: ReportImageLoader,
+  options: InspectionReportOptions = {}
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  await appendInspectionReport(doc, historyItem, loadImage, options);
+  return doc.save();
+}
+
+/**
+ * Append the inspection report pages to an existing document
+ * (used to attach the evidence to a counter-claim letter)
+ */
+export async function appendInspectionReport(
+  doc: PDFDocument,
+  historyItem: HistoryItem,
+  loadImage: ReportImageLoader,
+  options: InspectionReportOptions = {}
+): Promise<void> {
+  const generatedAt = options.generatedAt ?? Date.now();
+  const fonts = await embedFonts(doc);
+  const embedImage = createImageEmbedder(doc, loadImage);
+  const writer = new PdfWriter(doc, fonts);
+
+  setReportMetadata(doc, historyItem, generatedAt);
+
+  // Cover page
+  writer.text('VEHICLE INSPECTION REPORT', { size: 22, bold: true, color: COLORS.primary });
+  writer.spacer(4);
+  writer.text(`Inspection ID: ${historyItem.id}`, { size: 10, color: COLORS.muted });
+  writer.text(`Generated: ${new Date(generatedAt).toISOString()}`, { size: 10, color: COLORS.muted });
+  writer.rule();
+
+  writer.text(`Pickup inspection: ${historyItem.dateText}`, { bold: true });
+  if (historyItem.expectedReturnDateText) {
+    writer.text(`Expected return: ${historyItem.expectedReturnDateText}`);
+  }
+  if (historyItem.isReturned && historyItem.afterDateText) {
+    writer.text(`Return inspection: ${historyItem.afterDateText}`, { bold: true });
+  }
+  const sectionPhotos = damageSectionPhotos(historyItem.sectionPhotos);
+  writer.text(`Sections documented: ${sectionPhotos.length}`);
+  if (historyItem.walkAroundPlan) {
+    writer.text(`Vehicle type: ${vehicleTypeLabel(historyItem.walkAroundPlan.vehicleType)}`);
+  }
+  drawWalkAroundVideo(writer, 'Walk-around video', historyItem.walkAroundVideo);
+  if (historyItem.isReturned) {
+    drawWalkAroundVideo(writer, 'Return walk-around video', historyItem.afterWalkAroundVideo);
+  }
+  drawVehicleSummary(writer, historyItem);
+  drawRentalAgreement(writer, historyItem);
+  drawEvidenceSummary(writer, 'Pickup', historyItem.evidenceManifest);
+  if (historyItem.isReturned) {
+    drawEvidenceSummary(writer, 'Return', historyItem.afterEvidenceManifest);
+  }
+  writer.spacer(12);
+
+  const mainPhoto = await embedImage(historyItem.mainPhoto);
+  if (historyItem.isReturned && historyItem.afterMainPhoto) {
+    const afterMainPhoto = await embedImage(historyItem.afterMainPhoto);
+    drawBeforeAfter(writer, mainPhoto, afterMainPhoto, historyItem.dateText, historyItem.afterDateText, 300);
+  } else {
+    writer.text('Main vehicle photo', { size: 10, bold: true, color: COLORS.muted });
+    writer.spacer(4);
+    writer.imageBox(mainPhoto, MARGIN, writer.y, CONTENT_WIDTH, 380);
+    writer.spacer(380);
+  }
+  writer.spacer(6);
+  drawPhotoEvidence(writer, 'Main photo', historyItem.mainPhotoEvidence);
+  if (historyItem.isReturned) {
+    drawPhotoEvidence(writer, 'Return main photo', historyItem.afterMainPhotoEvidence);
+  }
+
+  await drawIdentityPage(writer, historyItem, embedImage);
+
+  // One page per section
+  const afterBySection = new Map<string, AfterSectionPhoto>();
+  (historyItem.afterSectionPhotos || []).forEach(photo => afterBySection.set(photo.section, photo));
+  const comparisonBySection = new Map<string, SectionComparison>();
+  (historyItem.returnComparison || []).forEach(comparison => comparisonBySection.set(comparison.section, comparison));
+
+  for (let index = 0; index < sectionPhotos.length; index++) {
+    const sectionPhoto = sectionPhotos[index];
+    writer.newPage();
+    writer.text(`${index + 1}. ${sectionPhoto.section}`, { size: 18, bold: true, color: COLORS.primary });
+    writer.spacer(6);
+
+    const beforeImage = await embedImage(sectionPhoto.photoUri);
+    const afterPhoto = historyItem.isReturned ? afterBySection.get(sectionPhoto.section) : undefined;
+
+    let beforeRect: DrawnRect | null;
+    if (historyItem.isReturned) {
+      const afterImage = afterPhoto ? await embedImage(afterPhoto.photoUri) : null;
+      beforeRect = drawBeforeAfter(writer, beforeImage, afterImage, historyItem.dateText, historyItem.afterDateText, 320);
+    } else {
+      writer.text(`Captured: ${historyItem.dateText}`, { size: 10, color: COLORS.muted });
+      writer.spacer(4);
+      beforeRect = writer.imageBox(beforeImage, MARGIN, writer.y, CONTENT_WIDTH, 360);
+      writer.spacer(360);
+    }
+    if (beforeRect) {
+      drawDamageMarkers(writer, beforeRect, sectionPhoto.damages || []);
+    }
+
+    writer.spacer(12);
+    writer.text('Damage notes (pickup)', { bold: true });
+    writer.text(sectionPhoto.damageNotes || 'No damage notes recorded.');
+    if (sectionPhoto.damages && sectionPhoto.damages.length > 0) {
+      writer.spacer(6);
+      writer.text('Documented damage', { bold: true });
+      sectionPhoto.damages.forEach((damage, damageIndex) => {
+        writer.text(`${damageIndex + 1}. ${formatDamageRecord(damage)}${damage.source === 'user' ? ' (added by renter)' : ''}`);
+      });
+    }
+    drawPhotoEvidence(writer, 'Pickup photo', sectionPhoto.evidence);
+    if (afterPhoto) {
+      drawPhotoEvidence(writer, 'Return photo', afterPhoto.evidence);
+    }
+    writer.spacer(6);
+    writer.text(`Status: ${sectionPhoto.needsRetake ? 'Flagged for retake' : sectionPhoto.isUsable ? 'Usable' : 'Not usable'}`, {
+      size: 10,
+      color: sectionPhoto.needsRetake ? COLORS.warning : COLORS.muted,
+    });
+
+    const comparison = comparisonBySection.get(sectionPhoto.section);
+    if (comparison && !comparison.error) {
+      writer.spacer(10);
+      writer.text(`Return comparison (${Math.round(comparison.confidence * 100)}% confidence)`, { bold: true });
+      comparison.newDamage.forEach(damage => writer.text(`- New: ${damage}`, { color: COLORS.warning }));
+      comparison.unchangedDamage.forEach(damage => writer.text(`- Pre-existing: ${damage}`));
+      if (comparison.newDamage.length === 0) {
+        writer.text('No new damage detected compared to pickup.');
+      }
+    }
+  }
+
+  // Return photos for sections that were not part of the pickup walk-around
+  const pickupSections = new Set(sectionPhotos.map(sp => sp.section));
+  const extraAfterPhotos = historyItem.isReturned
+    ? damageSectionPhotos(historyItem.afterSectionPhotos || []).filter(photo => !pickupSections.has(photo.section))
+    : [];
+  for (const afterPhoto of extraAfterPhotos) {
+    writer.newPage();
+    writer.text(`${afterPhoto.section} (return only)`, { size: 18, bold: true, color: COLORS.primary });
+    writer.spacer(6);
+    writer.text(`Captured: ${historyItem.afterDateText || ''}`, { size: 10, color: COLORS.muted });
+    writer.spacer(4);
+    writer.imageBox(await embedImage(afterPhoto.photoUri), MARGIN, writer.y, CONTENT_WIDTH, 360);
+    writer.spacer(360);
+    writer.spacer(8);
+    drawPhotoEvidence(writer, 'Return photo', afterPhoto.evidence);
+  }
+
+  writer.finish(`Vehicle Inspection Report - ${historyItem.id}`);
+}
+
+/**
+ * Plate, VIN and readings on the cover, with the return comparison
+ */
+function drawVehicleSummary(writer: PdfWriter, historyItem: HistoryItem): void {
+  const pickupLines = identityLines(historyItem.vehicleIdentity, historyItem.pickupReadings);
+  const returnLines = historyItem.isReturned ? identityLines(historyItem.returnIdentity, historyItem.returnReadings) : [];
+  if (pickupLines.length === 0 && returnLines.length === 0) return;
+
+  writer.spacer(6);
+  if (pickupLines.length > 0) {
+    writer.text('Vehicle at pickup', { bold: true });
+    pickupLines.forEach(line => writer.text(line));
+  }
+  if (returnLines.length > 0) {
+    writer.spacer(4);
+    writer.text('Vehicle at return', { bold: true });
+    returnLines.forEach(line => writer.text(line));
+
+    const comparison = compareVehicleIdentity(historyItem);
+    identityComparisonLines(comparison).forEach(line => writer.text(line, { size: 10, color: COLORS.muted }));
+    comparison.warnings.forEach(warning => writer.text(`Warning: ${warning}`, { color: COLORS.warning }));
+  }
+}
+
+/**
+ * Rental company, agreement number, locations and renter on the cover
+ */
+function drawRentalAgreement(writer: PdfWriter, historyItem: HistoryItem): void {
+  const lines = rentalAgreementLines(historyItem.rentalAgreement);
+  if (lines.length === 0) return;
+
+  writer.spacer(6);
+  writer.text('Rental agreement', { bold: true });
+  lines.forEach(line => writer.text(line));
+}
+
+/**
+ * License plate, VIN and dashboard photos, pickup next to return
+ */
+async function drawIdentityPage(
+  writer: PdfWriter,
+  historyItem: HistoryItem,
+  embedImage: ReturnType<typeof createImageEmbedder>
+): Promise<void> {
+  const steps = IDENTITY_STEPS
+    .map(step => ({
+      step,
+      pickup: findIdentityPhoto(historyItem.sectionPhotos, step.kind),
+      returned: historyItem.isReturned ? findIdentityPhoto(historyItem.afterSectionPhotos, step.kind) : undefined,
+    }))
+    .filter(({ pickup, returned }) => pickup || returned);
+  const hasValues = hasVehicleIdentity(historyItem.vehicleIdentity) || hasVehicleReadings(historyItem.pickupReadings);
+  if (steps.length === 0 && !hasValues) return;
+
+  writer.newPage();
+  writer.text('Vehicle identity', { size: 18, bold: true, color: COLORS.primary });
+  writer.text('Values were read from these photos and confirmed by the renter.', { size: 10, color: COLORS.muted });
+  writer.spacer(6);
+
+  for (const { step, pickup, returned } of steps) {
+    // Keep the caption on the page of its photos
+    writer.ensureSpace(220);
+    writer.text(step.section, { bold: true });
+    writer.spacer(4);
+    if (historyItem.isReturned) {
+      drawBeforeAfter(
+        writer,
+        pickup ? await embedImage(pickup.photoUri) : null,
+        returned ? await embedImage(returned.photoUri) : null,
+        historyItem.dateText,
+        historyItem.afterDateText,
+        160
+      );
+    } else if (pickup) {
+      writer.imageBox(await embedImage(pickup.photoUri), MARGIN, writer.y, CONTENT_WIDTH, 180);
+      writer.spacer(180);
+    }
+    writer.spacer(4);
+    drawPhotoEvidence(writer, 'Pickup photo', pickup?.evidence);
+    drawPhotoEvidence(writer, 'Return photo', returned?.evidence);
+    writer.spacer(10);
+  }
+}
+
+/**
+ * Length, frame matching and fingerprint of a walk-around video
+ */
+function drawWalkAroundVideo(writer: PdfWriter, label: string, video: WalkAroundVideo | undefined): void {
+  if (!video) return;
+  writer.text(describeWalkAroundVideo(video, label));
+  if (video.md5) {
+    writer.text(`Video MD5: ${video.md5}`, { size: 9, color: COLORS.muted });
+  }
+}
+
+/**
+ * Verification code (or sealing status) of one walk-around's evidence manifest
+ */
+function drawEvidenceSummary(writer: PdfWriter, label: string, manifest: EvidenceManifest | undefined): void {
+  if (!manifest) return;
+  writer.spacer(6);
+  const countersignature = manifest.countersignature;
+  if (countersignature) {
+    writer.text(`${label} evidence verification code: ${countersignature.verificationCode}`, { bold: true });
+    writer.text(
+      `${manifest.entries.length} photos hash-chained, device-signed and countersigned ${new Date(countersignature.serverTimestamp).toISOString()}`,
+      { size: 9, color: COLORS.muted }
+    );
+  } else {
+    writer.text(`${label} evidence: ${manifest.entries.length} photos hash-chained and device-signed (not yet countersigned)`, {
+      size: 10,
+      color: COLORS.muted,
+    });
+  }
+  writer.text(`Chain head: ${manifest.headHash}`, { size: 8, color: COLORS.muted });
+}
+
+/**
+ * Hash, capture time and location of a photo
+ */
+function drawPhotoEvidence(writer: PdfWriter, label: string, evidence: PhotoEvidence | undefined): void {
+  if (!evidence) return;
+  const location = evidence.location ? ` - GPS ${formatEvidenceLocation(evidence.location)}` : '';
+  writer.text(`${label} captured ${new Date(evidence.capturedAt).toISOString()}${location}`, { size: 8, color: COLORS.muted });
+  writer.text(`SHA-256 ${evidence.sha256}`, { size: 8, color: COLORS.muted });
+}
+
+/**
+ * Numbered boxes over the pickup photo, matching the "Documented damage" list
+ */
+function drawDamageMarkers(writer: PdfWriter, rect: DrawnRect, damages: DamageRecord[]): void {
+  damages.forEach((damage, index) => {
+    const box = damage.boundingBox;
+    if (!box) return;
+    // Bounding boxes are measured from the top-left, PDF coordinates from the bottom-left
+    const x = rect.x + box.x * rect.width;
+    const top = rect.y + rect.height - box.y * rect.height;
+    const height = box.height * rect.height;
+    writer.page.drawRectangle({
+      x,
+      y: top - height,
+      width: box.width * rect.width,
+      height,
+      borderColor: COLORS.warning,
+      borderWidth: 1.5,
+    });
+
+    const label = String(index + 1);
+    const size = 8;
+    const labelWidth = writer.fonts.bold.widthOfTextAtSize(label, size) + 4;
+    writer.page.drawRectangle({ x, y: top - size - 2, width: labelWidth, height: size + 2, color: COLORS.warning });
+    writer.page.drawText(label, { x: x + 2, y: top - size, size, font: writer.fonts.bold, color: rgb(1, 1, 1) });
+  });
+}
+
+/**
+ * Two photos side by side with "Pickup" / "Return" captions.
+ * Returns where the pickup photo was drawn.
+ */
+function drawBeforeAfter(
+  writer: PdfWriter,
+  before: PDFImage | null,
+  after: PDFImage | null,
+  beforeDate: string,
+  afterDate: string | undefined,
+  height: number
+): DrawnRect | null {
+  const gap = 12;
+  const columnWidth = (CONTENT_WIDTH - gap) / 2;
+  writer.ensureSpace(height + 40);
+  const captionTop = writer.y;
+
+  writer.text('Pickup', { size: 11, bold: true, width: columnWidth });
+  writer.y = captionTop;
+  writer.text('Return', { size: 11, bold: true, x: MARGIN + columnWidth + gap, width: columnWidth });
+  const dateTop = writer.y;
+  writer.text(beforeDate, { size: 9, color: COLORS.muted, width: columnWidth });
+  writer.y = dateTop;
+  writer.text(after ? afterDate || '' : 'No matching return photo', {
+    size: 9,
+    color: COLORS.muted,
+    x: MARGIN + columnWidth + gap,
+    width: columnWidth,
+  });
+  writer.spacer(4);
+
+  const beforeRect = writer.imageBox(before, MARGIN, writer.y, columnWidth, height);
+  writer.imageBox(after, MARGIN + columnWidth + gap, writer.y, columnWidth, height);
+  writer.spacer(height);
+  return beforeRect;
+}
+
+function setReportMetadata(doc: PDFDocument, historyItem: HistoryItem, generatedAt: number): void {
+  doc.setTitle(`Vehicle Inspection Report ${historyItem.id}`);
+  doc.setSubject(`Rental vehicle inspection from ${historyItem.dateText}`);
+  doc.setCreator('Rental Car Checker');
+  doc.setProducer('Rental Car Checker');
+  doc.setCreationDate(new Date(generatedAt));
+  doc.setModificationDate(new Date(generatedAt));
+  // Lets the verify page find the codes in an uploaded report (lib/pdf/reportEvidence.ts)
+  const codes = [historyItem.evidenceManifest, historyItem.isReturned ? historyItem.afterEvidenceManifest : undefined]
+    .map(manifest => manifest?.countersignature?.verificationCode)
+    .filter((code): code is string => !!code);
+  if (codes.length > 0) {
+    doc.setKeywords(verificationKeywords(codes));
+  }
+}
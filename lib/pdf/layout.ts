@@ -0,0 +1,259 @@
+/**
+ * PDF layout helpers
+ *
+ * Small drawing utilities on top of pdf-lib shared by the inspection report
+ * and counter-claim letter builders. Platform independent - images are passed
+ * in as bytes so the same code runs in the app (native + web) and on the backend.
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+// US Letter in PDF points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+export const MARGIN = 48;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+export const COLORS = {
+  primary: rgb(0x2e / 255, 0x7d / 255, 0x8f / 255),
+  text: rgb(0.1, 0.1, 0.1),
+  muted: rgb(0.4, 0.4, 0.4),
+  border: rgb(0.8, 0.8, 0.8),
+  warning: rgb(0.8, 0.25, 0.2),
+};
+
+export interface ReportImage {
+  bytes: Uint8Array;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+/**
+ * Resolves a photo URI (data URI, file URI, remote URL) to raw image bytes.
+ * Returns null when the photo cannot be loaded - the report shows a placeholder.
+ */
+export type ReportImageLoader = (uri: string) => Promise<ReportImage | null>;
+
+/** Area of the page an image was drawn into, in PDF points (origin bottom-left) */
+export interface DrawnRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export async function embedFonts(doc: PDFDocument): Promise<PdfFonts> {
+  return {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+}
+
+/**
+ * Standard PDF fonts only support WinAnsi encoding - replace typographic
+ * characters the model likes to produce and drop anything else unsupported.
+ */
+export function sanitizeText(text: string): string {
+  return text
+    .replace(/[‘’‛]/g, "'")
+    .replace(/[“”‟]/g, '"')
+    .replace(/[–—−]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[•●]/g, '-')
+    .replace(/\t/g, '  ')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+/**
+ * Split text into lines that fit the given width
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  sanitizeText(text).split('\n').forEach(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      return;
+    }
+
+    let current = '';
+    words.forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        current = candidate;
+        return;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      // Break words that are longer than a whole line (e.g. URLs, hashes)
+      let remainder = word;
+      while (font.widthOfTextAtSize(remainder, size) > maxWidth && remainder.length > 1) {
+        let cut = remainder.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(remainder.slice(0, cut), size) > maxWidth) {
+          cut--;
+        }
+        lines.push(remainder.slice(0, cut));
+        remainder = remainder.slice(cut);
+      }
+      current = remainder;
+    });
+    lines.push(current);
+  });
+
+  return lines;
+}
+
+/**
+ * Cursor-based writer that adds pages as text flows past the bottom margin
+ */
+export class PdfWriter {
+  page: PDFPage;
+  y: number;
+  private readonly firstPageIndex: number;
+
+  constructor(readonly doc: PDFDocument, readonly fonts: PdfFonts) {
+    this.firstPageIndex = doc.getPageCount();
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  newPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page if fewer than `height` points remain */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + 20) {
+      this.newPage();
+    }
+  }
+
+  text(
+    text: string,
+    options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number; width?: number; lineGap?: number } = {}
+  ): void {
+    const size = options.size ?? 11;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    const x = options.x ?? MARGIN;
+    const width = options.width ?? CONTENT_WIDTH;
+    const lineHeight = size * 1.35 + (options.lineGap ?? 0);
+
+    wrapText(text, font, size, width).forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, { x, y: this.y + size * 0.3, size, font, color: options.color ?? COLORS.text });
+    });
+  }
+
+  spacer(height: number): void {
+    this.y -= height;
+  }
+
+  rule(): void {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: COLORS.border,
+    });
+    this.y -= 6;
+  }
+
+  /**
+   * Draw an image scaled to fit the box, or a placeholder when missing.
+   * Does not move the cursor - callers position boxes explicitly.
+   * Returns where the image ended up, or null for the placeholder.
+   */
+  imageBox(image: PDFImage | null, x: number, top: number, width: number, height: number): DrawnRect | null {
+    if (!image) {
+      this.page.drawRectangle({ x, y: top - height, width, height, borderColor: COLORS.border, borderWidth: 1 });
+      const label = 'Photo unavailable';
+      const size = 10;
+      this.page.drawText(label, {
+        x: x + (width - this.fonts.regular.widthOfTextAtSize(label, size)) / 2,
+        y: top - height / 2,
+        size,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+      return null;
+    }
+
+    const scale = Math.min(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    const rect = {
+      x: x + (width - drawWidth) / 2,
+      y: top - height + (height - drawHeight) / 2,
+      width: drawWidth,
+      height: drawHeight,
+    };
+    this.page.drawImage(image, rect);
+    return rect;
+  }
+
+  /** Page numbers + footer text on every page this writer added */
+  finish(footer: string): void {
+    const pages = this.doc.getPages().slice(this.firstPageIndex);
+    pages.forEach((page, index) => {
+      const size = 8;
+      const label = sanitizeText(`${footer}  |  Page ${index + 1} of ${pages.length}`);
+      page.drawText(label, {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+/**
+ * Embed an image loaded through the loader, caching by URI so a photo that
+ * appears more than once is only embedded once.
+ */
+export function createImageEmbedder(doc: PDFDocument, loadImage: ReportImageLoader) {
+  const cache = new Map<string, Promise<PDFImage | null>>();
+
+  return (uri: string | undefined): Promise<PDFImage | null> => {
+    if (!uri) return Promise.resolve(null);
+    if (!cache.has(uri)) {
+      cache.set(uri, (async () => {
+        try {
+          const image = await loadImage(uri);
+          if (!image) return null;
+          return image.mimeType === 'image/png'
+            ? await doc.embedPng(image.bytes)
+            : await doc.embedJpg(image.bytes);
+        } catch (error) {
+          console.warn('Could not embed photo in PDF:', error);
+          return null;
+        }
+      })());
+    }
+    return cache.get(uri)!;
+  };
+}
+
+/**
+ * Detect JPEG / PNG from magic bytes
+ */
+export function detectImageMime(bytes: Uint8Array): ReportImage['mimeType'] | null {
+  if (bytes.length >= 4 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
+    return 'image/png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+    return 'image/jpeg';
+  }
+  return null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Evidence carried by an inspection report PDF
+ *
+ * The report stores the verification codes of its evidence manifests in the
+ * PDF keywords, and pdf-lib embeds JPEG photos unchanged (DCTDecode streams),
+ * so the SHA-256 of each embedded JPEG equals the hash recorded at capture.
+ * The verify page uses this to check an uploaded report against the
+ * registered manifests. PNG photos are re-encoded on embedding and cannot be
+ * matched this way.
+ *
+ * Pure module (no React Native imports): the report renderer runs in the app and in
+ * backend/reports.ts.
+ */
+
+import { PDFArray, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { normalizeVerificationCode, sha256Hex } from '@/lib/evidence';
+
+const VERIFICATION_KEYWORD_PREFIX = 'rental-car-checker-verification:';
+
+export interface ReportEvidence {
+  verificationCodes: string[];
+  imageHashes: string[]; // SHA-256 of each embedded JPEG
+}
+
+/**
+ * PDF keywords recording the report's verification codes
+ */
+export function verificationKeywords(codes: string[]): string[] {
+  return codes.map(code => `${VERIFICATION_KEYWORD_PREFIX}${code}`);
+}
+
+function isJpegStream(stream: PDFRawStream): boolean {
+  const filter = stream.dict.get(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return filter === PDFName.of('DCTDecode');
+  if (filter instanceof PDFArray) {
+    // Only a lone DCTDecode filter leaves the JPEG bytes as they were
+    return filter.size() === 1 && filter.get(0) === PDFName.of('DCTDecode');
+  }
+  return false;
+}
+
+/**
+ * Read the verification codes and photo hashes of a report.
+ * Throws when the bytes are not a readable PDF.
+ */
+export async function readReportEvidence(pdfBytes: Uint8Array): Promise<ReportEvidence> {
+  const doc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+  const verificationCodes = new Set<string>();
+  (doc.getKeywords() || '').split(/\s+/).forEach(keyword => {
+    if (keyword.startsWith(VERIFICATION_KEYWORD_PREFIX)) {
+      verificationCodes.add(normalizeVerificationCode(keyword.substring(VERIFICATION_KEYWORD_PREFIX.length)));
+    }
+  });
+
+  const imageHashes = new Set<string>();
+  doc.context.enumerateIndirectObjects().forEach(([, object]) => {
+    if (object instanceof PDFRawStream && isJpegStream(object)) {
+      imageHashes.add(sha256Hex(object.contents));
+    }
+  });
+
+  return { verificationCodes: [...verificationCodes], imageHashes: [...imageHashes] };
+}
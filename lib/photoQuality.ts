@@ -0,0 +1,210 @@
+/**
+ * Capture quality check
+ *
+ * Scores a section photo on the device right after it is taken, before it
+ * is sent for damage analysis: sharpness (blur), exposure, and whether the
+ * car fills the framing guide of the section (distance). Photos that fail are
+ * offered for a retake straight away instead of after a model round-trip.
+ * This is a post-capture check; the app scores a downscaled copy
+ * (services/photoQuality.ts), not the camera preview.
+ *
+ * Works on the JPEG's luminance blocks (lib/jpegBlocks.ts); photos that are
+ * not baseline JPEGs are not scored (null) and go through unchecked.
+ */
+
+import { LuminanceBlocks, readLuminanceBlocks } from '@/lib/jpegBlocks';
+
+export type QualityIssue = 'blurry' | 'tooDark' | 'tooBright' | 'tooFar';
+
+export const QUALITY_ISSUE_MESSAGES: Record<QualityIssue, string> = {
+  blurry: 'The photo is blurry - hold the phone still and tap to focus',
+  tooDark: 'The photo is too dark - find more light or turn on a light source',
+  tooBright: 'The photo is overexposed - avoid pointing at the sun or strong reflections',
+  tooFar: 'The car is too far away - step closer so it fills the guide',
+};
+
+export interface PhotoQuality {
+  score: number; // 0-100
+  sharpness: number; // 0-1
+  brightness: number; // Mean luminance, 0-255
+  coverage: number; // Share of the frame taken up by detailed content, 0-1
+  issues: QualityIssue[];
+}
+
+// Passing score; issues fail a photo regardless
+export const MIN_QUALITY_SCORE = 60;
+// Below this sharpness (0-1) a photo is reported as blurry
+const MIN_SHARPNESS = 0.35;
+
+// High-frequency share of the detail in the most detailed blocks at which a photo counts as sharp / blurry
+const SHARP_DETAIL_SHARE = 0.3;
+const BLURRY_DETAIL_SHARE = 0.1;
+// Edge steepness in the block-mean image (Laplacian over gradient at the strongest edges), same idea one scale up
+const SHARP_EDGE_RATIO = 0.4;
+const BLURRY_EDGE_RATIO = 0.2;
+// From this many blocks across, fine detail inside a block no longer tells a sharp photo from a blurry one
+// (a 12 MP photo spreads every edge over several pixels), so edges between blocks are judged as well
+const LARGE_IMAGE_COLUMNS = 200;
+// Share of blocks used for the sharpness estimate (the most detailed ones - smooth panels say nothing about focus)
+const DETAILED_BLOCK_SHARE = 0.2;
+
+const DARK_BRIGHTNESS = 45;
+const BRIGHT_BRIGHTNESS = 215;
+const CLIPPED_DARK = 12;
+const CLIPPED_BRIGHT = 245;
+const MAX_CLIPPED_SHARE = 0.35;
+
+// A block with less AC energy than this is taken to be flat (sky, tarmac, smooth paint)
+const FLAT_BLOCK_TEXTURE = 120;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+/**
+ * Value above which the top `share` of the values lie
+ */
+function topThreshold(values: Float32Array, share: number): number {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.max(0, Math.floor(sorted.length * (1 - share)) - 1)] ?? 0;
+}
+
+function measureBlockSharpness(blocks: LuminanceBlocks): number {
+  const threshold = topThreshold(blocks.texture, DETAILED_BLOCK_SHARE);
+  let high = 0;
+  let total = 0;
+  blocks.texture.forEach((texture, index) => {
+    if (texture <= threshold) return;
+    high += blocks.detail[index];
+    total += texture;
+  });
+  if (total === 0) return 0;
+  return clamp01((high / total - BLURRY_DETAIL_SHARE) / (SHARP_DETAIL_SHARE - BLURRY_DETAIL_SHARE));
+}
+
+function measureEdgeSharpness(blocks: LuminanceBlocks): number {
+  const { columns, rows, brightness } = blocks;
+  const gradients = new Float32Array(columns * rows);
+  const laplacians = new Float32Array(columns * rows);
+  for (let row = 1; row < rows - 1; row++) {
+    for (let column = 1; column < columns - 1; column++) {
+      const index = row * columns + column;
+      const left = brightness[index - 1];
+      const right = brightness[index + 1];
+      const up = brightness[index - columns];
+      const down = brightness[index + columns];
+      gradients[index] = Math.abs(right - left) + Math.abs(down - up);
+      laplacians[index] = Math.abs(4 * brightness[index] - left - right - up - down);
+    }
+  }
+  const threshold = topThreshold(gradients, DETAILED_BLOCK_SHARE);
+  let gradient = 0;
+  let laplacian = 0;
+  gradients.forEach((value, index) => {
+    if (value <= threshold) return;
+    gradient += value;
+    laplacian += laplacians[index];
+  });
+  if (gradient === 0) return 0;
+  return clamp01((laplacian / gradient - BLURRY_EDGE_RATIO) / (SHARP_EDGE_RATIO - BLURRY_EDGE_RATIO));
+}
+
+function measureSharpness(blocks: LuminanceBlocks): number {
+  const blockSharpness = measureBlockSharpness(blocks);
+  return blocks.columns >= LARGE_IMAGE_COLUMNS
+    ? Math.max(blockSharpness, measureEdgeSharpness(blocks))
+    : blockSharpness;
+}
+
+/**
+ * Share of the frame spanned by the textured blocks (5th-95th percentile in
+ * each direction, so stray detail at the edges does not count)
+ */
+function measureCoverage(blocks: LuminanceBlocks): number {
+  const columns: number[] = [];
+  const rows: number[] = [];
+  for (let row = 0; row < blocks.rows; row++) {
+    for (let column = 0; column < blocks.columns; column++) {
+      if (blocks.texture[row * blocks.columns + column] >= FLAT_BLOCK_TEXTURE) {
+        columns.push(column);
+        rows.push(row);
+      }
+    }
+  }
+  if (columns.length === 0) return 0;
+  columns.sort((a, b) => a - b);
+  rows.sort((a, b) => a - b);
+  const spanX = (quantile(columns, 0.95) - quantile(columns, 0.05) + 1) / blocks.columns;
+  const spanY = (quantile(rows, 0.95) - quantile(rows, 0.05) + 1) / blocks.rows;
+  return clamp01(spanX * spanY);
+}
+
+function exposureScore(brightness: number, darkShare: number, brightShare: number): number {
+  const level = brightness < DARK_BRIGHTNESS
+    ? brightness / DARK_BRIGHTNESS
+    : brightness > BRIGHT_BRIGHTNESS
+      ? (255 - brightness) / (255 - BRIGHT_BRIGHTNESS)
+      : 1;
+  const clipping = 1 - clamp01((Math.max(darkShare, brightShare) - MAX_CLIPPED_SHARE / 2) / (MAX_CLIPPED_SHARE / 2));
+  return clamp01(Math.min(level, clipping));
+}
+
+/**
+ * Score the luminance blocks of a photo. `minCoverage` is how much of the
+ * frame the car should take up for this section (0 for close-ups and interiors).
+ */
+export function scoreLuminanceBlocks(blocks: LuminanceBlocks, minCoverage: number): PhotoQuality {
+  const count = blocks.columns * blocks.rows;
+  let sum = 0;
+  let dark = 0;
+  let bright = 0;
+  for (let i = 0; i < count; i++) {
+    const value = blocks.brightness[i];
+    sum += value;
+    if (value <= CLIPPED_DARK) dark++;
+    if (value >= CLIPPED_BRIGHT) bright++;
+  }
+  const brightness = count > 0 ? sum / count : 0;
+  const darkShare = count > 0 ? dark / count : 1;
+  const brightShare = count > 0 ? bright / count : 0;
+
+  const sharpness = measureSharpness(blocks);
+  const coverage = measureCoverage(blocks);
+  const exposure = exposureScore(brightness, darkShare, brightShare);
+  const framing = minCoverage > 0 ? clamp01(coverage / minCoverage) : 1;
+
+  const issues: QualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('blurry');
+  if (brightness < DARK_BRIGHTNESS || darkShare > MAX_CLIPPED_SHARE) issues.push('tooDark');
+  if (brightness > BRIGHT_BRIGHTNESS || brightShare > MAX_CLIPPED_SHARE) issues.push('tooBright');
+  if (framing < 1) issues.push('tooFar');
+
+  const score = Math.round(100 * (0.5 * sharpness + 0.3 * exposure + 0.2 * framing));
+  return { score, sharpness, brightness, coverage, issues };
+}
+
+/**
+ * Quality of a captured JPEG, or null when it cannot be checked
+ */
+export function assessPhotoQuality(jpeg: Uint8Array, minCoverage: number): PhotoQuality | null {
+  const blocks = readLuminanceBlocks(jpeg);
+  return blocks ? scoreLuminanceBlocks(blocks, minCoverage) : null;
+}
+
+export function passesQualityCheck(quality: PhotoQuality | null): boolean {
+  return !quality || (quality.issues.length === 0 && quality.score >= MIN_QUALITY_SCORE);
+}
+
+/**
+ * Retake prompt text for a photo that failed the check
+ */
+export function qualityIssueSummary(quality: PhotoQuality): string {
+  const messages = quality.issues.map(issue => QUALITY_ISSUE_MESSAGES[issue]);
+  if (messages.length === 0) messages.push('The photo may not be clear enough for damage analysis');
+  return messages.join('\n');
+}
@@ -0,0 +1,105 @@
+/**
+ * Photo references
+ *
+ * On web, captured photos are kept as blobs in IndexedDB (services/photoBlobs.ts)
+ * and a HistoryItem holds a reference to the blob instead of the data URI:
+ *   photo-blob:<inspectionId>/<kind>/<section>
+ * Watermarked copies (services/watermark.ts) live next to them under
+ *   <inspectionId>/stamped/<kind>/<section>/<source>
+ * and documents of a dispute's correspondence log (services/disputes.ts) under
+ *   <inspectionId>/dispute/<fileName>
+ *
+ * Older web builds replaced data URIs with a "[STORED]" placeholder, which lost
+ * the photo locally; such photos can only be restored from the server copy.
+ */
+
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import type { StoredPhotoKind } from '@/lib/historyRecords';
+
+export const PHOTO_BLOB_REF_PREFIX = 'photo-blob:';
+
+export function isPhotoBlobRef(uri: string | undefined): boolean {
+  return !!uri && uri.startsWith(PHOTO_BLOB_REF_PREFIX);
+}
+
+export function photoBlobKey(inspectionId: string, kind: StoredPhotoKind, section: string): string {
+  return `${inspectionId}/${kind}/${section}`;
+}
+
+/**
+ * Blob key of the stamped copy of a photo. `source` identifies the original,
+ * so a retaken photo gets a new stamped copy.
+ */
+export function stampedPhotoBlobKey(inspectionId: string, kind: StoredPhotoKind, section: string, source: string): string {
+  return `${inspectionId}/stamped/${kind}/${section}/${source}`;
+}
+
+/**
+ * Blob key of a document logged on the inspection's dispute. `fileName` is made unique by the caller.
+ */
+export function disputeFileBlobKey(inspectionId: string, fileName: string): string {
+  return `${inspectionId}/dispute/${fileName}`;
+}
+
+export function photoBlobRef(key: string): string {
+  return `${PHOTO_BLOB_REF_PREFIX}${key}`;
+}
+
+/**
+ * Blob key of a reference (null for any other URI)
+ */
+export function keyOfPhotoBlobRef(uri: string): string | null {
+  return isPhotoBlobRef(uri) ? uri.substring(PHOTO_BLOB_REF_PREFIX.length) : null;
+}
+
+/**
+ * Inspection ID a blob key belongs to
+ */
+export function inspectionIdOfPhotoBlobKey(key: string): string {
+  return key.split('/')[0];
+}
+
+/**
+ * Whether the URI is a "[STORED]" placeholder left by older web builds
+ */
+export function isPhotoPlaceholder(uri: string | undefined): boolean {
+  return !!uri && uri.includes('[STORED]');
+}
+
+function countPhotoPlaceholders(item: HistoryItem): number {
+  return [
+    item.mainPhoto,
+    item.afterMainPhoto,
+    ...item.sectionPhotos.map(photo => photo.photoUri),
+    ...(item.afterSectionPhotos || []).map(photo => photo.photoUri),
+  ].filter(isPhotoPlaceholder).length;
+}
+
+/**
+ * Replace placeholder photos with the server copy of the same photo.
+ * Returns `local` itself when there was nothing to restore.
+ */
+export function restorePlaceholderPhotos(local: HistoryItem, remote: HistoryItem): HistoryItem {
+  const placeholders = countPhotoPlaceholders(local);
+  if (placeholders === 0) return local;
+
+  const restore = (uri: string, remoteUri: string | undefined) =>
+    isPhotoPlaceholder(uri) && remoteUri && !isPhotoPlaceholder(remoteUri) ? remoteUri : uri;
+  const remoteSection = (photos: { section: string; photoUri: string }[] | undefined, section: string) =>
+    photos?.find(photo => photo.section === section)?.photoUri;
+
+  const restored: HistoryItem = {
+    ...local,
+    mainPhoto: restore(local.mainPhoto, remote.mainPhoto),
+    sectionPhotos: local.sectionPhotos.map(photo => ({
+      ...photo,
+      photoUri: restore(photo.photoUri, remoteSection(remote.sectionPhotos, photo.section)),
+    })),
+    afterMainPhoto: local.afterMainPhoto ? restore(local.afterMainPhoto, remote.afterMainPhoto) : local.afterMainPhoto,
+    afterSectionPhotos: local.afterSectionPhotos?.map(photo => ({
+      ...photo,
+      photoUri: restore(photo.photoUri, remoteSection(remote.afterSectionPhotos, photo.section)),
+    })),
+  };
+  return countPhotoPlaceholders(restored) < placeholders ? restored : local;
+}
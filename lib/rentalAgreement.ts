@@ -0,0 +1,84 @@
+/**
+ * Rental agreement details
+ *
+ * Optional rental context of an inspection: who the car was rented from,
+ * the agreement / reservation number, where it was picked up and returned
+ * and who rented it. Entered by hand or read from a photo / PDF of the
+ * rental agreement, and used to address the counter-claim letter.
+ */
+
+export interface RentalAgreement {
+  company?: string;
+  branch?: string;
+  agreementNumber?: string;
+  reservationNumber?: string;
+  pickupLocation?: string;
+  returnLocation?: string;
+  renterName?: string;
+}
+
+export type RentalAgreementField = keyof RentalAgreement;
+
+/**
+ * Fields in display order, with their labels
+ */
+export const RENTAL_AGREEMENT_FIELDS: { field: RentalAgreementField; label: string; placeholder: string }[] = [
+  { field: 'company', label: 'Rental company', placeholder: 'e.g. Hertz' },
+  { field: 'branch', label: 'Branch', placeholder: 'e.g. Los Angeles Airport' },
+  { field: 'agreementNumber', label: 'Agreement number', placeholder: 'Rental agreement / contract number' },
+  { field: 'reservationNumber', label: 'Reservation number', placeholder: 'Booking / confirmation number' },
+  { field: 'pickupLocation', label: 'Pickup location', placeholder: 'Where the car was picked up' },
+  { field: 'returnLocation', label: 'Return location', placeholder: 'Where the car is returned' },
+  { field: 'renterName', label: 'Renter name', placeholder: 'Name on the agreement' },
+];
+
+/**
+ * Trimmed copy without empty fields, or undefined when nothing is filled in
+ */
+export function normalizeRentalAgreement(agreement: RentalAgreement | undefined): RentalAgreement | undefined {
+  if (!agreement) return undefined;
+  const normalized: RentalAgreement = {};
+  RENTAL_AGREEMENT_FIELDS.forEach(({ field }) => {
+    const value = agreement[field]?.trim();
+    if (value) normalized[field] = value;
+  });
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Fill the empty fields of `agreement` from `extracted` (values already entered win)
+ */
+export function mergeRentalAgreement(agreement: RentalAgreement, extracted: RentalAgreement): RentalAgreement {
+  const merged: RentalAgreement = { ...agreement };
+  RENTAL_AGREEMENT_FIELDS.forEach(({ field }) => {
+    if (!merged[field]?.trim() && extracted[field]) merged[field] = extracted[field];
+  });
+  return merged;
+}
+
+/**
+ * "Label: value" per filled in field, for the history and reports
+ */
+export function rentalAgreementLines(agreement: RentalAgreement | undefined): string[] {
+  return RENTAL_AGREEMENT_FIELDS
+    .filter(({ field }) => agreement?.[field])
+    .map(({ field, label }) => `${label}: ${agreement![field]}`);
+}
+
+/**
+ * Recipient block of a letter to the rental company
+ */
+export function letterRecipientLines(agreement: RentalAgreement | undefined): string[] {
+  const lines = [agreement?.company || 'Rental Car Company'];
+  if (agreement?.branch) lines.push(`${agreement.branch} branch`);
+  return lines;
+}
+
+/**
+ * Agreement / reservation reference for a letter's subject line, '' when unknown
+ */
+export function agreementReference(agreement: RentalAgreement | undefined): string {
+  if (agreement?.agreementNumber) return `Rental agreement ${agreement.agreementNumber}`;
+  if (agreement?.reservationNumber) return `Reservation ${agreement.reservationNumber}`;
+  return '';
+}
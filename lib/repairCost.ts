@@ -0,0 +1,266 @@
+/**
+ * Repair cost estimation
+ *
+ * Turns each DamageRecord into a repair cost range, so an invoice from the
+ * rental company can be checked against what the documented damage usually
+ * costs to fix. A damage item's range is the base price for its type and
+ * severity, scaled by the panel it is on, the vehicle class, the size of the
+ * damage and the region's cost level.
+ *
+ * The price table is local and editable by the user (prices differ between
+ * countries and body shops); DEFAULT_PRICE_TABLE holds typical independent
+ * body shop prices in USD for the US national average.
+ */
+
+import type { VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import {
+  DAMAGE_SEVERITIES,
+  DAMAGE_SEVERITY_LABELS,
+  DAMAGE_TYPES,
+  DAMAGE_TYPE_LABELS,
+  DamageRecord,
+  DamageSeverity,
+  DamageType,
+  formatDamageRecord,
+  listDamageRecords,
+} from '@/lib/damage';
+import { DEFAULT_VEHICLE_TYPE, VEHICLE_TYPES, VehicleType, vehicleTypeLabel } from '@/lib/walkAround';
+
+export const REPAIR_PANELS = ['bodyPanel', 'bumper', 'glass', 'lights', 'wheel', 'interior'] as const;
+export type RepairPanel = typeof REPAIR_PANELS[number];
+
+export const REPAIR_PANEL_LABELS: Record<RepairPanel, string> = {
+  bodyPanel: 'Body panel',
+  bumper: 'Bumper',
+  glass: 'Glass',
+  lights: 'Lights',
+  wheel: 'Wheel / tire',
+  interior: 'Interior',
+};
+
+export const REPAIR_REGIONS = ['us', 'usNortheast', 'usWest', 'usSouth', 'usMidwest', 'canada', 'uk', 'europe', 'australia'] as const;
+export type RepairRegion = typeof REPAIR_REGIONS[number];
+
+export const REPAIR_REGION_LABELS: Record<RepairRegion, string> = {
+  us: 'US (national average)',
+  usNortheast: 'US Northeast',
+  usWest: 'US West',
+  usSouth: 'US South',
+  usMidwest: 'US Midwest',
+  canada: 'Canada',
+  uk: 'United Kingdom',
+  europe: 'Europe',
+  australia: 'Australia',
+};
+
+export interface CostRange {
+  low: number;
+  high: number;
+}
+
+export interface RepairPriceTable {
+  currency: string; // ISO 4217 code the prices are in
+  region: RepairRegion; // Region applied to estimates
+  basePrices: Record<DamageType, Record<DamageSeverity, CostRange>>; // Body panel of a sedan
+  panelFactors: Record<RepairPanel, number>;
+  vehicleFactors: Record<VehicleType, number>;
+  regionMultipliers: Record<RepairRegion, number>;
+}
+
+export const DEFAULT_PRICE_TABLE: RepairPriceTable = {
+  currency: 'USD',
+  region: 'us',
+  basePrices: {
+    scratch: { minor: { low: 100, high: 250 }, moderate: { low: 250, high: 600 }, severe: { low: 500, high: 1200 } },
+    dent: { minor: { low: 75, high: 200 }, moderate: { low: 250, high: 700 }, severe: { low: 600, high: 1800 } },
+    chip: { minor: { low: 50, high: 150 }, moderate: { low: 100, high: 300 }, severe: { low: 250, high: 600 } },
+    crack: { minor: { low: 100, high: 300 }, moderate: { low: 300, high: 800 }, severe: { low: 600, high: 1500 } },
+    scuff: { minor: { low: 50, high: 150 }, moderate: { low: 150, high: 400 }, severe: { low: 300, high: 800 } },
+  },
+  panelFactors: { bodyPanel: 1, bumper: 0.85, glass: 1.2, lights: 1.5, wheel: 0.9, interior: 0.8 },
+  vehicleFactors: { sedan: 1, suv: 1.15, pickup: 1.15, van: 1.2, motorcycle: 0.8, ev: 1.3 },
+  regionMultipliers: {
+    us: 1,
+    usNortheast: 1.15,
+    usWest: 1.12,
+    usSouth: 0.92,
+    usMidwest: 0.9,
+    canada: 1.05,
+    uk: 1.1,
+    europe: 1,
+    australia: 1.1,
+  },
+};
+
+export interface DamageCostItem {
+  section: string;
+  record: DamageRecord;
+  panel: RepairPanel;
+  cost: CostRange;
+}
+
+export interface RepairCostEstimate {
+  currency: string;
+  region: RepairRegion;
+  vehicleType: VehicleType;
+  items: DamageCostItem[];
+  total: CostRange;
+}
+
+// Words in the damage location (checked first) or section name that place the damage on a panel
+const PANEL_KEYWORDS: { panel: RepairPanel; pattern: RegExp }[] = [
+  { panel: 'glass', pattern: /\b(windshield|windscreen|window|glass)\b/ },
+  { panel: 'lights', pattern: /\b(headlights?|taillights?|tail lights?|lamps?|lights?)\b/ },
+  { panel: 'wheel', pattern: /\b(wheels?|tires?|tyres?|rims?|hubcaps?)\b/ },
+  { panel: 'bumper', pattern: /\b(bumper|grille?)\b/ },
+  { panel: 'interior', pattern: /\b(interior|seats?|dashboard|upholstery|carpet|console|headliner|trunk lining)\b/ },
+];
+
+// Larger damage takes more of the panel to repair (longest dimension, cm)
+const SIZE_FACTORS: { maxCm: number; factor: number }[] = [
+  { maxCm: 5, factor: 1 },
+  { maxCm: 15, factor: 1.3 },
+  { maxCm: 30, factor: 1.6 },
+];
+const LARGEST_SIZE_FACTOR = 2;
+
+export function panelForDamage(section: string, location: string): RepairPanel {
+  for (const text of [location.toLowerCase(), section.toLowerCase()]) {
+    const match = PANEL_KEYWORDS.find(({ pattern }) => pattern.test(text));
+    if (match) return match.panel;
+  }
+  return 'bodyPanel';
+}
+
+function sizeFactor(sizeCm: number | undefined): number {
+  if (!sizeCm) return 1;
+  return SIZE_FACTORS.find(({ maxCm }) => sizeCm <= maxCm)?.factor ?? LARGEST_SIZE_FACTOR;
+}
+
+// Estimates are rounded to 5 - they are ranges, not quotes
+function roundCost(value: number): number {
+  return Math.round(value / 5) * 5;
+}
+
+export function estimateDamageCost(
+  record: DamageRecord,
+  section: string,
+  vehicleType: VehicleType,
+  table: RepairPriceTable
+): { panel: RepairPanel; cost: CostRange } {
+  const panel = panelForDamage(section, record.location);
+  const base = table.basePrices[record.type][record.severity];
+  const factor = table.panelFactors[panel]
+    * table.vehicleFactors[vehicleType]
+    * table.regionMultipliers[table.region]
+    * sizeFactor(record.estimatedSizeCm);
+  return { panel, cost: { low: roundCost(base.low * factor), high: roundCost(base.high * factor) } };
+}
+
+/**
+ * Cost range of every damage item recorded on the section photos
+ */
+export function estimateRepairCost(
+  sectionPhotos: VehicleSectionPhoto[],
+  vehicleType: VehicleType | undefined,
+  table: RepairPriceTable
+): RepairCostEstimate {
+  const type = vehicleType ?? DEFAULT_VEHICLE_TYPE;
+  const items = listDamageRecords(sectionPhotos).map(({ section, record }) => ({
+    section,
+    record,
+    ...estimateDamageCost(record, section, type, table),
+  }));
+  const total = items.reduce(
+    (sum, item) => ({ low: sum.low + item.cost.low, high: sum.high + item.cost.high }),
+    { low: 0, high: 0 }
+  );
+  return { currency: table.currency, region: table.region, vehicleType: type, items, total };
+}
+
+export function formatCost(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${currency} ${amount}`; // Unknown currency code
+  }
+}
+
+export function formatCostRange(range: CostRange, currency: string): string {
+  return `${formatCost(range.low, currency)} - ${formatCost(range.high, currency)}`;
+}
+
+/**
+ * "Estimated repair cost: $450 - $1,100 (3 damage items, SUV, US West)"
+ */
+export function repairEstimateSummary(estimate: RepairCostEstimate): string {
+  const count = estimate.items.length;
+  return `Estimated repair cost: ${formatCostRange(estimate.total, estimate.currency)} (${count} damage item${count === 1 ? '' : 's'}, ${vehicleTypeLabel(estimate.vehicleType)}, ${REPAIR_REGION_LABELS[estimate.region]})`;
+}
+
+/**
+ * One line per damage item, e.g. "Front: Moderate scratch - bumper corner (~5 cm): $215 - $510"
+ */
+export function repairEstimateLines(estimate: RepairCostEstimate): string[] {
+  return estimate.items.map(item =>
+    `${item.section}: ${formatDamageRecord(item.record)}: ${formatCostRange(item.cost, estimate.currency)}`
+  );
+}
+
+/**
+ * Typical price per damage type and severity for the vehicle and region
+ * (body panel), as a reference to compare invoice line items against
+ */
+export function priceReferenceLines(table: RepairPriceTable, vehicleType: VehicleType | undefined): string[] {
+  const type = vehicleType ?? DEFAULT_VEHICLE_TYPE;
+  const factor = table.vehicleFactors[type] * table.regionMultipliers[table.region];
+  return DAMAGE_TYPES.flatMap(damageType => DAMAGE_SEVERITIES.map(severity => {
+    const base = table.basePrices[damageType][severity];
+    const range = { low: roundCost(base.low * factor), high: roundCost(base.high * factor) };
+    return `${DAMAGE_SEVERITY_LABELS[severity]} ${DAMAGE_TYPE_LABELS[damageType].toLowerCase()}: ${formatCostRange(range, table.currency)}`;
+  }));
+}
+
+function validNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function normalizeFactors<K extends string>(keys: readonly K[], value: unknown, defaults: Record<K, number>): Record<K, number> {
+  const stored = isRecord(value) ? value : {};
+  return Object.fromEntries(keys.map(key => [key, validNumber(stored[key], defaults[key])])) as Record<K, number>;
+}
+
+/**
+ * Price table from storage, with defaults for anything missing or invalid
+ * (e.g. damage types added after the table was saved)
+ */
+export function normalizePriceTable(value: unknown): RepairPriceTable {
+  const stored = isRecord(value) ? value : {};
+  const basePrices = isRecord(stored.basePrices) ? stored.basePrices : {};
+  const currency = typeof stored.currency === 'string' && /^[A-Z]{3}$/.test(stored.currency)
+    ? stored.currency
+    : DEFAULT_PRICE_TABLE.currency;
+  const region = REPAIR_REGIONS.find(r => r === stored.region) ?? DEFAULT_PRICE_TABLE.region;
+
+  return {
+    currency,
+    region,
+    basePrices: Object.fromEntries(DAMAGE_TYPES.map(damageType => {
+      const severities = isRecord(basePrices[damageType]) ? basePrices[damageType] as Record<string, unknown> : {};
+      return [damageType, Object.fromEntries(DAMAGE_SEVERITIES.map(severity => {
+        const fallback = DEFAULT_PRICE_TABLE.basePrices[damageType][severity];
+        const range = isRecord(severities[severity]) ? severities[severity] as Record<string, unknown> : {};
+        const low = validNumber(range.low, fallback.low);
+        const high = validNumber(range.high, fallback.high);
+        return [severity, { low: Math.min(low, high), high: Math.max(low, high) }];
+      }))];
+    })) as RepairPriceTable['basePrices'],
+    panelFactors: normalizeFactors(REPAIR_PANELS, stored.panelFactors, DEFAULT_PRICE_TABLE.panelFactors),
+    vehicleFactors: normalizeFactors(VEHICLE_TYPES, stored.vehicleFactors, DEFAULT_PRICE_TABLE.vehicleFactors),
+    regionMultipliers: normalizeFactors(REPAIR_REGIONS, stored.regionMultipliers, DEFAULT_PRICE_TABLE.regionMultipliers),
+  };
+}
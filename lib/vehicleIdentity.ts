@@ -0,0 +1,248 @@
+/**
+ * Vehicle identity and readings
+ *
+ * Ties an inspection to one specific car: license plate, VIN and the
+ * odometer / fuel readings from the dashboard. Each is read from a guided
+ * photo (the "identity photos") that is stored with the section photos,
+ * marked with the step it belongs to, so it is hashed, synced and reported
+ * like any other photo but left out of the damage walk-around.
+ */
+
+import type { AfterSectionPhoto, HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+
+export const IDENTITY_PHOTO_KINDS = ['licensePlate', 'vin', 'dashboard'] as const;
+export type IdentityPhotoKind = typeof IDENTITY_PHOTO_KINDS[number];
+
+export const ODOMETER_UNITS = ['km', 'mi'] as const;
+export type OdometerUnit = typeof ODOMETER_UNITS[number];
+
+/**
+ * Guided capture steps, in order
+ */
+export const IDENTITY_STEPS: { kind: IdentityPhotoKind; section: string; instruction: string }[] = [
+  {
+    kind: 'licensePlate',
+    section: 'License Plate',
+    instruction: 'Photograph the rear license plate straight on so every character is readable.',
+  },
+  {
+    kind: 'vin',
+    section: 'VIN',
+    instruction: 'Photograph the VIN plate at the bottom of the windshield or the sticker on the driver door frame.',
+  },
+  {
+    kind: 'dashboard',
+    section: 'Dashboard',
+    instruction: 'Turn on the ignition and photograph the instrument cluster with the odometer and fuel gauge visible.',
+  },
+];
+
+export interface VehicleIdentity {
+  licensePlate?: string;
+  vin?: string;
+  make?: string;
+  model?: string;
+  color?: string;
+}
+
+export interface VehicleReadings {
+  odometer?: number;
+  odometerUnit?: OdometerUnit;
+  fuelLevel?: number; // 0-1, full tank = 1
+}
+
+/**
+ * Return readings compared with pickup. Values are null when either side is missing.
+ */
+export interface IdentityComparison {
+  plateMatches: boolean | null;
+  vinMatches: boolean | null;
+  distanceDriven: number | null; // In the pickup odometer unit
+  distanceUnit: OdometerUnit;
+  fuelChange: number | null; // Return minus pickup fuel level, -1 to 1
+  warnings: string[];
+}
+
+const KM_PER_MILE = 1.609344;
+
+// VINs never contain I, O or Q
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+/**
+ * Plate as compared: upper case, letters and digits only
+ */
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * VIN as compared: upper case without spaces or dashes
+ */
+export function normalizeVin(vin: string): string {
+  return vin.toUpperCase().replace(/[\s-]/g, '');
+}
+
+export function isValidVin(vin: string): boolean {
+  return VIN_PATTERN.test(normalizeVin(vin));
+}
+
+/**
+ * Photo of an identity step (not part of the damage walk-around)
+ */
+export function isIdentityPhoto(photo: VehicleSectionPhoto | AfterSectionPhoto): boolean {
+  return !!photo.identity;
+}
+
+/**
+ * Section photos of the damage walk-around, without the identity photos
+ */
+export function damageSectionPhotos<T extends VehicleSectionPhoto | AfterSectionPhoto>(photos: T[]): T[] {
+  return photos.filter(photo => !isIdentityPhoto(photo));
+}
+
+export function findIdentityPhoto<T extends VehicleSectionPhoto | AfterSectionPhoto>(
+  photos: T[] | undefined,
+  kind: IdentityPhotoKind
+): T | undefined {
+  return (photos || []).find(photo => photo.identity === kind);
+}
+
+export function hasVehicleIdentity(identity: VehicleIdentity | undefined): boolean {
+  return !!identity && Object.values(identity).some(value => !!value);
+}
+
+export function hasVehicleReadings(readings: VehicleReadings | undefined): boolean {
+  return !!readings && (readings.odometer !== undefined || readings.fuelLevel !== undefined);
+}
+
+/**
+ * "Silver Toyota Corolla" from whatever is known
+ */
+export function describeVehicle(identity: VehicleIdentity | undefined): string {
+  return [identity?.color, identity?.make, identity?.model].filter(Boolean).join(' ');
+}
+
+/**
+ * Short label for lists: "AB-123-CD - Silver Toyota Corolla"
+ */
+export function formatVehicleLabel(identity: VehicleIdentity | undefined): string {
+  return [identity?.licensePlate, describeVehicle(identity)].filter(Boolean).join(' - ');
+}
+
+/**
+ * "45,210 km", or '' when there is no odometer reading
+ */
+export function formatOdometer(readings: VehicleReadings | undefined): string {
+  if (readings?.odometer === undefined) return '';
+  return `${Math.round(readings.odometer).toLocaleString('en-US')} ${readings.odometerUnit || 'km'}`;
+}
+
+/**
+ * "3/4 (75%)" - fuel gauges are read in eighths
+ */
+export function formatFuelLevel(level: number | undefined): string {
+  if (level === undefined) return '';
+  const eighths = Math.round(Math.min(1, Math.max(0, level)) * 8);
+  const fraction = eighths === 0 ? 'Empty' : eighths === 8 ? 'Full' : reduceEighths(eighths);
+  return `${fraction} (${Math.round(level * 100)}%)`;
+}
+
+function reduceEighths(eighths: number): string {
+  let numerator = eighths;
+  let denominator = 8;
+  while (numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  return `${numerator}/${denominator}`;
+}
+
+/**
+ * One line per known identity value / reading, for the history card and reports
+ */
+export function identityLines(identity: VehicleIdentity | undefined, readings: VehicleReadings | undefined): string[] {
+  const lines: string[] = [];
+  const vehicle = describeVehicle(identity);
+  if (vehicle) lines.push(`Vehicle: ${vehicle}`);
+  if (identity?.licensePlate) lines.push(`License plate: ${identity.licensePlate}`);
+  if (identity?.vin) lines.push(`VIN: ${identity.vin}`);
+  const odometer = formatOdometer(readings);
+  if (odometer) lines.push(`Odometer: ${odometer}`);
+  if (readings?.fuelLevel !== undefined) lines.push(`Fuel: ${formatFuelLevel(readings.fuelLevel)}`);
+  return lines;
+}
+
+function convertDistance(distance: number, from: OdometerUnit, to: OdometerUnit): number {
+  if (from === to) return distance;
+  return from === 'mi' ? distance * KM_PER_MILE : distance / KM_PER_MILE;
+}
+
+/**
+ * Compare the plate, VIN and readings recorded at return with pickup
+ */
+export function compareVehicleIdentity(
+  item: Pick<HistoryItem, 'vehicleIdentity' | 'pickupReadings' | 'returnIdentity' | 'returnReadings'>
+): IdentityComparison {
+  const pickup = item.vehicleIdentity;
+  const returned = item.returnIdentity;
+  const warnings: string[] = [];
+
+  const plateMatches = pickup?.licensePlate && returned?.licensePlate
+    ? normalizePlate(pickup.licensePlate) === normalizePlate(returned.licensePlate)
+    : null;
+  if (plateMatches === false) {
+    warnings.push(`License plate at return (${returned!.licensePlate}) differs from pickup (${pickup!.licensePlate})`);
+  }
+
+  const vinMatches = pickup?.vin && returned?.vin
+    ? normalizeVin(pickup.vin) === normalizeVin(returned.vin)
+    : null;
+  if (vinMatches === false) {
+    warnings.push(`VIN at return (${returned!.vin}) differs from pickup (${pickup!.vin})`);
+  }
+
+  const distanceUnit = item.pickupReadings?.odometerUnit || item.returnReadings?.odometerUnit || 'km';
+  let distanceDriven: number | null = null;
+  if (item.pickupReadings?.odometer !== undefined && item.returnReadings?.odometer !== undefined) {
+    const returnOdometer = convertDistance(
+      item.returnReadings.odometer,
+      item.returnReadings.odometerUnit || distanceUnit,
+      distanceUnit
+    );
+    distanceDriven = Math.round(returnOdometer - item.pickupReadings.odometer);
+    if (distanceDriven < 0) {
+      warnings.push('Odometer reading at return is lower than at pickup - check both readings');
+    }
+  }
+
+  const fuelChange = item.pickupReadings?.fuelLevel !== undefined && item.returnReadings?.fuelLevel !== undefined
+    ? item.returnReadings.fuelLevel - item.pickupReadings.fuelLevel
+    : null;
+  // Gauges are read to about an eighth of a tank
+  if (fuelChange !== null && fuelChange < -1 / 8) {
+    warnings.push(`Returned with less fuel than at pickup (${formatFuelLevel(item.returnReadings!.fuelLevel)} vs ${formatFuelLevel(item.pickupReadings!.fuelLevel)})`);
+  }
+
+  return { plateMatches, vinMatches, distanceDriven, distanceUnit, fuelChange, warnings };
+}
+
+/**
+ * Summary lines of a comparison (without the warnings)
+ */
+export function identityComparisonLines(comparison: IdentityComparison): string[] {
+  const lines: string[] = [];
+  if (comparison.plateMatches !== null) {
+    lines.push(`License plate ${comparison.plateMatches ? 'matches pickup' : 'does NOT match pickup'}`);
+  }
+  if (comparison.vinMatches !== null) {
+    lines.push(`VIN ${comparison.vinMatches ? 'matches pickup' : 'does NOT match pickup'}`);
+  }
+  if (comparison.distanceDriven !== null) {
+    lines.push(`Distance driven: ${comparison.distanceDriven.toLocaleString('en-US')} ${comparison.distanceUnit}`);
+  }
+  if (comparison.fuelChange !== null) {
+    const percent = Math.round(comparison.fuelChange * 100);
+    lines.push(`Fuel: ${percent === 0 ? 'same as pickup' : `${percent > 0 ? '+' : ''}${percent}% of a tank vs pickup`}`);
+  }
+  return lines;
+}
@@ -0,0 +1,129 @@
+/**
+ * Video walk-around
+ *
+ * Instead of photographing each section, the user records one continuous
+ * video while walking around the car in the planned section order. Frames
+ * are sampled from the video, scored with the capture quality check
+ * (lib/photoQuality.ts) and the sharpest frame of each section becomes that
+ * section's photo. Sections are matched to frames either by position (the
+ * video is split into equal time windows, one per section, in walking
+ * order) or by the vision model, which names the section each frame shows.
+ *
+ * The video itself is kept with the inspection as supporting evidence,
+ * together with the time each section photo was taken from.
+ *
+ * At return the video is matched to the pickup plan's sections, so each
+ * frame becomes the return photo compared with that section's pickup photo.
+ */
+
+export type FrameAssignment = 'position' | 'vision';
+
+export interface WalkAroundVideoFrame {
+  section: string;
+  timeMs: number; // Offset of the frame in the video
+}
+
+export interface WalkAroundVideo {
+  uri: string; // Local file of the recording (not uploaded)
+  md5?: string; // Hex MD5 of the file as recorded
+  sizeBytes?: number;
+  recordedAt: number; // When recording started
+  durationMs: number;
+  assignment: FrameAssignment;
+  frames: WalkAroundVideoFrame[];
+}
+
+export interface FrameCandidate {
+  timeMs: number;
+  score: number; // Capture quality score, 0-100
+  section?: string; // Section the vision model recognized, if asked
+}
+
+// Frames sampled per planned section
+export const FRAMES_PER_SECTION = 3;
+// Longest recording; a walk-around of a large van takes about two minutes
+export const MAX_VIDEO_DURATION_SECONDS = 180;
+// Sampling skips the start and end, where the camera is usually still moving into place
+const EDGE_MARGIN_MS = 500;
+
+/**
+ * Evenly spread sample times (ms) for a video of `durationMs`
+ */
+export function candidateFrameTimes(durationMs: number, sectionCount: number): number[] {
+  const count = Math.max(1, sectionCount * FRAMES_PER_SECTION);
+  const margin = durationMs > 4 * EDGE_MARGIN_MS ? EDGE_MARGIN_MS : 0;
+  const span = Math.max(0, durationMs - 2 * margin);
+  return Array.from({ length: count }, (_, i) => Math.round(margin + (span * (i + 0.5)) / count));
+}
+
+function best(candidates: FrameCandidate[]): FrameCandidate | undefined {
+  return candidates.reduce<FrameCandidate | undefined>(
+    (top, candidate) => (!top || candidate.score > top.score ? candidate : top),
+    undefined
+  );
+}
+
+/**
+ * Sharpest frame in each section's time window, sections in walking order
+ */
+export function assignFramesByPosition(
+  sections: string[],
+  candidates: FrameCandidate[],
+  durationMs: number
+): WalkAroundVideoFrame[] {
+  const frames: WalkAroundVideoFrame[] = [];
+  sections.forEach((section, index) => {
+    const start = (durationMs * index) / sections.length;
+    const end = (durationMs * (index + 1)) / sections.length;
+    const frame = best(candidates.filter(c => c.timeMs >= start && c.timeMs < end));
+    if (frame) frames.push({ section, timeMs: frame.timeMs });
+  });
+  return frames;
+}
+
+/**
+ * Sharpest frame the vision model recognized as each section. Sections it
+ * did not recognize in any frame fall back to their time window; a frame is
+ * used for one section only.
+ */
+export function assignFramesByModel(
+  sections: string[],
+  candidates: FrameCandidate[],
+  durationMs: number
+): WalkAroundVideoFrame[] {
+  const byPosition = assignFramesByPosition(sections, candidates, durationMs);
+  const used = new Set<number>();
+  const recognized = new Map<string, number>();
+  sections.forEach(section => {
+    const frame = best(candidates.filter(c => c.section === section && !used.has(c.timeMs)));
+    if (frame) {
+      recognized.set(section, frame.timeMs);
+      used.add(frame.timeMs);
+    }
+  });
+
+  const frames: WalkAroundVideoFrame[] = [];
+  sections.forEach(section => {
+    const timeMs = recognized.get(section) ?? byPosition.find(f => f.section === section && !used.has(f.timeMs))?.timeMs;
+    if (timeMs !== undefined) frames.push({ section, timeMs });
+  });
+  return frames;
+}
+
+/**
+ * Position in a video as m:ss
+ */
+export function formatVideoTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * One-line description of a kept walk-around video
+ */
+export function describeWalkAroundVideo(video: WalkAroundVideo, label = 'Walk-around video'): string {
+  const method = video.assignment === 'vision' ? 'matched by AI' : 'matched by position';
+  return `${label}: ${formatVideoTime(video.durationMs)}, ${video.frames.length} section photos taken from it (${method})`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Walk-around plans
+ *
+ * Built-in section templates per vehicle type. The model only picks the
+ * vehicle type from the first photo, so the same kind of car always gets
+ * the same sections; the user can then add, remove and reorder sections
+ * before capture. The plan is saved with the pickup inspection and the
+ * return walk-around reuses it, so every return photo has a pickup
+ * counterpart with the same name.
+ */
+
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import { damageSectionPhotos } from '@/lib/vehicleIdentity';
+
+export const VEHICLE_TYPES = ['sedan', 'suv', 'pickup', 'van', 'motorcycle', 'ev'] as const;
+export type VehicleType = typeof VEHICLE_TYPES[number];
+
+// Used without a photo analysis (offline, unclear reply)
+export const DEFAULT_VEHICLE_TYPE: VehicleType = 'sedan';
+
+export interface SectionTemplate {
+  label: string;
+  description: string; // Tells the model when the template applies
+  sections: string[];
+}
+
+export const SECTION_TEMPLATES: Record<VehicleType, SectionTemplate> = {
+  sedan: {
+    label: 'Sedan',
+    description: 'sedan, hatchback, coupe, convertible or station wagon with a combustion engine or hybrid',
+    sections: [
+      'Front',
+      'Driver Side',
+      'Back',
+      'Passenger Side',
+      'Front Wheels',
+      'Rear Wheels',
+      'Windshield & Roof',
+      'Interior Front',
+      'Interior Back',
+      'Trunk',
+    ],
+  },
+  suv: {
+    label: 'SUV',
+    description: 'SUV, crossover or minivan',
+    sections: [
+      'Front',
+      'Driver Side',
+      'Back',
+      'Passenger Side',
+      'Front Wheels',
+      'Rear Wheels',
+      'Windshield & Roof',
+      'Interior Front',
+      'Interior Back',
+      'Cargo Area',
+    ],
+  },
+  pickup: {
+    label: 'Pickup',
+    description: 'pickup truck with an open bed',
+    sections: [
+      'Front',
+      'Driver Side',
+      'Back & Tailgate',
+      'Passenger Side',
+      'Front Wheels',
+      'Rear Wheels',
+      'Truck Bed',
+      'Windshield & Roof',
+      'Interior Front',
+      'Interior Back',
+    ],
+  },
+  van: {
+    label: 'Van',
+    description: 'cargo or passenger van with sliding doors',
+    sections: [
+      'Front',
+      'Driver Side',
+      'Back & Rear Doors',
+      'Passenger Side & Sliding Door',
+      'Front Wheels',
+      'Rear Wheels',
+      'Windshield & Roof',
+      'Cab Interior',
+      'Cargo Area',
+    ],
+  },
+  motorcycle: {
+    label: 'Motorcycle',
+    description: 'motorcycle or scooter',
+    sections: [
+      'Front',
+      'Left Side',
+      'Back',
+      'Right Side',
+      'Front Wheel',
+      'Rear Wheel',
+      'Tank & Controls',
+      'Seat',
+      'Exhaust',
+    ],
+  },
+  ev: {
+    label: 'EV',
+    description: 'fully electric car of any body style (charge port, no exhaust)',
+    sections: [
+      'Front',
+      'Driver Side',
+      'Back',
+      'Passenger Side',
+      'Front Wheels',
+      'Rear Wheels',
+      'Charge Port',
+      'Windshield & Roof',
+      'Interior Front',
+      'Interior Back',
+      'Trunk',
+      'Charging Cable',
+    ],
+  },
+};
+
+export interface WalkAroundPlan {
+  vehicleType: VehicleType;
+  sections: string[];
+}
+
+/**
+ * Fresh plan with the template sections of a vehicle type
+ */
+export function templatePlan(vehicleType: VehicleType): WalkAroundPlan {
+  return { vehicleType, sections: [...SECTION_TEMPLATES[vehicleType].sections] };
+}
+
+export function vehicleTypeLabel(vehicleType: VehicleType | undefined): string {
+  return vehicleType ? SECTION_TEMPLATES[vehicleType].label : '';
+}
+
+/**
+ * Sections with the one at `index` moved by `offset` places (clamped to the list)
+ */
+export function moveSection(sections: string[], index: number, offset: number): string[] {
+  const target = Math.min(sections.length - 1, Math.max(0, index + offset));
+  if (target === index) return sections;
+  const moved = [...sections];
+  const [section] = moved.splice(index, 1);
+  moved.splice(target, 0, section);
+  return moved;
+}
+
+/**
+ * Add a section at the end; returns the list unchanged for blank or duplicate names
+ * (sections are matched by name between pickup and return)
+ */
+export function addSection(sections: string[], name: string): string[] {
+  const trimmed = name.trim();
+  if (!trimmed || sections.some(section => section.toLowerCase() === trimmed.toLowerCase())) {
+    return sections;
+  }
+  return [...sections, trimmed];
+}
+
+/**
+ * Plan of the return walk-around: the pickup plan, or - for inspections saved
+ * before plans were recorded - the sections photographed at pickup (without
+ * close-ups). Falls back to the template of `vehicleType` when neither exists.
+ */
+export function returnPlan(
+  item: Pick<HistoryItem, 'walkAroundPlan' | 'sectionPhotos'> | undefined,
+  vehicleType: VehicleType
+): WalkAroundPlan {
+  if (item?.walkAroundPlan?.sections.length) return item.walkAroundPlan;
+  const photographed = damageSectionPhotos(item?.sectionPhotos || [])
+    .map(photo => photo.section)
+    .filter(section => !section.endsWith(' - Close-up'));
+  if (photographed.length > 0) return { vehicleType, sections: Array.from(new Set(photographed)) };
+  return templatePlan(vehicleType);
+}
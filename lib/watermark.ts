@@ -0,0 +1,81 @@
+/**
+ * Photo watermark
+ *
+ * Text burnt into the stamped copy of each photo: capture time (with the
+ * device's UTC offset), section, inspection ID and GPS fix when recorded.
+ * The stamped copy is for viewing and sharing only - the original photo is
+ * kept unchanged and remains the one the evidence hash refers to.
+ *
+ * Pure module (no React Native imports): backend/watermark.ts burns the same lines in.
+ */
+
+import { EvidenceLocation, formatEvidenceLocation } from '@/lib/evidence';
+
+// Limits enforced by the render endpoint
+export const MAX_WATERMARK_LINES = 6;
+export const MAX_WATERMARK_LINE_LENGTH = 120;
+
+export interface WatermarkDetails {
+  capturedAt: number;
+  utcOffsetMinutes: number; // Offset of the capturing device, e.g. 120 for UTC+02:00
+  label: string; // Section name or "Main photo"
+  inspectionId: string;
+  location?: EvidenceLocation;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * "2026-10-18 14:03:22 UTC+02:00" in the given offset
+ */
+export function formatWatermarkTime(timestamp: number, utcOffsetMinutes: number): string {
+  const local = new Date(timestamp + utcOffsetMinutes * 60000);
+  const date = `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`;
+  const time = `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}`;
+  const offset = Math.abs(utcOffsetMinutes);
+  const sign = utcOffsetMinutes < 0 ? '-' : '+';
+  return `${date} ${time} UTC${sign}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`;
+}
+
+export function watermarkLines(details: WatermarkDetails): string[] {
+  const lines = [
+    formatWatermarkTime(details.capturedAt, details.utcOffsetMinutes),
+    details.label,
+    `Inspection ${details.inspectionId}`,
+  ];
+  if (details.location) {
+    lines.push(`GPS ${formatEvidenceLocation(details.location)}`);
+  }
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * SVG overlay of the image's size with the lines on a dark band at the bottom left
+ */
+export function watermarkSvg(width: number, height: number, lines: string[]): string {
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.035));
+  const lineHeight = Math.round(fontSize * 1.3);
+  const padding = Math.round(fontSize * 0.6);
+  // Rough width of the longest line; the band is clipped to the image anyway
+  const longest = Math.max(...lines.map(line => line.length));
+  const bandWidth = Math.min(width, Math.round(longest * fontSize * 0.6) + padding * 2);
+  const bandHeight = lines.length * lineHeight + padding * 2;
+  const top = height - bandHeight;
+
+  const text = lines
+    .map((line, index) =>
+      `<text x="${padding}" y="${top + padding + (index + 1) * lineHeight - Math.round(lineHeight * 0.25)}">${escapeXml(line)}</text>`
+    )
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect x="0" y="${top}" width="${bandWidth}" height="${bandHeight}" fill="#000000" fill-opacity="0.55"/>` +
+    `<g font-family="DejaVu Sans, Arial, Helvetica, sans-serif" font-size="${fontSize}" fill="#FFFFFF">${text}</g>` +
+    `</svg>`;
+}
@@ -0,0 +1,281 @@
+/**
+ * Structured AI analysis
+ *
+ * Shared parsing for every Claude response the app expects JSON from.
+ * Responses are extracted (code fences, double-encoded strings, {"text": ...}
+ * wrappers), validated with zod, and - when invalid - retried once with a
+ * repair prompt that shows the model its own reply and the validation errors.
+ *
+ * Failures throw AnalysisError instead of falling back to defaults, so an
+ * unreadable reply is never recorded as "no damage".
+ */
+
+import * as z from 'zod';
+import { analyzeWithClaude, ClaudeAnalysisInput } from '@/services/claude';
+import { DAMAGE_SEVERITIES, DAMAGE_TYPES, DamageBoundingBoxSchema, DamageRecord, createDamageId } from '@/lib/damage';
+import { CLAIM_FEE_TYPES } from '@/lib/damageClaim';
+import { ODOMETER_UNITS } from '@/lib/vehicleIdentity';
+import { VEHICLE_TYPES } from '@/lib/walkAround';
+
+export type AnalysisErrorCode =
+  | 'request_failed' // The proxy / Claude request itself failed
+  | 'invalid_response'; // The reply could not be parsed or failed validation after repair
+
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly code: AnalysisErrorCode,
+    readonly rawResponse?: string
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Optional model fields sometimes come back as null
+const optionalText = z.string().nullish().transform(value => value || undefined);
+
+/**
+ * Initial photo: is it a vehicle, and which section template fits it (lib/walkAround.ts)
+ */
+export const VehicleTypeSchema = z
+  .object({
+    isVehicle: z.boolean(),
+    vehicleType: z.enum(VEHICLE_TYPES).nullish().transform(value => value ?? undefined),
+  })
+  .refine(result => !result.isVehicle || result.vehicleType !== undefined, {
+    message: 'vehicleType is required when isVehicle is true',
+    path: ['vehicleType'],
+  });
+
+export type VehicleTypeResult = z.infer<typeof VehicleTypeSchema>;
+
+/**
+ * One damage item as reported by the model. IDs are assigned on our side.
+ */
+const ModelDamageSchema = z
+  .object({
+    type: z.enum(DAMAGE_TYPES),
+    severity: z.enum(DAMAGE_SEVERITIES),
+    location: z.string().trim().min(1),
+    estimatedSizeCm: z.number().positive().nullish(),
+    boundingBox: DamageBoundingBoxSchema.nullish(),
+  })
+  .transform((damage): DamageRecord => ({
+    id: createDamageId(),
+    type: damage.type,
+    severity: damage.severity,
+    location: damage.location,
+    estimatedSizeCm: damage.estimatedSizeCm ?? undefined,
+    boundingBox: damage.boundingBox ?? undefined,
+    source: 'ai',
+  }));
+
+/**
+ * Damage analysis of a single section photo
+ */
+export const DamageAnalysisSchema = z.object({
+  section: z.string(),
+  isCorrectSection: z.boolean(),
+  isUsable: z.boolean(),
+  damageNotes: z.string().trim().min(1),
+  damages: z.array(ModelDamageSchema),
+  retakeReason: optionalText,
+  hasSeriousDamage: z.boolean().nullish().transform(value => value ?? false),
+  seriousDamageDescription: optionalText,
+});
+
+export type DamageAnalysisResult = z.infer<typeof DamageAnalysisSchema>;
+
+/**
+ * Section shown by a frame of a walk-around video (lib/videoWalkAround.ts), null when none of them
+ */
+export const FrameSectionSchema = z.object({
+  section: optionalText,
+});
+
+export type FrameSectionResult = z.infer<typeof FrameSectionSchema>;
+
+/**
+ * Before/after comparison of one section
+ */
+export const SectionComparisonSchema = z.object({
+  newDamage: z.array(z.string().trim().min(1)),
+  unchangedDamage: z.array(z.string().trim().min(1)),
+  confidence: z.number().min(0).max(1),
+  summary: z.string().nullish().transform(value => value || ''),
+});
+
+export type SectionComparisonResult = z.infer<typeof SectionComparisonSchema>;
+
+/**
+ * Values read from a license plate, VIN or dashboard photo.
+ * Only the fields of the photographed step are expected; the rest come back null.
+ */
+export const IdentityExtractionSchema = z.object({
+  isReadable: z.boolean(),
+  licensePlate: optionalText,
+  vin: optionalText,
+  make: optionalText,
+  model: optionalText,
+  color: optionalText,
+  odometer: z.number().nonnegative().nullish().transform(value => value ?? undefined),
+  odometerUnit: z.enum(ODOMETER_UNITS).nullish().transform(value => value ?? undefined),
+  fuelLevel: z.number().min(0).max(1).nullish().transform(value => value ?? undefined),
+});
+
+export type IdentityExtractionResult = z.infer<typeof IdentityExtractionSchema>;
+
+/**
+ * Fields read from a rental agreement
+ */
+export const RentalAgreementSchema = z.object({
+  isRentalAgreement: z.boolean(),
+  company: optionalText,
+  branch: optionalText,
+  agreementNumber: optionalText,
+  reservationNumber: optionalText,
+  pickupLocation: optionalText,
+  returnLocation: optionalText,
+  renterName: optionalText,
+});
+
+export type RentalAgreementResult = z.infer<typeof RentalAgreementSchema>;
+
+const optionalAmount = z.number().nonnegative().nullish().transform(value => value ?? undefined);
+
+/**
+ * Damage claim read from the rental company's documents (lib/damageClaim.ts). IDs are assigned on our side.
+ */
+export const DamageClaimSchema = z.object({
+  isDamageClaim: z.boolean(),
+  claimNumber: optionalText,
+  company: optionalText,
+  claimDate: optionalText,
+  incidentDate: optionalText,
+  responseDeadline: optionalText,
+  currency: z.string().regex(/^[A-Z]{3}$/).nullish().transform(value => value ?? undefined),
+  items: z.array(z.object({
+    description: z.string().trim().min(1),
+    location: optionalText,
+    damageType: z.enum(DAMAGE_TYPES).nullish().transform(value => value ?? undefined),
+    amount: optionalAmount,
+  })).nullish().transform(value => value ?? []),
+  fees: z.array(z.object({
+    type: z.enum(CLAIM_FEE_TYPES),
+    description: optionalText,
+    amount: optionalAmount,
+  })).nullish().transform(value => value ?? []),
+  totalAmount: optionalAmount,
+});
+
+export type DamageClaimResult = z.infer<typeof DamageClaimSchema>;
+
+/**
+ * Pull a JSON value out of a model reply. Handles markdown code fences,
+ * JSON encoded as a string, {"text": "<json>"} wrappers and prose around the object.
+ * Returns undefined when no JSON can be found.
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  const unwrap = (value: unknown, depth = 0): unknown => {
+    if (depth > 3) return value;
+    if (typeof value === 'string') {
+      try {
+        return unwrap(JSON.parse(value), depth + 1);
+      } catch {
+        return value;
+      }
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const keys = Object.keys(value);
+      const wrapped = (value as { text?: unknown }).text;
+      if (keys.length === 1 && typeof wrapped === 'string') {
+        return unwrap(wrapped, depth + 1);
+      }
+    }
+    return value;
+  };
+
+  try {
+    return unwrap(JSON.parse(cleaned));
+  } catch {
+    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return undefined;
+    try {
+      return unwrap(JSON.parse(jsonMatch[0]));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Validate a model reply against a schema.
+ * Returns the parsed value, or a human readable list of problems for the repair prompt.
+ */
+export function parseAnalysisResponse<T>(
+  text: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; problems: string } {
+  const json = extractJson(text);
+  if (json === undefined) {
+    return { success: false, problems: 'The reply did not contain a JSON object.' };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const problems = result.error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+  return { success: false, problems };
+}
+
+const REPAIR_PROMPT = (originalPrompt: string, previousReply: string, problems: string) => `${originalPrompt}
+
+---
+Your previous reply could not be used:
+${problems}
+
+Previous reply:
+${previousReply.substring(0, 2000)}
+
+Look at the attached file(s) again and reply with ONLY the corrected JSON object in the exact format requested above. No markdown, no code blocks, no additional text.`;
+
+/**
+ * Run a Claude analysis and return the validated result.
+ * Retries with a repair prompt (same attachments) when the reply fails validation.
+ *
+ * @throws AnalysisError
+ */
+export async function analyzeStructured<T>(
+  input: ClaudeAnalysisInput,
+  schema: z.ZodType<T>,
+  options: { repairAttempts?: number } = {}
+): Promise<T> {
+  const repairAttempts = options.repairAttempts ?? 1;
+  let promptText = input.promptText;
+  let lastReply = '';
+
+  for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+    try {
+      lastReply = await analyzeWithClaude({ ...input, promptText });
+    } catch (error: any) {
+      throw new AnalysisError(error?.message || 'Analysis request failed', 'request_failed');
+    }
+
+    const parsed = parseAnalysisResponse(lastReply, schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    console.warn(`AI response failed validation (attempt ${attempt + 1}):`, parsed.problems);
+    promptText = REPAIR_PROMPT(input.promptText, lastReply, parsed.problems);
+  }
+
+  throw new AnalysisError('The AI response could not be understood', 'invalid_response', lastReply);
+}
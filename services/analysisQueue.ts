@@ -0,0 +1,276 @@
+/**
+ * Offline analysis queue
+ *
+ * Section photos captured without a connection (or whose analysis request
+ * failed) are stored locally together with their capture metadata and queued
+ * here. The queue is persisted in AsyncStorage and drained when connectivity
+ * returns; results are applied to the HistoryItem whose section photo carries
+ * the job ID (VehicleSectionPhoto.analysisJobId).
+ *
+ * Jobs no saved inspection refers to are dropped after MAX_JOB_AGE_MS (the
+ * capture flow they were queued from was abandoned). Jobs of saved
+ * inspections are kept however long the device stays offline.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Network from 'expo-network';
+import { Platform } from 'react-native';
+import { AnalysisError, DamageAnalysisSchema, analyzeStructured } from '@/services/analysis';
+import { loadPhotoBase64 } from '@/services/photos';
+import { parseDataUri } from '@/lib/base64';
+import type { DamageRecord } from '@/lib/damage';
+
+const QUEUE_STORAGE_KEY = 'rental_car_checker_analysis_queue';
+const QUEUE_DIRECTORY = 'analysis-queue/';
+
+// Network failures before a job is given up and recorded as failed
+const MAX_ATTEMPTS = 5;
+// Time an inspection in progress has to be saved before its unreferenced jobs are dropped
+const MAX_JOB_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AnalysisJobResult {
+  damageNotes: string;
+  damages: DamageRecord[];
+  isUsable: boolean;
+  isCorrectSection: boolean;
+  analyzedAt: number;
+}
+
+export interface AnalysisJob {
+  id: string;
+  section: string;
+  photoUri: string; // Local copy of the photo (file: on native, data: on web)
+  promptText: string;
+  capturedAt: number;
+  isRetake: boolean;
+  isExtra: boolean;
+  attempts: number;
+  lastError?: string;
+  result?: AnalysisJobResult; // Set once analyzed, until applied to the inspection
+}
+
+/**
+ * Whether the device currently has a usable internet connection.
+ * Treated as online when the state cannot be determined.
+ */
+export async function isOnline(): Promise<boolean> {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return state.isConnected !== false && state.isInternetReachable !== false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Call `onReconnect` whenever the device goes from offline to online
+ */
+export function subscribeToReconnect(onReconnect: () => void): () => void {
+  let wasOnline = true;
+  const subscription = Network.addNetworkStateListener(state => {
+    const online = state.isConnected !== false && state.isInternetReachable !== false;
+    if (online && !wasOnline) {
+      onReconnect();
+    }
+    wasOnline = online;
+  });
+  return () => subscription.remove();
+}
+
+export async function getAnalysisQueue(): Promise<AnalysisJob[]> {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load analysis queue:', error);
+    return [];
+  }
+}
+
+async function saveAnalysisQueue(jobs: AnalysisJob[]): Promise<void> {
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(jobs));
+}
+
+// Serialize read-modify-write cycles so concurrent enqueue / drain calls don't drop jobs
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function updateQueue<T>(update: (jobs: AnalysisJob[]) => Promise<{ jobs: AnalysisJob[]; value: T }>): Promise<T> {
+  const run = queueLock.then(async () => {
+    const { jobs, value } = await update(await getAnalysisQueue());
+    await saveAnalysisQueue(jobs);
+    return value;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Keep a local copy of the photo for the queue. On native the data URI is
+ * written to the document directory so the queue entry stays small.
+ */
+async function storeQueuedPhoto(jobId: string, photoDataUri: string): Promise<string> {
+  const parsed = parseDataUri(photoDataUri);
+  const documentDir = FileSystem.documentDirectory;
+  if (Platform.OS === 'web' || !parsed || !documentDir) {
+    return photoDataUri;
+  }
+
+  const directory = `${documentDir}${QUEUE_DIRECTORY}`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => undefined);
+  const fileUri = `${directory}${jobId}.${parsed.mimeType.includes('png') ? 'png' : 'jpg'}`;
+  await FileSystem.writeAsStringAsync(fileUri, parsed.base64, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return fileUri;
+}
+
+async function deleteQueuedPhoto(job: AnalysisJob): Promise<void> {
+  if (job.photoUri.startsWith('file:') && Platform.OS !== 'web') {
+    await FileSystem.deleteAsync(job.photoUri, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Queue a section photo for analysis once the device is back online.
+ * Returns the job ID to store on the section photo.
+ */
+export async function enqueueSectionAnalysis(input: {
+  section: string;
+  photoDataUri: string;
+  promptText: string;
+  isRetake: boolean;
+  isExtra: boolean;
+  capturedAt?: number;
+}): Promise<string> {
+  const id = `job-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  const photoUri = await storeQueuedPhoto(id, input.photoDataUri);
+
+  const job: AnalysisJob = {
+    id,
+    section: input.section,
+    photoUri,
+    promptText: input.promptText,
+    capturedAt: input.capturedAt ?? Date.now(),
+    isRetake: input.isRetake,
+    isExtra: input.isExtra,
+    attempts: 0,
+  };
+
+  await updateQueue(async jobs => ({ jobs: [...jobs, job], value: undefined }));
+  console.log('📥 Queued analysis for', input.section);
+  return id;
+}
+
+/**
+ * Analyze one job. Returns null when the request failed (still offline) so the job stays queued.
+ */
+async function runJob(job: AnalysisJob): Promise<AnalysisJobResult | null> {
+  const photo = await loadPhotoBase64(job.photoUri);
+  if (!photo) {
+    return {
+      damageNotes: 'Analysis failed (photo no longer available). Please review manually.',
+      damages: [],
+      isUsable: true,
+      isCorrectSection: true,
+      analyzedAt: Date.now(),
+    };
+  }
+
+  try {
+    const result = await analyzeStructured({
+      promptText: job.promptText,
+      imageBase64: photo.base64,
+      imageMime: photo.mimeType,
+    }, DamageAnalysisSchema);
+
+    return {
+      damageNotes: result.damageNotes,
+      damages: result.damages,
+      isUsable: result.isUsable,
+      isCorrectSection: result.isCorrectSection,
+      analyzedAt: Date.now(),
+    };
+  } catch (error) {
+    if (error instanceof AnalysisError && error.code === 'invalid_response') {
+      // Same wording as a live capture - never recorded as "no damage"
+      return {
+        damageNotes: 'Analysis unclear (AI response could not be read). Please review manually.',
+        damages: [],
+        isUsable: true,
+        isCorrectSection: true,
+        analyzedAt: Date.now(),
+      };
+    }
+    throw error;
+  }
+}
+
+let drainPromise: Promise<AnalysisJob[]> | null = null;
+
+/**
+ * Analyze every queued job that has no result yet.
+ * Stops at the first network failure. Returns all jobs that have a result
+ * (including ones analyzed earlier but not yet applied).
+ */
+export function drainAnalysisQueue(): Promise<AnalysisJob[]> {
+  if (!drainPromise) {
+    drainPromise = (async () => {
+      try {
+        const pending = (await getAnalysisQueue()).filter(job => !job.result);
+        if (pending.length > 0 && await isOnline()) {
+          console.log(`🔄 Draining analysis queue (${pending.length} pending)`);
+          for (const job of pending) {
+            let result: AnalysisJobResult | null = null;
+            let lastError: string | undefined;
+            try {
+              result = await runJob(job);
+            } catch (error: any) {
+              lastError = error?.message || 'Analysis request failed';
+            }
+
+            const attempts = job.attempts + 1;
+            if (!result && attempts >= MAX_ATTEMPTS) {
+              result = {
+                damageNotes: 'Analysis failed. Please review manually.',
+                damages: [],
+                isUsable: true,
+                isCorrectSection: true,
+                analyzedAt: Date.now(),
+              };
+            }
+
+            await updateQueue(async jobs => ({
+              jobs: jobs.map(queued => (queued.id === job.id ? { ...queued, attempts, lastError, result: result ?? undefined } : queued)),
+              value: undefined,
+            }));
+
+            if (lastError && !result) {
+              console.log('⚠️ Analysis still unavailable, will retry later:', lastError);
+              break;
+            }
+          }
+        }
+        return (await getAnalysisQueue()).filter(job => job.result);
+      } finally {
+        drainPromise = null;
+      }
+    })();
+  }
+  return drainPromise;
+}
+
+/**
+ * Remove jobs whose results have been applied, and jobs older than
+ * MAX_JOB_AGE_MS that no saved inspection refers to (`referencedIds`)
+ */
+export async function removeAnalysisJobs(ids: string[], referencedIds: Set<string>): Promise<void> {
+  const removeIds = new Set(ids);
+  const removed = await updateQueue(async jobs => {
+    const cutoff = Date.now() - MAX_JOB_AGE_MS;
+    const isRemoved = (job: AnalysisJob) =>
+      removeIds.has(job.id) || (!referencedIds.has(job.id) && job.capturedAt < cutoff);
+    return { jobs: jobs.filter(job => !isRemoved(job)), value: jobs.filter(isRemoved) };
+  });
+  await Promise.all(removed.map(deleteQueuedPhoto));
+}
@@ -0,0 +1,105 @@
+/**
+ * Claim evidence service
+ *
+ * Collects everything the model should see when disputing a damage claim:
+ * the rental company's documents plus the pickup and return photos of the
+ * selected inspection. Each attachment gets a numbered label so the prompt
+ * (and the resulting letter) can refer to specific evidence.
+ */
+
+import { HistoryItem } from '@/contexts/HistoryContext';
+import { ClaudeAttachment } from '@/services/claude';
+import { bytesToBase64 } from '@/lib/base64';
+import { loadFileBytes, loadPhotoBase64 } from '@/services/photos';
+
+// Keeps the request well below the Claude API request size limit
+export const MAX_EVIDENCE_ATTACHMENTS = 30;
+
+export interface ClaimDocument {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export interface ClaimEvidence {
+  attachments: ClaudeAttachment[];
+  labels: string[]; // labels[i] describes attachments[i]
+  skipped: string[]; // Evidence that could not be loaded or did not fit
+}
+
+/**
+ * Load claim documents and inspection photos as Claude attachments.
+ * Documents come first (they define the claim), then pickup photos, then return photos.
+ */
+export async function collectClaimEvidence(
+  historyItem: HistoryItem,
+  documents: ClaimDocument[]
+): Promise<ClaimEvidence> {
+  const evidence: ClaimEvidence = { attachments: [], labels: [], skipped: [] };
+
+  const add = (attachment: ClaudeAttachment, label: string) => {
+    if (evidence.attachments.length >= MAX_EVIDENCE_ATTACHMENTS) {
+      evidence.skipped.push(label);
+      return;
+    }
+    evidence.attachments.push(attachment);
+    evidence.labels.push(label);
+  };
+
+  for (const document of documents) {
+    const label = `Rental company document "${document.name}"`;
+    try {
+      const bytes = await loadFileBytes(document.uri);
+      if (!bytes) {
+        evidence.skipped.push(label);
+        continue;
+      }
+      add({ data: bytesToBase64(bytes), mimeType: document.mimeType || 'application/pdf', name: document.name }, label);
+    } catch (error) {
+      console.error('Failed to read claim document:', error);
+      evidence.skipped.push(label);
+    }
+  }
+
+  const photos: { uri: string | undefined; label: string }[] = [
+    { uri: historyItem.mainPhoto, label: `Pickup - whole vehicle (${historyItem.dateText})` },
+    ...historyItem.sectionPhotos.map(photo => ({
+      uri: photo.photoUri,
+      label: `Pickup - ${photo.section} (${historyItem.dateText})`,
+    })),
+  ];
+
+  if (historyItem.isReturned) {
+    photos.push(
+      { uri: historyItem.afterMainPhoto, label: `Return - whole vehicle (${historyItem.afterDateText || 'return'})` },
+      ...(historyItem.afterSectionPhotos || []).map(photo => ({
+        uri: photo.photoUri,
+        label: `Return - ${photo.section} (${historyItem.afterDateText || 'return'})`,
+      }))
+    );
+  }
+
+  for (const photo of photos) {
+    if (!photo.uri) continue;
+    try {
+      const image = await loadPhotoBase64(photo.uri);
+      if (!image) {
+        evidence.skipped.push(photo.label);
+        continue;
+      }
+      add({ data: image.base64, mimeType: image.mimeType, name: photo.label }, photo.label);
+    } catch (error) {
+      console.error('Failed to load inspection photo:', error);
+      evidence.skipped.push(photo.label);
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * Numbered list of the attachments for the prompt, matching the order they are sent in
+ */
+export function describeClaimEvidence(evidence: ClaimEvidence): string {
+  return evidence.labels.map((label, index) => `Attachment ${index + 1}: ${label}`).join('\n');
+}
@@ -14,10 +14,23 @@
 import { getApiBaseUrl } from '@/lib/apiBaseUrl';
 import { supabase } from '@/lib/supabase';
 
+/**
+ * Image or document sent along with the prompt.
+ * Supported types: image/jpeg, image/png, image/webp, image/gif and application/pdf.
+ */
+export interface ClaudeAttachment {
+  data: string; // base64 (or data URI)
+  mimeType: string;
+  name?: string; // Shown to the model as the document title (PDFs)
+}
+
 export interface ClaudeAnalysisInput {
   promptText: string;
-  imageBase64: string;
-  imageMime: string;
+  /** Single image shortcut - sent after any attachments */
+  imageBase64?: string;
+  imageMime?: string;
+  /** Images and documents, sent in order */
+  attachments?: ClaudeAttachment[];
 }
 
 export async function analyzeWithClaude(input: ClaudeAnalysisInput): Promise<string> {
@@ -39,8 +52,10 @@ export async function analyzeWithClaude(input: ClaudeAnalysisInput): Promise<str
     },
     body: JSON.stringify({
       promptText: input.promptText,
-      imageBase64: input.imageBase64,
-      imageMime: input.imageMime,
+      attachments: [
+        ...(input.attachments || []),
+        ...(input.imageBase64 ? [{ data: input.imageBase64, mimeType: input.imageMime || 'image/jpeg' }] : []),
+      ],
     }),
   });
 
@@ -0,0 +1,87 @@
+/**
+ * Damage claim extraction
+ *
+ * Reads the rental company's claim documents (invoice, repair estimate,
+ * demand letter - PDFs or photos) into a structured DamageClaim
+ * (lib/damageClaim.ts): claim number and dates, each claimed damage item
+ * with its location and amount, and the fees added on top.
+ */
+
+import { DamageClaimSchema, analyzeStructured } from '@/services/analysis';
+import { ClaimDocument } from '@/services/claimEvidence';
+import { ClaudeAttachment } from '@/services/claude';
+import { bytesToBase64 } from '@/lib/base64';
+import { detectImageMime } from '@/lib/pdf/layout';
+import { DamageClaim, createClaimItemId } from '@/lib/damageClaim';
+import { loadFileBytes } from '@/services/photos';
+
+const DAMAGE_CLAIM_PROMPT = `The attached file(s) are documents a car rental company sent to a renter about damage to a rental car (damage claim, invoice, repair estimate, demand letter).
+
+Read the claim:
+- claimNumber: the claim, file or invoice number
+- company: the rental company or claims handler making the claim
+- claimDate: the date of the claim letter / invoice
+- incidentDate: the date the damage is said to have happened or been found
+- responseDeadline: the date by which the renter must pay or respond
+- currency: ISO 4217 code of the amounts, e.g. "USD", "EUR", "GBP"
+- items: every claimed damage / repair line, with
+  - description: the line as worded on the claim
+  - location: the part of the vehicle, e.g. "rear bumper", "left front door", "windshield"
+  - damageType: one of "scratch", "dent", "chip", "crack", "scuff", or null if it is none of these or not stated
+  - amount: the amount claimed for the line (number, no currency symbol)
+- fees: every charge that is not a repair of a specific damage, with
+  - type: one of "lossOfUse", "admin", "diminishedValue", "towing", "storage", "appraisal", "other"
+  - description: the fee as worded on the claim
+  - amount: the amount claimed (number)
+- totalAmount: the total amount claimed
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "isDamageClaim": true or false,
+  "claimNumber": "..." or null,
+  "company": "..." or null,
+  "claimDate": "..." or null,
+  "incidentDate": "..." or null,
+  "responseDeadline": "..." or null,
+  "currency": "USD" or null,
+  "items": [{"description": "...", "location": "..." or null, "damageType": "dent" or null, "amount": 123.45 or null}],
+  "fees": [{"type": "lossOfUse", "description": "..." or null, "amount": 123.45 or null}],
+  "totalAmount": 123.45 or null
+}
+
+Copy numbers, names and dates exactly as printed. Use null for anything that is not on the documents - never guess.
+Parts and labor for the same repair are one item: add them up. Do not list taxes as separate items; include them in the total only.
+Set "isDamageClaim" to false if the files are not a damage claim or cannot be read.`;
+
+/**
+ * Read the claimed items and fees from the rental company's documents.
+ * Returns null when the files are not a readable damage claim.
+ *
+ * @throws AnalysisError
+ */
+export async function readDamageClaim(documents: ClaimDocument[]): Promise<DamageClaim | null> {
+  const attachments: ClaudeAttachment[] = [];
+  for (const document of documents) {
+    const bytes = await loadFileBytes(document.uri);
+    if (!bytes) continue;
+    const mimeType = detectImageMime(bytes) || (document.mimeType === 'application/pdf' ? 'application/pdf' : null);
+    if (!mimeType) {
+      console.warn('Unsupported claim document, skipping:', document.name);
+      continue;
+    }
+    attachments.push({ data: bytesToBase64(bytes), mimeType, name: document.name });
+  }
+  if (attachments.length === 0) {
+    throw new Error('The claim documents could not be read');
+  }
+
+  const result = await analyzeStructured({ promptText: DAMAGE_CLAIM_PROMPT, attachments }, DamageClaimSchema);
+  if (!result.isDamageClaim) return null;
+
+  const { isDamageClaim, items, ...claim } = result;
+  return {
+    ...claim,
+    items: items.map(item => ({ id: createClaimItemId(), ...item })),
+    documentNames: attachments.map(attachment => attachment.name || 'claim document'),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Before/after damage comparison service
+ *
+ * Pairs each return photo with the pickup photo of the same section and asks
+ * Claude to identify damage that is new since pickup versus damage that was
+ * already documented. Runs section by section so the return screen can show
+ * progress and partial results.
+ */
+
+import { AfterSectionPhoto, HistoryItem, SectionComparison, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+import { SectionComparisonSchema, analyzeStructured } from '@/services/analysis';
+import { loadPhotoBase64 } from '@/services/photos';
+import { damageSectionPhotos } from '@/lib/vehicleIdentity';
+
+const COMPARISON_PROMPT = (sectionName: string, pickupNotes: string) => `You are comparing two photos of the "${sectionName}" section of a rental car.
+
+The FIRST image was taken at PICKUP. The SECOND image was taken at RETURN.
+
+Damage notes recorded at pickup for this section:
+${pickupNotes || 'None recorded.'}
+
+Compare the two photos carefully and identify:
+1. NEW damage: scratches, dents, chips, cracks, scuffs or other damage visible in the RETURN photo that is NOT visible in the PICKUP photo and not described in the pickup notes
+2. UNCHANGED damage: damage visible in both photos or already described in the pickup notes
+
+Ignore differences caused by lighting, reflections, dirt, water droplets, camera angle or distance.
+If the photos show different parts of the vehicle or are too poor to compare, lower your confidence accordingly.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "newDamage": ["short description with location, e.g. 'Scratch on lower left corner of bumper, ~5cm'"],
+  "unchangedDamage": ["short description with location"],
+  "confidence": 0.0 to 1.0,
+  "summary": "One sentence summary of the comparison"
+}
+
+Use empty arrays when there is nothing to report.`;
+
+/**
+ * Compare a single section's pickup and return photos
+ */
+export async function compareSectionPhotos(
+  before: VehicleSectionPhoto,
+  after: AfterSectionPhoto
+): Promise<SectionComparison> {
+  const [beforeImage, afterImage] = await Promise.all([
+    loadPhotoBase64(before.photoUri),
+    loadPhotoBase64(after.photoUri),
+  ]);
+
+  if (!beforeImage || !afterImage) {
+    return failedComparison(after.section, `${!beforeImage ? 'Pickup' : 'Return'} photo is not available on this device`);
+  }
+
+  const result = await analyzeStructured({
+    promptText: COMPARISON_PROMPT(after.section, before.damageNotes),
+    attachments: [
+      { data: beforeImage.base64, mimeType: beforeImage.mimeType, name: `${after.section} - pickup` },
+      { data: afterImage.base64, mimeType: afterImage.mimeType, name: `${after.section} - return` },
+    ],
+  }, SectionComparisonSchema);
+
+  return {
+    section: after.section,
+    ...result,
+    comparedAt: Date.now(),
+  };
+}
+
+/**
+ * Compare every return photo against the matching pickup section.
+ * Return sections without a pickup photo are reported as not comparable.
+ * Identity photos (plate, VIN, dashboard) are compared by value instead,
+ * see compareVehicleIdentity.
+ */
+export async function compareReturnInspection(
+  historyItem: HistoryItem,
+  afterSectionPhotos: AfterSectionPhoto[],
+  onProgress?: (comparison: SectionComparison, index: number) => void
+): Promise<SectionComparison[]> {
+  const beforeBySection = new Map<string, VehicleSectionPhoto>();
+  historyItem.sectionPhotos.forEach(photo => beforeBySection.set(photo.section, photo));
+
+  const comparable = damageSectionPhotos(afterSectionPhotos);
+  const comparisons: SectionComparison[] = [];
+  for (let index = 0; index < comparable.length; index++) {
+    const after = comparable[index];
+    const before = beforeBySection.get(after.section);
+
+    let comparison: SectionComparison;
+    if (!before) {
+      comparison = failedComparison(after.section, 'No pickup photo for this section');
+    } else {
+      try {
+        comparison = await compareSectionPhotos(before, after);
+      } catch (error: any) {
+        console.error(`Comparison failed for ${after.section}:`, error);
+        comparison = failedComparison(after.section, error?.message || 'Comparison failed');
+      }
+    }
+
+    comparisons.push(comparison);
+    onProgress?.(comparison, index);
+  }
+
+  return comparisons;
+}
+
+/**
+ * Sections with new damage (the ones the renter may be charged for)
+ */
+export function getSectionsWithNewDamage(comparisons: SectionComparison[]): SectionComparison[] {
+  return comparisons.filter(comparison => !comparison.error && comparison.newDamage.length > 0);
+}
+
+function failedComparison(section: string, error: string): SectionComparison {
+  return {
+    section,
+    newDamage: [],
+    unchangedDamage: [],
+    confidence: 0,
+    summary: '',
+    comparedAt: Date.now(),
+    error,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Dispute files
+ *
+ * Keeps the documents of a dispute's correspondence log (lib/dispute.ts) -
+ * claim letters, invoices, the counter-claim PDF - where they outlive the
+ * cache and reloads: the app's documents directory on native, the IndexedDB
+ * blob store (services/photoBlobs.ts) on web, where picked and generated
+ * files are blob: URLs that die with the page. Opens them again from the log.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import type { DisputeAttachment } from '@/lib/dispute';
+import { disputeFileBlobKey, isPhotoBlobRef } from '@/lib/photoRefs';
+import { resolvePhotoUri, storePhotoBlob } from '@/services/photoBlobs';
+
+const DISPUTE_FILE_DIRECTORY = 'dispute_files/';
+
+/**
+ * Keep a picked or generated file of the inspection's dispute: a copy in the
+ * app's documents on native, a blob (photo-blob: reference) on web
+ */
+export async function keepDisputeAttachment(inspectionId: string, file: DisputeAttachment): Promise<DisputeAttachment> {
+  const safeName = `${Date.now()}_${file.name.replace(/[^\w.-]+/g, '_')}`;
+  if (Platform.OS === 'web') {
+    if (isPhotoBlobRef(file.uri)) return file;
+    return { ...file, uri: await storePhotoBlob(disputeFileBlobKey(inspectionId, safeName), file.uri) };
+  }
+
+  const documentDir = FileSystem.documentDirectory;
+  if (!documentDir || file.uri.startsWith(documentDir)) {
+    return file;
+  }
+
+  const directory = `${documentDir}${DISPUTE_FILE_DIRECTORY}`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => undefined);
+  const fileUri = `${directory}${safeName}`;
+  await FileSystem.copyAsync({ from: file.uri, to: fileUri });
+  return { ...file, uri: fileUri };
+}
+
+/**
+ * Open a logged document (new tab on web, share sheet on native)
+ */
+export async function openDisputeAttachment(attachment: DisputeAttachment): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = await resolvePhotoUri(attachment.uri);
+    if (!url) {
+      throw new Error('This document is not on this device');
+    }
+    window.open(url, '_blank');
+    return;
+  }
+
+  const info = await FileSystem.getInfoAsync(attachment.uri);
+  if (!info.exists) {
+    throw new Error('This document is not on this device');
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(attachment.uri, { mimeType: attachment.mimeType });
+}
@@ -0,0 +1,303 @@
+/**
+ * Photo evidence service
+ *
+ * Records PhotoEvidence for each photo at the moment it is captured, seals the
+ * records into a device-signed EvidenceManifest when the inspection is saved
+ * and has the backend countersign it (see lib/evidence.ts for the format).
+ *
+ * Capture records are kept in memory, keyed by the photo's data URI, until
+ * the walk-around is saved. Photos without a capture record (e.g. captured by
+ * an older version) are left out of the manifest rather than stamped with a
+ * save time that would misstate when they were taken.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import * as Crypto from 'expo-crypto';
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+import { bytesToHex } from '@noble/hashes/utils';
+import { supabase } from '@/lib/supabase';
+import { getApiBaseUrl } from '@/lib/apiBaseUrl';
+import { base64ToBytes, parseDataUri } from '@/lib/base64';
+import {
+  EVIDENCE_MANIFEST_VERSION,
+  EvidenceDevice,
+  EvidenceLocation,
+  EvidenceManifest,
+  EvidencePhase,
+  EvidencePhoto,
+  GENESIS_HASH,
+  PhotoEvidence,
+  buildEvidenceEntries,
+  evidenceManifestHash,
+  evidencePublicKey,
+  signEvidence,
+} from '@/lib/evidence';
+import type { AfterSectionPhoto, HistoryItem, VehicleSectionPhoto } from '@/contexts/HistoryContext';
+
+const DEVICE_KEY_STORAGE_KEY = 'rental_car_checker_evidence_device_key';
+
+// A capture never waits longer than this for a GPS fix
+const LOCATION_TIMEOUT_MS = 4000;
+// A last known position this recent is used instead of a fresh fix
+const LOCATION_MAX_AGE_MS = 2 * 60 * 1000;
+
+const captures = new Map<string, Promise<PhotoEvidence | null>>();
+
+function getEvidenceDevice(): EvidenceDevice {
+  return {
+    platform: Platform.OS,
+    osVersion: String(Platform.Version ?? ''),
+    model: Constants.deviceName || undefined,
+    appVersion: Constants.expoConfig?.version,
+  };
+}
+
+let locationPermission: Promise<boolean> | null = null;
+
+// Asks once per app session; GPS stays optional when the user declines
+function hasLocationPermission(): Promise<boolean> {
+  if (!locationPermission) {
+    locationPermission = (async () => {
+      const current = await Location.getForegroundPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+      return (await Location.requestForegroundPermissionsAsync()).granted;
+    })().catch(() => false);
+  }
+  return locationPermission;
+}
+
+async function getEvidenceLocation(): Promise<EvidenceLocation | undefined> {
+  try {
+    if (!(await hasLocationPermission())) return undefined;
+
+    const position =
+      await Location.getLastKnownPositionAsync({ maxAge: LOCATION_MAX_AGE_MS }) ??
+      await Promise.race([
+        Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+        new Promise<null>(resolve => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+      ]);
+    if (!position) return undefined;
+
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy ?? undefined,
+    };
+  } catch (error) {
+    console.log('No location for photo evidence:', error);
+    return undefined;
+  }
+}
+
+/**
+ * SHA-256 (hex) of a data URI's bytes
+ */
+export async function hashPhotoDataUri(dataUri: string): Promise<string | null> {
+  const parsed = parseDataUri(dataUri);
+  if (!parsed) return null;
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, base64ToBytes(parsed.base64) as BufferSource);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Record the evidence of a photo that was just taken. Call right after
+ * capture so the timestamp and location are those of the capture; frames
+ * taken from a video pass the time the frame was recorded.
+ */
+export function recordCapture(photoDataUri: string, capturedAt = Date.now()): void {
+  const evidence = (async (): Promise<PhotoEvidence | null> => {
+    const [sha256, location] = await Promise.all([hashPhotoDataUri(photoDataUri), getEvidenceLocation()]);
+    if (!sha256) return null;
+    return {
+      sha256,
+      capturedAt,
+      utcOffsetMinutes: -new Date(capturedAt).getTimezoneOffset(),
+      device: getEvidenceDevice(),
+      location,
+    };
+  })().catch(error => {
+    console.error('Failed to record photo evidence:', error);
+    return null;
+  });
+  captures.set(photoDataUri, evidence);
+}
+
+/**
+ * Evidence recorded for a photo, or undefined when it was not captured in this session
+ */
+async function getCaptureEvidence(photoUri: string | undefined): Promise<PhotoEvidence | undefined> {
+  if (!photoUri) return undefined;
+  return (await captures.get(photoUri)) ?? undefined;
+}
+
+let deviceKeyPromise: Promise<string> | null = null;
+
+// Ed25519 private key (hex) of this installation, created on first use
+function getDeviceKey(): Promise<string> {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = (async () => {
+      const stored = await AsyncStorage.getItem(DEVICE_KEY_STORAGE_KEY);
+      if (stored) return stored;
+      const privateKey = bytesToHex(Crypto.getRandomBytes(32));
+      await AsyncStorage.setItem(DEVICE_KEY_STORAGE_KEY, privateKey);
+      return privateKey;
+    })();
+    deviceKeyPromise.catch(() => {
+      deviceKeyPromise = null;
+    });
+  }
+  return deviceKeyPromise;
+}
+
+/**
+ * Chain and sign the evidence of one walk-around
+ */
+async function sealManifest(
+  inspectionId: string,
+  phase: EvidencePhase,
+  photos: EvidencePhoto[],
+  previous?: EvidenceManifest
+): Promise<EvidenceManifest> {
+  const privateKey = await getDeviceKey();
+  const entries = buildEvidenceEntries(photos, previous?.headHash ?? GENESIS_HASH);
+  const unsigned: EvidenceManifest = {
+    version: EVIDENCE_MANIFEST_VERSION,
+    inspectionId,
+    phase,
+    createdAt: Date.now(),
+    previousManifestHash: previous ? evidenceManifestHash(previous) : undefined,
+    entries,
+    headHash: entries.length > 0 ? entries[entries.length - 1].hash : previous?.headHash ?? GENESIS_HASH,
+    devicePublicKey: evidencePublicKey(privateKey),
+    deviceSignature: '',
+  };
+  return { ...unsigned, deviceSignature: signEvidence(evidenceManifestHash(unsigned), privateKey) };
+}
+
+/**
+ * Have the backend countersign a manifest. Throws when it cannot be reached.
+ */
+export async function countersignEvidenceManifest(manifest: EvidenceManifest): Promise<EvidenceManifest> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${getApiBaseUrl()}/api/rental-car/evidence/countersign`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ manifest }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `HTTP error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data.countersignature) {
+    throw new Error('No countersignature in response');
+  }
+  return { ...manifest, countersignature: data.countersignature };
+}
+
+// Countersign now if possible; otherwise the sync retries later
+async function tryCountersign(manifest: EvidenceManifest): Promise<EvidenceManifest> {
+  try {
+    return await countersignEvidenceManifest(manifest);
+  } catch (error) {
+    console.log('Evidence manifest not countersigned yet:', error);
+    return manifest;
+  }
+}
+
+/**
+ * Attach capture evidence to a new inspection's photos and seal the pickup manifest.
+ * Photos must still be the data URIs they were captured as.
+ */
+export async function sealPickupEvidence(
+  inspectionId: string,
+  item: Pick<HistoryItem, 'mainPhoto' | 'sectionPhotos'>
+): Promise<Pick<HistoryItem, 'mainPhotoEvidence' | 'sectionPhotos' | 'evidenceManifest'>> {
+  const mainPhotoEvidence = await getCaptureEvidence(item.mainPhoto);
+  const sectionPhotos: VehicleSectionPhoto[] = await Promise.all(item.sectionPhotos.map(async photo => ({
+    ...photo,
+    evidence: photo.evidence ?? await getCaptureEvidence(photo.photoUri),
+  })));
+
+  const photos: EvidencePhoto[] = [];
+  if (mainPhotoEvidence) photos.push({ kind: 'main', evidence: mainPhotoEvidence });
+  sectionPhotos.forEach(photo => {
+    if (photo.evidence) photos.push({ kind: 'section', section: photo.section, evidence: photo.evidence });
+  });
+  if (photos.length === 0) {
+    return { mainPhotoEvidence, sectionPhotos, evidenceManifest: undefined };
+  }
+
+  const evidenceManifest = await tryCountersign(await sealManifest(inspectionId, 'pickup', photos));
+  return { mainPhotoEvidence, sectionPhotos, evidenceManifest };
+}
+
+/**
+ * Attach capture evidence to the return photos and seal the return manifest,
+ * chained onto the pickup manifest
+ */
+export async function sealReturnEvidence(
+  item: HistoryItem,
+  afterMainPhoto: string,
+  afterSectionPhotos: AfterSectionPhoto[]
+): Promise<Pick<HistoryItem, 'afterMainPhotoEvidence' | 'afterSectionPhotos' | 'afterEvidenceManifest'>> {
+  const afterMainPhotoEvidence = await getCaptureEvidence(afterMainPhoto);
+  const photosWithEvidence: AfterSectionPhoto[] = await Promise.all(afterSectionPhotos.map(async photo => ({
+    ...photo,
+    evidence: photo.evidence ?? await getCaptureEvidence(photo.photoUri),
+  })));
+
+  const photos: EvidencePhoto[] = [];
+  if (afterMainPhotoEvidence) photos.push({ kind: 'afterMain', evidence: afterMainPhotoEvidence });
+  photosWithEvidence.forEach(photo => {
+    if (photo.evidence) photos.push({ kind: 'afterSection', section: photo.section, evidence: photo.evidence });
+  });
+  if (photos.length === 0) {
+    return { afterMainPhotoEvidence, afterSectionPhotos: photosWithEvidence, afterEvidenceManifest: undefined };
+  }
+
+  const manifest = await sealManifest(item.id, 'return', photos, item.evidenceManifest);
+  return {
+    afterMainPhotoEvidence,
+    afterSectionPhotos: photosWithEvidence,
+    afterEvidenceManifest: await tryCountersign(manifest),
+  };
+}
+
+/**
+ * Countersign manifests that were sealed offline. Returns the updates to
+ * apply, or null when nothing was (or could be) countersigned.
+ */
+export async function countersignPendingEvidence(
+  item: HistoryItem
+): Promise<Pick<HistoryItem, 'evidenceManifest' | 'afterEvidenceManifest'> | null> {
+  const updates: Pick<HistoryItem, 'evidenceManifest' | 'afterEvidenceManifest'> = {};
+  if (item.evidenceManifest && !item.evidenceManifest.countersignature) {
+    const signed = await tryCountersign(item.evidenceManifest);
+    if (signed.countersignature) updates.evidenceManifest = signed;
+  }
+  if (item.afterEvidenceManifest && !item.afterEvidenceManifest.countersignature) {
+    const signed = await tryCountersign(item.afterEvidenceManifest);
+    if (signed.countersignature) updates.afterEvidenceManifest = signed;
+  }
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+/**
+ * Forget the capture records once a walk-around has been saved
+ */
+export function clearCaptureEvidence(): void {
+  captures.clear();
+}
@@ -0,0 +1,118 @@
+/**
+ * Local history database (native)
+ *
+ * SQLite store for inspections, one row per inspection and one row per photo
+ * (see lib/historyRecords.ts). Photo rows hold file URIs; the images themselves
+ * live in the document directory.
+ *
+ * The web build uses historyDatabase.web.ts (IndexedDB) with the same exports.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import { StoredInspection, StoredPhoto, joinHistoryItem, splitHistoryItem } from '@/lib/historyRecords';
+
+const DATABASE_NAME = 'rental_car_checker.db';
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+        CREATE TABLE IF NOT EXISTS inspections (
+          id TEXT PRIMARY KEY NOT NULL,
+          created_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_inspections_created_at ON inspections(created_at DESC);
+        CREATE TABLE IF NOT EXISTS photos (
+          key TEXT PRIMARY KEY NOT NULL,
+          inspection_id TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_photos_inspection_id ON photos(inspection_id);
+      `);
+      return db;
+    })();
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// Writes run one after another so a later save never lands before an earlier one
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite(write: (db: SQLite.SQLiteDatabase) => Promise<void>): Promise<void> {
+  const run = writeQueue.then(async () => {
+    const db = await getDatabase();
+    await db.withTransactionAsync(() => write(db));
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * All inspections, newest first
+ */
+export async function loadInspections(): Promise<HistoryItem[]> {
+  const db = await getDatabase();
+  const inspectionRows = await db.getAllAsync<{ data: string }>(
+    'SELECT data FROM inspections ORDER BY created_at DESC'
+  );
+  const photoRows = await db.getAllAsync<{ data: string }>('SELECT data FROM photos');
+
+  const photosByInspection = new Map<string, StoredPhoto[]>();
+  photoRows.forEach(row => {
+    const photo: StoredPhoto = JSON.parse(row.data);
+    const photos = photosByInspection.get(photo.inspectionId) || [];
+    photos.push(photo);
+    photosByInspection.set(photo.inspectionId, photos);
+  });
+
+  return inspectionRows.map(row => {
+    const inspection: StoredInspection = JSON.parse(row.data);
+    return joinHistoryItem(inspection, photosByInspection.get(inspection.id) || []);
+  });
+}
+
+/**
+ * Insert or replace inspections (with all their photos)
+ */
+export function putInspections(items: HistoryItem[]): Promise<void> {
+  if (items.length === 0) return Promise.resolve();
+  return enqueueWrite(async db => {
+    for (const item of items) {
+      const { inspection, photos } = splitHistoryItem(item);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO inspections (id, created_at, data) VALUES (?, ?, ?)',
+        inspection.id,
+        inspection.createdAt,
+        JSON.stringify(inspection)
+      );
+      await db.runAsync('DELETE FROM photos WHERE inspection_id = ?', inspection.id);
+      for (const photo of photos) {
+        await db.runAsync(
+          'INSERT INTO photos (key, inspection_id, data) VALUES (?, ?, ?)',
+          photo.key,
+          photo.inspectionId,
+          JSON.stringify(photo)
+        );
+      }
+    }
+  });
+}
+
+export function deleteInspections(ids: string[]): Promise<void> {
+  if (ids.length === 0) return Promise.resolve();
+  return enqueueWrite(async db => {
+    for (const id of ids) {
+      await db.runAsync('DELETE FROM photos WHERE inspection_id = ?', id);
+      await db.runAsync('DELETE FROM inspections WHERE id = ?', id);
+    }
+  });
+}
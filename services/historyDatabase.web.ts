@@ -0,0 +1,125 @@
+/**
+ * Local history database (web)
+ *
+ * IndexedDB store for inspections with the same exports as the native SQLite
+ * store (historyDatabase.ts): one `inspections` record per inspection and one
+ * `photos` record per photo (see lib/historyRecords.ts). IndexedDB has no
+ * practical size limit for photos, so data URIs are kept as-is.
+ */
+
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import { StoredInspection, StoredPhoto, joinHistoryItem, splitHistoryItem } from '@/lib/historyRecords';
+
+const DATABASE_NAME = 'rental_car_checker';
+const DATABASE_VERSION = 1;
+const INSPECTIONS_STORE = 'inspections';
+const PHOTOS_STORE = 'photos';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(INSPECTIONS_STORE)) {
+          db.createObjectStore(INSPECTIONS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+          db.createObjectStore(PHOTOS_STORE, { keyPath: 'key' }).createIndex('inspectionId', 'inspectionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Writes run one after another so a later save never lands before an earlier one
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite(write: (inspections: IDBObjectStore, photos: IDBObjectStore) => Promise<void>): Promise<void> {
+  const run = writeQueue.then(async () => {
+    const db = await getDatabase();
+    const transaction = db.transaction([INSPECTIONS_STORE, PHOTOS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    await write(transaction.objectStore(INSPECTIONS_STORE), transaction.objectStore(PHOTOS_STORE));
+    await done;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Queue deletion of every photo record of an inspection (within the caller's transaction)
+async function deletePhotosOf(photos: IDBObjectStore, inspectionId: string): Promise<void> {
+  const keys = await requestResult(photos.index('inspectionId').getAllKeys(inspectionId));
+  keys.forEach(key => photos.delete(key));
+}
+
+/**
+ * All inspections, newest first
+ */
+export async function loadInspections(): Promise<HistoryItem[]> {
+  const db = await getDatabase();
+  const transaction = db.transaction([INSPECTIONS_STORE, PHOTOS_STORE], 'readonly');
+  const [inspections, photos] = await Promise.all([
+    requestResult<StoredInspection[]>(transaction.objectStore(INSPECTIONS_STORE).getAll()),
+    requestResult<StoredPhoto[]>(transaction.objectStore(PHOTOS_STORE).getAll()),
+  ]);
+
+  const photosByInspection = new Map<string, StoredPhoto[]>();
+  photos.forEach(photo => {
+    const list = photosByInspection.get(photo.inspectionId) || [];
+    list.push(photo);
+    photosByInspection.set(photo.inspectionId, list);
+  });
+
+  return inspections
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(inspection => joinHistoryItem(inspection, photosByInspection.get(inspection.id) || []));
+}
+
+/**
+ * Insert or replace inspections (with all their photos)
+ */
+export function putInspections(items: HistoryItem[]): Promise<void> {
+  if (items.length === 0) return Promise.resolve();
+  return enqueueWrite(async (inspections, photos) => {
+    for (const item of items) {
+      const split = splitHistoryItem(item);
+      await deletePhotosOf(photos, item.id);
+      inspections.put(split.inspection);
+      split.photos.forEach(photo => photos.put(photo));
+    }
+  });
+}
+
+export function deleteInspections(ids: string[]): Promise<void> {
+  if (ids.length === 0) return Promise.resolve();
+  return enqueueWrite(async (inspections, photos) => {
+    for (const id of ids) {
+      await deletePhotosOf(photos, id);
+      inspections.delete(id);
+    }
+  });
+}
@@ -1,15 +1,18 @@
 /**
  * Notification Service
  * 
- * Handles scheduling notifications for rental return dates.
+ * Handles scheduling notifications for rental return dates and dispute
+ * response deadlines.
  * Uses expo-notifications for cross-platform notification support.
  */
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DisputeCase, deadlineReminderTimes, describeDeadline } from '@/lib/dispute';
 
 const NOTIFICATION_STORAGE_KEY = 'rental_car_checker_notifications';
+const DISPUTE_NOTIFICATION_STORAGE_KEY = 'rental_car_checker_dispute_notifications';
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -46,6 +49,12 @@ export async function requestNotificationPermissions(): Promise<boolean> {
         vibrationPattern: [0, 250, 250, 250],
         lightColor: '#4A90A4',
       });
+      await Notifications.setNotificationChannelAsync('dispute-deadlines', {
+        name: 'Dispute Deadline Reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+        vibrationPattern: [0, 250, 250, 250],
+        lightColor: '#4A90A4',
+      });
     }
     
     return true;
@@ -117,6 +126,90 @@ export async function cancelReturnReminder(inspectionId: string): Promise<void>
   }
 }
 
+/**
+ * Schedule reminders before a dispute's response deadline (see DEADLINE_REMINDER_DAYS),
+ * replacing the ones scheduled before. Nothing is scheduled once the response is sent.
+ *
+ * @param inspectionId - ID of the inspection the dispute belongs to
+ * @param dispute - The dispute, with its current status and deadline
+ * @param company - Rental company name for the notification text
+ */
+export async function scheduleDisputeReminders(
+  inspectionId: string,
+  dispute: DisputeCase,
+  company?: string
+): Promise<string[]> {
+  await cancelDisputeReminders(dispute.id);
+
+  const times = deadlineReminderTimes(dispute);
+  if (times.length === 0 || !dispute.responseDeadline) return [];
+
+  try {
+    const hasPermission = await requestNotificationPermissions();
+    if (!hasPermission) {
+      console.warn('Cannot schedule dispute reminders - permissions not granted');
+      return [];
+    }
+
+    const deadline = dispute.responseDeadline;
+    const notificationIds: string[] = [];
+    for (const time of times) {
+      const notificationId = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Dispute Deadline Reminder',
+          body: `Your response to the ${company ? `${company} ` : ''}damage claim is due ${new Date(deadline).toLocaleDateString()} (${describeDeadline(deadline, time).toLowerCase()})`,
+          data: { inspectionId, disputeId: dispute.id, type: 'dispute_deadline' },
+          sound: true,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(time),
+          channelId: 'dispute-deadlines',
+        },
+      });
+      notificationIds.push(notificationId);
+    }
+
+    await storeDisputeNotificationIds(dispute.id, notificationIds);
+    return notificationIds;
+  } catch (error) {
+    console.error('Error scheduling dispute reminders:', error);
+    return [];
+  }
+}
+
+/**
+ * Cancel the deadline reminders of a dispute
+ */
+export async function cancelDisputeReminders(disputeId: string): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(DISPUTE_NOTIFICATION_STORAGE_KEY);
+    const notifications: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+    const notificationIds = notifications[disputeId];
+    if (!notificationIds) return;
+
+    await Promise.all(notificationIds.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+    delete notifications[disputeId];
+    await AsyncStorage.setItem(DISPUTE_NOTIFICATION_STORAGE_KEY, JSON.stringify(notifications));
+  } catch (error) {
+    console.error('Error canceling dispute reminders:', error);
+  }
+}
+
+/**
+ * Store the reminder notification IDs of a dispute
+ */
+async function storeDisputeNotificationIds(disputeId: string, notificationIds: string[]): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(DISPUTE_NOTIFICATION_STORAGE_KEY);
+    const notifications: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+    notifications[disputeId] = notificationIds;
+    await AsyncStorage.setItem(DISPUTE_NOTIFICATION_STORAGE_KEY, JSON.stringify(notifications));
+  } catch (error) {
+    console.error('Error storing dispute notification IDs:', error);
+  }
+}
+
 /**
  * Store notification ID for an inspection
  */
@@ -171,6 +264,7 @@ export async function cancelAllNotifications(): Promise<void> {
   try {
     await Notifications.cancelAllScheduledNotificationsAsync();
     await AsyncStorage.removeItem(NOTIFICATION_STORAGE_KEY);
+    await AsyncStorage.removeItem(DISPUTE_NOTIFICATION_STORAGE_KEY);
   } catch (error) {
     console.error('Error canceling all notifications:', error);
   }
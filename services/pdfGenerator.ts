@@ -1,49 +1,40 @@
 /**
  * PDF Generator Service
- * 
+ *
  * Generates PDF documents from inspection data and AI-generated counter-claim letters.
- * Uses jsPDF for PDF creation.
+ * Uses pdf-lib for PDF creation (layout lives in lib/pdf so the backend can reuse it).
+ *
+ * This service handles the platform specific parts:
+ * - Loading photos (via services/photos)
+ * - Writing the result (blob URL on web, file in the document directory on native)
  */
 
 import { HistoryItem } from '@/contexts/HistoryContext';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
-
-// Dynamic import for jsPDF (web) or use a React Native compatible solution
-let jsPDF: any = null;
-
-if (Platform.OS === 'web') {
-  // For web, we can use jsPDF directly
-  // Note: You'll need to import it properly in a web environment
-}
+import { bytesToBase64 } from '@/lib/base64';
+import { buildInspectionReportPDF } from '@/lib/pdf/inspectionReport';
+import { CounterClaimLetterOptions, buildCounterClaimLetterPDF } from '@/lib/pdf/counterClaimLetter';
+import { DEFAULT_LETTER_TEMPLATE, LETTER_FILE_NAMES } from '@/lib/letterTemplates';
+import { getApiBaseUrl } from '@/lib/apiBaseUrl';
+import { supabase } from '@/lib/supabase';
+import { inlineLocalPhoto, loadPhotoBytes } from '@/services/photos';
 
 /**
  * Generate PDF from history item inspection data
+ *
+ * Prefers the backend renderer (POST /api/rental-car/report) so every platform
+ * gets the same document; falls back to rendering on device when offline or
+ * signed out.
  */
 export async function generateCounterClaimPDF(historyItem: HistoryItem): Promise<string> {
   try {
-    // For now, create a simple text-based representation
-    // In production, you'd use a proper PDF library
-    
-    const fileName = `inspection-report-${historyItem.id}.pdf`;
-    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-    
-    // Create PDF content as text (placeholder - needs proper PDF generation)
-    const pdfContent = createInspectionPDFContent(historyItem);
-    
-    // For web, create a blob URL
-    if (Platform.OS === 'web') {
-      const blob = new Blob([pdfContent], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      return url;
-    }
-    
-    // For mobile, save to file system
-    await FileSystem.writeAsStringAsync(fileUri, pdfContent, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
-    
-    return fileUri;
+    const pdfBytes = await fetchServerReportPDF(historyItem)
+      .catch(error => {
+        console.warn('Server report unavailable, rendering locally:', error.message);
+        return buildInspectionReportPDF(historyItem, loadPhotoBytes);
+      });
+    return await savePDF(pdfBytes, `inspection-report-${historyItem.id}.pdf`);
   } catch (error) {
     console.error('Error generating PDF:', error);
     throw error;
@@ -51,32 +42,17 @@ export async function generateCounterClaimPDF(historyItem: HistoryItem): Promise
 }
 
 /**
- * Generate PDF from AI-generated counter-claim text
+ * Generate a dispute letter PDF around the AI-written narrative
  */
 export async function generateCounterClaimPDFFromText(
-  aiText: string,
-  historyItem: HistoryItem
+  narrative: string,
+  historyItem: HistoryItem,
+  options: CounterClaimLetterOptions = {}
 ): Promise<string> {
   try {
-    const fileName = `counter-claim-${Date.now()}.pdf`;
-    
-    if (Platform.OS === 'web') {
-      // For web, create a downloadable PDF
-      const pdfContent = createCounterClaimPDFContent(aiText, historyItem);
-      const blob = new Blob([pdfContent], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      return url;
-    }
-    
-    // For mobile
-    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-    const pdfContent = createCounterClaimPDFContent(aiText, historyItem);
-    
-    await FileSystem.writeAsStringAsync(fileUri, pdfContent, {
-      encoding: FileSystem.EncodingType.UTF8,
-    });
-    
-    return fileUri;
+    const pdfBytes = await buildCounterClaimLetterPDF(narrative, historyItem, loadPhotoBytes, options);
+    const type = options.template?.type ?? DEFAULT_LETTER_TEMPLATE.type;
+    return await savePDF(pdfBytes, `${LETTER_FILE_NAMES[type]}-${Date.now()}.pdf`);
   } catch (error) {
     console.error('Error generating counter-claim PDF:', error);
     throw error;
@@ -84,84 +60,85 @@ export async function generateCounterClaimPDFFromText(
 }
 
 /**
- * Create PDF content for inspection report
- * 
- * This is a placeholder - in production, use a proper PDF library like:
- * - jsPDF (web)
- * - react-native-pdf (mobile)
- * - pdfkit (Node.js)
+ * Render the inspection report on the backend
+ *
+ * Local photos (file: / blob: URIs) are inlined as data URIs; Storage URLs
+ * are sent as-is and fetched by the server.
  */
-function createInspectionPDFContent(historyItem: HistoryItem): string {
-  return `
-VEHICLE INSPECTION REPORT
-Generated: ${new Date(historyItem.createdAt).toLocaleString()}
-Inspection Date: ${historyItem.dateText}
-
-INSPECTION SUMMARY
-==================
-
-Main Vehicle Photo: [Included in report]
-Sections Documented: ${historyItem.sectionPhotos.length}
-
-SECTION DETAILS
-===============
-
-${historyItem.sectionPhotos.map((section, index) => `
-${index + 1}. ${section.section}
-   Photo: [Included]
-   Damage Notes: ${section.damageNotes}
-   Status: ${section.isUsable ? 'Usable' : 'Needs Retake'}
-`).join('\n')}
-
-COMBINED DAMAGE NOTES
-====================
+async function fetchServerReportPDF(historyItem: HistoryItem): Promise<Uint8Array> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    throw new Error('User not authenticated');
+  }
 
-${historyItem.allDamageNotes}
+  const inspection = {
+    id: historyItem.id,
+    createdAt: historyItem.createdAt,
+    dateText: historyItem.dateText,
+    mainPhoto: await inlineLocalPhoto(historyItem.mainPhoto),
+    sectionPhotos: await Promise.all(historyItem.sectionPhotos.map(async photo => ({
+      ...photo,
+      photoUri: await inlineLocalPhoto(photo.photoUri),
+    }))),
+    allDamageNotes: historyItem.allDamageNotes,
+    expectedReturnDate: historyItem.expectedReturnDate,
+    expectedReturnDateText: historyItem.expectedReturnDateText,
+    afterMainPhoto: historyItem.afterMainPhoto ? await inlineLocalPhoto(historyItem.afterMainPhoto) : undefined,
+    afterSectionPhotos: historyItem.afterSectionPhotos
+      ? await Promise.all(historyItem.afterSectionPhotos.map(async photo => ({
+        ...photo,
+        photoUri: await inlineLocalPhoto(photo.photoUri),
+      })))
+      : undefined,
+    afterCreatedAt: historyItem.afterCreatedAt,
+    afterDateText: historyItem.afterDateText,
+    isReturned: historyItem.isReturned,
+    returnComparison: historyItem.returnComparison,
+    mainPhotoEvidence: historyItem.mainPhotoEvidence,
+    afterMainPhotoEvidence: historyItem.afterMainPhotoEvidence,
+    evidenceManifest: historyItem.evidenceManifest,
+    afterEvidenceManifest: historyItem.afterEvidenceManifest,
+    vehicleIdentity: historyItem.vehicleIdentity,
+    pickupReadings: historyItem.pickupReadings,
+    returnIdentity: historyItem.returnIdentity,
+    returnReadings: historyItem.returnReadings,
+    rentalAgreement: historyItem.rentalAgreement,
+    walkAroundPlan: historyItem.walkAroundPlan,
+    walkAroundVideo: historyItem.walkAroundVideo,
+    afterWalkAroundVideo: historyItem.afterWalkAroundVideo,
+  };
+
+  const response = await fetch(`${getApiBaseUrl()}/api/rental-car/report`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ inspection }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `HTTP error: ${response.status}`);
+  }
 
----
-This is a placeholder PDF. In production, this would be a properly formatted PDF document.
-  `.trim();
+  return new Uint8Array(await response.arrayBuffer());
 }
 
 /**
- * Create PDF content for counter-claim letter
+ * Write PDF bytes somewhere shareable and return the URI
  */
-function createCounterClaimPDFContent(aiText: string, historyItem: HistoryItem): string {
-  return `
-COUNTER CLAIM LETTER
-====================
-
-Date: ${new Date().toLocaleDateString()}
-
-To: Rental Car Company
-Re: Damage Claim Dispute
-
-Dear Sir/Madam,
-
-This letter is in response to your damage claim regarding the vehicle inspection conducted on ${historyItem.dateText}.
-
-${aiText}
-
-EVIDENCE REFERENCES
-===================
-
-Inspection Date: ${historyItem.dateText}
-Inspection ID: ${historyItem.id}
-Sections Documented: ${historyItem.sectionPhotos.length}
-
-The following evidence supports this dispute:
-${historyItem.sectionPhotos.map((section, index) => `
-${index + 1}. ${section.section} - ${section.damageNotes}
-`).join('')}
-
-Please review the attached inspection report and photos which document the vehicle's condition at the time of rental.
-
-Sincerely,
-[Your Name]
+async function savePDF(pdfBytes: Uint8Array, fileName: string): Promise<string> {
+  // For web, create a blob URL
+  if (Platform.OS === 'web') {
+    const blob = new Blob([pdfBytes as BlobPart], { type: 'application/pdf' });
+    return URL.createObjectURL(blob);
+  }
 
----
-This is a placeholder PDF. In production, this would be a properly formatted PDF document with proper styling, headers, and embedded images.
-  `.trim();
+  // For mobile, save to file system
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(pdfBytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return fileUri;
 }
-
-
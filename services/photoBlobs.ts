@@ -0,0 +1,187 @@
+/**
+ * Web photo blob store
+ *
+ * Photos captured on web are stored as blobs in IndexedDB, keyed by
+ * inspection, photo kind and section (see lib/photoRefs.ts). The HistoryItem
+ * keeps a `photo-blob:` reference, which resolves to an object URL for display
+ * and to bytes for upload / PDF export, across reloads.
+ *
+ * On native, photos are files in the document directory and every function
+ * here leaves URIs untouched.
+ */
+
+import { Platform } from 'react-native';
+import type { HistoryItem } from '@/contexts/HistoryContext';
+import type { StoredPhotoKind } from '@/lib/historyRecords';
+import {
+  inspectionIdOfPhotoBlobKey,
+  keyOfPhotoBlobRef,
+  photoBlobKey,
+  photoBlobRef,
+} from '@/lib/photoRefs';
+
+const DATABASE_NAME = 'rental_car_checker_photos';
+const DATABASE_VERSION = 1;
+const BLOBS_STORE = 'blobs';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(BLOBS_STORE)) {
+          request.result.createObjectStore(BLOBS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BLOBS_STORE, mode);
+    const request = makeRequest(transaction.objectStore(BLOBS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Object URLs handed out for display, by blob key
+const objectUrls = new Map<string, string>();
+
+function forgetObjectUrl(key: string) {
+  const url = objectUrls.get(key);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(key);
+  }
+}
+
+/**
+ * Store a data URI photo (or a blob: URL, e.g. a picked document) as a blob.
+ * Returns the reference to keep on the HistoryItem.
+ */
+export async function storePhotoBlob(key: string, dataUri: string): Promise<string> {
+  const blob = await (await fetch(dataUri)).blob();
+  await runRequest('readwrite', store => store.put(blob, key));
+  forgetObjectUrl(key); // A retake replaces the photo under the same key
+  return photoBlobRef(key);
+}
+
+/**
+ * Load the blob behind a reference. Returns null when it no longer exists.
+ */
+export async function loadPhotoBlob(ref: string): Promise<Blob | null> {
+  const key = keyOfPhotoBlobRef(ref);
+  if (!key || Platform.OS !== 'web') return null;
+  const blob = await runRequest<Blob | undefined>('readonly', store => store.get(key));
+  return blob ?? null;
+}
+
+/**
+ * URI that an <Image> can display. References resolve to object URLs
+ * (empty string when the blob is gone); other URIs are returned as-is.
+ */
+export async function resolvePhotoUri(uri: string): Promise<string> {
+  const key = keyOfPhotoBlobRef(uri);
+  if (!key) return uri;
+
+  const cached = objectUrls.get(key);
+  if (cached) return cached;
+
+  const blob = await loadPhotoBlob(uri);
+  if (!blob) return '';
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+}
+
+/**
+ * Move the data URI photos of an inspection (or of an update to it) into the
+ * blob store, replacing them with references. No-op on native.
+ */
+export async function storeHistoryPhotos<T extends Partial<HistoryItem>>(inspectionId: string, item: T): Promise<T> {
+  if (Platform.OS !== 'web') return item;
+
+  const usedKeys = new Set<string>();
+  const store = async (kind: StoredPhotoKind, section: string, uri: string) => {
+    if (!uri.startsWith('data:')) return uri;
+    // Sections are unique per list, but never let two photos share a blob
+    let key = photoBlobKey(inspectionId, kind, section);
+    for (let n = 2; usedKeys.has(key); n++) {
+      key = photoBlobKey(inspectionId, kind, `${section}#${n}`);
+    }
+    usedKeys.add(key);
+    return storePhotoBlob(key, uri);
+  };
+
+  const stored: T = { ...item };
+  if (item.mainPhoto) {
+    stored.mainPhoto = await store('main', 'main', item.mainPhoto);
+  }
+  if (item.sectionPhotos) {
+    stored.sectionPhotos = await Promise.all(item.sectionPhotos.map(async photo => ({
+      ...photo,
+      photoUri: await store('section', photo.section, photo.photoUri),
+    })));
+  }
+  if (item.afterMainPhoto) {
+    stored.afterMainPhoto = await store('afterMain', 'main', item.afterMainPhoto);
+  }
+  if (item.afterSectionPhotos) {
+    stored.afterSectionPhotos = await Promise.all(item.afterSectionPhotos.map(async photo => ({
+      ...photo,
+      photoUri: await store('afterSection', photo.section, photo.photoUri),
+    })));
+  }
+  return stored;
+}
+
+/**
+ * Delete the blobs of the given inspections
+ */
+export async function deleteInspectionPhotoBlobs(inspectionIds: string[]): Promise<void> {
+  if (Platform.OS !== 'web' || inspectionIds.length === 0) return;
+  const ids = new Set(inspectionIds);
+  const keys = await runRequest('readonly', store => store.getAllKeys());
+  await deleteKeys(keys.map(String).filter(key => ids.has(inspectionIdOfPhotoBlobKey(key))));
+}
+
+/**
+ * Garbage-collect blobs of inspections that no longer exist. Only call this
+ * when `liveInspectionIds` is complete (e.g. right after loading the history),
+ * otherwise photos of an inspection being saved could be deleted.
+ * Returns the number of blobs removed.
+ */
+export async function collectPhotoBlobGarbage(liveInspectionIds: string[]): Promise<number> {
+  if (Platform.OS !== 'web') return 0;
+  const live = new Set(liveInspectionIds);
+  const keys = await runRequest('readonly', store => store.getAllKeys());
+  const orphaned = keys.map(String).filter(key => !live.has(inspectionIdOfPhotoBlobKey(key)));
+  await deleteKeys(orphaned);
+  return orphaned.length;
+}
+
+async function deleteKeys(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await getDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(BLOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(BLOBS_STORE);
+    keys.forEach(key => store.delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  keys.forEach(forgetObjectUrl);
+}
@@ -0,0 +1,40 @@
+/**
+ * Photo quality check on the device
+ *
+ * Scores a downscaled copy of a captured photo or video frame
+ * (lib/photoQuality.ts). Decoding a full-size 12 MP JPEG in JS takes well
+ * over half a second and would block the camera screen after every shot; at
+ * QUALITY_CHECK_WIDTH the check takes a few tens of milliseconds and tells
+ * blurry from sharp at least as well.
+ *
+ * The check runs after the shutter, on the photo just taken - there is no
+ * live check of the camera preview.
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { base64ToBytes } from '@/lib/base64';
+import { PhotoQuality, assessPhotoQuality } from '@/lib/photoQuality';
+
+// Width of the copy that is scored (under the scorer's large-image threshold)
+const QUALITY_CHECK_WIDTH = 1024;
+
+/**
+ * Quality of the photo at `uri` (file: or data: URI), or null when it cannot be checked
+ */
+export async function checkPhotoQuality(uri: string, minCoverage: number): Promise<PhotoQuality | null> {
+  const context = ImageManipulator.manipulate(uri);
+  try {
+    const image = await context.resize({ width: QUALITY_CHECK_WIDTH }).renderAsync();
+    try {
+      const resized = await image.saveAsync({ base64: true, format: SaveFormat.JPEG, compress: 0.9 });
+      return resized.base64 ? assessPhotoQuality(base64ToBytes(resized.base64), minCoverage) : null;
+    } finally {
+      image.release();
+    }
+  } catch (error) {
+    console.warn('Could not check photo quality:', error);
+    return null;
+  } finally {
+    context.release();
+  }
+}
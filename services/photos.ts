@@ -0,0 +1,80 @@
+/**
+ * Photo and file loading service
+ *
+ * Resolves the photo URIs stored on a HistoryItem (and picked documents) to raw bytes:
+ * - data URIs (native captures before upload)
+ * - photo-blob: references to photos stored in IndexedDB on web
+ * - file: URIs on native
+ * - remote Storage URLs (and blob: URLs on web)
+ *
+ * Used by the PDF generator and by AI analysis that needs previously captured
+ * photos or uploaded documents.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { base64ToBytes, bytesToBase64, parseDataUri } from '@/lib/base64';
+import { ReportImage, detectImageMime } from '@/lib/pdf/layout';
+import { isPhotoBlobRef } from '@/lib/photoRefs';
+import { loadPhotoBlob } from '@/services/photoBlobs';
+
+/**
+ * Load any file URI as bytes. Returns null when a remote file cannot be fetched.
+ */
+export async function loadFileBytes(uri: string): Promise<Uint8Array | null> {
+  if (uri.startsWith('data:')) {
+    const parsed = parseDataUri(uri);
+    return parsed ? base64ToBytes(parsed.base64) : null;
+  }
+
+  if (isPhotoBlobRef(uri)) {
+    const blob = await loadPhotoBlob(uri);
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+  }
+
+  if (uri.startsWith('file:') && Platform.OS !== 'web') {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return base64ToBytes(base64);
+  }
+
+  // Remote Storage URLs (and blob: URLs on web)
+  const response = await fetch(uri);
+  if (!response.ok) return null;
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Load a photo as bytes. Returns null for unsupported formats or
+ * photos that are no longer available (e.g. "[STORED]" placeholders from older web builds).
+ */
+export async function loadPhotoBytes(uri: string): Promise<ReportImage | null> {
+  const bytes = await loadFileBytes(uri);
+  if (!bytes) return null;
+
+  const mimeType = detectImageMime(bytes);
+  if (!mimeType) {
+    console.warn('Unsupported or unavailable photo, skipping:', uri.substring(0, 40));
+    return null;
+  }
+  return { bytes, mimeType };
+}
+
+/**
+ * Load a photo as base64 + MIME type (the format the Claude proxy expects)
+ */
+export async function loadPhotoBase64(uri: string): Promise<{ base64: string; mimeType: string } | null> {
+  const image = await loadPhotoBytes(uri);
+  return image ? { base64: bytesToBase64(image.bytes), mimeType: image.mimeType } : null;
+}
+
+/**
+ * Inline a device-local photo (file: / blob: URI or photo-blob: reference) as a
+ * data URI so it can be uploaded. Data URIs and Storage URLs are returned as-is.
+ */
+export async function inlineLocalPhoto(uri: string): Promise<string> {
+  if (!uri.startsWith('file:') && !uri.startsWith('blob:') && !isPhotoBlobRef(uri)) return uri;
+  const image = await loadPhotoBytes(uri);
+  return image ? `data:${image.mimeType};base64,${bytesToBase64(image.bytes)}` : uri;
+}
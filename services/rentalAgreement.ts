@@ -0,0 +1,76 @@
+/**
+ * Rental agreement extraction
+ *
+ * Reads the rental company, branch, agreement / reservation number,
+ * locations and renter name from photos or a PDF of the rental agreement
+ * (lib/rentalAgreement.ts). The result only pre-fills the form - the user
+ * checks and corrects it before it is saved.
+ */
+
+import { RentalAgreementSchema, analyzeStructured } from '@/services/analysis';
+import { ClaudeAttachment } from '@/services/claude';
+import { bytesToBase64 } from '@/lib/base64';
+import { detectImageMime } from '@/lib/pdf/layout';
+import { RentalAgreement, normalizeRentalAgreement } from '@/lib/rentalAgreement';
+import { loadFileBytes } from '@/services/photos';
+
+export interface AgreementFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+const RENTAL_AGREEMENT_PROMPT = `The attached file(s) are pages of a car rental agreement (contract, rental record or booking confirmation).
+
+Read the following details:
+- company: the rental company's name (brand), e.g. "Hertz", "Sixt"
+- branch: the rental office / station the car was rented from
+- agreementNumber: the rental agreement, contract or RA number
+- reservationNumber: the reservation, booking or confirmation number
+- pickupLocation: where the car was picked up (station name and/or address)
+- returnLocation: where the car is due to be returned
+- renterName: the name of the renter / main driver
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "isRentalAgreement": true or false,
+  "company": "..." or null,
+  "branch": "..." or null,
+  "agreementNumber": "..." or null,
+  "reservationNumber": "..." or null,
+  "pickupLocation": "..." or null,
+  "returnLocation": "..." or null,
+  "renterName": "..." or null
+}
+
+Copy numbers and names exactly as printed. Use null for anything that is not on the document - never guess.
+Set "isRentalAgreement" to false if the files are not a rental agreement or cannot be read.`;
+
+/**
+ * Read the agreement details from photos / a PDF of the rental agreement.
+ * Returns null when the files are not a readable rental agreement.
+ *
+ * @throws AnalysisError
+ */
+export async function readRentalAgreement(files: AgreementFile[]): Promise<RentalAgreement | null> {
+  const attachments: ClaudeAttachment[] = [];
+  for (const file of files) {
+    const bytes = await loadFileBytes(file.uri);
+    if (!bytes) continue;
+    const mimeType = detectImageMime(bytes) || (file.mimeType === 'application/pdf' ? 'application/pdf' : null);
+    if (!mimeType) {
+      console.warn('Unsupported rental agreement file, skipping:', file.name);
+      continue;
+    }
+    attachments.push({ data: bytesToBase64(bytes), mimeType, name: file.name });
+  }
+  if (attachments.length === 0) {
+    throw new Error('The selected file could not be read');
+  }
+
+  const result = await analyzeStructured({ promptText: RENTAL_AGREEMENT_PROMPT, attachments }, RentalAgreementSchema);
+  if (!result.isRentalAgreement) return null;
+
+  const { isRentalAgreement, ...agreement } = result;
+  return normalizeRentalAgreement(agreement) ?? null;
+}
@@ -0,0 +1,43 @@
+/**
+ * Section damage analysis
+ *
+ * The prompt for the damage analysis of one walk-around section photo,
+ * shared by the photo-by-photo capture and the video walk-around.
+ */
+
+// Damage notes of a photo whose analysis waits in the offline queue
+export const QUEUED_ANALYSIS_NOTE = 'Analysis pending - the photo will be analyzed when you are back online.';
+
+export const DAMAGE_ANALYSIS_PROMPT = (sectionName: string, isRetake: boolean, isExtra: boolean) => `You are a vehicle inspection assistant. Analyze this photo of a rental vehicle section.
+
+The user has taken a photo of the "${sectionName}" section of their rental vehicle.
+${isRetake ? '\nIMPORTANT: This is a RETAKE or ADDITIONAL photo requested after the initial inspection sequence. You MUST provide a brief 5-7 word explanation in the "retakeReason" field explaining why this additional photo is necessary.' : ''}
+${isExtra ? '\nIMPORTANT: This is an EXTRA photo requested to get a better/clearer shot of serious damage identified in a previous photo. Focus on capturing the specific damage clearly.' : ''}
+
+Your task:
+1. Identify which section of the car this photo shows
+2. Identify any visible flaws, damage, scratches, dents, or issues in this section
+3. If the photo is unusable or shows the wrong section, flag it
+${isRetake ? '4. REQUIRED: Provide a brief 5-7 word explanation of why this retake/additional photo is necessary. Examples: "Previous photo was too blurry", "Need closer view of scratch", "Wrong angle captured initially", "Lighting was insufficient", "Damage not clearly visible"' : ''}
+${!isRetake && !isExtra ? '4. CRITICAL: Assess if there is SERIOUS, NOTABLE, or POTENTIALLY COSTLY damage. Only flag as serious if the damage is:\n   - Significant dents, deep scratches, or major paint damage\n   - Structural damage or broken parts\n   - Damage that would likely cost $200+ to repair\n   - NOT minor scratches, small chips, or cosmetic wear\n   DO NOT be paranoid about minor cosmetic issues. Only flag clearly serious damage.' : ''}
+
+Return your response in JSON format:
+{
+  "section": "the section name you identified",
+  "isCorrectSection": true or false,
+  "isUsable": true or false,
+  "damageNotes": "detailed description of any damage, flaws, or issues found. If none, say 'No visible damage or issues found.'",
+  "damages": [
+    {
+      "type": "scratch" | "dent" | "chip" | "crack" | "scuff",
+      "severity": "minor" | "moderate" | "severe",
+      "location": "where on this section, e.g. 'lower left corner of bumper'",
+      "estimatedSizeCm": longest dimension in centimeters (number) or null,
+      "boundingBox": { "x": 0-1, "y": 0-1, "width": 0-1, "height": 0-1 } or null
+    }
+  ]${isRetake ? ',\n  "retakeReason": "REQUIRED: brief 5-7 word explanation of why this retake/additional photo is necessary"' : ''}${!isRetake && !isExtra ? ',\n  "hasSeriousDamage": true or false,\n  "seriousDamageDescription": "if hasSeriousDamage is true, provide a brief 5-7 word description of the serious damage and its location (e.g., "Large dent on driver door", "Deep scratch on rear bumper", "Cracked headlight on passenger side")' : ''}
+}
+
+List every individual damage item in "damages" (use an empty array if there is none). Use the closest of the five damage types. The bounding box is a tight box around the damage in the photo, as fractions of the image width/height measured from the top-left corner - these are drawn on the photo as markers, so include one for every item you can see; use null only if the item cannot be located in the photo.
+
+IMPORTANT: Return ONLY the JSON object, no markdown, no code blocks, no additional text. If the image does not show a vehicle section, set "isUsable" to false.${isRetake ? ' If this is a retake, the "retakeReason" field is REQUIRED.' : ''}${!isRetake && !isExtra ? ' Only set "hasSeriousDamage" to true for DEFINITELY notable, potentially costly damage. Be conservative - minor scratches or cosmetic wear should NOT trigger this.' : ''}`;
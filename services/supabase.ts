@@ -26,6 +26,10 @@
 import { supabase } from '@/lib/supabase';
 import { VehicleSectionPhoto, HistoryItem } from '@/contexts/HistoryContext';
 import { getApiBaseUrl } from '@/lib/apiBaseUrl';
+import { inspectionRecordToHistoryItem } from '@/lib/inspectionRecords';
+import { adoptRemoteItem, hasLocalChanges, isSameInspection, mergeHistoryItems } from '@/lib/historySync';
+import { inlineLocalPhoto } from '@/services/photos';
+import { isPhotoPlaceholder, restorePlaceholderPhotos } from '@/lib/photoRefs';
 import Constants from 'expo-constants';
 
 const SUPABASE_FUNCTIONS_URL = Constants.expoConfig?.extra?.supabaseFunctionsUrl || 
@@ -43,14 +47,40 @@ export interface StoreInspectionRequest {
   afterCreatedAt?: number;
   afterDateText?: string;
   isReturned?: boolean;
+  returnComparison?: HistoryItem['returnComparison'];
+  mainPhotoEvidence?: HistoryItem['mainPhotoEvidence'];
+  afterMainPhotoEvidence?: HistoryItem['afterMainPhotoEvidence'];
+  evidenceManifest?: HistoryItem['evidenceManifest'];
+  afterEvidenceManifest?: HistoryItem['afterEvidenceManifest'];
+  vehicleIdentity?: HistoryItem['vehicleIdentity'];
+  pickupReadings?: HistoryItem['pickupReadings'];
+  returnIdentity?: HistoryItem['returnIdentity'];
+  returnReadings?: HistoryItem['returnReadings'];
+  rentalAgreement?: HistoryItem['rentalAgreement'];
+  walkAroundPlan?: HistoryItem['walkAroundPlan'];
+  walkAroundVideo?: HistoryItem['walkAroundVideo'];
+  afterWalkAroundVideo?: HistoryItem['afterWalkAroundVideo'];
+  dispute?: HistoryItem['dispute'];
+  // Sync metadata
+  clientId?: string; // Local HistoryItem ID, returned as client_id
+  updatedAt?: number;
+  fieldUpdatedAt?: HistoryItem['fieldUpdatedAt'];
 }
 
 export interface StoreInspectionResponse {
   success: boolean;
   inspectionId?: string;
+  version?: number;
   error?: string;
 }
 
+// Inspections uploaded before sync metadata existed carry no client_id; a server
+// copy created this close to a local item's creation time is taken to be its upload
+const LEGACY_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+// Older web builds kept only a placeholder for photos (see lib/photoRefs.ts)
+const isPhotoAvailable = (uri: string | undefined) => !isPhotoPlaceholder(uri);
+
 /**
  * Store inspection results to Supabase via edge function
  * 
@@ -94,6 +124,23 @@ export async function storeInspectionToSupabase(
         after_created_at: data.afterCreatedAt ? new Date(data.afterCreatedAt).toISOString() : null,
         after_date_text: data.afterDateText,
         is_returned: data.isReturned || false,
+        return_comparison: data.returnComparison,
+        main_photo_evidence: data.mainPhotoEvidence,
+        after_main_photo_evidence: data.afterMainPhotoEvidence,
+        evidence_manifest: data.evidenceManifest,
+        after_evidence_manifest: data.afterEvidenceManifest,
+        vehicle_identity: data.vehicleIdentity,
+        pickup_readings: data.pickupReadings,
+        return_identity: data.returnIdentity,
+        return_readings: data.returnReadings,
+        rental_agreement: data.rentalAgreement,
+        walk_around_plan: data.walkAroundPlan,
+        walk_around_video: data.walkAroundVideo,
+        after_walk_around_video: data.afterWalkAroundVideo,
+        dispute: data.dispute,
+        client_id: data.clientId,
+        updated_at: data.updatedAt ? new Date(data.updatedAt).toISOString() : undefined,
+        field_updated_at: data.fieldUpdatedAt,
       }),
     });
 
@@ -109,6 +156,7 @@ export async function storeInspectionToSupabase(
     return {
       success: true,
       inspectionId: result.inspection_id,
+      version: result.version,
     };
   } catch (error) {
     console.error('Error storing inspection to Supabase:', error);
@@ -134,116 +182,212 @@ export async function fetchInspectionsFromSupabase(): Promise<HistoryItem[]> {
       return [];
     }
 
-    // Use edge function to get inspections (it handles the complex join with section photos)
-    const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/rental-car-get-inspections`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${session.access_token}`,
-      },
-    });
-
-    if (!response.ok) {
-      console.error('Error fetching inspections:', response.status);
-      return [];
-    }
-
-    const result = await response.json();
-    
-    if (!result.inspections || !Array.isArray(result.inspections)) {
-      return [];
-    }
-
-    const data = result.inspections;
+    return await fetchInspectionRecords(session.access_token);
+  } catch (error) {
+    console.error('Error fetching inspections from Supabase:', error);
+    return [];
+  }
+}
 
-    if (error) {
-      console.error('Error fetching inspections:', error);
-      return [];
-    }
+/**
+ * Fetch the user's inspections. Throws when the request fails so sync can
+ * tell "no inspections" apart from "server unreachable".
+ */
+async function fetchInspectionRecords(accessToken: string): Promise<HistoryItem[]> {
+  // Use edge function to get inspections (it handles the complex join with section photos)
+  const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/rental-car-get-inspections`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
 
-    // Convert edge function response format to HistoryItem format
-    // Edge function returns inspections with section_photos as array of objects with photo_url
-    return (data || []).map((inspection): HistoryItem => {
-      // Convert section photos from edge function format to app format
-      const sectionPhotos = (inspection.section_photos || []).map((photo: any) => ({
-        section: photo.section,
-        photoUri: photo.photo_url || photo.photo_uri, // URL from Storage
-        damageNotes: photo.damage_notes || '',
-        isUsable: photo.is_usable !== false,
-        needsRetake: photo.needs_retake || false,
-      }));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch inspections: ${response.status}`);
+  }
 
-      return {
-        id: inspection.id,
-        mainPhoto: inspection.main_photo_url || inspection.main_photo, // URL from Storage
-        sectionPhotos,
-        allDamageNotes: inspection.all_damage_notes || '',
-        createdAt: new Date(inspection.created_at).getTime(),
-        dateText: formatDateText(new Date(inspection.created_at)),
-        expectedReturnDate: inspection.expected_return_date ? new Date(inspection.expected_return_date).getTime() : undefined,
-        expectedReturnDateText: inspection.expected_return_date_text,
-        afterMainPhoto: inspection.after_main_photo_url || inspection.after_main_photo,
-        afterSectionPhotos: (inspection.after_section_photos || []).map((photo: any) => ({
-          section: photo.section,
-          photoUri: photo.photo_url || photo.photo_uri,
-        })),
-        afterCreatedAt: inspection.after_created_at ? new Date(inspection.after_created_at).getTime() : undefined,
-        afterDateText: inspection.after_date_text,
-        isReturned: inspection.is_returned || false,
-      };
-    });
-  } catch (error) {
-    console.error('Error fetching inspections from Supabase:', error);
+  const result = await response.json();
+  
+  if (!result.inspections || !Array.isArray(result.inspections)) {
     return [];
   }
+
+  // Convert edge function response format to HistoryItem format
+  // Edge function returns inspections with section_photos as array of objects with photo_url
+  return result.inspections.map(inspectionRecordToHistoryItem);
 }
 
 /**
  * Sync local history with Supabase
- * 
+ *
  * This function:
  * 1. Fetches all inspections from Supabase
- * 2. Compares with local history
- * 3. Returns merged list (Supabase takes precedence for conflicts)
- * 
+ * 2. Uploads inspections that are not on the server yet
+ * 3. Adopts server changes to uploaded inspections; when the local copy changed
+ *    too, merges field by field (see lib/historySync.ts)
+ * 4. Adds inspections created on other devices, except ones deleted on this device
+ *
+ * Uploaded inspections are not updated or deleted on the server: local edits
+ * and deletions stay on this device.
+ * Items that could not be uploaded are returned unchanged and retried on the next run.
+ *
  * @param localHistory - Current local history
- * @returns Promise with merged history
+ * @param deletedServerIds - Server IDs of inspections deleted on this device
+ * @returns Promise with the synced history
  */
 export async function syncHistoryWithSupabase(
-  localHistory: HistoryItem[]
+  localHistory: HistoryItem[],
+  deletedServerIds: string[] = []
 ): Promise<HistoryItem[]> {
   try {
-    const supabaseHistory = await fetchInspectionsFromSupabase();
-    
-    // Create a map of Supabase inspections by ID
-    const supabaseMap = new Map(supabaseHistory.map(item => [item.id, item]));
-    
-    // Create a map of local inspections by ID
-    const localMap = new Map(localHistory.map(item => [item.id, item]));
-    
-    // Merge: Supabase takes precedence, then add local items not in Supabase
-    const merged: HistoryItem[] = [];
-    
-    // Add all Supabase items
-    supabaseHistory.forEach(item => merged.push(item));
-    
-    // Add local items that don't exist in Supabase
-    localHistory.forEach(item => {
-      if (!supabaseMap.has(item.id)) {
-        merged.push(item);
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return localHistory;
+    }
+    const accessToken = session.access_token;
+    const remoteItems = await fetchInspectionRecords(accessToken);
+
+    const history: HistoryItem[] = [];
+    const matchedServerIds = new Set<string>(deletedServerIds);
+    for (const local of localHistory) {
+      const remote = remoteItems.find(item => isSameInspection(local, item))
+        ?? findLegacyServerCopy(local, remoteItems, matchedServerIds);
+      if (remote) matchedServerIds.add(remote.serverId!);
+      const synced = await syncHistoryItem(accessToken, local, remote);
+      if (synced) history.push(synced);
+    }
+
+    // Inspections created on other devices
+    remoteItems.forEach(remote => {
+      if (!matchedServerIds.has(remote.serverId!)) {
+        history.push(adoptRemoteItem(undefined, remote));
       }
     });
-    
+
     // Sort by creation date (newest first)
-    merged.sort((a, b) => b.createdAt - a.createdAt);
-    
-    return merged;
+    history.sort((a, b) => b.createdAt - a.createdAt);
+
+    return history;
   } catch (error) {
     console.error('Error syncing history:', error);
-    // Return local history if sync fails
+    // Keep local history if sync fails
     return localHistory;
   }
 }
 
+/**
+ * Server copy of an item saved before sync metadata existed (no version on the
+ * local item, no client_id on the server row)
+ */
+function findLegacyServerCopy(
+  local: HistoryItem,
+  remoteItems: HistoryItem[],
+  matchedServerIds: Set<string>
+): HistoryItem | undefined {
+  if (local.version !== undefined) return undefined;
+  return remoteItems.find(remote =>
+    remote.id === remote.serverId &&
+    !matchedServerIds.has(remote.serverId!) &&
+    Math.abs(remote.createdAt - local.createdAt) < LEGACY_MATCH_WINDOW_MS
+  );
+}
+
+/**
+ * Sync one local item against its server copy (if any).
+ * Returns the same object when nothing changed, null when the item is no longer on the server.
+ */
+async function syncHistoryItem(
+  accessToken: string,
+  local: HistoryItem,
+  remote: HistoryItem | undefined
+): Promise<HistoryItem | null> {
+  if (remote && local.version === undefined) {
+    // First sync of a legacy item that is already on the server - link it
+    local = { ...local, serverId: remote.serverId, version: remote.version, syncedAt: local.updatedAt ?? local.createdAt };
+  }
+  if (remote) {
+    // Photos an older web build lost locally come back from the server copy
+    local = restorePlaceholderPhotos(local, remote);
+  }
+  const localChanged = hasLocalChanges(local);
+
+  if (!remote) {
+    if (local.version && !localChanged) {
+      return null; // Uploaded before and no longer on the server - removed there
+    }
+    // Never uploaded (or removed from the server after local edits) - upload as new
+    return await insertHistoryItem(accessToken, { ...local, serverId: undefined, version: 0 }) ?? local;
+  }
+
+  const remoteChanged = (remote.version ?? 1) > (local.version ?? 0);
+  if (!remoteChanged) {
+    return local;
+  }
+  // Local edits are kept on this device, merged with the newer server copy
+  return localChanged ? mergeHistoryItems(local, remote) : adoptRemoteItem(local, remote);
+}
+
+/**
+ * Upload a new inspection. Returns null when it could not be uploaded.
+ */
+async function insertHistoryItem(accessToken: string, item: HistoryItem): Promise<HistoryItem | null> {
+  if (!isPhotoAvailable(item.mainPhoto) || !item.sectionPhotos.every(photo => isPhotoAvailable(photo.photoUri))) {
+    console.warn('Skipping upload of inspection with unavailable photos:', item.id);
+    return null;
+  }
+
+  const result = await storeInspectionToSupabase({
+    mainPhoto: await inlineLocalPhoto(item.mainPhoto),
+    sectionPhotos: await Promise.all(item.sectionPhotos.map(async photo => ({
+      ...photo,
+      photoUri: await inlineLocalPhoto(photo.photoUri),
+    }))),
+    allDamageNotes: item.allDamageNotes,
+    expectedReturnDate: item.expectedReturnDate,
+    expectedReturnDateText: item.expectedReturnDateText,
+    afterMainPhoto: item.afterMainPhoto ? await inlineLocalPhoto(item.afterMainPhoto) : undefined,
+    afterSectionPhotos: item.afterSectionPhotos
+      ? await Promise.all(item.afterSectionPhotos.map(async photo => ({
+        ...photo,
+        photoUri: await inlineLocalPhoto(photo.photoUri),
+      })))
+      : undefined,
+    afterCreatedAt: item.afterCreatedAt,
+    afterDateText: item.afterDateText,
+    isReturned: item.isReturned,
+    returnComparison: item.returnComparison,
+    mainPhotoEvidence: item.mainPhotoEvidence,
+    afterMainPhotoEvidence: item.afterMainPhotoEvidence,
+    evidenceManifest: item.evidenceManifest,
+    afterEvidenceManifest: item.afterEvidenceManifest,
+    vehicleIdentity: item.vehicleIdentity,
+    pickupReadings: item.pickupReadings,
+    returnIdentity: item.returnIdentity,
+    returnReadings: item.returnReadings,
+    rentalAgreement: item.rentalAgreement,
+    walkAroundPlan: item.walkAroundPlan,
+    walkAroundVideo: item.walkAroundVideo,
+    afterWalkAroundVideo: item.afterWalkAroundVideo,
+    dispute: item.dispute,
+    clientId: item.id,
+    updatedAt: item.updatedAt ?? item.createdAt,
+    fieldUpdatedAt: item.fieldUpdatedAt,
+  });
+
+  if (!result.success || !result.inspectionId) {
+    console.error('Failed to upload inspection:', result.error);
+    return null;
+  }
+
+  console.log('Inspection uploaded to Supabase:', result.inspectionId);
+  return {
+    ...item,
+    serverId: result.inspectionId,
+    version: result.version ?? 1,
+    syncedAt: item.updatedAt ?? item.createdAt,
+  };
+}
+
 /**
  * Manage user subscription
  * 
@@ -376,24 +520,3 @@ export async function validateAuth(): Promise<{
     };
   }
 }
-
-/**
- * Format date for display
- */
-function formatDateText(date: Date): string {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const months = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-  
-  const dayName = days[date.getDay()];
-  const month = months[date.getMonth()];
-  const day = date.getDate();
-  const year = date.getFullYear();
-  const hours = date.getHours().toString().padStart(2, '0');
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  
-  return `${dayName}, ${month} ${day}, ${year}, ${hours}:${minutes}`;
-}
-
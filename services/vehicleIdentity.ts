@@ -0,0 +1,96 @@
+/**
+ * Vehicle identity extraction
+ *
+ * Reads the license plate, VIN, odometer and fuel level from the guided
+ * identity photos (lib/vehicleIdentity.ts). The values are suggestions -
+ * the capture screen shows them for the user to confirm or correct, and
+ * lets them be typed in when the photo cannot be read or there is no
+ * connection.
+ */
+
+import { IdentityExtractionResult, IdentityExtractionSchema, analyzeStructured } from '@/services/analysis';
+import {
+  IdentityPhotoKind,
+  VehicleIdentity,
+  VehicleReadings,
+  isValidVin,
+  normalizeVin,
+} from '@/lib/vehicleIdentity';
+
+const STEP_INSTRUCTIONS: Record<IdentityPhotoKind, string> = {
+  licensePlate: `This photo shows the license plate of a rental car.
+Read the plate number exactly as printed, including letters, digits and separators (spaces or dashes).
+If the car body is visible, also give its make, model and color; otherwise use null for those.`,
+  vin: `This photo shows the VIN (vehicle identification number) of a rental car, on the plate behind the windshield or the door frame sticker.
+Read the 17-character VIN. VINs never contain the letters I, O or Q - read those as 1, 0 and 0.`,
+  dashboard: `This photo shows the instrument cluster of a rental car.
+Read the total odometer (not the trip meter) and its unit ("km" or "mi").
+Read the fuel gauge as a fraction of a full tank from 0 to 1 (e.g. 0.75 for three quarters). For an electric car use the battery charge level.`,
+};
+
+const IDENTITY_PROMPT = (kind: IdentityPhotoKind) => `You are a vehicle inspection assistant.
+
+${STEP_INSTRUCTIONS[kind]}
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "isReadable": true or false,
+  "licensePlate": "plate number" or null,
+  "vin": "17-character VIN" or null,
+  "make": "manufacturer" or null,
+  "model": "model name" or null,
+  "color": "body color" or null,
+  "odometer": number or null,
+  "odometerUnit": "km" | "mi" | null,
+  "fuelLevel": 0.0 to 1.0 or null
+}
+
+Only fill in the fields for what this photo is meant to show and use null for everything else.
+Never guess: use null for any value you cannot read with confidence. Set "isReadable" to false when the photo does not show what was asked for or is too blurry to read.`;
+
+export interface IdentityReading {
+  isReadable: boolean;
+  identity: VehicleIdentity;
+  readings: VehicleReadings;
+}
+
+function toReading(kind: IdentityPhotoKind, result: IdentityExtractionResult): IdentityReading {
+  switch (kind) {
+    case 'licensePlate':
+      return {
+        isReadable: result.isReadable && !!result.licensePlate,
+        identity: { licensePlate: result.licensePlate, make: result.make, model: result.model, color: result.color },
+        readings: {},
+      };
+    case 'vin': {
+      // A misread VIN is worse than none - the user can still type it in
+      const vin = result.vin && isValidVin(result.vin) ? normalizeVin(result.vin) : undefined;
+      return { isReadable: result.isReadable && !!vin, identity: { vin }, readings: {} };
+    }
+    case 'dashboard':
+      return {
+        isReadable: result.isReadable && (result.odometer !== undefined || result.fuelLevel !== undefined),
+        identity: {},
+        readings: { odometer: result.odometer, odometerUnit: result.odometerUnit, fuelLevel: result.fuelLevel },
+      };
+  }
+}
+
+/**
+ * Read the values shown on one identity photo
+ *
+ * @throws AnalysisError
+ */
+export async function readIdentityPhoto(
+  kind: IdentityPhotoKind,
+  photoBase64: string,
+  photoMime: string
+): Promise<IdentityReading> {
+  const result = await analyzeStructured({
+    promptText: IDENTITY_PROMPT(kind),
+    imageBase64: photoBase64,
+    imageMime: photoMime,
+  }, IdentityExtractionSchema);
+
+  return toReading(kind, result);
+}
@@ -0,0 +1,120 @@
+/**
+ * Evidence verification service
+ *
+ * Checks a verification code, a photo or an inspection report PDF against the
+ * manifests registered with the backend (GET /api/rental-car/verify/...).
+ * The lookups are public, so this works without signing in.
+ */
+
+import { getApiBaseUrl } from '@/lib/apiBaseUrl';
+import { PublishedEvidencePhoto, PublishedEvidenceRecord, sha256Hex } from '@/lib/evidence';
+import { readReportEvidence } from '@/lib/pdf/reportEvidence';
+import { detectImageMime } from '@/lib/pdf/layout';
+import { loadFileBytes } from '@/services/photos';
+
+export interface VerificationFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export interface VerifiedPhotoMatch {
+  record: PublishedEvidenceRecord;
+  photo: PublishedEvidencePhoto;
+}
+
+export interface FileVerification {
+  fileType: 'photo' | 'pdf';
+  records: PublishedEvidenceRecord[];
+  matches: VerifiedPhotoMatch[];
+  photosChecked: number; // Photos hashed from the file (1 for a photo)
+  unknownCodes: string[]; // Codes that are not registered
+}
+
+async function getJson(path: string): Promise<any | null> {
+  const response = await fetch(`${getApiBaseUrl()}${path}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `HTTP error: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Registered manifest for a verification code, or null when the code is unknown
+ */
+export async function fetchEvidenceRecord(code: string): Promise<PublishedEvidenceRecord | null> {
+  return getJson(`/api/rental-car/verify/${encodeURIComponent(code.trim())}`);
+}
+
+/**
+ * Registered manifests that contain a photo with the given SHA-256
+ */
+export async function fetchEvidenceRecordsForPhoto(photoSha256: string): Promise<PublishedEvidenceRecord[]> {
+  const data = await getJson(`/api/rental-car/verify/photo/${photoSha256}`);
+  return data?.records || [];
+}
+
+function findMatches(records: PublishedEvidenceRecord[], hashes: string[]): VerifiedPhotoMatch[] {
+  const wanted = new Set(hashes);
+  const matches: VerifiedPhotoMatch[] = [];
+  records.forEach(record => {
+    record.photos.forEach(photo => {
+      if (wanted.has(photo.sha256)) matches.push({ record, photo });
+    });
+  });
+  return matches;
+}
+
+/**
+ * Check an uploaded photo or report PDF. `code` is optional: reports carry
+ * their own codes and photos are also looked up by hash.
+ */
+export async function verifyFile(file: VerificationFile, code?: string): Promise<FileVerification> {
+  const bytes = await loadFileBytes(file.uri);
+  if (!bytes) {
+    throw new Error('Could not read the file');
+  }
+
+  const isPdf = file.mimeType === 'application/pdf' || /\.pdf$/i.test(file.name);
+  if (!isPdf && !detectImageMime(bytes)) {
+    throw new Error('Upload a JPEG or PNG photo, or an inspection report PDF');
+  }
+
+  const codes = new Set<string>();
+  if (code?.trim()) codes.add(code.trim());
+
+  let hashes: string[];
+  if (isPdf) {
+    const report = await readReportEvidence(bytes);
+    report.verificationCodes.forEach(reportCode => codes.add(reportCode));
+    hashes = report.imageHashes;
+  } else {
+    hashes = [sha256Hex(bytes)];
+  }
+
+  const records = new Map<string, PublishedEvidenceRecord>();
+  const unknownCodes: string[] = [];
+  for (const lookupCode of codes) {
+    const record = await fetchEvidenceRecord(lookupCode);
+    if (record) {
+      records.set(record.verificationCode, record);
+    } else {
+      unknownCodes.push(lookupCode);
+    }
+  }
+  // A lone photo can be found without a code
+  if (!isPdf && records.size === 0) {
+    (await fetchEvidenceRecordsForPhoto(hashes[0])).forEach(record => records.set(record.verificationCode, record));
+  }
+
+  const recordList = [...records.values()];
+  return {
+    fileType: isPdf ? 'pdf' : 'photo',
+    records: recordList,
+    matches: findMatches(recordList, hashes),
+    photosChecked: hashes.length,
+    unknownCodes,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Video walk-around service
+ *
+ * Samples frames from a recorded walk-around video, scores them with the
+ * capture quality check, optionally has the vision model name the section
+ * each frame shows, and keeps the recording in the document directory as
+ * evidence (see lib/videoWalkAround.ts).
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { Platform } from 'react-native';
+import { bytesToBase64 } from '@/lib/base64';
+import { detectImageMime } from '@/lib/pdf/layout';
+import { MIN_QUALITY_SCORE } from '@/lib/photoQuality';
+import { checkPhotoQuality } from '@/services/photoQuality';
+import { FrameCandidate, WalkAroundVideo, candidateFrameTimes } from '@/lib/videoWalkAround';
+import { AnalysisError, FrameSectionSchema, analyzeStructured } from '@/services/analysis';
+import { loadFileBytes } from '@/services/photos';
+
+const VIDEO_DIRECTORY = 'walkaround_videos/';
+
+export interface ExtractedFrame extends FrameCandidate {
+  dataUri: string;
+  mimeType: string;
+  base64: string;
+}
+
+const FRAME_SECTION_PROMPT = (sections: string[]) => `You are a vehicle inspection assistant. This is a frame from a video of someone walking around a rental vehicle.
+
+Which ONE of these sections of the vehicle does the frame mainly show?
+${sections.map(section => `- "${section}"`).join('\n')}
+
+Return your response in JSON format:
+{
+  "section": one of the section names above, exactly as written, or null
+}
+
+Use null if the frame is blurry, shows no part of the vehicle, or shows none of the listed sections clearly.
+
+IMPORTANT: Return ONLY the JSON object, no markdown, no code blocks, no additional text.`;
+
+/**
+ * Sample frames from the video and score them. Frames that cannot be
+ * extracted are skipped.
+ */
+export async function extractFrames(
+  videoUri: string,
+  durationMs: number,
+  sectionCount: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<ExtractedFrame[]> {
+  const times = candidateFrameTimes(durationMs, sectionCount);
+  const frames: ExtractedFrame[] = [];
+
+  // One at a time: every frame is a full-size image
+  for (const [index, timeMs] of times.entries()) {
+    try {
+      const thumbnail = await VideoThumbnails.getThumbnailAsync(videoUri, { time: timeMs, quality: 0.8 });
+      const bytes = await loadFileBytes(thumbnail.uri);
+      // Frames that cannot be checked count as just passing
+      const score = bytes ? (await checkPhotoQuality(thumbnail.uri, 0))?.score ?? MIN_QUALITY_SCORE : 0;
+      if (Platform.OS !== 'web') {
+        await FileSystem.deleteAsync(thumbnail.uri, { idempotent: true }).catch(() => undefined);
+      }
+      if (bytes) {
+        const mimeType = detectImageMime(bytes) ?? 'image/jpeg';
+        const base64 = bytesToBase64(bytes);
+        frames.push({ timeMs, score, mimeType, base64, dataUri: `data:${mimeType};base64,${base64}` });
+      }
+    } catch (error) {
+      console.warn(`Could not extract video frame at ${timeMs} ms:`, error);
+    }
+    onProgress?.(index + 1, times.length);
+  }
+  return frames;
+}
+
+/**
+ * Have the vision model name the section each frame shows. Blurry frames
+ * are not sent; frames the model cannot place keep no section.
+ *
+ * @throws AnalysisError when the model cannot be reached
+ */
+export async function identifyFrameSections(
+  frames: ExtractedFrame[],
+  sections: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ExtractedFrame[]> {
+  const labelled: ExtractedFrame[] = [];
+  for (const [index, frame] of frames.entries()) {
+    let section: string | undefined;
+    if (frame.score >= MIN_QUALITY_SCORE) {
+      try {
+        const result = await analyzeStructured({
+          promptText: FRAME_SECTION_PROMPT(sections),
+          imageBase64: frame.base64,
+          imageMime: frame.mimeType,
+        }, FrameSectionSchema);
+        const name = result.section?.trim().toLowerCase();
+        section = sections.find(s => s.toLowerCase() === name);
+      } catch (error) {
+        if (error instanceof AnalysisError && error.code === 'request_failed') throw error;
+        console.warn(`Could not identify the section of the frame at ${frame.timeMs} ms:`, error);
+      }
+    }
+    labelled.push({ ...frame, section });
+    onProgress?.(index + 1, frames.length);
+  }
+  return labelled;
+}
+
+/**
+ * Move the recording into the document directory (it would otherwise be
+ * cleared with the cache) and fingerprint it. On web the recording stays
+ * where it is.
+ */
+export async function keepWalkAroundVideo(
+  videoUri: string,
+  recordedAt: number,
+  durationMs: number
+): Promise<Pick<WalkAroundVideo, 'uri' | 'md5' | 'sizeBytes' | 'recordedAt' | 'durationMs'>> {
+  const documentDir = FileSystem.documentDirectory;
+  if (Platform.OS === 'web' || !documentDir) {
+    return { uri: videoUri, recordedAt, durationMs };
+  }
+
+  const directory = `${documentDir}${VIDEO_DIRECTORY}`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => undefined);
+  const extension = videoUri.match(/\.(\w+)$/)?.[1] ?? 'mp4';
+  const fileUri = `${directory}walkaround_${recordedAt}.${extension}`;
+  await FileSystem.copyAsync({ from: videoUri, to: fileUri });
+
+  // Hashed natively - the file is too large to read into memory
+  const info = await FileSystem.getInfoAsync(fileUri, { md5: true });
+  return {
+    uri: fileUri,
+    md5: info.exists ? info.md5 : undefined,
+    sizeBytes: info.exists ? info.size : undefined,
+    recordedAt,
+    durationMs,
+  };
+}
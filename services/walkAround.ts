@@ -0,0 +1,43 @@
+/**
+ * Vehicle type detection
+ *
+ * Checks that the first photo shows a vehicle and picks the section
+ * template that fits it (lib/walkAround.ts). The model chooses from the
+ * fixed list of vehicle types instead of naming sections itself, so the
+ * walk-around does not change from run to run.
+ */
+
+import { VehicleTypeResult, VehicleTypeSchema, analyzeStructured } from '@/services/analysis';
+import { SECTION_TEMPLATES, VEHICLE_TYPES } from '@/lib/walkAround';
+
+const VEHICLE_TYPE_PROMPT = `You are a vehicle inspection assistant. Analyze this photo to determine if it shows a rental vehicle and which kind of vehicle it is.
+
+Vehicle types:
+${VEHICLE_TYPES.map(type => `- "${type}": ${SECTION_TEMPLATES[type].description}`).join('\n')}
+
+IMPORTANT: You MUST return a valid JSON object in this exact format:
+{
+  "isVehicle": true or false,
+  "vehicleType": ${VEHICLE_TYPES.map(type => `"${type}"`).join(' | ')} or null
+}
+
+Rules:
+1. If the image does NOT show a vehicle (e.g., shows a person, animal, landscape, or other non-vehicle object), set "isVehicle" to false and "vehicleType" to null.
+2. If the image DOES show a vehicle, set "isVehicle" to true and choose the one vehicle type that fits best.
+3. Choose "ev" only when the car is clearly fully electric (charge port flap, EV badging, no exhaust, or a known electric-only model).
+4. Return ONLY the JSON object, no markdown, no code blocks, no additional text.
+
+Example for a vehicle:
+{"isVehicle": true, "vehicleType": "suv"}
+
+Example for non-vehicle:
+{"isVehicle": false, "vehicleType": null}`;
+
+/**
+ * Whether the photo shows a vehicle, and its type
+ *
+ * @throws AnalysisError
+ */
+export async function identifyVehicleType(imageBase64: string, imageMime: string): Promise<VehicleTypeResult> {
+  return analyzeStructured({ promptText: VEHICLE_TYPE_PROMPT, imageBase64, imageMime }, VehicleTypeSchema);
+}
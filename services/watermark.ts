@@ -0,0 +1,251 @@
+/**
+ * Photo watermark service
+ *
+ * Keeps a stamped copy (lib/watermark.ts) next to every inspection photo.
+ * The photos on the HistoryItem stay the originals: they are what the
+ * evidence hashes, the PDF report and the sync use. Stamped copies are
+ * derived, kept on this device only and re-created from the original when
+ * missing:
+ * - native: JPEG files under <documents>/stamped/<inspectionId>/
+ * - web: blobs in the photo blob store (services/photoBlobs.ts), removed
+ *   together with the inspection's photos
+ *
+ * The backend renders the stamp (sharp), so it looks the same on every
+ * platform. Photos are stamped by the history sync, a few per run, once the
+ * backend is reachable.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { getApiBaseUrl } from '@/lib/apiBaseUrl';
+import { EvidenceLocation, PhotoEvidence, sha256Hex } from '@/lib/evidence';
+import type { StoredPhotoKind } from '@/lib/historyRecords';
+import { isPhotoPlaceholder, photoBlobRef, stampedPhotoBlobKey } from '@/lib/photoRefs';
+import { watermarkLines } from '@/lib/watermark';
+import { loadPhotoBase64 } from '@/services/photos';
+import { loadPhotoBlob, storePhotoBlob } from '@/services/photoBlobs';
+import type { HistoryItem } from '@/contexts/HistoryContext';
+
+// Keeps each sync run short; the rest are stamped on later runs
+const MAX_STAMPS_PER_RUN = 8;
+
+const STAMPED_DIRECTORY = 'stamped/';
+
+/**
+ * A photo of an inspection together with what its stamp shows
+ */
+export interface StampablePhoto {
+  inspectionId: string;
+  kind: StoredPhotoKind;
+  section: string; // Section name, "main" for main photos
+  label: string;
+  photoUri: string; // The original
+  capturedAt: number;
+  utcOffsetMinutes?: number; // Absent for photos captured before the offset was recorded
+  location?: EvidenceLocation;
+  source: string; // Identifies the original, see stampedPhotoBlobKey
+}
+
+function stampable(
+  item: HistoryItem,
+  kind: StoredPhotoKind,
+  section: string,
+  label: string,
+  photoUri: string,
+  evidence: PhotoEvidence | undefined,
+  fallbackTime: number
+): StampablePhoto {
+  return {
+    inspectionId: item.id,
+    kind,
+    section,
+    label,
+    photoUri,
+    // Photos captured before evidence was recorded carry the inspection time
+    capturedAt: evidence?.capturedAt ?? fallbackTime,
+    utcOffsetMinutes: evidence?.utcOffsetMinutes,
+    location: evidence?.location,
+    source: (evidence?.sha256 ?? sha256Hex(photoUri)).substring(0, 16),
+  };
+}
+
+/**
+ * All photos of an inspection, pickup first, in display order
+ */
+export function stampablePhotos(item: HistoryItem): StampablePhoto[] {
+  const photos: StampablePhoto[] = [];
+  const returnTime = item.afterCreatedAt ?? item.createdAt;
+  if (item.mainPhoto) {
+    photos.push(stampable(item, 'main', 'main', 'Main photo', item.mainPhoto, item.mainPhotoEvidence, item.createdAt));
+  }
+  item.sectionPhotos.forEach(photo => {
+    photos.push(stampable(item, 'section', photo.section, photo.section, photo.photoUri, photo.evidence, item.createdAt));
+  });
+  if (item.afterMainPhoto) {
+    photos.push(stampable(item, 'afterMain', 'main', 'Main photo (return)', item.afterMainPhoto, item.afterMainPhotoEvidence, returnTime));
+  }
+  (item.afterSectionPhotos || []).forEach(photo => {
+    photos.push(stampable(item, 'afterSection', photo.section, `${photo.section} (return)`, photo.photoUri, photo.evidence, returnTime));
+  });
+  return photos;
+}
+
+function inspectionDirectory(inspectionId: string): string | null {
+  const documentDir = FileSystem.documentDirectory;
+  return documentDir ? `${documentDir}${STAMPED_DIRECTORY}${inspectionId.replace(/[^\w-]/g, '_')}/` : null;
+}
+
+// File URI (native) or blob reference (web) of the stamped copy
+function stampedLocation(photo: StampablePhoto): string | null {
+  if (Platform.OS === 'web') {
+    return photoBlobRef(stampedPhotoBlobKey(photo.inspectionId, photo.kind, photo.section, photo.source));
+  }
+  const directory = inspectionDirectory(photo.inspectionId);
+  return directory ? `${directory}${photo.kind}_${photo.section.replace(/[^\w-]/g, '_')}_${photo.source}.jpg` : null;
+}
+
+// Stamped copies known to exist, so the sync does not check storage every run
+const knownStamped = new Set<string>();
+// Originals that could not be loaded this session (e.g. missing remote photos)
+const unavailable = new Set<string>();
+
+const listeners = new Set<() => void>();
+
+/**
+ * Get notified when new stamped copies are stored. Returns an unsubscribe function.
+ */
+export function subscribeToStampedPhotos(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * URI of the stamped copy of a photo, or null when there is none yet
+ */
+export async function findStampedPhoto(photo: StampablePhoto): Promise<string | null> {
+  const location = stampedLocation(photo);
+  if (!location) return null;
+  if (knownStamped.has(location)) return location;
+
+  const exists = Platform.OS === 'web'
+    ? !!(await loadPhotoBlob(location))
+    : (await FileSystem.getInfoAsync(location)).exists;
+  if (exists) knownStamped.add(location);
+  return exists ? location : null;
+}
+
+/**
+ * Have the backend stamp a photo and store the stamped copy.
+ * Throws when the backend cannot be reached.
+ */
+async function stampPhoto(photo: StampablePhoto): Promise<void> {
+  const location = stampedLocation(photo);
+  const original = location ? await loadPhotoBase64(photo.photoUri) : null;
+  if (!location || !original) {
+    unavailable.add(photo.photoUri);
+    return;
+  }
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${getApiBaseUrl()}/api/rental-car/watermark`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      photo: `data:${original.mimeType};base64,${original.base64}`,
+      lines: watermarkLines({
+        capturedAt: photo.capturedAt,
+        // Older evidence has no offset; this device's is the best guess for those
+        utcOffsetMinutes: photo.utcOffsetMinutes ?? -new Date(photo.capturedAt).getTimezoneOffset(),
+        label: photo.label,
+        inspectionId: photo.inspectionId,
+        location: photo.location,
+      }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `HTTP error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (typeof data.photo !== 'string') {
+    throw new Error('No stamped photo in response');
+  }
+
+  if (Platform.OS === 'web') {
+    await storePhotoBlob(stampedPhotoBlobKey(photo.inspectionId, photo.kind, photo.section, photo.source), data.photo);
+  } else {
+    await FileSystem.makeDirectoryAsync(inspectionDirectory(photo.inspectionId)!, { intermediates: true });
+    await FileSystem.writeAsStringAsync(location, data.photo.substring(data.photo.indexOf(',') + 1), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+  knownStamped.add(location);
+}
+
+/**
+ * Stamp photos that have no stamped copy yet (a few per call).
+ * Returns the number of photos stamped.
+ */
+export async function stampPendingPhotos(items: HistoryItem[]): Promise<number> {
+  let stamped = 0;
+  try {
+    for (const item of items) {
+      for (const photo of stampablePhotos(item)) {
+        if (stamped >= MAX_STAMPS_PER_RUN) return stamped;
+        if (isPhotoPlaceholder(photo.photoUri) || unavailable.has(photo.photoUri)) continue;
+        if (await findStampedPhoto(photo)) continue;
+        await stampPhoto(photo);
+        if (!unavailable.has(photo.photoUri)) stamped++;
+      }
+    }
+  } catch (error) {
+    console.log('Photos not stamped yet:', error);
+  } finally {
+    if (stamped > 0) listeners.forEach(listener => listener());
+  }
+  return stamped;
+}
+
+/**
+ * Delete the stamped copies of removed inspections. On web they are
+ * deleted with the inspection's photo blobs.
+ */
+export async function deleteStampedPhotos(inspectionIds: string[]): Promise<void> {
+  if (Platform.OS === 'web') return;
+  for (const inspectionId of inspectionIds) {
+    const directory = inspectionDirectory(inspectionId);
+    if (directory) await FileSystem.deleteAsync(directory, { idempotent: true });
+  }
+}
+
+/**
+ * Delete stamped copies of inspections that no longer exist (native; web
+ * blobs are collected with the other photo blobs). Only call this when
+ * `liveInspectionIds` is complete. Returns the number of inspections cleaned up.
+ */
+export async function collectStampedPhotoGarbage(liveInspectionIds: string[]): Promise<number> {
+  const documentDir = FileSystem.documentDirectory;
+  if (Platform.OS === 'web' || !documentDir) return 0;
+
+  const root = `${documentDir}${STAMPED_DIRECTORY}`;
+  if (!(await FileSystem.getInfoAsync(root)).exists) return 0;
+
+  const live = new Set(liveInspectionIds.map(id => id.replace(/[^\w-]/g, '_')));
+  const orphaned = (await FileSystem.readDirectoryAsync(root)).filter(name => !live.has(name));
+  for (const name of orphaned) {
+    await FileSystem.deleteAsync(`${root}${name}`, { idempotent: true });
+  }
+  return orphaned.length;
+}